@@ -25,5 +25,21 @@ export class KeepKeyApi implements ICredentialType {
 			required: true,
 			description: 'Base URL for the ShapeShift API',
 		},
+		{
+			displayName: 'PIN',
+			name: 'pin',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Device PIN, entered when the device asks for it. Give the positions on the device matrix, or the digits together with the PIN Matrix node parameter.',
+		},
+		{
+			displayName: 'Passphrase',
+			name: 'passphrase',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Passphrase of the hidden wallet, entered when the device asks for it',
+		},
 	];
 }
\ No newline at end of file
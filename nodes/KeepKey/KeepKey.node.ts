@@ -6,82 +6,47 @@
  */
 
 import {
+  ICredentialDataDecryptedObject,
   IExecuteFunctions,
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
+  NodeConnectionType,
   NodeOperationError,
-  IDataObject,
 } from 'n8n-workflow';
 
-import { KeepKeyClient, TransportConfig } from './transport';
 import {
-  BITCOIN_LIKE_COINS,
-  EVM_CHAINS,
-  COSMOS_CHAINS,
-} from './constants/coins';
-import { getDerivationPath, pathArrayToString } from './constants/derivationPaths';
+  InteractionProviders,
+  KeepKeyClient,
+  KeepKeyDeviceError,
+  TransportConfig,
+} from './transport';
+import { CONNECTION_TYPES } from './constants/usbIds';
+import { encodePin, isValidPin } from './utils/pinUtils';
 import {
-  isValidBitcoinAddress,
-  isValidEthereumAddress,
-  isValidCosmosAddress,
-  isValidThorchainAddress,
-  validateAddressForCoin,
-} from './utils/addressUtils';
-import {
-  satoshisToBtc,
-  btcToSatoshis,
-  weiToEth,
-  ethToWei,
-  gweiToWei,
-  getExplorerUrl,
-} from './utils/transactionUtils';
-import { encodePin, isValidPin, getPinMatrixTypeDescription } from './utils/pinUtils';
-import {
-  applySlippage,
-  createThorchainSwapMemo,
-  validateSwapParams,
-} from './utils/swapUtils';
-import { MESSAGE_TYPES } from './constants/events';
-
-// Helper function to convert path string to array
-function pathToArray(path: string): number[] {
-  return path
-    .replace('m/', '')
-    .split('/')
-    .map((part) => {
-      const hardened = part.endsWith("'") || part.endsWith('h');
-      const value = parseInt(part.replace(/['h]/g, ''), 10);
-      return hardened ? value + 0x80000000 : value;
-    });
-}
-
-// Helper function for Bitcoin script types
-function addressTypeToScriptType(addressType: string): string {
-  const mapping: Record<string, string> = {
-    legacy: 'SPENDADDRESS',
-    segwit: 'SPENDWITNESS',
-    'nested-segwit': 'SPENDP2SHWITNESS',
-    taproot: 'SPENDTAPROOT',
-  };
-  return mapping[addressType] || 'SPENDADDRESS';
-}
-
-// Helper function to build ERC-20 transfer data
-function buildErc20TransferData(to: string, amount: string): string {
-  const methodId = '0xa9059cbb';
-  const paddedTo = to.toLowerCase().replace('0x', '').padStart(64, '0');
-  const paddedAmount = BigInt(amount).toString(16).padStart(64, '0');
-  return methodId + paddedTo + paddedAmount;
-}
-
-// Helper function to build ERC-20 approve data
-function buildErc20ApproveData(spender: string, amount: string): string {
-  const methodId = '0x095ea7b3';
-  const paddedSpender = spender.toLowerCase().replace('0x', '').padStart(64, '0');
-  const paddedAmount = BigInt(amount).toString(16).padStart(64, '0');
-  return methodId + paddedSpender + paddedAmount;
-}
+  executeAccountOperation,
+  executeAddressOperation,
+  executeAssetOperation,
+  executeBitcoinOperation,
+  executeCosmosOperation,
+  executeDeviceOperation,
+  executeEthereumOperation,
+  executeExchangeOperation,
+  executeFirmwareOperation,
+  executePassphraseOperation,
+  executePinOperation,
+  executeRecoveryOperation,
+  executeSecurityOperation,
+  executeSigningOperation,
+  executeTransactionOperation,
+  executeUtilityOperation,
+  executeWalletOperation,
+  deviceFailureError,
+  isBinaryResult,
+  OperationContext,
+  OperationHandler,
+  unsupportedOperation,
+} from './operations';
 
 // Resource definitions
 const resources = [
@@ -160,6 +125,8 @@ const accountOperations = [
   { name: 'Get Receive Address', value: 'getReceiveAddress', description: 'Get next receive address' },
   { name: 'Get Change Address', value: 'getChangeAddress', description: 'Get next change address' },
   { name: 'Export Accounts', value: 'exportAccounts', description: 'Export account info' },
+  { name: 'Discover Accounts', value: 'discoverAccounts', description: 'Find used accounts and their balances, one output item per account' },
+  { name: 'Import Descriptor', value: 'importDescriptor', description: 'Derive an address from an output descriptor' },
 ];
 
 const bitcoinOperations = [
@@ -193,13 +160,15 @@ const ethereumOperations = [
   { name: 'Sign Message', value: 'signMessage', description: 'Sign message (personal_sign)' },
   { name: 'Sign Typed Data', value: 'signTypedData', description: 'Sign EIP-712 typed data' },
   { name: 'Get Balance', value: 'getBalance', description: 'Get ETH balance' },
-  { name: 'Get Nonce', value: 'getNonce', description: 'Get account nonce' },
+  { name: 'Get Nonce', value: 'getNonce', description: 'Get the next nonce free for the account' },
   { name: 'Estimate Gas', value: 'estimateGas', description: 'Estimate gas for transaction' },
   { name: 'Get Gas Price', value: 'getGasPrice', description: 'Get current gas price' },
   { name: 'Send Transaction', value: 'sendTransaction', description: 'Sign and broadcast transaction' },
   { name: 'Call Contract', value: 'callContract', description: 'Call contract method (read)' },
   { name: 'Get Transaction', value: 'getTransaction', description: 'Get transaction details' },
-  { name: 'Get Transaction Receipt', value: 'getTransactionReceipt', description: 'Get transaction receipt' },
+  { name: 'Get Transaction Receipt', value: 'getTransactionReceipt', description: 'Get transaction receipt, or why a pending transaction is stuck' },
+  { name: 'Speed Up Transaction', value: 'speedUpTransaction', description: 'Resend a pending transaction with higher fees' },
+  { name: 'Cancel Transaction', value: 'cancelTransaction', description: 'Replace a pending transaction with an empty one to yourself' },
   { name: 'Verify Message', value: 'verifyMessage', description: 'Verify signed message' },
 ];
 
@@ -210,6 +179,13 @@ const evmChainsOperations = [
   { name: 'Get Balance', value: 'getBalance', description: 'Get native token balance' },
   { name: 'Send Transaction', value: 'sendTransaction', description: 'Sign and broadcast' },
   { name: 'Get Transaction', value: 'getTransaction', description: 'Get transaction details' },
+  { name: 'Estimate Gas', value: 'estimateGas', description: 'Estimate gas for transaction' },
+  { name: 'Get Gas Price', value: 'getGasPrice', description: 'Get current gas price' },
+  { name: 'Call Contract', value: 'callContract', description: 'Call contract method (read)' },
+  { name: 'Get Nonce', value: 'getNonce', description: 'Get the next nonce free for the account' },
+  { name: 'Get Transaction Receipt', value: 'getTransactionReceipt', description: 'Get transaction receipt, or why a pending transaction is stuck' },
+  { name: 'Speed Up Transaction', value: 'speedUpTransaction', description: 'Resend a pending transaction with higher fees' },
+  { name: 'Cancel Transaction', value: 'cancelTransaction', description: 'Replace a pending transaction with an empty one to yourself' },
 ];
 
 const erc20Operations = [
@@ -262,7 +238,9 @@ const transactionOperations = [
   { name: 'Get Details', value: 'getDetails', description: 'Get transaction details' },
   { name: 'Decode', value: 'decode', description: 'Decode raw transaction' },
   { name: 'Get History', value: 'getHistory', description: 'Get transaction history' },
-  { name: 'Cancel', value: 'cancel', description: 'Cancel pending transaction' },
+  { name: 'Cancel', value: 'cancel', description: 'Replace a pending transaction with one paying back to the wallet (RBF)' },
+  { name: 'Bump Fee', value: 'bumpFee', description: 'Replace a pending transaction with a higher fee (RBF)' },
+  { name: 'Child Pays for Parent', value: 'cpfp', description: 'Speed up an incoming payment with a child transaction (CPFP)' },
 ];
 
 // Exchange Operations
@@ -358,7 +336,6 @@ const recoveryOperations = [
 const pinOperations = [
   { name: 'Change PIN', value: 'changePin', description: 'Change device PIN' },
   { name: 'Remove PIN', value: 'removePin', description: 'Remove PIN protection' },
-  { name: 'Enter PIN', value: 'enterPin', description: 'Enter PIN for auth' },
   { name: 'Check PIN Status', value: 'checkPinStatus', description: 'Check if PIN is set' },
   { name: 'Get PIN Matrix', value: 'getPinMatrix', description: 'Get PIN entry matrix' },
   { name: 'Reset PIN Attempts', value: 'resetPinAttempts', description: 'Reset failed attempts' },
@@ -367,9 +344,7 @@ const pinOperations = [
 const passphraseOperations = [
   { name: 'Enable', value: 'enable', description: 'Enable passphrase' },
   { name: 'Disable', value: 'disable', description: 'Disable passphrase' },
-  { name: 'Enter', value: 'enter', description: 'Enter passphrase' },
   { name: 'Check Status', value: 'checkStatus', description: 'Check passphrase status' },
-  { name: 'Set On Device', value: 'setOnDevice', description: 'Enter passphrase on device' },
 ];
 
 const firmwareOperations = [
@@ -403,6 +378,111 @@ const utilityOperations = [
   { name: 'Sign Identity', value: 'signIdentity', description: 'Sign identity challenge' },
 ];
 
+/**
+ * Answer the device's PIN and passphrase requests from the node parameters,
+ * or else from the optional KeepKey API credentials
+ */
+async function getInteractionProviders(this: IExecuteFunctions): Promise<InteractionProviders> {
+  let credentials: ICredentialDataDecryptedObject | undefined;
+  try {
+    credentials = await this.getCredentials<ICredentialDataDecryptedObject>('keepKeyApi');
+  } catch {
+    // Credentials are optional; without a PIN the device must already be unlocked
+  }
+  const pin =
+    (this.getNodeParameter('pin', 0, '') as string) || ((credentials?.pin as string) ?? '');
+  const passphrase =
+    (this.getNodeParameter('passphrase', 0, '') as string) ||
+    ((credentials?.passphrase as string) ?? '');
+  const pinMatrix = this.getNodeParameter('pinMatrix', 0, '') as string;
+
+  const providers: InteractionProviders = {};
+  if (pin) {
+    if (!isValidPin(pin)) {
+      throw new NodeOperationError(
+        this.getNode(),
+        'Invalid PIN format. PIN must be 1-9 digits, each between 1-9.',
+      );
+    }
+    const matrix = pinMatrix
+      ? pinMatrix.split(',').map((digit) => parseInt(digit.trim(), 10))
+      : undefined;
+    providers.pin = (request) => {
+      // Choosing a new PIN needs the device's own screen
+      const type = request.type ?? 'PinMatrixRequestType_Current';
+      if (type !== 'PinMatrixRequestType_Current') {
+        return Promise.reject(
+          new Error('The device asked for a new PIN, which the node cannot choose'),
+        );
+      }
+      return Promise.resolve(encodePin(pin, matrix));
+    };
+  }
+  if (passphrase) {
+    providers.passphrase = () => Promise.resolve(passphrase);
+  }
+  return providers;
+}
+
+/**
+ * Build the client configuration from the connection parameters
+ */
+async function getTransportConfig(this: IExecuteFunctions): Promise<TransportConfig> {
+  const session = {
+    providers: await getInteractionProviders.call(this),
+    keepSession: this.getNodeParameter('keepSession', 0, false) as boolean,
+  };
+  const connectionType = this.getNodeParameter('connectionType', 0) as string;
+  switch (connectionType) {
+    case 'desktop':
+      return {
+        connectionType: CONNECTION_TYPES.KEEPKEY_DESKTOP,
+        desktopUrl: this.getNodeParameter('desktopUrl', 0) as string,
+        ...session,
+      };
+    case 'usb':
+      return {
+        connectionType: CONNECTION_TYPES.USB_HID,
+        devicePath: (this.getNodeParameter('devicePath', 0, '') as string) || undefined,
+        ...session,
+      };
+    default:
+      return {
+        connectionType: CONNECTION_TYPES.KEEPKEY_BRIDGE,
+        bridgeUrl: this.getNodeParameter('bridgeUrl', 0) as string,
+        ...session,
+      };
+  }
+}
+
+// Operation handlers by resource (resources without a handler are rejected per item)
+const OPERATION_HANDLERS: Record<string, OperationHandler> = {
+  device: executeDeviceOperation,
+  wallet: executeWalletOperation,
+  account: executeAccountOperation,
+  bitcoin: executeBitcoinOperation,
+  bitcoinLike: executeBitcoinOperation,
+  ethereum: executeEthereumOperation,
+  evmChains: executeEthereumOperation,
+  erc20: executeEthereumOperation,
+  cosmos: executeCosmosOperation,
+  thorchain: executeCosmosOperation,
+  osmosis: executeCosmosOperation,
+  transaction: executeTransactionOperation,
+  exchange: executeExchangeOperation,
+  asset: executeAssetOperation,
+  address: executeAddressOperation,
+  signing: executeSigningOperation,
+  shapeshift: executeExchangeOperation,
+  swap: executeExchangeOperation,
+  recovery: executeRecoveryOperation,
+  pin: executePinOperation,
+  passphrase: executePassphraseOperation,
+  firmware: executeFirmwareOperation,
+  security: executeSecurityOperation,
+  utility: executeUtilityOperation,
+};
+
 export class KeepKey implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'KeepKey',
@@ -415,13 +495,17 @@ export class KeepKey implements INodeType {
     defaults: {
       name: 'KeepKey',
     },
-    inputs: ['main'],
-    outputs: ['main'],
+    inputs: [NodeConnectionType.Main],
+    outputs: [NodeConnectionType.Main],
     credentials: [
       {
         name: 'keepKeyApi',
         required: false,
       },
+      {
+        name: 'keepKeyNetwork',
+        required: false,
+      },
     ],
     properties: [
       // Connection Type
@@ -432,6 +516,7 @@ export class KeepKey implements INodeType {
         options: [
           { name: 'KeepKey Bridge', value: 'bridge', description: 'Connect via KeepKey Bridge' },
           { name: 'KeepKey Desktop', value: 'desktop', description: 'Connect via KeepKey Desktop' },
+          { name: 'USB (Direct)', value: 'usb', description: 'Connect to a locally attached device via hidraw (Linux)' },
         ],
         default: 'bridge',
         description: 'How to connect to the KeepKey device',
@@ -461,6 +546,51 @@ export class KeepKey implements INodeType {
         },
       },
 
+      {
+        displayName: 'Device Path',
+        name: 'devicePath',
+        type: 'string',
+        default: '',
+        placeholder: '/dev/hidraw0',
+        description: 'Hidraw device node to use (leave empty to use the first KeepKey found)',
+        displayOptions: {
+          show: {
+            connectionType: ['usb'],
+          },
+        },
+      },
+      {
+        displayName: 'PIN',
+        name: 'pin',
+        type: 'string',
+        typeOptions: { password: true },
+        default: '',
+        description: 'PIN to enter when the device asks for it. Overrides the PIN of the KeepKey API credentials. Give its digits with PIN Matrix, or the positions on the device matrix without it.',
+      },
+      {
+        displayName: 'PIN Matrix',
+        name: 'pinMatrix',
+        type: 'string',
+        default: '',
+        placeholder: '7,8,9,4,5,6,1,2,3',
+        description: 'Comma-separated digits of the scrambled matrix shown on the device, top row first, to encode the PIN from its digits',
+      },
+      {
+        displayName: 'Passphrase',
+        name: 'passphrase',
+        type: 'string',
+        typeOptions: { password: true },
+        default: '',
+        description: 'Passphrase to enter when the device asks for it, opening its hidden wallet. Overrides the passphrase of the KeepKey API credentials.',
+      },
+      {
+        displayName: 'Keep Session Unlocked',
+        name: 'keepSession',
+        type: 'boolean',
+        default: false,
+        description: 'Whether to leave the device unlocked when the node finishes, so later executions need neither PIN nor passphrase. Anything that can reach the device may then use it.',
+      },
+
       // Resource Selection
       {
         displayName: 'Resource',
@@ -766,7 +896,18 @@ export class KeepKey implements INodeType {
         type: 'string',
         default: '',
         description: 'Device label/name',
-        displayOptions: { show: { resource: ['device'], operation: ['initializeDevice'] } },
+        displayOptions: {
+          show: {
+            resource: ['device'],
+            operation: [
+              'initializeDevice',
+              'resetDevice',
+              'recoverDevice',
+              'applySettings',
+              'setLabel',
+            ],
+          },
+        },
       },
       {
         displayName: 'Passphrase Protection',
@@ -774,7 +915,12 @@ export class KeepKey implements INodeType {
         type: 'boolean',
         default: false,
         description: 'Enable passphrase protection',
-        displayOptions: { show: { resource: ['device'], operation: ['initializeDevice', 'recoverDevice'] } },
+        displayOptions: {
+          show: {
+            resource: ['device', 'recovery'],
+            operation: ['initializeDevice', 'resetDevice', 'recoverDevice', 'startRecovery'],
+          },
+        },
       },
       {
         displayName: 'Address Path',
@@ -811,7 +957,12 @@ export class KeepKey implements INodeType {
         ],
         default: 24,
         description: 'Number of recovery seed words',
-        displayOptions: { show: { resource: ['device'], operation: ['recoverDevice'] } },
+        displayOptions: {
+          show: {
+            resource: ['device', 'recovery'],
+            operation: ['recoverDevice', 'startRecovery', 'verifySeed', 'dryRunRecovery'],
+          },
+        },
       },
       {
         displayName: 'PIN Protection',
@@ -819,7 +970,9 @@ export class KeepKey implements INodeType {
         type: 'boolean',
         default: true,
         description: 'Enable PIN protection',
-        displayOptions: { show: { resource: ['device'], operation: ['recoverDevice'] } },
+        displayOptions: {
+          show: { resource: ['device', 'recovery'], operation: ['recoverDevice', 'startRecovery'] },
+        },
       },
       {
         displayName: 'Language',
@@ -827,7 +980,19 @@ export class KeepKey implements INodeType {
         type: 'string',
         default: 'english',
         description: 'Recovery seed language',
-        displayOptions: { show: { resource: ['device'], operation: ['recoverDevice'] } },
+        displayOptions: {
+          show: {
+            resource: ['device', 'recovery'],
+            operation: [
+              'recoverDevice',
+              'applySettings',
+              'setLanguage',
+              'startRecovery',
+              'verifySeed',
+              'dryRunRecovery',
+            ],
+          },
+        },
       },
 
       // Wallet API Parameters
@@ -871,6 +1036,33 @@ export class KeepKey implements INodeType {
         default: 0,
         description: 'Number of addresses to skip',
       },
+      {
+        displayName: 'Change Addresses',
+        name: 'changeAddresses',
+        type: 'boolean',
+        displayOptions: {
+          show: {
+            resource: ['wallet'],
+            operation: ['getAddresses'],
+          },
+        },
+        default: false,
+        description: 'Whether to list change addresses instead of receive addresses',
+      },
+      {
+        displayName: 'Account XPUB',
+        name: 'accountXpub',
+        type: 'string',
+        displayOptions: {
+          show: {
+            resource: ['wallet'],
+            operation: ['getAddresses'],
+          },
+        },
+        default: '',
+        description:
+          'Account extended public key to derive Bitcoin-like addresses from without the device. Leave empty to read it from the device once.',
+      },
       {
         displayName: 'Derivation Path',
         name: 'address_n',
@@ -921,11 +1113,12 @@ export class KeepKey implements INodeType {
         type: 'json',
         required: true,
         default: '[]',
-        description: 'Array of transaction inputs with previous outputs and signatures',
+        description:
+          'Array of inputs to spend: {txid, vout, value, path} with value in satoshis and optional scriptType and sequence. Multisig inputs may carry the signatures collected so far, one per cosigner. To bump or cancel, the inputs of the pending transaction; for CPFP, the outputs of the parent to spend as {vout, path}.',
         displayOptions: {
           show: {
-            resource: ['transaction'],
-            operation: ['signTransaction'],
+            resource: ['transaction', 'bitcoin', 'bitcoinLike', 'signing'],
+            operation: ['signTransaction', 'multiSign', 'estimateFee', 'bumpFee', 'cancel', 'cpfp'],
           },
         },
       },
@@ -935,11 +1128,86 @@ export class KeepKey implements INodeType {
         type: 'json',
         required: true,
         default: '[]',
-        description: 'Array of transaction outputs with addresses and amounts',
+        description:
+          'Array of outputs: {address, value} to pay, {path, value} for change, or {opReturnData} for OP_RETURN. To bump or cancel, the outputs of the pending transaction.',
         displayOptions: {
           show: {
-            resource: ['transaction'],
-            operation: ['signTransaction'],
+            resource: ['transaction', 'bitcoin', 'bitcoinLike', 'signing'],
+            operation: ['signTransaction', 'multiSign', 'estimateFee', 'bumpFee', 'cancel'],
+          },
+        },
+      },
+      {
+        displayName: 'Previous Transactions',
+        name: 'prevTxs',
+        type: 'json',
+        required: true,
+        default: '{}',
+        description:
+          'Raw hex of every transaction spent by the inputs, keyed by txid. For CPFP the parent is fetched when missing.',
+        displayOptions: {
+          show: {
+            resource: ['bitcoin', 'bitcoinLike', 'signing', 'transaction'],
+            operation: ['signTransaction', 'multiSign', 'bumpFee', 'cancel', 'cpfp'],
+          },
+        },
+      },
+      {
+        displayName: 'Lock Time',
+        name: 'lockTime',
+        type: 'number',
+        typeOptions: { minValue: 0 },
+        default: 0,
+        description:
+          'Block height (below 500000000) or Unix time before which the transaction cannot be mined, 0 for none. It only applies when an input has a sequence below 0xffffffff.',
+        displayOptions: {
+          show: {
+            resource: ['bitcoin', 'bitcoinLike', 'signing', 'transaction'],
+            operation: ['signTransaction', 'multiSign', 'bumpFee', 'cancel', 'cpfp'],
+          },
+        },
+      },
+      {
+        displayName: 'Cosigner Xpubs',
+        name: 'cosignerXpubs',
+        type: 'json',
+        default: '[]',
+        description:
+          "Account xpub of every multisig cosigner, this device's included, in redeem script order. Leave empty for a single-key address.",
+        displayOptions: {
+          show: {
+            resource: ['bitcoin', 'bitcoinLike', 'signing'],
+            operation: ['getAddress', 'multiSign'],
+          },
+        },
+      },
+      {
+        displayName: 'Signatures Required',
+        name: 'multisigThreshold',
+        type: 'number',
+        default: 2,
+        description: 'Number of cosigner signatures (m) needed to spend from the multisig script',
+        displayOptions: {
+          show: {
+            resource: ['bitcoin', 'bitcoinLike', 'signing'],
+            operation: ['getAddress', 'multiSign'],
+          },
+        },
+      },
+      {
+        displayName: 'Script Type',
+        name: 'addressType',
+        type: 'options',
+        options: [
+          { name: 'Native SegWit (P2WSH)', value: 'segwit' },
+          { name: 'Nested SegWit (P2SH-P2WSH)', value: 'nested-segwit' },
+          { name: 'Legacy (P2SH)', value: 'legacy' },
+        ],
+        default: 'segwit',
+        displayOptions: {
+          show: {
+            resource: ['signing'],
+            operation: ['multiSign'],
           },
         },
       },
@@ -961,9 +1229,9 @@ export class KeepKey implements INodeType {
         displayName: 'Transaction Size',
         name: 'tx_size',
         type: 'number',
-        required: true,
         default: 250,
-        description: 'Estimated transaction size in bytes',
+        description:
+          'Transaction size in virtual bytes, used when no inputs are given; with inputs the exact size is computed',
         displayOptions: {
           show: {
             resource: ['transaction'],
@@ -980,17 +1248,17 @@ export class KeepKey implements INodeType {
           {
             name: 'Low',
             value: 'low',
-            description: 'Low priority, slower confirmation',
+            description: 'Low priority, confirmation within about a day (144 blocks)',
           },
           {
             name: 'Medium',
             value: 'medium',
-            description: 'Medium priority, moderate confirmation time',
+            description: 'Medium priority, confirmation within about an hour (6 blocks)',
           },
           {
             name: 'High',
             value: 'high',
-            description: 'High priority, faster confirmation',
+            description: 'High priority, confirmation within 2 blocks',
           },
         ],
         default: 'medium',
@@ -998,7 +1266,7 @@ export class KeepKey implements INodeType {
         displayOptions: {
           show: {
             resource: ['transaction'],
-            operation: ['estimateFee'],
+            operation: ['estimateFee', 'build'],
           },
         },
       },
@@ -1008,11 +1276,11 @@ export class KeepKey implements INodeType {
         type: 'string',
         required: true,
         default: '',
-        description: 'Transaction hash/ID to get details for',
+        description: 'Transaction hash/ID',
         displayOptions: {
           show: {
             resource: ['transaction'],
-            operation: ['getTransactionDetails'],
+            operation: ['getTransactionDetails', 'cpfp'],
           },
         },
       },
@@ -1025,8 +1293,17 @@ export class KeepKey implements INodeType {
         required: true,
         displayOptions: {
           show: {
-            resource: ['exchange'],
-            operation: ['getExchangeRate', 'createExchangeOrder', 'getExchangeLimits'],
+            resource: ['exchange', 'shapeshift', 'swap'],
+            operation: [
+              'getExchangeRate',
+              'createExchangeOrder',
+              'getExchangeLimits',
+              'getQuote',
+              'executeTrade',
+              'getLimits',
+              'execute',
+              'estimate',
+            ],
           },
         },
         default: '',
@@ -1040,8 +1317,17 @@ export class KeepKey implements INodeType {
         required: true,
         displayOptions: {
           show: {
-            resource: ['exchange'],
-            operation: ['getExchangeRate', 'createExchangeOrder', 'getExchangeLimits'],
+            resource: ['exchange', 'shapeshift', 'swap'],
+            operation: [
+              'getExchangeRate',
+              'createExchangeOrder',
+              'getExchangeLimits',
+              'getQuote',
+              'executeTrade',
+              'getLimits',
+              'execute',
+              'estimate',
+            ],
           },
         },
         default: '',
@@ -1055,8 +1341,8 @@ export class KeepKey implements INodeType {
         required: true,
         displayOptions: {
           show: {
-            resource: ['exchange'],
-            operation: ['createExchangeOrder'],
+            resource: ['exchange', 'shapeshift', 'swap'],
+            operation: ['createExchangeOrder', 'executeTrade', 'execute'],
           },
         },
         default: '',
@@ -1069,8 +1355,8 @@ export class KeepKey implements INodeType {
         required: true,
         displayOptions: {
           show: {
-            resource: ['exchange'],
-            operation: ['createExchangeOrder'],
+            resource: ['exchange', 'shapeshift', 'swap'],
+            operation: ['createExchangeOrder', 'executeTrade', 'execute'],
           },
         },
         default: '',
@@ -1083,8 +1369,8 @@ export class KeepKey implements INodeType {
         required: true,
         displayOptions: {
           show: {
-            resource: ['exchange'],
-            operation: ['getExchangeOrder'],
+            resource: ['exchange', 'shapeshift', 'swap'],
+            operation: ['getExchangeOrder', 'getTradeStatus', 'getStatus'],
           },
         },
         default: '',
@@ -1172,7 +1458,7 @@ export class KeepKey implements INodeType {
         default: 'bitcoin',
         displayOptions: {
           show: {
-            resource: ['bitcoinLike', 'asset', 'transaction'],
+            resource: ['bitcoinLike', 'asset', 'transaction', 'account'],
           },
         },
       },
@@ -1213,12 +1499,50 @@ export class KeepKey implements INodeType {
         default: 'segwit',
         displayOptions: {
           show: {
-            resource: ['bitcoin', 'bitcoinLike'],
-            operation: ['getAddress', 'signTransaction', 'getXpub'],
+            resource: ['bitcoin', 'bitcoinLike', 'account', 'transaction'],
+            operation: [
+              'getAddress',
+              'signTransaction',
+              'buildTransaction',
+              'build',
+              'bumpFee',
+              'cancel',
+              'cpfp',
+              'getXpub',
+              'getPublicKey',
+              'getReceiveAddress',
+              'getChangeAddress',
+              'verifyAddress',
+              'createAccount',
+              'getAccountInfo',
+            ],
           },
         },
       },
 
+      // Account Discovery
+      {
+        displayName: 'Gap Limit',
+        name: 'gapLimit',
+        type: 'number',
+        default: 20,
+        description: 'Number of consecutive unused addresses that ends the scan of a chain',
+        displayOptions: { show: { resource: ['account'], operation: ['discoverAccounts'] } },
+      },
+
+      // Output Descriptor
+      {
+        displayName: 'Descriptor',
+        name: 'descriptor',
+        type: 'string',
+        required: true,
+        default: '',
+        placeholder: 'wpkh([73c5da0a/84h/0h/0h]xpub.../0/*)#checksum',
+        description:
+          'BIP-380 output descriptor that includes a key from this device, with its origin',
+        displayOptions: { show: { resource: ['account'], operation: ['importDescriptor'] } },
+      },
+
       // Account Index
       {
         displayName: 'Account Index',
@@ -1228,8 +1552,8 @@ export class KeepKey implements INodeType {
         description: 'BIP44 account index',
         displayOptions: {
           show: {
-            resource: ['bitcoin', 'bitcoinLike', 'ethereum', 'evmChains', 'cosmos', 'thorchain', 'osmosis', 'account'],
-            operation: ['getAddress', 'getPublicKey', 'getXpub', 'getBalance', 'signTransaction', 'signMessage'],
+            resource: ['bitcoin', 'bitcoinLike', 'ethereum', 'evmChains', 'cosmos', 'thorchain', 'osmosis', 'account', 'transaction'],
+            operation: ['getAddress', 'getPublicKey', 'getXpub', 'getBalance', 'signTransaction', 'signMessage', 'buildTransaction', 'build', 'bumpFee', 'cancel', 'cpfp', 'getNonce', 'speedUpTransaction', 'cancelTransaction', 'estimateGas'],
           },
         },
       },
@@ -1244,7 +1568,7 @@ export class KeepKey implements INodeType {
         displayOptions: {
           show: {
             resource: ['bitcoin', 'bitcoinLike', 'ethereum', 'evmChains', 'cosmos', 'thorchain', 'osmosis', 'account'],
-            operation: ['getAddress', 'signMessage'],
+            operation: ['getAddress', 'signMessage', 'importDescriptor'],
           },
         },
       },
@@ -1258,7 +1582,13 @@ export class KeepKey implements INodeType {
         description: 'Whether to display address on device for verification',
         displayOptions: {
           show: {
-            operation: ['getAddress', 'verifyAddress', 'showOnDevice', 'generateAddress'],
+            operation: [
+              'getAddress',
+              'verifyAddress',
+              'showOnDevice',
+              'generateAddress',
+              'importDescriptor',
+            ],
           },
         },
       },
@@ -1290,6 +1620,30 @@ export class KeepKey implements INodeType {
       },
 
       // Transaction Parameters
+      {
+        displayName: 'Payment URI',
+        name: 'paymentUri',
+        type: 'string',
+        default: '',
+        placeholder: 'bitcoin:bc1q...?amount=0.001',
+        description:
+          'Optional BIP-21, EIP-681 or cosmos: URI to pay; its recipient and amount replace the fields below',
+        displayOptions: {
+          show: {
+            resource: [
+              'bitcoin',
+              'bitcoinLike',
+              'ethereum',
+              'evmChains',
+              'erc20',
+              'cosmos',
+              'thorchain',
+              'osmosis',
+            ],
+            operation: ['signTransaction', 'transfer', 'send'],
+          },
+        },
+      },
       {
         displayName: 'Recipient Address',
         name: 'toAddress',
@@ -1298,7 +1652,7 @@ export class KeepKey implements INodeType {
         description: 'Destination address',
         displayOptions: {
           show: {
-            operation: ['signTransaction', 'send', 'sendTransaction', 'transfer', 'buildTransaction'],
+            operation: ['signTransaction', 'send', 'sendTransaction', 'transfer', 'buildTransaction', 'build', 'estimateGas'],
           },
         },
       },
@@ -1310,7 +1664,24 @@ export class KeepKey implements INodeType {
         description: 'Amount to send (in native units)',
         displayOptions: {
           show: {
-            operation: ['signTransaction', 'send', 'sendTransaction', 'transfer', 'buildTransaction', 'delegate', 'undelegate', 'getExchangeRate', 'createExchangeOrder'],
+            operation: [
+              'signTransaction',
+              'send',
+              'sendTransaction',
+              'transfer',
+              'buildTransaction',
+              'build',
+              'estimateGas',
+              'delegate',
+              'undelegate',
+              'getExchangeRate',
+              'createExchangeOrder',
+              'getQuote',
+              'executeTrade',
+              'execute',
+              'estimate',
+              'swap',
+            ],
           },
         },
       },
@@ -1330,74 +1701,917 @@ export class KeepKey implements INodeType {
         },
       },
       {
-        displayName: 'Gas Limit',
-        name: 'gasLimit',
+        displayName: 'Fee Rate (sat/vB)',
+        name: 'feeRate',
         type: 'number',
-        default: 21000,
-        description: 'Gas limit for transaction',
+        required: true,
+        default: 10,
+        description:
+          'Fee rate of the replacement, or of the parent and child together for CPFP, in satoshis per virtual byte',
         displayOptions: {
           show: {
-            resource: ['ethereum', 'evmChains', 'erc20'],
-            operation: ['signTransaction', 'sendTransaction', 'transfer', 'approve'],
+            resource: ['transaction'],
+            operation: ['bumpFee', 'cancel', 'cpfp'],
           },
         },
       },
+
+      // Coin Selection Parameters
       {
-        displayName: 'Gas Price (Gwei)',
-        name: 'gasPrice',
+        displayName: 'UTXOs',
+        name: 'utxos',
+        type: 'json',
+        required: true,
+        default: '[]',
+        description:
+          'Array of spendable outputs: {txid, vout, value, path} with value in satoshis and optional scriptType and confirmations. A fee bump adds them only when the change cannot pay the higher fee.',
+        displayOptions: {
+          show: {
+            resource: ['bitcoin', 'bitcoinLike', 'transaction'],
+            operation: ['buildTransaction', 'build', 'bumpFee'],
+          },
+        },
+      },
+      {
+        displayName: 'Coin Selection',
+        name: 'coinSelection',
+        type: 'options',
+        options: [
+          {
+            name: 'Branch and Bound',
+            value: 'branchAndBound',
+            description: 'Find inputs that need no change output, else fall back to largest first',
+          },
+          { name: 'Largest First', value: 'largestFirst', description: 'Spend the largest UTXOs first' },
+          { name: 'Oldest First', value: 'oldestFirst', description: 'Spend the most confirmed UTXOs first' },
+        ],
+        default: 'branchAndBound',
+        description: 'How to pick the UTXOs to spend',
+        displayOptions: {
+          show: {
+            resource: ['bitcoin', 'bitcoinLike', 'transaction'],
+            operation: ['buildTransaction', 'build'],
+          },
+        },
+      },
+      {
+        displayName: 'Change Index',
+        name: 'changeIndex',
+        type: 'number',
+        default: 0,
+        description: 'Index of the change address on the account change chain (…/1/index)',
+        displayOptions: {
+          show: {
+            resource: ['bitcoin', 'bitcoinLike', 'transaction'],
+            operation: ['buildTransaction', 'build', 'bumpFee', 'cancel', 'cpfp'],
+          },
+        },
+      },
+      {
+        displayName: 'Exclude Outpoints',
+        name: 'excludeOutpoints',
         type: 'string',
         default: '',
-        description: 'Gas price in Gwei (leave empty for automatic)',
+        placeholder: 'txid:vout, txid:vout',
+        description: 'Comma-separated UTXOs never to spend',
         displayOptions: {
           show: {
-            resource: ['ethereum', 'evmChains', 'erc20'],
-            operation: ['signTransaction', 'sendTransaction', 'transfer', 'approve'],
+            resource: ['bitcoin', 'bitcoinLike', 'transaction'],
+            operation: ['buildTransaction', 'build'],
           },
         },
       },
       {
-        displayName: 'Use EIP-1559',
-        name: 'useEip1559',
+        displayName: 'Lock Selected UTXOs (Minutes)',
+        name: 'utxoLockMinutes',
+        type: 'number',
+        default: 0,
+        description:
+          'Keep the selected UTXOs out of later builds of this workflow for this many minutes, e.g. until the transaction is broadcast. 0 locks nothing.',
+        displayOptions: {
+          show: {
+            resource: ['bitcoin', 'bitcoinLike', 'transaction'],
+            operation: ['buildTransaction', 'build'],
+          },
+        },
+      },
+      {
+        displayName: 'PSBT',
+        name: 'psbt',
+        type: 'string',
+        required: true,
+        default: '',
+        description: 'Partially signed Bitcoin transaction (BIP-174), base64 or hex encoded',
+        displayOptions: {
+          show: {
+            resource: ['signing'],
+            operation: ['signPsbt'],
+          },
+        },
+      },
+      {
+        displayName: 'Finalize',
+        name: 'finalizePsbt',
         type: 'boolean',
         default: true,
-        description: 'Whether to use EIP-1559 transaction type',
+        description:
+          'Whether to finalize the signed inputs and extract the raw transaction for broadcast',
         displayOptions: {
           show: {
-            resource: ['ethereum', 'evmChains', 'erc20'],
-            operation: ['signTransaction', 'sendTransaction', 'transfer', 'approve'],
+            resource: ['signing'],
+            operation: ['signPsbt'],
           },
         },
       },
       {
-        displayName: 'Max Priority Fee (Gwei)',
-        name: 'maxPriorityFee',
+        displayName: 'Typed Data',
+        name: 'typedData',
+        type: 'json',
+        required: true,
+        default: '{}',
+        description:
+          'EIP-712 document with types, primaryType, domain and message, as passed to eth_signTypedData_v4',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'signing'],
+            operation: ['signTypedData'],
+          },
+        },
+      },
+      {
+        displayName: 'Validator Address',
+        name: 'validatorAddress',
         type: 'string',
-        default: '1.5',
-        description: 'Maximum priority fee (tip) in Gwei',
+        required: true,
+        default: '',
+        placeholder: 'cosmosvaloper1...',
+        description: 'Operator address of the validator to delegate to',
         displayOptions: {
           show: {
-            resource: ['ethereum', 'evmChains', 'erc20'],
-            useEip1559: [true],
+            resource: ['cosmos'],
+            operation: ['delegate'],
           },
         },
       },
       {
-        displayName: 'Max Fee (Gwei)',
-        name: 'maxFee',
+        displayName: 'Target Asset',
+        name: 'targetAsset',
         type: 'string',
-        default: '50',
-        description: 'Maximum total fee in Gwei',
+        required: true,
+        default: '',
+        placeholder: 'BTC.BTC',
+        description: 'THORChain asset to receive, in CHAIN.SYMBOL notation',
         displayOptions: {
           show: {
-            resource: ['ethereum', 'evmChains', 'erc20'],
-            useEip1559: [true],
+            resource: ['thorchain'],
+            operation: ['swap'],
           },
         },
       },
-
-      // Message Signing
       {
-        displayName: 'Message',
-        name: 'message',
+        displayName: 'Destination Address',
+        name: 'destinationAddress',
         type: 'string',
-        default: '',
\ No newline at end of file
+        required: true,
+        default: '',
+        description: 'Address on the target chain that receives the swapped asset',
+        displayOptions: {
+          show: {
+            resource: ['thorchain'],
+            operation: ['swap'],
+          },
+        },
+      },
+      {
+        displayName: 'Swap Limit',
+        name: 'swapLimit',
+        type: 'string',
+        default: '',
+        description:
+          'Minimum amount to receive in 1e8 units; the swap is refunded below it. Leave empty for no limit.',
+        displayOptions: {
+          show: {
+            resource: ['thorchain'],
+            operation: ['swap'],
+          },
+        },
+      },
+      {
+        displayName: 'Pool ID',
+        name: 'poolId',
+        type: 'string',
+        required: true,
+        default: '',
+        placeholder: '1',
+        description: 'Osmosis liquidity pool to swap through',
+        displayOptions: {
+          show: {
+            resource: ['osmosis'],
+            operation: ['swap'],
+          },
+        },
+      },
+      {
+        displayName: 'Token Out Denom',
+        name: 'tokenOutDenom',
+        type: 'string',
+        required: true,
+        default: '',
+        placeholder: 'ibc/...',
+        description: 'Denom of the token to receive',
+        displayOptions: {
+          show: {
+            resource: ['osmosis'],
+            operation: ['swap'],
+          },
+        },
+      },
+      {
+        displayName: 'Minimum Token Out',
+        name: 'tokenOutMinAmount',
+        type: 'string',
+        required: true,
+        default: '',
+        description: 'Minimum amount of the output token to receive, in its base denom',
+        displayOptions: {
+          show: {
+            resource: ['osmosis'],
+            operation: ['swap'],
+          },
+        },
+      },
+      {
+        displayName: 'Account Number',
+        name: 'accountNumber',
+        type: 'number',
+        required: true,
+        default: 0,
+        description: 'On-chain account number of the signing address',
+        displayOptions: {
+          show: {
+            resource: ['cosmos', 'thorchain', 'osmosis'],
+            operation: ['send', 'delegate', 'swap'],
+          },
+        },
+      },
+      {
+        displayName: 'Sequence',
+        name: 'sequence',
+        type: 'number',
+        required: true,
+        default: 0,
+        description: 'Number of transactions the signing address has sent',
+        displayOptions: {
+          show: {
+            resource: ['cosmos', 'thorchain', 'osmosis'],
+            operation: ['send', 'delegate', 'swap'],
+          },
+        },
+      },
+      {
+        displayName: 'Fee',
+        name: 'feeAmount',
+        type: 'string',
+        default: '',
+        description:
+          "Fee in the chain's base denom (e.g. uatom). Leave empty for the chain default.",
+        displayOptions: {
+          show: {
+            resource: ['cosmos', 'thorchain', 'osmosis'],
+            operation: ['send', 'delegate', 'swap'],
+          },
+        },
+      },
+      {
+        displayName: 'Gas',
+        name: 'gas',
+        type: 'string',
+        default: '',
+        description: 'Gas limit. Leave empty for the chain default.',
+        displayOptions: {
+          show: {
+            resource: ['cosmos', 'thorchain', 'osmosis'],
+            operation: ['send', 'delegate', 'swap'],
+          },
+        },
+      },
+      {
+        displayName: 'Memo',
+        name: 'memo',
+        type: 'string',
+        default: '',
+        description: 'Memo attached to the transaction',
+        displayOptions: {
+          show: {
+            resource: ['cosmos', 'thorchain'],
+            operation: ['send', 'delegate'],
+          },
+        },
+      },
+      {
+        displayName: 'Token Contract Address',
+        name: 'tokenAddress',
+        type: 'string',
+        required: true,
+        default: '',
+        description: 'Address of the ERC-20 token contract',
+        displayOptions: {
+          show: {
+            resource: ['erc20'],
+            operation: ['transfer'],
+          },
+        },
+      },
+      {
+        displayName: 'Token Decimals',
+        name: 'tokenDecimals',
+        type: 'number',
+        default: 18,
+        description: 'Number of decimal places the token uses, to convert the amount to base units',
+        displayOptions: {
+          show: {
+            resource: ['erc20'],
+            operation: ['transfer'],
+          },
+        },
+      },
+      {
+        displayName: 'Manage Nonce',
+        name: 'manageNonce',
+        type: 'boolean',
+        default: false,
+        description:
+          "Whether to take the next nonce free on the chain and among transactions signed from the account in this n8n process and not yet broadcast, so that parallel executions do not collide. Nonces are shared within one n8n process; with several queue-mode workers, sign from a single worker.",
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains', 'erc20'],
+            operation: ['signTransaction', 'transfer'],
+          },
+        },
+      },
+      {
+        displayName: 'Nonce',
+        name: 'nonce',
+        type: 'number',
+        required: true,
+        default: 0,
+        description: 'Transaction count of the sending account',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains', 'erc20'],
+            operation: ['signTransaction', 'transfer'],
+            manageNonce: [false],
+          },
+        },
+      },
+      {
+        displayName: 'Transaction Hash',
+        name: 'txHash',
+        type: 'string',
+        required: true,
+        default: '',
+        description: 'Hash of the transaction, 0x-prefixed',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains'],
+            operation: ['getTransaction', 'getTransactionReceipt', 'speedUpTransaction', 'cancelTransaction'],
+          },
+        },
+      },
+      {
+        displayName: 'Data',
+        name: 'data',
+        type: 'string',
+        default: '',
+        description: 'Hex-encoded call data for contract interactions, used when ABI is empty',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains'],
+            operation: ['signTransaction', 'estimateGas', 'callContract'],
+          },
+        },
+      },
+      {
+        displayName: 'ABI',
+        name: 'abi',
+        type: 'string',
+        typeOptions: { rows: 4 },
+        default: '',
+        placeholder: 'function balanceOf(address owner) view returns (uint256)',
+        description: 'Contract ABI as JSON, or human-readable function signatures one per line. When set, the call data is encoded from Function and Arguments, and Call Contract decodes the result.',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains'],
+            operation: ['signTransaction', 'estimateGas', 'callContract'],
+          },
+        },
+      },
+      {
+        displayName: 'Function',
+        name: 'functionName',
+        type: 'string',
+        default: '',
+        placeholder: 'transfer',
+        description: 'Function to call: its name, or its signature (e.g. transfer(address,uint256)) when the name is overloaded. May be empty when the ABI has one function.',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains'],
+            operation: ['signTransaction', 'estimateGas', 'callContract'],
+          },
+        },
+      },
+      {
+        displayName: 'Arguments',
+        name: 'functionArgs',
+        type: 'json',
+        default: '[]',
+        description: 'Function arguments as a JSON array in order, or an object keyed by parameter name. Pass large integers as strings, bytes as 0x hex and tuples as arrays or objects.',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains'],
+            operation: ['signTransaction', 'estimateGas', 'callContract'],
+          },
+        },
+      },
+      {
+        displayName: 'Contract Address',
+        name: 'contractAddress',
+        type: 'string',
+        required: true,
+        default: '',
+        description: 'Address of the contract to call',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains'],
+            operation: ['callContract'],
+          },
+        },
+      },
+      {
+        displayName: 'Address',
+        name: 'address',
+        type: 'string',
+        default: '',
+        description:
+          "Account to read, or to estimate gas from. Leave empty for the device's address at the account index.",
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains'],
+            operation: ['getBalance', 'estimateGas', 'getNonce'],
+          },
+        },
+      },
+      {
+        displayName: 'Gas Limit',
+        name: 'gasLimit',
+        type: 'number',
+        default: 21000,
+        description: 'Gas limit for transaction',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains', 'erc20'],
+            operation: ['signTransaction', 'sendTransaction', 'transfer', 'approve'],
+          },
+        },
+      },
+      {
+        displayName: 'Gas Price (Gwei)',
+        name: 'gasPrice',
+        type: 'string',
+        default: '',
+        description: 'Gas price in Gwei (leave empty for automatic)',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains', 'erc20'],
+            operation: ['signTransaction', 'sendTransaction', 'transfer', 'approve', 'speedUpTransaction', 'cancelTransaction'],
+          },
+        },
+      },
+      {
+        displayName: 'Use EIP-1559',
+        name: 'useEip1559',
+        type: 'boolean',
+        default: true,
+        description: 'Whether to use EIP-1559 transaction type',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains', 'erc20'],
+            operation: ['signTransaction', 'sendTransaction', 'transfer', 'approve', 'speedUpTransaction', 'cancelTransaction'],
+          },
+        },
+      },
+      {
+        displayName: 'Max Priority Fee (Gwei)',
+        name: 'maxPriorityFee',
+        type: 'string',
+        default: '1.5',
+        description: 'Maximum priority fee (tip) in Gwei. A speed-up or cancellation raises it to 10% above the original when lower.',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains', 'erc20'],
+            useEip1559: [true],
+          },
+        },
+      },
+      {
+        displayName: 'Max Fee (Gwei)',
+        name: 'maxFee',
+        type: 'string',
+        default: '50',
+        description: 'Maximum total fee in Gwei. A speed-up or cancellation raises it to 10% above the original when lower.',
+        displayOptions: {
+          show: {
+            resource: ['ethereum', 'evmChains', 'erc20'],
+            useEip1559: [true],
+          },
+        },
+      },
+
+      // Message Signing
+      {
+        displayName: 'Message',
+        name: 'message',
+        type: 'string',
+        default: '',
+        description: 'Message to sign or verify',
+        displayOptions: {
+          show: {
+            operation: ['signMessage', 'verifyMessage', 'verifySignature', 'ping'],
+          },
+        },
+      },
+      {
+        displayName: 'Signature',
+        name: 'signature',
+        type: 'string',
+        default: '',
+        description: 'Signature to verify (hex or base64)',
+        displayOptions: {
+          show: {
+            operation: ['verifyMessage', 'verifySignature'],
+          },
+        },
+      },
+      {
+        displayName: 'Signer Address',
+        name: 'address',
+        type: 'string',
+        default: '',
+        description: 'Address that signed the message',
+        displayOptions: {
+          show: {
+            operation: ['verifyMessage', 'verifySignature'],
+          },
+        },
+      },
+
+      // Address and Signing Coin
+      {
+        displayName: 'Coin',
+        name: 'coin',
+        type: 'string',
+        default: 'bitcoin',
+        description: 'Cryptocurrency coin type (e.g., bitcoin, ethereum, cosmos)',
+        displayOptions: {
+          show: {
+            resource: ['address', 'signing'],
+          },
+        },
+      },
+      {
+        displayName: 'Address',
+        name: 'address',
+        type: 'string',
+        default: '',
+        description: 'Address to inspect',
+        displayOptions: {
+          show: {
+            resource: ['address'],
+            operation: ['validate', 'getType', 'lookup', 'convertFormat', 'getQrCode'],
+          },
+        },
+      },
+      {
+        displayName: 'QR Content',
+        name: 'qrContent',
+        type: 'options',
+        options: [
+          { name: 'Address', value: 'address', description: 'The bare address' },
+          {
+            name: 'Payment URI',
+            value: 'paymentUri',
+            description: 'BIP-21, EIP-681 or cosmos: URI with the payment details below',
+          },
+        ],
+        default: 'paymentUri',
+        displayOptions: { show: { resource: ['address'], operation: ['getQrCode'] } },
+      },
+      {
+        displayName: 'Payment Amount',
+        name: 'paymentAmount',
+        type: 'string',
+        default: '',
+        description: 'Amount requested in whole coins, or whole tokens for a token transfer',
+        displayOptions: {
+          show: { resource: ['address'], operation: ['getQrCode'], qrContent: ['paymentUri'] },
+        },
+      },
+      {
+        displayName: 'Payment Label',
+        name: 'paymentLabel',
+        type: 'string',
+        default: '',
+        description: 'Recipient name shown by Bitcoin-like wallets',
+        displayOptions: {
+          show: { resource: ['address'], operation: ['getQrCode'], qrContent: ['paymentUri'] },
+        },
+      },
+      {
+        displayName: 'Payment Message',
+        name: 'paymentMessage',
+        type: 'string',
+        default: '',
+        description: 'Note for Bitcoin-like wallets, or the memo of a Cosmos transfer',
+        displayOptions: {
+          show: { resource: ['address'], operation: ['getQrCode'], qrContent: ['paymentUri'] },
+        },
+      },
+      {
+        displayName: 'Payment Token Contract',
+        name: 'paymentTokenContract',
+        type: 'string',
+        default: '',
+        description: 'ERC-20 contract to request a token transfer instead of the native coin',
+        displayOptions: {
+          show: { resource: ['address'], operation: ['getQrCode'], qrContent: ['paymentUri'] },
+        },
+      },
+      {
+        displayName: 'Payment Token Decimals',
+        name: 'paymentTokenDecimals',
+        type: 'number',
+        default: 18,
+        description: 'Decimal places of the token, to convert the amount to base units',
+        displayOptions: {
+          show: { resource: ['address'], operation: ['getQrCode'], qrContent: ['paymentUri'] },
+        },
+      },
+      {
+        displayName: 'QR Format',
+        name: 'qrFormat',
+        type: 'options',
+        options: [
+          { name: 'PNG', value: 'png', description: 'Image attached as binary data' },
+          { name: 'SVG', value: 'svg', description: 'SVG markup in the output' },
+          { name: 'Text', value: 'text', description: 'Unicode block characters in the output' },
+        ],
+        default: 'png',
+        displayOptions: { show: { resource: ['address'], operation: ['getQrCode'] } },
+      },
+      {
+        displayName: 'Error Correction',
+        name: 'qrErrorCorrection',
+        type: 'options',
+        options: [
+          { name: 'Low (7%)', value: 'L' },
+          { name: 'Medium (15%)', value: 'M' },
+          { name: 'Quartile (25%)', value: 'Q' },
+          { name: 'High (30%)', value: 'H' },
+        ],
+        default: 'M',
+        description: 'Share of the code that can be damaged and still scan',
+        displayOptions: { show: { resource: ['address'], operation: ['getQrCode'] } },
+      },
+      {
+        displayName: 'Module Size',
+        name: 'qrScale',
+        type: 'number',
+        typeOptions: { minValue: 1 },
+        default: 8,
+        description: 'Pixels per QR module in the image',
+        displayOptions: {
+          show: { resource: ['address'], operation: ['getQrCode'], qrFormat: ['png', 'svg'] },
+        },
+      },
+      {
+        displayName: 'Put Output File in Field',
+        name: 'binaryPropertyName',
+        type: 'string',
+        default: 'data',
+        description: 'Binary property to write the PNG image to',
+        displayOptions: {
+          show: { resource: ['address'], operation: ['getQrCode'], qrFormat: ['png'] },
+        },
+      },
+      {
+        displayName: 'Target Format',
+        name: 'addressFormat',
+        type: 'options',
+        options: [
+          { name: 'CashAddr (Bitcoin Cash)', value: 'cashaddr' },
+          { name: 'Legacy (Bitcoin Cash)', value: 'legacy' },
+          { name: 'EIP-55 Checksum (EVM)', value: 'checksum' },
+          { name: 'Lowercase (EVM)', value: 'lowercase' },
+          { name: 'Cosmos Hub Prefix', value: 'cosmos' },
+          { name: 'Osmosis Prefix', value: 'osmo' },
+          { name: 'THORChain Prefix', value: 'thor' },
+          { name: 'Kava Prefix', value: 'kava' },
+        ],
+        default: 'cashaddr',
+        description: 'Format to re-encode the address in; the payload is kept',
+        displayOptions: {
+          show: {
+            resource: ['address'],
+            operation: ['convertFormat'],
+          },
+        },
+      },
+
+      // Device Settings
+      {
+        displayName: 'Entropy Size',
+        name: 'entropySize',
+        type: 'number',
+        default: 32,
+        description: 'Number of random bytes to request from the device',
+        displayOptions: {
+          show: {
+            resource: ['device', 'utility'],
+            operation: ['getEntropy', 'getRandom'],
+          },
+        },
+      },
+      {
+        displayName: 'Auto Lock Delay (Ms)',
+        name: 'autoLockDelayMs',
+        type: 'number',
+        default: 600000,
+        description: 'Idle time before the device locks itself',
+        displayOptions: {
+          show: {
+            resource: ['device', 'security'],
+            operation: ['setAutoLockDelay', 'setAutoLock'],
+          },
+        },
+      },
+
+      // Recovery, PIN and Passphrase
+      {
+        displayName: 'Word',
+        name: 'word',
+        type: 'string',
+        default: '',
+        description: 'Recovery word requested by the device',
+        displayOptions: {
+          show: {
+            resource: ['recovery'],
+            operation: ['enterWord'],
+          },
+        },
+      },
+      {
+        displayName: 'PIN Matrix Type',
+        name: 'pinMatrixType',
+        type: 'options',
+        options: [
+          { name: 'Current PIN', value: 1 },
+          { name: 'New PIN', value: 2 },
+          { name: 'Confirm New PIN', value: 3 },
+        ],
+        default: 1,
+        displayOptions: {
+          show: {
+            resource: ['pin'],
+            operation: ['getPinMatrix'],
+          },
+        },
+      },
+
+      // Cipher Key Value
+      {
+        displayName: 'Key',
+        name: 'cipherKey',
+        type: 'string',
+        default: '',
+        description: 'Key shown on the device when confirming the operation',
+        displayOptions: {
+          show: {
+            resource: ['utility'],
+            operation: ['encryptMessage', 'decryptMessage', 'cipherKeyValue'],
+          },
+        },
+      },
+      {
+        displayName: 'Value',
+        name: 'cipherValue',
+        type: 'string',
+        default: '',
+        description: 'Text to encrypt, or hex ciphertext to decrypt',
+        displayOptions: {
+          show: {
+            resource: ['utility'],
+            operation: ['encryptMessage', 'decryptMessage', 'cipherKeyValue'],
+          },
+        },
+      },
+      {
+        displayName: 'Cipher Path',
+        name: 'cipherPath',
+        type: 'string',
+        default: "m/10016'/0",
+        description: 'Derivation path of the encryption key',
+        displayOptions: {
+          show: {
+            resource: ['utility'],
+            operation: ['encryptMessage', 'decryptMessage', 'cipherKeyValue'],
+          },
+        },
+      },
+      {
+        displayName: 'Encrypt',
+        name: 'encrypt',
+        type: 'boolean',
+        default: true,
+        description: 'Whether to encrypt (otherwise decrypt) the value',
+        displayOptions: {
+          show: {
+            resource: ['utility'],
+            operation: ['cipherKeyValue'],
+          },
+        },
+      },
+    ],
+  };
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const returnData: INodeExecutionData[] = [];
+
+    const config = await getTransportConfig.call(this);
+
+    // Connect lazily so API-only operations never touch the device
+    let client: KeepKeyClient | undefined;
+    const ctx: OperationContext = {
+      getClient: async () => {
+        if (!client) {
+          client = new KeepKeyClient(config);
+          await client.connect();
+        }
+        return client;
+      },
+    };
+
+    try {
+      for (let i = 0; i < items.length; i++) {
+        try {
+          const resource = this.getNodeParameter('resource', i);
+          const operation = this.getNodeParameter('operation', i);
+          const handler = OPERATION_HANDLERS[resource];
+          if (!handler) {
+            throw unsupportedOperation.call(this, resource, operation, i);
+          }
+
+          const result = await handler.call(this, ctx, operation, i);
+          if (isBinaryResult(result)) {
+            returnData.push({ ...result, pairedItem: { item: i } });
+            continue;
+          }
+          const results = Array.isArray(result) ? result : [result];
+          returnData.push(...results.map((json) => ({ json, pairedItem: { item: i } })));
+        } catch (error) {
+          if (error instanceof KeepKeyDeviceError) {
+            const nodeError = deviceFailureError.call(this, error, i);
+            if (this.continueOnFail()) {
+              // Expose the failure code so workflows can branch on it
+              returnData.push({
+                json: {
+                  error: nodeError.message,
+                  code: error.code ?? null,
+                  retryable: error.retryable,
+                },
+                pairedItem: { item: i },
+              });
+              continue;
+            }
+            throw nodeError;
+          }
+          if (this.continueOnFail()) {
+            returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
+            continue;
+          }
+          if (error instanceof NodeOperationError) {
+            throw error;
+          }
+          throw new NodeOperationError(this.getNode(), error as Error, { itemIndex: i });
+        }
+      }
+    } finally {
+      if (client?.isConnected()) {
+        // A failed disconnect must not hide the items or the error being thrown
+        await client.disconnect().catch(() => undefined);
+      }
+    }
+
+    return [returnData];
+  }
+}
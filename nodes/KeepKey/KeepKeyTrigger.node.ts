@@ -11,6 +11,7 @@ import {
   INodeTypeDescription,
   ITriggerResponse,
   IDataObject,
+  NodeConnectionType,
 } from 'n8n-workflow';
 
 import { KeepKeyClient } from './transport';
@@ -29,7 +30,7 @@ export class KeepKeyTrigger implements INodeType {
       name: 'KeepKey Trigger',
     },
     inputs: [],
-    outputs: ['main'],
+    outputs: [NodeConnectionType.Main],
     credentials: [
       {
         name: 'keepKeyApi',
@@ -15,7 +15,14 @@ export interface BitcoinLikeCoin {
   slip44: number;
   segwit?: boolean;
   bech32Prefix?: string;
+  /** Base58Check version byte of P2PKH addresses */
   addressPrefix?: number;
+  /** Base58Check version byte of P2SH addresses */
+  scriptPrefix?: number;
+  /** CashAddr prefix, for coins that also accept that format */
+  cashAddrPrefix?: string;
+  /** Smallest output value, in satoshis, worth creating */
+  dustThreshold: number;
 }
 
 export interface EvmChain {
@@ -23,6 +30,8 @@ export interface EvmChain {
   name: string;
   chainId: number;
   rpcUrl?: string;
+  /** Further public endpoints to fail over to */
+  fallbackRpcUrls?: string[];
   explorer?: string;
   nativeCurrency?: string;
 }
@@ -33,6 +42,8 @@ export interface CosmosChain {
   prefix: string;
   slip44: number;
   denom: string;
+  /** Decimal places between the display unit and denom */
+  decimals: number;
   chainId?: string;
   rpcUrl?: string;
 }
@@ -47,6 +58,9 @@ export const BITCOIN_LIKE_COINS: Record<string, BitcoinLikeCoin> = {
     slip44: 0,
     segwit: true,
     bech32Prefix: 'bc',
+    addressPrefix: 0x00,
+    scriptPrefix: 0x05,
+    dustThreshold: 546,
   },
   LTC: {
     symbol: 'LTC',
@@ -54,24 +68,37 @@ export const BITCOIN_LIKE_COINS: Record<string, BitcoinLikeCoin> = {
     slip44: 2,
     segwit: true,
     bech32Prefix: 'ltc',
+    addressPrefix: 0x30,
+    scriptPrefix: 0x32,
+    dustThreshold: 546,
   },
   DOGE: {
     symbol: 'DOGE',
     name: 'Dogecoin',
     slip44: 3,
     segwit: false,
+    addressPrefix: 0x1e,
+    scriptPrefix: 0x16,
+    dustThreshold: 10000000,
   },
   BCH: {
     symbol: 'BCH',
     name: 'Bitcoin Cash',
     slip44: 145,
     segwit: false,
+    addressPrefix: 0x00,
+    scriptPrefix: 0x05,
+    cashAddrPrefix: 'bitcoincash',
+    dustThreshold: 546,
   },
   DASH: {
     symbol: 'DASH',
     name: 'Dash',
     slip44: 5,
     segwit: false,
+    addressPrefix: 0x4c,
+    scriptPrefix: 0x10,
+    dustThreshold: 5460,
   },
   DGB: {
     symbol: 'DGB',
@@ -79,6 +106,9 @@ export const BITCOIN_LIKE_COINS: Record<string, BitcoinLikeCoin> = {
     slip44: 20,
     segwit: true,
     bech32Prefix: 'dgb',
+    addressPrefix: 0x1e,
+    scriptPrefix: 0x3f,
+    dustThreshold: 546,
   },
 };
 
@@ -91,6 +121,7 @@ export const EVM_CHAINS: Record<string, EvmChain> = {
     name: 'Ethereum',
     chainId: 1,
     rpcUrl: 'https://eth.llamarpc.com',
+    fallbackRpcUrls: ['https://ethereum-rpc.publicnode.com', 'https://cloudflare-eth.com'],
     explorer: 'https://etherscan.io',
     nativeCurrency: 'ETH',
   },
@@ -99,6 +130,7 @@ export const EVM_CHAINS: Record<string, EvmChain> = {
     name: 'Polygon',
     chainId: 137,
     rpcUrl: 'https://polygon-rpc.com',
+    fallbackRpcUrls: ['https://polygon-bor-rpc.publicnode.com'],
     explorer: 'https://polygonscan.com',
     nativeCurrency: 'MATIC',
   },
@@ -107,6 +139,7 @@ export const EVM_CHAINS: Record<string, EvmChain> = {
     name: 'Arbitrum',
     chainId: 42161,
     rpcUrl: 'https://arb1.arbitrum.io/rpc',
+    fallbackRpcUrls: ['https://arbitrum-one-rpc.publicnode.com'],
     explorer: 'https://arbiscan.io',
     nativeCurrency: 'ETH',
   },
@@ -115,6 +148,7 @@ export const EVM_CHAINS: Record<string, EvmChain> = {
     name: 'Optimism',
     chainId: 10,
     rpcUrl: 'https://mainnet.optimism.io',
+    fallbackRpcUrls: ['https://optimism-rpc.publicnode.com'],
     explorer: 'https://optimistic.etherscan.io',
     nativeCurrency: 'ETH',
   },
@@ -123,6 +157,7 @@ export const EVM_CHAINS: Record<string, EvmChain> = {
     name: 'Avalanche C-Chain',
     chainId: 43114,
     rpcUrl: 'https://api.avax.network/ext/bc/C/rpc',
+    fallbackRpcUrls: ['https://avalanche-c-chain-rpc.publicnode.com'],
     explorer: 'https://snowtrace.io',
     nativeCurrency: 'AVAX',
   },
@@ -131,6 +166,7 @@ export const EVM_CHAINS: Record<string, EvmChain> = {
     name: 'BNB Smart Chain',
     chainId: 56,
     rpcUrl: 'https://bsc-dataseed.binance.org',
+    fallbackRpcUrls: ['https://bsc-rpc.publicnode.com'],
     explorer: 'https://bscscan.com',
     nativeCurrency: 'BNB',
   },
@@ -139,6 +175,7 @@ export const EVM_CHAINS: Record<string, EvmChain> = {
     name: 'Base',
     chainId: 8453,
     rpcUrl: 'https://mainnet.base.org',
+    fallbackRpcUrls: ['https://base-rpc.publicnode.com'],
     explorer: 'https://basescan.org',
     nativeCurrency: 'ETH',
   },
@@ -154,6 +191,7 @@ export const COSMOS_CHAINS: Record<string, CosmosChain> = {
     prefix: 'cosmos',
     slip44: 118,
     denom: 'uatom',
+    decimals: 6,
     chainId: 'cosmoshub-4',
   },
   RUNE: {
@@ -162,6 +200,7 @@ export const COSMOS_CHAINS: Record<string, CosmosChain> = {
     prefix: 'thor',
     slip44: 931,
     denom: 'rune',
+    decimals: 8,
     chainId: 'thorchain-mainnet-v1',
   },
   OSMO: {
@@ -170,6 +209,7 @@ export const COSMOS_CHAINS: Record<string, CosmosChain> = {
     prefix: 'osmo',
     slip44: 118,
     denom: 'uosmo',
+    decimals: 6,
     chainId: 'osmosis-1',
   },
   KAVA: {
@@ -178,6 +218,7 @@ export const COSMOS_CHAINS: Record<string, CosmosChain> = {
     prefix: 'kava',
     slip44: 459,
     denom: 'ukava',
+    decimals: 6,
     chainId: 'kava_2222-10',
   },
 };
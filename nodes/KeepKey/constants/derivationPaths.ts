@@ -54,6 +54,11 @@ export const DERIVATION_TEMPLATES: Record<string, Record<string, string>> = {
   DASH: {
     legacy: "m/44'/5'/{account}'/0/{index}",
   },
+  DGB: {
+    legacy: "m/44'/20'/{account}'/0/{index}",
+    segwit: "m/49'/20'/{account}'/0/{index}",
+    nativeSegwit: "m/84'/20'/{account}'/0/{index}",
+  },
   ETH: {
     default: "m/44'/60'/{account}'/0/{index}",
   },
@@ -66,6 +71,9 @@ export const DERIVATION_TEMPLATES: Record<string, Record<string, string>> = {
   OSMO: {
     default: "m/44'/118'/{account}'/0/{index}",
   },
+  KAVA: {
+    default: "m/44'/459'/{account}'/0/{index}",
+  },
 };
 
 export interface ParsedDerivationPath {
@@ -191,3 +199,16 @@ export function getPurposeForAddressType(addressType: string): number {
   };
   return purposes[addressType] ?? BIP44_PURPOSE;
 }
+
+/**
+ * Get address type for a BIP44-style purpose, if it is one of the known purposes
+ */
+export function getAddressTypeForPurpose(purpose: number): AddressType | undefined {
+  const addressTypes: Record<number, AddressType> = {
+    [BIP44_PURPOSE]: ADDRESS_TYPES.legacy,
+    [BIP49_PURPOSE]: ADDRESS_TYPES.segwit,
+    [BIP84_PURPOSE]: ADDRESS_TYPES.nativeSegwit,
+    [BIP86_PURPOSE]: ADDRESS_TYPES.taproot,
+  };
+  return addressTypes[purpose];
+}
@@ -174,18 +174,24 @@ export const MESSAGE_TYPES = {
   CosmosAddress: 511,
   CosmosSignTx: 512,
   CosmosSignedTx: 513,
+  CosmosMsgRequest: 514,
+  CosmosMsgAck: 515,
 
   // THORChain
   ThorchainGetAddress: 530,
   ThorchainAddress: 531,
   ThorchainSignTx: 532,
   ThorchainSignedTx: 533,
+  ThorchainMsgRequest: 534,
+  ThorchainMsgAck: 535,
 
   // Osmosis
   OsmosisGetAddress: 550,
   OsmosisAddress: 551,
   OsmosisSignTx: 552,
   OsmosisSignedTx: 553,
+  OsmosisMsgRequest: 554,
+  OsmosisMsgAck: 555,
 
   // Firmware
   FirmwareErase: 6,
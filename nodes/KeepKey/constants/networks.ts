@@ -91,7 +91,7 @@ export const ETHEREUM_NETWORKS: Record<string, EthereumNetwork> = {
   goerli: {
     name: 'Goerli Testnet',
     chainId: 5,
-    rpcUrl: 'https://goerli.infura.io/v3/',
+    rpcUrl: 'https://rpc.ankr.com/eth_goerli',
     explorer: 'https://goerli.etherscan.io',
     nativeCurrency: {
       name: 'Goerli Ether',
@@ -102,7 +102,7 @@ export const ETHEREUM_NETWORKS: Record<string, EthereumNetwork> = {
   sepolia: {
     name: 'Sepolia Testnet',
     chainId: 11155111,
-    rpcUrl: 'https://sepolia.infura.io/v3/',
+    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
     explorer: 'https://sepolia.etherscan.io',
     nativeCurrency: {
       name: 'Sepolia Ether',
@@ -244,6 +244,44 @@ export const OSMOSIS_NETWORKS: Record<string, CosmosNetwork> = {
   },
 };
 
+/**
+ * Esplora REST APIs for address lookups, by coin symbol
+ */
+export const ESPLORA_ENDPOINTS: Record<string, string> = {
+  BTC: 'https://blockstream.info/api',
+  LTC: 'https://litecoinspace.org/api',
+};
+
+/**
+ * Infura subdomains, by Ethereum network or EVM chain symbol
+ */
+export const INFURA_NETWORKS: Record<string, string> = {
+  mainnet: 'mainnet',
+  goerli: 'goerli',
+  sepolia: 'sepolia',
+  MATIC: 'polygon-mainnet',
+  ARB: 'arbitrum-mainnet',
+  OP: 'optimism-mainnet',
+  AVAX: 'avalanche-mainnet',
+  BNB: 'bsc-mainnet',
+  BASE: 'base-mainnet',
+};
+
+/**
+ * Alchemy subdomains, by Ethereum network or EVM chain symbol
+ */
+export const ALCHEMY_NETWORKS: Record<string, string> = {
+  mainnet: 'eth-mainnet',
+  goerli: 'eth-goerli',
+  sepolia: 'eth-sepolia',
+  MATIC: 'polygon-mainnet',
+  ARB: 'arb-mainnet',
+  OP: 'opt-mainnet',
+  AVAX: 'avax-mainnet',
+  BNB: 'bnb-mainnet',
+  BASE: 'base-mainnet',
+};
+
 /**
  * ShapeShift API endpoints
  */
@@ -0,0 +1,577 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Bitcoin, Bitcoin-like and transaction resource handlers
+ */
+
+import { IDataObject, IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+
+import { BITCOIN_LIKE_COINS } from '../constants/coins';
+import {
+  getDerivationPath,
+  pathArrayToString,
+  pathStringToArray,
+  type AddressType,
+} from '../constants/derivationPaths';
+import { signBitcoinTransaction, toMultisigRedeemScript } from '../signing';
+import { INPUT_SCRIPT_TYPES } from '../transport';
+import { validateAddressForCoin } from '../utils/addressUtils';
+import {
+  selectCoins,
+  toOutpoint,
+  type CoinSelection,
+  type CoinSelectionStrategy,
+  type Utxo,
+} from '../utils/coinSelectionUtils';
+import {
+  buildCpfpTransaction,
+  bumpFee,
+  cancelTransaction,
+  type FeeBumpResult,
+} from '../utils/feeBumpUtils';
+import {
+  calculateTransactionVsize,
+  FEE_LEVEL_TARGETS,
+  getFeeRateForTarget,
+  selectFeeRates,
+} from '../utils/feeUtils';
+import {
+  calculateBitcoinFee,
+  calculateFeeRate,
+  estimateBitcoinTxSize,
+  toBaseUnits,
+  type BitcoinInput,
+} from '../utils/transactionUtils';
+import {
+  BITCOIN_LIKE_PARAM_SYMBOLS,
+  getAddressForCoin,
+  getCoinAddressType,
+  getDeviceCoinName,
+  getMultisigParameters,
+  getOptionalParameter,
+  getPaymentRequest,
+  OperationContext,
+  OperationResult,
+  OutputParameter,
+  parseJsonParameter,
+  replaceChange,
+  ResolvedCoin,
+  resolveDerivationPath,
+  toAccountPath,
+  toAddressType,
+  toBitcoinOutput,
+  toInputScriptType,
+  unsupportedOperation,
+} from './common';
+import {
+  getBitcoinNetwork,
+  getChainTransaction,
+  getEsploraUrl,
+  getFeeEstimates,
+  getRawTransaction,
+} from './chain';
+
+/**
+ * Inputs as entered in the node: a key may be given as a path string
+ */
+type InputParameter = BitcoinInput & { path?: string };
+
+/**
+ * Outpoints kept out of coin selection by earlier builds, with the time their lock ends
+ */
+type UtxoLocks = Record<string, number>;
+
+/**
+ * Device script type for an input: either a device name (SPENDWITNESS) or a
+ * node address type (segwit, legacy...)
+ */
+function toScriptType(scriptType: string | undefined, fallback: AddressType): string {
+  if (scriptType && scriptType in INPUT_SCRIPT_TYPES) {
+    return scriptType;
+  }
+  return toInputScriptType(scriptType ? toAddressType(scriptType) : fallback);
+}
+
+function toBitcoinInput(
+  { path, ...input }: InputParameter,
+  addressType: AddressType,
+): BitcoinInput {
+  return {
+    ...input,
+    addressN: input.addressN ?? (path ? pathStringToArray(path) : undefined),
+    scriptType: toScriptType(input.scriptType, addressType),
+  };
+}
+
+function getBitcoinLikeCoin(
+  this: IExecuteFunctions,
+  resource: string,
+  itemIndex: number,
+): ResolvedCoin {
+  if (resource === 'bitcoin') {
+    return { family: 'bitcoin', symbol: 'BTC' };
+  }
+  const coin = getOptionalParameter(this, 'coin', itemIndex, 'bitcoin');
+  return { family: 'bitcoin', symbol: BITCOIN_LIKE_PARAM_SYMBOLS[coin] ?? 'BTC' };
+}
+
+/**
+ * Virtual size of the entered inputs and outputs once signed, or null without inputs
+ */
+async function getEnteredTxVsize(
+  this: IExecuteFunctions,
+  coin: ResolvedCoin,
+  addressType: AddressType,
+  itemIndex: number,
+): Promise<number | null> {
+  const inputs = (parseJsonParameter.call(this, 'inputs', itemIndex) as InputParameter[]).map(
+    (input) => toBitcoinInput(input, addressType),
+  );
+  if (!inputs.length) {
+    return null;
+  }
+  const outputs = (parseJsonParameter.call(this, 'outputs', itemIndex) as OutputParameter[]).map(
+    toBitcoinOutput,
+  );
+  const network = await getBitcoinNetwork.call(this);
+  try {
+    return calculateTransactionVsize(inputs, outputs, BITCOIN_LIKE_COINS[coin.symbol], network);
+  } catch (error) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Invalid transaction: ${(error as Error).message}`,
+      { itemIndex },
+    );
+  }
+}
+
+/**
+ * Path of the change address on the account's BIP44 change chain
+ */
+function getChangePath(
+  this: IExecuteFunctions,
+  coin: ResolvedCoin,
+  addressType: AddressType,
+  itemIndex: number,
+): string {
+  const account = getOptionalParameter(this, 'accountIndex', itemIndex, 0);
+  const changeIndex = getOptionalParameter(this, 'changeIndex', itemIndex, 0);
+  return replaceChange(getDerivationPath(coin.symbol, addressType, account, changeIndex), 1);
+}
+
+/**
+ * Sign a replacement or child transaction on the device
+ */
+async function signFeeBump(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  coin: ResolvedCoin,
+  result: FeeBumpResult,
+  prevTxs: Record<string, string>,
+  itemIndex: number,
+): Promise<IDataObject> {
+  const client = await ctx.getClient();
+  const signed = await signBitcoinTransaction(client, {
+    coinName: getDeviceCoinName(coin.symbol),
+    inputs: result.inputs,
+    outputs: result.outputs,
+    prevTxs,
+    lockTime: getOptionalParameter(this, 'lockTime', itemIndex, 0),
+  });
+  return {
+    coin: coin.symbol,
+    txid: signed.txid,
+    signedTx: signed.serializedTx,
+    signatures: signed.signatures,
+    fee: result.fee,
+    vsize: result.vsize,
+    feeRate: calculateFeeRate(result.fee, result.vsize),
+    originalFee: result.originalFee,
+    originalVsize: result.originalVsize,
+  };
+}
+
+/**
+ * Select UTXOs paying the recipient and return the unsigned transaction,
+ * with inputs and outputs in the form Sign Transaction takes
+ */
+function buildUnsignedTransaction(
+  this: IExecuteFunctions,
+  coin: ResolvedCoin,
+  addressType: AddressType,
+  feeRate: number,
+  itemIndex: number,
+): IDataObject {
+  const utxos = (parseJsonParameter.call(this, 'utxos', itemIndex) as InputParameter[]).map(
+    (utxo): Utxo => toBitcoinInput(utxo, addressType),
+  );
+  const missingPath = utxos.find((utxo) => !utxo.addressN);
+  if (missingPath) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `UTXO ${toOutpoint(missingPath)} needs the derivation path of its key`,
+      { itemIndex },
+    );
+  }
+
+  const toAddress = (this.getNodeParameter('toAddress', itemIndex) as string).trim();
+  if (!validateAddressForCoin(toAddress, coin.symbol)) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Invalid recipient address for ${coin.symbol}: ${toAddress}`,
+      { itemIndex },
+    );
+  }
+  const amount = Number(toBaseUnits(this.getNodeParameter('amount', itemIndex) as string, 8));
+
+  const changePath = getChangePath.call(this, coin, addressType, itemIndex);
+
+  // Locks from earlier builds of this workflow, dropping those that have ended
+  const staticData = this.getWorkflowStaticData('node');
+  const now = Date.now();
+  const locks: UtxoLocks = {};
+  for (const [outpoint, until] of Object.entries((staticData.utxoLocks ?? {}) as UtxoLocks)) {
+    if (until > now) {
+      locks[outpoint] = until;
+    }
+  }
+  const exclude = getOptionalParameter(this, 'excludeOutpoints', itemIndex, '')
+    .split(',')
+    .map((outpoint) => outpoint.trim())
+    .filter(Boolean);
+
+  let selection: CoinSelection;
+  try {
+    selection = selectCoins({
+      utxos,
+      outputs: [{ address: toAddress, value: amount }],
+      feeRate,
+      addressType,
+      changePath: pathStringToArray(changePath),
+      dustThreshold: BITCOIN_LIKE_COINS[coin.symbol].dustThreshold,
+      strategy: getOptionalParameter<CoinSelectionStrategy>(
+        this,
+        'coinSelection',
+        itemIndex,
+        'branchAndBound',
+      ),
+      exclude: [...exclude, ...Object.keys(locks)],
+    });
+  } catch (error) {
+    throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+  }
+
+  const lockMinutes = getOptionalParameter(this, 'utxoLockMinutes', itemIndex, 0);
+  if (lockMinutes > 0) {
+    for (const input of selection.inputs) {
+      locks[toOutpoint(input)] = now + lockMinutes * 60000;
+    }
+  }
+  staticData.utxoLocks = locks;
+
+  return {
+    coin: coin.symbol,
+    strategy: selection.strategy,
+    inputs: selection.inputs.map(({ addressN, confirmations: _confirmations, ...input }) => ({
+      ...input,
+      path: pathArrayToString(addressN ?? []),
+    })),
+    outputs: selection.outputs.map(({ addressN, ...output }) =>
+      addressN ? { ...output, path: pathArrayToString(addressN) } : output,
+    ),
+    fee: selection.fee,
+    feeRate,
+    vsize: selection.vsize,
+    change: selection.change,
+    changePath: selection.change ? changePath : undefined,
+  };
+}
+
+/**
+ * Bitcoin and Bitcoin-like resources
+ */
+export async function executeBitcoinOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  const resource = this.getNodeParameter('resource', itemIndex);
+  const coin = getBitcoinLikeCoin.call(this, resource, itemIndex);
+  const coinName = getDeviceCoinName(coin.symbol);
+  const addressType = getCoinAddressType(
+    coin.symbol,
+    toAddressType(getOptionalParameter(this, 'addressType', itemIndex, 'segwit')),
+  );
+
+  switch (operation) {
+    case 'getAddress': {
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, coin.symbol, addressType);
+      const showOnDevice = getOptionalParameter(this, 'showOnDevice', itemIndex, false);
+      const multisig = getMultisigParameters.call(this, itemIndex, addressType);
+      if (multisig) {
+        const { m, xpubs, depth, scriptType } = multisig;
+        const addressN = pathStringToArray(path);
+        const address = await client.getAddress({
+          address_n: addressN,
+          coin_name: coinName,
+          script_type: scriptType,
+          show_display: showOnDevice,
+          multisig: toMultisigRedeemScript({ m, xpubs, addressN: addressN.slice(depth) }),
+        });
+        return {
+          coin: coin.symbol,
+          address,
+          path,
+          addressType,
+          multisig: `${m}-of-${xpubs.length}`,
+          verified: showOnDevice,
+        };
+      }
+      const address = await getAddressForCoin(client, coin, path, showOnDevice, addressType);
+      return { coin: coin.symbol, address, path, addressType, verified: showOnDevice };
+    }
+    case 'getXpub': {
+      const client = await ctx.getClient();
+      const path = toAccountPath(
+        resolveDerivationPath.call(this, itemIndex, coin.symbol, addressType),
+      );
+      const result = await client.getPublicKey({
+        address_n: pathStringToArray(path),
+        coin_name: coinName,
+        script_type: toInputScriptType(addressType),
+      });
+      return { coin: coin.symbol, path, addressType, xpub: result.xpub };
+    }
+    case 'signMessage': {
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, coin.symbol, addressType);
+      const message = this.getNodeParameter('message', itemIndex) as string;
+      const result = await client.signMessage({
+        address_n: pathStringToArray(path),
+        message: Buffer.from(message, 'utf8').toString('hex'),
+        coin_name: coinName,
+        script_type: toInputScriptType(addressType),
+      });
+      return {
+        coin: coin.symbol,
+        path,
+        message,
+        address: result.address,
+        signature: result.signature,
+      };
+    }
+    case 'verifyMessage': {
+      const client = await ctx.getClient();
+      const message = this.getNodeParameter('message', itemIndex) as string;
+      const address = this.getNodeParameter('address', itemIndex) as string;
+      const signature = this.getNodeParameter('signature', itemIndex) as string;
+      const valid = await client.verifyMessage({
+        address,
+        signature,
+        message: Buffer.from(message, 'utf8').toString('hex'),
+        coin_name: coinName,
+      });
+      return { coin: coin.symbol, address, message, valid };
+    }
+    case 'signTransaction': {
+      const client = await ctx.getClient();
+      const inputs = (parseJsonParameter.call(this, 'inputs', itemIndex) as InputParameter[]).map(
+        (input) => toBitcoinInput(input, addressType),
+      );
+      const outputs = (
+        parseJsonParameter.call(this, 'outputs', itemIndex) as OutputParameter[]
+      ).map(toBitcoinOutput);
+      // A payment URI adds the payee output ahead of the entered ones, e.g. change
+      const payment = getPaymentRequest.call(this, itemIndex, coin.symbol);
+      if (payment) {
+        if (!payment.baseUnits) {
+          throw new NodeOperationError(this.getNode(), 'The payment URI has no amount', {
+            itemIndex,
+          });
+        }
+        outputs.unshift({ address: payment.address, value: Number(payment.baseUnits) });
+      }
+      const prevTxs = parseJsonParameter.call(this, 'prevTxs', itemIndex) as Record<string, string>;
+
+      if (!inputs.length || !outputs.length) {
+        throw new NodeOperationError(
+          this.getNode(),
+          'A transaction needs at least one input and one output',
+          { itemIndex },
+        );
+      }
+
+      const signed = await signBitcoinTransaction(client, {
+        coinName,
+        inputs,
+        outputs,
+        prevTxs,
+        lockTime: getOptionalParameter(this, 'lockTime', itemIndex, 0),
+      });
+      return {
+        coin: coin.symbol,
+        txid: signed.txid,
+        signedTx: signed.serializedTx,
+        signatures: signed.signatures,
+        fee: calculateBitcoinFee(inputs, outputs),
+      };
+    }
+    case 'buildTransaction': {
+      const feeRate = this.getNodeParameter('feeRate', itemIndex) as number;
+      return buildUnsignedTransaction.call(this, coin, addressType, feeRate, itemIndex);
+    }
+    case 'estimateFee': {
+      const feeRate = this.getNodeParameter('feeRate', itemIndex) as number;
+      const vsize =
+        (await getEnteredTxVsize.call(this, coin, addressType, itemIndex)) ??
+        estimateBitcoinTxSize(1, 2, addressType);
+      return { coin: coin.symbol, addressType, feeRate, vsize, fee: Math.ceil(vsize * feeRate) };
+    }
+    default:
+      throw unsupportedOperation.call(this, resource, operation, itemIndex);
+  }
+}
+
+/**
+ * Transaction resource
+ */
+export async function executeTransactionOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  const coin = getBitcoinLikeCoin.call(this, 'transaction', itemIndex);
+  const addressType = getCoinAddressType(
+    coin.symbol,
+    toAddressType(getOptionalParameter(this, 'addressType', itemIndex, 'segwit')),
+  );
+
+  switch (operation) {
+    case 'estimateFee': {
+      const feeLevel = this.getNodeParameter('fee_level', itemIndex) as string;
+      const confirmationTarget = FEE_LEVEL_TARGETS[feeLevel] ?? FEE_LEVEL_TARGETS.medium;
+      const { source, estimates } = await getFeeEstimates.call(this, coin.symbol, itemIndex);
+      const feeRate = getFeeRateForTarget(estimates, confirmationTarget);
+      // Without inputs, the hand-entered size is used as is
+      const txSize =
+        (await getEnteredTxVsize.call(this, coin, addressType, itemIndex)) ??
+        getOptionalParameter(this, 'tx_size', itemIndex, 250);
+      return {
+        coin: coin.symbol,
+        source,
+        feeLevel,
+        confirmationTarget,
+        feeRate,
+        txSize,
+        fee: Math.ceil(txSize * feeRate),
+        feeRates: selectFeeRates(estimates),
+      };
+    }
+    case 'build': {
+      const feeLevel = this.getNodeParameter('fee_level', itemIndex) as string;
+      const { estimates } = await getFeeEstimates.call(this, coin.symbol, itemIndex);
+      const feeRate = getFeeRateForTarget(
+        estimates,
+        FEE_LEVEL_TARGETS[feeLevel] ?? FEE_LEVEL_TARGETS.medium,
+      );
+      return {
+        ...buildUnsignedTransaction.call(this, coin, addressType, feeRate, itemIndex),
+        feeLevel,
+      };
+    }
+    case 'bumpFee':
+    case 'cancel': {
+      const inputs = (parseJsonParameter.call(this, 'inputs', itemIndex) as InputParameter[]).map(
+        (input) => toBitcoinInput(input, addressType),
+      );
+      const outputs = (
+        parseJsonParameter.call(this, 'outputs', itemIndex) as OutputParameter[]
+      ).map(toBitcoinOutput);
+      const utxos =
+        operation === 'bumpFee'
+          ? (parseJsonParameter.call(this, 'utxos', itemIndex) as InputParameter[]).map((utxo) =>
+              toBitcoinInput(utxo, addressType),
+            )
+          : [];
+      const options = {
+        inputs,
+        outputs,
+        utxos,
+        feeRate: this.getNodeParameter('feeRate', itemIndex) as number,
+        coin: BITCOIN_LIKE_COINS[coin.symbol],
+        network: await getBitcoinNetwork.call(this),
+        changePath: pathStringToArray(getChangePath.call(this, coin, addressType, itemIndex)),
+      };
+      let replacement: FeeBumpResult;
+      try {
+        replacement = operation === 'cancel' ? cancelTransaction(options) : bumpFee(options);
+      } catch (error) {
+        throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+      }
+      const prevTxs = parseJsonParameter.call(this, 'prevTxs', itemIndex) as Record<string, string>;
+      return signFeeBump.call(this, ctx, coin, replacement, prevTxs, itemIndex);
+    }
+    case 'cpfp': {
+      const txid = (this.getNodeParameter('txid', itemIndex) as string).trim().toLowerCase();
+      const baseUrl = await getEsploraUrl.call(this, coin.symbol, itemIndex);
+      const parent = await getChainTransaction.call(this, baseUrl, txid);
+      if (parent.confirmed) {
+        throw new NodeOperationError(this.getNode(), `Transaction ${txid} is already confirmed`, {
+          itemIndex,
+        });
+      }
+      // Outputs of the parent to spend: the txid and value may be left to the parent's
+      const inputs = (
+        parseJsonParameter.call(this, 'inputs', itemIndex) as Array<Partial<InputParameter>>
+      ).map(({ txid: _txid, value, ...input }) => {
+        const vout = input.vout ?? 0;
+        if (parent.outputValues[vout] === undefined) {
+          throw new NodeOperationError(
+            this.getNode(),
+            `Transaction ${txid} has no output ${vout}`,
+            {
+              itemIndex,
+            },
+          );
+        }
+        return toBitcoinInput(
+          { ...input, txid, vout, value: value ?? parent.outputValues[vout] },
+          addressType,
+        );
+      });
+      const prevTxs = parseJsonParameter.call(this, 'prevTxs', itemIndex) as Record<string, string>;
+      prevTxs[txid] ??= await getRawTransaction.call(this, baseUrl, txid);
+
+      let child: FeeBumpResult;
+      try {
+        child = buildCpfpTransaction({
+          inputs,
+          parentFee: parent.fee,
+          parentVsize: parent.vsize,
+          feeRate: this.getNodeParameter('feeRate', itemIndex) as number,
+          changePath: pathStringToArray(getChangePath.call(this, coin, addressType, itemIndex)),
+          coin: BITCOIN_LIKE_COINS[coin.symbol],
+          network: await getBitcoinNetwork.call(this),
+        });
+      } catch (error) {
+        throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+      }
+      const signed = await signFeeBump.call(this, ctx, coin, child, prevTxs, itemIndex);
+      return {
+        ...signed,
+        parentTxid: txid,
+        packageFeeRate: calculateFeeRate(parent.fee + child.fee, parent.vsize + child.vsize),
+      };
+    }
+    default:
+      throw unsupportedOperation.call(this, 'transaction', operation, itemIndex);
+  }
+}
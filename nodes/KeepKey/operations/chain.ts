@@ -0,0 +1,250 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Chain backend for Bitcoin-like coins (Esplora REST API, bitcoind JSON-RPC for fees)
+ */
+
+import {
+  ICredentialDataDecryptedObject,
+  IExecuteFunctions,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import { ESPLORA_ENDPOINTS } from '../constants/networks';
+import type { AddressNetwork } from '../utils/addressUtils';
+import type { AddressUsage } from '../utils/discoveryUtils';
+import {
+  btcPerKvbToSatPerVb,
+  CONFIRMATION_TARGETS,
+  parseEsploraFeeEstimates,
+  type FeeEstimates,
+} from '../utils/feeUtils';
+
+interface EsploraStats {
+  funded_txo_sum: number;
+  spent_txo_sum: number;
+  tx_count: number;
+}
+
+interface EsploraAddress {
+  chain_stats: EsploraStats;
+  mempool_stats: EsploraStats;
+}
+
+interface EsploraTransaction {
+  txid: string;
+  weight: number;
+  fee: number;
+  vout: Array<{ value: number }>;
+  status: { confirmed: boolean };
+}
+
+/**
+ * Fee, size and outputs of a transaction known to the backend
+ */
+export interface ChainTransaction {
+  txid: string;
+  fee: number;
+  vsize: number;
+  outputValues: number[];
+  confirmed: boolean;
+}
+
+interface SmartFeeEstimate {
+  /** BTC/kvB, missing when the node has too little data */
+  feerate?: number;
+  errors?: string[];
+  blocks: number;
+}
+
+interface JsonRpcResponse<T> {
+  id: number;
+  result: T | null;
+  error: { code: number; message: string } | null;
+}
+
+export interface FeeEstimateResult {
+  source: 'bitcoind' | 'esplora';
+  estimates: FeeEstimates;
+}
+
+/**
+ * KeepKey Network credentials, when the node has them
+ */
+export async function getNetworkCredentials(
+  this: IExecuteFunctions,
+): Promise<ICredentialDataDecryptedObject | undefined> {
+  try {
+    return await this.getCredentials<ICredentialDataDecryptedObject>('keepKeyNetwork');
+  } catch {
+    // Credentials are optional; the public endpoints are used without them
+    return undefined;
+  }
+}
+
+/**
+ * Bitcoin network from the optional KeepKey Network credentials
+ */
+export async function getBitcoinNetwork(this: IExecuteFunctions): Promise<AddressNetwork> {
+  const credentials = await getNetworkCredentials.call(this);
+  return credentials?.bitcoinNetwork === 'testnet' ? 'testnet' : 'mainnet';
+}
+
+/**
+ * Esplora base URL for a coin, from the optional KeepKey Network credentials or the public default
+ */
+export async function getEsploraUrl(
+  this: IExecuteFunctions,
+  symbol: string,
+  itemIndex: number,
+): Promise<string> {
+  const credentials = await getNetworkCredentials.call(this);
+  const customUrl = credentials?.esploraUrl as string | undefined;
+  const url = customUrl && symbol === 'BTC' ? customUrl : ESPLORA_ENDPOINTS[symbol];
+  if (!url) {
+    throw new NodeOperationError(this.getNode(), `No Esplora backend is known for ${symbol}`, {
+      itemIndex,
+    });
+  }
+  return url.replace(/\/$/, '');
+}
+
+/**
+ * Transaction count and balances of an address
+ */
+export async function getAddressUsage(
+  this: IExecuteFunctions,
+  baseUrl: string,
+  address: string,
+): Promise<AddressUsage> {
+  const { chain_stats: chain, mempool_stats: mempool } = (await this.helpers.httpRequest({
+    method: 'GET',
+    url: `${baseUrl}/address/${address}`,
+    json: true,
+  })) as EsploraAddress;
+  return {
+    txCount: chain.tx_count + mempool.tx_count,
+    balance: chain.funded_txo_sum - chain.spent_txo_sum,
+    unconfirmedBalance: mempool.funded_txo_sum - mempool.spent_txo_sum,
+  };
+}
+
+/**
+ * Look up a transaction, confirmed or in the mempool
+ */
+export async function getChainTransaction(
+  this: IExecuteFunctions,
+  baseUrl: string,
+  txid: string,
+): Promise<ChainTransaction> {
+  const tx = (await this.helpers.httpRequest({
+    method: 'GET',
+    url: `${baseUrl}/tx/${txid}`,
+    json: true,
+  })) as EsploraTransaction;
+  return {
+    txid: tx.txid,
+    fee: tx.fee,
+    vsize: Math.ceil(tx.weight / 4),
+    outputValues: tx.vout.map((output) => output.value),
+    confirmed: tx.status.confirmed,
+  };
+}
+
+/**
+ * Serialized transaction, in hex
+ */
+export async function getRawTransaction(
+  this: IExecuteFunctions,
+  baseUrl: string,
+  txid: string,
+): Promise<string> {
+  const hex = (await this.helpers.httpRequest({
+    method: 'GET',
+    url: `${baseUrl}/tx/${txid}/hex`,
+  })) as string;
+  return hex.trim();
+}
+
+/**
+ * estimatesmartfee for every target in one JSON-RPC batch
+ */
+async function getBitcoindFeeEstimates(
+  this: IExecuteFunctions,
+  rpcUrl: string,
+  itemIndex: number,
+): Promise<FeeEstimates> {
+  const responses = (await this.helpers.httpRequest({
+    method: 'POST',
+    url: rpcUrl,
+    body: CONFIRMATION_TARGETS.map((target) => ({
+      jsonrpc: '1.0',
+      id: target,
+      method: 'estimatesmartfee',
+      params: [target],
+    })),
+    json: true,
+  })) as Array<JsonRpcResponse<SmartFeeEstimate>>;
+
+  const estimates: FeeEstimates = {};
+  const errors: string[] = [];
+  for (const { id, result, error } of responses) {
+    if (error) {
+      errors.push(error.message);
+    } else if (result?.feerate !== undefined) {
+      estimates[id] = btcPerKvbToSatPerVb(result.feerate);
+    } else {
+      errors.push(...(result?.errors ?? []));
+    }
+  }
+  if (!Object.keys(estimates).length) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `bitcoind returned no fee estimates${errors.length ? `: ${errors[0]}` : ''}`,
+      { itemIndex },
+    );
+  }
+  return estimates;
+}
+
+/**
+ * Fee rates in sat/vB per confirmation target
+ *
+ * Bitcoin uses the node at the KeepKey Network Bitcoin RPC URL when one is
+ * set, and the coin's Esplora (or mempool.space) backend otherwise.
+ */
+export async function getFeeEstimates(
+  this: IExecuteFunctions,
+  symbol: string,
+  itemIndex: number,
+): Promise<FeeEstimateResult> {
+  const credentials = await getNetworkCredentials.call(this);
+  const rpcUrl = credentials?.bitcoinRpcUrl as string | undefined;
+  if (rpcUrl && symbol === 'BTC') {
+    return {
+      source: 'bitcoind',
+      estimates: await getBitcoindFeeEstimates.call(this, rpcUrl, itemIndex),
+    };
+  }
+
+  const baseUrl = await getEsploraUrl.call(this, symbol, itemIndex);
+  const body: unknown = await this.helpers.httpRequest({
+    method: 'GET',
+    url: `${baseUrl}/fee-estimates`,
+    json: true,
+  });
+  try {
+    return { source: 'esplora', estimates: parseEsploraFeeEstimates(body) };
+  } catch (error) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Invalid fee estimates: ${(error as Error).message}`,
+      { itemIndex },
+    );
+  }
+}
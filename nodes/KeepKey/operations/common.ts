@@ -0,0 +1,563 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Shared helpers for the KeepKey node operation handlers
+ */
+
+import { IBinaryKeyData, IDataObject, IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+
+import { KeepKeyClient, KeepKeyDeviceError, type FailureCode } from '../transport';
+import { BITCOIN_LIKE_COINS, COSMOS_CHAINS, EVM_CHAINS } from '../constants/coins';
+import {
+  ADDRESS_TYPES,
+  getDerivationPath,
+  pathStringToArray,
+  type AddressType,
+} from '../constants/derivationPaths';
+import { MESSAGE_TYPES } from '../constants/events';
+import { signTypedData } from '../signing';
+import { parsePaymentUri, type ParsedPaymentUri } from '../utils/addressUtils';
+import { decodeExtendedPublicKey } from '../utils/bip32Utils';
+import type { BitcoinOutput } from '../utils/transactionUtils';
+import { parseTypedData, type TypedData } from '../utils/typedDataUtils';
+
+/**
+ * Item with binary data attached, such as a rendered image
+ */
+export interface BinaryOperationResult {
+  json: IDataObject;
+  binary: IBinaryKeyData;
+}
+
+export type OperationResult = IDataObject | IDataObject[] | BinaryOperationResult;
+
+/**
+ * Whether a handler returned a whole item rather than its JSON
+ */
+export function isBinaryResult(result: OperationResult): result is BinaryOperationResult {
+  return !Array.isArray(result) && typeof result.json === 'object' && result.binary !== undefined;
+}
+
+/**
+ * Per-execution context shared by all operation handlers
+ */
+export interface OperationContext {
+  /** Connects to the device on first use and returns the shared client */
+  getClient(): Promise<KeepKeyClient>;
+}
+
+export type OperationHandler = (
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+) => Promise<OperationResult>;
+
+export type CoinFamily = 'bitcoin' | 'ethereum' | 'cosmos';
+
+export interface ResolvedCoin {
+  family: CoinFamily;
+  symbol: string;
+}
+
+/**
+ * Node parameter values for Bitcoin-like coins mapped to coin symbols
+ */
+export const BITCOIN_LIKE_PARAM_SYMBOLS: Record<string, string> = {
+  bitcoin: 'BTC',
+  litecoin: 'LTC',
+  dogecoin: 'DOGE',
+  bitcoincash: 'BCH',
+  dash: 'DASH',
+  digibyte: 'DGB',
+};
+
+/**
+ * Node parameter values for EVM chains mapped to EVM_CHAINS keys
+ */
+export const EVM_CHAIN_PARAM_SYMBOLS: Record<string, string> = {
+  ethereum: 'ETH',
+  polygon: 'MATIC',
+  arbitrum: 'ARB',
+  optimism: 'OP',
+  avalanche: 'AVAX',
+  bnb: 'BNB',
+  base: 'BASE',
+};
+
+/**
+ * Node parameter values for Cosmos chains mapped to COSMOS_CHAINS keys
+ */
+export const COSMOS_PARAM_SYMBOLS: Record<string, string> = {
+  cosmos: 'ATOM',
+  thorchain: 'RUNE',
+  osmosis: 'OSMO',
+  kava: 'KAVA',
+};
+
+/**
+ * Address type parameter values mapped to ADDRESS_TYPES
+ * ('segwit' in the node UI is native SegWit, 'nested-segwit' is P2SH-wrapped)
+ */
+const NODE_ADDRESS_TYPES: Record<string, AddressType> = {
+  legacy: ADDRESS_TYPES.legacy,
+  'nested-segwit': ADDRESS_TYPES.segwit,
+  segwit: ADDRESS_TYPES.nativeSegwit,
+  taproot: ADDRESS_TYPES.taproot,
+};
+
+const INPUT_SCRIPT_TYPES: Record<AddressType, string> = {
+  legacy: 'SPENDADDRESS',
+  segwit: 'SPENDP2SHWITNESS',
+  nativeSegwit: 'SPENDWITNESS',
+  taproot: 'SPENDTAPROOT',
+};
+
+/**
+ * KeepKey input script type of an m-of-n multisig script, by address type
+ */
+export const MULTISIG_SCRIPT_TYPES: Partial<Record<AddressType, string>> = {
+  legacy: 'SPENDMULTISIG',
+  segwit: 'SPENDP2SHWITNESS',
+  nativeSegwit: 'SPENDWITNESS',
+};
+
+/**
+ * Multisig cosigners entered in the node
+ */
+export interface MultisigParameters {
+  m: number;
+  xpubs: string[];
+  /** Depth of the cosigner xpubs; path levels below it are shared by every cosigner */
+  depth: number;
+  scriptType: string;
+}
+
+/**
+ * Outputs as entered in the node: a change key may be given as a path string
+ */
+export type OutputParameter = BitcoinOutput & { path?: string };
+
+/**
+ * Resolve a free-form coin parameter ("bitcoin", "BTC", "thorchain"...) to a coin family
+ */
+export function resolveCoin(coin: string): ResolvedCoin | null {
+  const key = coin.trim().toLowerCase();
+  const upper = coin.trim().toUpperCase();
+
+  const bitcoinSymbol =
+    BITCOIN_LIKE_PARAM_SYMBOLS[key] || (upper in BITCOIN_LIKE_COINS ? upper : undefined);
+  if (bitcoinSymbol) {
+    return { family: 'bitcoin', symbol: bitcoinSymbol };
+  }
+
+  const evmSymbol = EVM_CHAIN_PARAM_SYMBOLS[key] || (upper in EVM_CHAINS ? upper : undefined);
+  if (evmSymbol) {
+    return { family: 'ethereum', symbol: evmSymbol };
+  }
+
+  const cosmosSymbol = COSMOS_PARAM_SYMBOLS[key] || (upper in COSMOS_CHAINS ? upper : undefined);
+  if (cosmosSymbol) {
+    return { family: 'cosmos', symbol: cosmosSymbol };
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a coin parameter or throw a NodeOperationError
+ */
+export function requireCoin(
+  this: IExecuteFunctions,
+  coin: string,
+  itemIndex: number,
+): ResolvedCoin {
+  const resolved = resolveCoin(coin);
+  if (!resolved) {
+    throw new NodeOperationError(this.getNode(), `Unsupported coin: ${coin}`, { itemIndex });
+  }
+  return resolved;
+}
+
+/**
+ * Map the node's address type parameter to an ADDRESS_TYPES value
+ */
+export function toAddressType(addressType: string | undefined): AddressType {
+  return NODE_ADDRESS_TYPES[addressType ?? ''] ?? ADDRESS_TYPES.nativeSegwit;
+}
+
+/**
+ * Map an address type to the KeepKey input script type
+ */
+export function toInputScriptType(addressType: AddressType): string {
+  return INPUT_SCRIPT_TYPES[addressType];
+}
+
+/**
+ * Device coin name for a Bitcoin-like symbol (e.g. "BitcoinCash")
+ */
+export function getDeviceCoinName(symbol: string): string {
+  const coin = BITCOIN_LIKE_COINS[symbol.toUpperCase()];
+  return coin ? coin.name.replace(/\s+/g, '') : 'Bitcoin';
+}
+
+/**
+ * Address type to use for a Bitcoin-like coin (falls back to legacy for non-SegWit coins)
+ */
+export function getCoinAddressType(symbol: string, addressType: AddressType): AddressType {
+  const coin = BITCOIN_LIKE_COINS[symbol.toUpperCase()];
+  if (coin && !coin.segwit) {
+    return ADDRESS_TYPES.legacy;
+  }
+  return addressType;
+}
+
+/**
+ * Read an optional node parameter, falling back when it is not displayed
+ */
+export function getOptionalParameter<T>(
+  fn: IExecuteFunctions,
+  name: string,
+  itemIndex: number,
+  fallback: T,
+): T {
+  try {
+    return fn.getNodeParameter(name, itemIndex, fallback) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Resolve the derivation path for an item, honouring the custom path parameters
+ */
+export function resolveDerivationPath(
+  this: IExecuteFunctions,
+  itemIndex: number,
+  symbol: string,
+  addressType: string = 'default',
+  change: number = 0,
+): string {
+  const useCustomPath = getOptionalParameter(this, 'useCustomPath', itemIndex, false);
+  if (useCustomPath) {
+    return this.getNodeParameter('derivationPath', itemIndex) as string;
+  }
+
+  const account = getOptionalParameter(this, 'accountIndex', itemIndex, 0);
+  const index = getOptionalParameter(this, 'addressIndex', itemIndex, 0);
+  // All EVM chains share the Ethereum coin type
+  const templateSymbol = symbol.toUpperCase() in EVM_CHAINS ? 'ETH' : symbol;
+  const path = getDerivationPath(templateSymbol, addressType, account, index);
+  return change === 0 ? path : replaceChange(path, change);
+}
+
+/**
+ * Replace the change level of a BIP44-style path
+ */
+export function replaceChange(path: string, change: number): string {
+  const parts = path.split('/');
+  if (parts.length < 6) {
+    return path;
+  }
+  parts[parts.length - 2] = change.toString();
+  return parts.join('/');
+}
+
+/**
+ * Strip the change/index levels of a BIP44 path to get the account path
+ */
+export function toAccountPath(path: string): string {
+  const parts = path.split('/');
+  return parts.length > 4 ? parts.slice(0, 4).join('/') : path;
+}
+
+/**
+ * Parse a JSON node parameter that may already be an object
+ */
+export function parseJsonParameter<T>(this: IExecuteFunctions, name: string, itemIndex: number): T {
+  const value = this.getNodeParameter(name, itemIndex);
+  if (typeof value !== 'string') {
+    return value as T;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new NodeOperationError(this.getNode(), `Parameter "${name}" must be valid JSON`, {
+      itemIndex,
+    });
+  }
+}
+
+/**
+ * Convert an output parameter, resolving a change path
+ */
+export function toBitcoinOutput({ path, ...output }: OutputParameter): BitcoinOutput {
+  return { ...output, addressN: output.addressN ?? (path ? pathStringToArray(path) : undefined) };
+}
+
+/**
+ * Read the multisig cosigner parameters, or null when no cosigners are given
+ */
+export function getMultisigParameters(
+  this: IExecuteFunctions,
+  itemIndex: number,
+  addressType: AddressType,
+): MultisigParameters | null {
+  let xpubs = getOptionalParameter<unknown>(this, 'cosignerXpubs', itemIndex, []);
+  if (typeof xpubs === 'string') {
+    xpubs = xpubs.trim() ? parseJsonParameter.call(this, 'cosignerXpubs', itemIndex) : [];
+  }
+  if (!Array.isArray(xpubs) || xpubs.some((xpub) => typeof xpub !== 'string')) {
+    throw new NodeOperationError(this.getNode(), 'Cosigner xpubs must be a JSON array of strings', {
+      itemIndex,
+    });
+  }
+  if (!xpubs.length) {
+    return null;
+  }
+
+  const m = this.getNodeParameter('multisigThreshold', itemIndex) as number;
+  if (!Number.isInteger(m) || m < 1 || m > xpubs.length) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Signatures required must be between 1 and the number of cosigners (${xpubs.length})`,
+      { itemIndex },
+    );
+  }
+  const scriptType = MULTISIG_SCRIPT_TYPES[addressType];
+  if (!scriptType) {
+    throw new NodeOperationError(this.getNode(), `Multisig is not supported for ${addressType}`, {
+      itemIndex,
+    });
+  }
+  let depths: number[];
+  try {
+    depths = (xpubs as string[]).map((xpub) => decodeExtendedPublicKey(xpub).depth);
+  } catch (error) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Invalid cosigner xpub: ${(error as Error).message}`,
+      { itemIndex },
+    );
+  }
+  return { m, xpubs: xpubs as string[], depth: depths[0], scriptType };
+}
+
+/**
+ * Read the optional payment URI parameter, checking that it pays in the given coin
+ */
+export function getPaymentRequest(
+  this: IExecuteFunctions,
+  itemIndex: number,
+  symbol: string,
+): ParsedPaymentUri | null {
+  const uri = getOptionalParameter(this, 'paymentUri', itemIndex, '').trim();
+  if (!uri) {
+    return null;
+  }
+  let request: ParsedPaymentUri;
+  try {
+    request = parsePaymentUri(uri);
+  } catch (error) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Invalid payment URI: ${(error as Error).message}`,
+      { itemIndex },
+    );
+  }
+  if (request.coin !== symbol) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `The payment URI requests ${request.coin}, not ${symbol}`,
+      { itemIndex },
+    );
+  }
+  return request;
+}
+
+/**
+ * Get an address from the device for any supported coin
+ */
+export async function getAddressForCoin(
+  client: KeepKeyClient,
+  coin: ResolvedCoin,
+  path: string,
+  showDisplay: boolean,
+  addressType: AddressType = ADDRESS_TYPES.nativeSegwit,
+): Promise<string> {
+  const addressN = pathStringToArray(path);
+
+  switch (coin.family) {
+    case 'bitcoin':
+      return client.getAddress({
+        address_n: addressN,
+        coin_name: getDeviceCoinName(coin.symbol),
+        script_type: toInputScriptType(getCoinAddressType(coin.symbol, addressType)),
+        show_display: showDisplay,
+      });
+    case 'ethereum':
+      return client.ethereumGetAddress({ address_n: addressN, show_display: showDisplay });
+    case 'cosmos':
+      return client.cosmosGetAddress(getCosmosAddressMessageType(coin.symbol), {
+        address_n: addressN,
+        show_display: showDisplay,
+      });
+  }
+}
+
+/**
+ * Message type used to request an address for a Cosmos SDK chain
+ */
+export function getCosmosAddressMessageType(symbol: string): number {
+  switch (symbol.toUpperCase()) {
+    case 'ATOM':
+      return MESSAGE_TYPES.CosmosGetAddress;
+    case 'RUNE':
+      return MESSAGE_TYPES.ThorchainGetAddress;
+    case 'OSMO':
+      return MESSAGE_TYPES.OsmosisGetAddress;
+    default:
+      throw new Error(`Address derivation is not supported on the device for ${symbol}`);
+  }
+}
+
+/**
+ * Sign the EIP-712 document in the typedData parameter with the key at path
+ */
+export async function signTypedDataParameter(
+  this: IExecuteFunctions,
+  client: KeepKeyClient,
+  path: string,
+  itemIndex: number,
+): Promise<IDataObject> {
+  let typedData: TypedData;
+  try {
+    typedData = parseTypedData(parseJsonParameter.call(this, 'typedData', itemIndex) as object);
+  } catch (error) {
+    if (error instanceof NodeOperationError) {
+      throw error;
+    }
+    throw new NodeOperationError(
+      this.getNode(),
+      `Invalid typed data: ${(error as Error).message}`,
+      { itemIndex },
+    );
+  }
+
+  const signed = await signTypedData(client, pathStringToArray(path), typedData);
+  return {
+    path,
+    primaryType: typedData.primaryType,
+    address: signed.address,
+    signature: signed.signature,
+    domainHash: signed.domainHash,
+    messageHash: signed.messageHash,
+    digest: signed.digest,
+  };
+}
+
+/**
+ * Error for operations that are listed in the node but have no implementation
+ */
+export function unsupportedOperation(
+  this: IExecuteFunctions,
+  resource: string,
+  operation: string,
+  itemIndex: number,
+): NodeOperationError {
+  return new NodeOperationError(
+    this.getNode(),
+    `The operation "${operation}" is not supported for resource "${resource}"`,
+    { itemIndex },
+  );
+}
+
+/**
+ * What to tell the user for each device failure
+ */
+const DEVICE_FAILURE_HINTS: Record<FailureCode, { message: string; description: string }> = {
+  UnexpectedMessage: {
+    message: 'The KeepKey received a message it did not expect',
+    description: 'The device was probably left mid-operation. Re-run the workflow.',
+  },
+  ButtonExpected: {
+    message: 'The KeepKey is waiting for a button press',
+    description: 'Confirm or reject the pending request on the device, then re-run.',
+  },
+  DataError: {
+    message: 'The KeepKey rejected the request data',
+    description: 'Check the paths, amounts and addresses passed to this operation.',
+  },
+  ActionCancelled: {
+    message: 'The action was rejected on the KeepKey',
+    description: 'Review the request on the device screen and hold the button to confirm it.',
+  },
+  PinExpected: {
+    message: 'The KeepKey is locked',
+    description:
+      'Set the PIN node parameter, or the PIN of the KeepKey API credentials, for the node to unlock it.',
+  },
+  PinCancelled: {
+    message: 'PIN entry was cancelled',
+    description: 'Re-run the workflow and enter the PIN when the device asks for it.',
+  },
+  PinInvalid: {
+    message: 'Wrong PIN entered for the KeepKey',
+    description:
+      'Check the PIN parameter or credential: give the positions on the scrambled matrix, or the ' +
+      'digits together with PIN Matrix. Each wrong attempt doubles the delay before the next one.',
+  },
+  InvalidSignature: {
+    message: 'The signature is not valid',
+    description: 'The signature does not match the message and address given.',
+  },
+  ProcessError: {
+    message: 'The KeepKey failed to process the request',
+    description: 'Disconnect and reconnect the device, then re-run.',
+  },
+  NotEnoughFunds: {
+    message: 'Not enough funds for this transaction',
+    description: 'The inputs do not cover the outputs plus fee.',
+  },
+  NotInitialized: {
+    message: 'The KeepKey has not been set up',
+    description: 'Initialize it with Device > Reset or restore it with Recovery first.',
+  },
+  PinMismatch: {
+    message: 'The PINs entered did not match',
+    description: 'Re-run the PIN change and enter the same new PIN twice.',
+  },
+  WipeCodeMismatch: {
+    message: 'The wipe codes entered did not match',
+    description: 'Re-run the operation and enter the same wipe code twice.',
+  },
+  InvalidSession: {
+    message: 'The KeepKey session is no longer valid',
+    description: 'Another application may have taken over the device. Close it and re-run.',
+  },
+  FirmwareError: {
+    message: 'The KeepKey firmware reported an error',
+    description: 'Check the firmware version and update it if needed.',
+  },
+};
+
+/**
+ * Error for a Failure returned by the device, with guidance on what to do next
+ */
+export function deviceFailureError(
+  this: IExecuteFunctions,
+  error: KeepKeyDeviceError,
+  itemIndex: number,
+): NodeOperationError {
+  const hint = error.code ? DEVICE_FAILURE_HINTS[error.code] : undefined;
+  const details = error.deviceMessage ? `Device message: ${error.deviceMessage}` : undefined;
+  return new NodeOperationError(this.getNode(), hint?.message ?? error.message, {
+    itemIndex,
+    description: [hint?.description, details].filter(Boolean).join(' '),
+  });
+}
@@ -0,0 +1,175 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Cosmos, THORChain and Osmosis resource handlers
+ */
+
+import { IDataObject, IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+
+import { COSMOS_CHAINS } from '../constants/coins';
+import { pathStringToArray } from '../constants/derivationPaths';
+import { signCosmosTransaction } from '../signing';
+import { createThorchainSwapMemo } from '../utils/swapUtils';
+import {
+  buildCosmosDelegateMsg,
+  buildCosmosSendMsg,
+  buildCosmosSignDoc,
+  buildOsmosisSwapMsg,
+  buildThorchainDepositMsg,
+  toBaseUnits,
+  type CosmosAminoMsg,
+} from '../utils/transactionUtils';
+import {
+  COSMOS_PARAM_SYMBOLS,
+  getAddressForCoin,
+  getOptionalParameter,
+  getPaymentRequest,
+  OperationContext,
+  OperationResult,
+  resolveDerivationPath,
+  unsupportedOperation,
+} from './common';
+
+/**
+ * Operations that build and sign a transaction, per resource
+ */
+const SIGNING_OPERATIONS: Record<string, string[]> = {
+  cosmos: ['send', 'delegate'],
+  thorchain: ['send', 'swap'],
+  osmosis: ['swap'],
+};
+
+/**
+ * Fee and gas used when the node leaves them empty, in the chain's base denom
+ */
+const DEFAULT_FEES: Record<string, { fee: string; gas: number }> = {
+  ATOM: { fee: '5000', gas: 200000 },
+  RUNE: { fee: '0', gas: 500000000 },
+  OSMO: { fee: '5000', gas: 300000 },
+};
+
+/**
+ * Sign messages from the item's account and return the broadcast-ready StdTx
+ */
+async function signCosmosMessages(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  itemIndex: number,
+  symbol: string,
+  path: string,
+  msgs: CosmosAminoMsg[],
+  memo: string,
+): Promise<IDataObject> {
+  const chain = COSMOS_CHAINS[symbol];
+  const defaults = DEFAULT_FEES[symbol];
+  if (!chain.chainId || !defaults) {
+    throw new NodeOperationError(this.getNode(), `Signing is not supported for ${chain.name}`, {
+      itemIndex,
+    });
+  }
+  const fee = getOptionalParameter(this, 'feeAmount', itemIndex, '') || defaults.fee;
+  const gas = getOptionalParameter(this, 'gas', itemIndex, '') || defaults.gas;
+  const signDoc = buildCosmosSignDoc(msgs, {
+    chainId: chain.chainId,
+    accountNumber: this.getNodeParameter('accountNumber', itemIndex) as number,
+    sequence: this.getNodeParameter('sequence', itemIndex) as number,
+    denom: chain.denom,
+    fee,
+    gas: Number(gas),
+    memo,
+  });
+
+  const client = await ctx.getClient();
+  const signed = await signCosmosTransaction(client, symbol, pathStringToArray(path), signDoc);
+  return {
+    chain: symbol,
+    chainId: chain.chainId,
+    path,
+    publicKey: signed.publicKey,
+    signature: signed.signature,
+    signDoc: signed.signDoc as unknown as IDataObject,
+    signedTx: signed.stdTx as unknown as IDataObject,
+  };
+}
+
+/**
+ * Cosmos, THORChain and Osmosis resources
+ */
+export async function executeCosmosOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  const resource = this.getNodeParameter('resource', itemIndex);
+  const symbol = COSMOS_PARAM_SYMBOLS[resource];
+  const chain = COSMOS_CHAINS[symbol];
+
+  switch (operation) {
+    case 'getAddress': {
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, symbol);
+      const showOnDevice = getOptionalParameter(this, 'showOnDevice', itemIndex, false);
+      const address = await getAddressForCoin(
+        client,
+        { family: 'cosmos', symbol },
+        path,
+        showOnDevice,
+      );
+      return { chain: symbol, chainId: chain.chainId, address, path, verified: showOnDevice };
+    }
+    case 'send':
+    case 'delegate':
+    case 'swap': {
+      if (!SIGNING_OPERATIONS[resource]?.includes(operation)) {
+        throw unsupportedOperation.call(this, resource, operation, itemIndex);
+      }
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, symbol);
+      const from = await getAddressForCoin(client, { family: 'cosmos', symbol }, path, false);
+      const payment = operation === 'send' ? getPaymentRequest.call(this, itemIndex, symbol) : null;
+      const amount =
+        payment?.baseUnits ??
+        toBaseUnits(this.getNodeParameter('amount', itemIndex) as string, chain.decimals);
+      let memo = payment?.message ?? getOptionalParameter(this, 'memo', itemIndex, '');
+      let msg: CosmosAminoMsg;
+
+      if (operation === 'send') {
+        const to = payment?.address ?? (this.getNodeParameter('toAddress', itemIndex) as string);
+        const type = symbol === 'RUNE' ? 'thorchain/MsgSend' : 'cosmos-sdk/MsgSend';
+        msg = buildCosmosSendMsg(from, to, amount, chain.denom, type);
+      } else if (operation === 'delegate') {
+        const validator = this.getNodeParameter('validatorAddress', itemIndex) as string;
+        msg = buildCosmosDelegateMsg(from, validator, amount, chain.denom);
+      } else if (symbol === 'RUNE') {
+        const limit = getOptionalParameter(this, 'swapLimit', itemIndex, '');
+        memo = createThorchainSwapMemo({
+          asset: this.getNodeParameter('targetAsset', itemIndex) as string,
+          destinationAddress: this.getNodeParameter('destinationAddress', itemIndex) as string,
+          limit: limit ? Number(limit) : undefined,
+        });
+        msg = buildThorchainDepositMsg(from, amount, memo);
+      } else {
+        msg = buildOsmosisSwapMsg(
+          from,
+          String(this.getNodeParameter('poolId', itemIndex)),
+          { denom: chain.denom, amount },
+          this.getNodeParameter('tokenOutDenom', itemIndex) as string,
+          this.getNodeParameter('tokenOutMinAmount', itemIndex) as string,
+        );
+      }
+
+      return {
+        from,
+        ...(await signCosmosMessages.call(this, ctx, itemIndex, symbol, path, [msg], memo)),
+      };
+    }
+    default:
+      throw unsupportedOperation.call(this, resource, operation, itemIndex);
+  }
+}
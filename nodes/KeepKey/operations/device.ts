@@ -0,0 +1,347 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Device management handlers: device, PIN, passphrase, recovery, firmware and security resources
+ */
+
+import { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+import { BITCOIN_LIKE_COINS, COSMOS_CHAINS, EVM_CHAINS } from '../constants/coins';
+import { pathStringToArray } from '../constants/derivationPaths';
+import { generatePinMatrixVisual, getPinMatrixTypeDescription } from '../utils/pinUtils';
+import {
+  getOptionalParameter,
+  OperationContext,
+  OperationResult,
+  unsupportedOperation,
+} from './common';
+
+function getFirmwareVersion(features: IDataObject): string {
+  return `${features.major_version as number}.${features.minor_version as number}.${features.patch_version as number}`;
+}
+
+/**
+ * Device resource
+ */
+export async function executeDeviceOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  const client = await ctx.getClient();
+
+  switch (operation) {
+    case 'getDeviceInfo': {
+      const features = await client.getFeatures();
+      return {
+        ...(client.getDevice() as unknown as IDataObject),
+        features: features as unknown as IDataObject,
+        firmwareVersion: getFirmwareVersion(features as unknown as IDataObject),
+      };
+    }
+    case 'initialize':
+    case 'getFeatures':
+      return (await client.getFeatures()) as unknown as IDataObject;
+    case 'initializeDevice':
+    case 'resetDevice': {
+      await client.resetDevice({
+        label: getOptionalParameter(this, 'label', itemIndex, ''),
+        passphrase_protection: getOptionalParameter(
+          this,
+          'passphrase_protection',
+          itemIndex,
+          false,
+        ),
+      });
+      return { success: true, operation };
+    }
+    case 'ping': {
+      const message = getOptionalParameter(this, 'message', itemIndex, 'ping') || 'ping';
+      return { message: await client.ping(message) };
+    }
+    case 'getEntropy': {
+      const size = getOptionalParameter(this, 'entropySize', itemIndex, 32);
+      const entropy = await client.getEntropy(size);
+      return { entropy: entropy.toString('hex'), size: entropy.length };
+    }
+    case 'clearSession':
+      await client.clearSession();
+      return { success: true };
+    case 'cancel':
+      await client.cancel();
+      return { success: true };
+    case 'wipeDevice':
+      await client.wipeDevice();
+      return { success: true, wiped: true };
+    case 'applySettings': {
+      const settings: { label?: string; language?: string } = {};
+      const label = getOptionalParameter(this, 'label', itemIndex, '');
+      const language = getOptionalParameter(this, 'language', itemIndex, '');
+      if (label) {
+        settings.label = label;
+      }
+      if (language) {
+        settings.language = language;
+      }
+      await client.applySettings(settings);
+      return { success: true, settings };
+    }
+    case 'getDeviceId': {
+      const features = await client.getFeatures();
+      return { deviceId: features.device_id };
+    }
+    case 'getLabel': {
+      const features = await client.getFeatures();
+      return { label: features.label };
+    }
+    case 'setLabel': {
+      const label = this.getNodeParameter('label', itemIndex) as string;
+      await client.applySettings({ label });
+      return { success: true, label };
+    }
+    case 'getLanguage': {
+      const features = await client.getFeatures();
+      return { language: features.language };
+    }
+    case 'setLanguage': {
+      const language = this.getNodeParameter('language', itemIndex) as string;
+      await client.applySettings({ language });
+      return { success: true, language };
+    }
+    case 'enablePassphrase':
+    case 'disablePassphrase': {
+      const enabled = operation === 'enablePassphrase';
+      await client.applySettings({ use_passphrase: enabled });
+      return { success: true, passphraseProtection: enabled };
+    }
+    case 'setAutoLockDelay': {
+      const delay = this.getNodeParameter('autoLockDelayMs', itemIndex) as number;
+      await client.applySettings({ auto_lock_delay_ms: delay });
+      return { success: true, autoLockDelayMs: delay };
+    }
+    case 'getCoinTable':
+      return {
+        bitcoinLike: Object.values(BITCOIN_LIKE_COINS) as unknown as IDataObject[],
+        evm: Object.values(EVM_CHAINS) as unknown as IDataObject[],
+        cosmos: Object.values(COSMOS_CHAINS) as unknown as IDataObject[],
+      };
+    case 'getPublicKey': {
+      const path = this.getNodeParameter('address_n', itemIndex) as string;
+      const result = await client.getPublicKey({
+        address_n: pathStringToArray(path),
+        coin_name: getOptionalParameter(this, 'coin_name', itemIndex, 'Bitcoin'),
+        show_display: getOptionalParameter(this, 'show_display', itemIndex, false),
+      });
+      return { path, ...(result as unknown as IDataObject) };
+    }
+    case 'recoverDevice':
+      return startRecovery.call(this, ctx, itemIndex, false);
+    default:
+      throw unsupportedOperation.call(this, 'device', operation, itemIndex);
+  }
+}
+
+async function startRecovery(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  itemIndex: number,
+  dryRun: boolean,
+): Promise<IDataObject> {
+  const client = await ctx.getClient();
+  const wordCount = getOptionalParameter(this, 'word_count', itemIndex, 24) as 12 | 18 | 24;
+
+  await client.recoverDevice({
+    word_count: wordCount,
+    passphrase_protection: getOptionalParameter(this, 'passphrase_protection', itemIndex, false),
+    pin_protection: getOptionalParameter(this, 'pin_protection', itemIndex, true),
+    label: getOptionalParameter(this, 'label', itemIndex, ''),
+    dry_run: dryRun,
+  });
+  return { recoveryStarted: true, wordCount, dryRun };
+}
+
+/**
+ * Recovery resource
+ */
+export async function executeRecoveryOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  switch (operation) {
+    case 'startRecovery':
+      return startRecovery.call(this, ctx, itemIndex, false);
+    case 'verifySeed':
+    case 'dryRunRecovery':
+      return startRecovery.call(this, ctx, itemIndex, true);
+    case 'enterWord': {
+      const client = await ctx.getClient();
+      const word = (this.getNodeParameter('word', itemIndex) as string).trim().toLowerCase();
+      const response = await client.sendWord(word);
+      return { accepted: true, responseType: response.type };
+    }
+    case 'cancelRecovery': {
+      const client = await ctx.getClient();
+      await client.cancel();
+      return { cancelled: true };
+    }
+    default:
+      throw unsupportedOperation.call(this, 'recovery', operation, itemIndex);
+  }
+}
+
+/**
+ * PIN resource
+ */
+export async function executePinOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  switch (operation) {
+    case 'changePin':
+    case 'removePin': {
+      const client = await ctx.getClient();
+      await client.changePin(operation === 'removePin');
+      return { success: true, removed: operation === 'removePin' };
+    }
+    case 'checkPinStatus': {
+      const client = await ctx.getClient();
+      const features = await client.getFeatures();
+      return { pinProtection: features.pin_protection };
+    }
+    case 'getPinMatrix':
+      return {
+        matrix: generatePinMatrixVisual(),
+        description: getPinMatrixTypeDescription(
+          getOptionalParameter(this, 'pinMatrixType', itemIndex, 1),
+        ),
+      };
+    default:
+      throw unsupportedOperation.call(this, 'pin', operation, itemIndex);
+  }
+}
+
+/**
+ * Passphrase resource
+ */
+export async function executePassphraseOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  const client = await ctx.getClient();
+
+  switch (operation) {
+    case 'enable':
+    case 'disable': {
+      const enabled = operation === 'enable';
+      await client.applySettings({ use_passphrase: enabled });
+      return { success: true, passphraseProtection: enabled };
+    }
+    case 'checkStatus': {
+      const features = await client.getFeatures();
+      return { passphraseProtection: features.passphrase_protection };
+    }
+    default:
+      throw unsupportedOperation.call(this, 'passphrase', operation, itemIndex);
+  }
+}
+
+/**
+ * Firmware resource
+ */
+export async function executeFirmwareOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  switch (operation) {
+    case 'getVersion':
+    case 'checkUpdate': {
+      const client = await ctx.getClient();
+      const features = (await client.getFeatures()) as unknown as IDataObject;
+      return {
+        firmwareVersion: getFirmwareVersion(features),
+        bootloaderMode: features.bootloader_mode,
+        firmwarePresent: features.firmware_present,
+        vendor: features.fw_vendor ?? features.vendor,
+      };
+    }
+    default:
+      throw unsupportedOperation.call(this, 'firmware', operation, itemIndex);
+  }
+}
+
+/**
+ * Security resource
+ */
+export async function executeSecurityOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  switch (operation) {
+    case 'lockDevice': {
+      const client = await ctx.getClient();
+      await client.clearSession();
+      return { locked: true };
+    }
+    case 'checkSecurity':
+    case 'getSecurityInfo': {
+      const client = await ctx.getClient();
+      const features = await client.getFeatures();
+      const warnings: string[] = [];
+      if (!features.pin_protection) {
+        warnings.push('PIN protection is disabled');
+      }
+      if (features.needs_backup) {
+        warnings.push('Recovery seed has not been backed up');
+      }
+      if (!features.initialized) {
+        warnings.push('Device is not initialized');
+      }
+      return {
+        initialized: features.initialized,
+        pinProtection: features.pin_protection,
+        passphraseProtection: features.passphrase_protection,
+        needsBackup: features.needs_backup ?? false,
+        bootloaderMode: features.bootloader_mode,
+        warnings,
+      };
+    }
+    case 'setAutoLock': {
+      const client = await ctx.getClient();
+      const delay = this.getNodeParameter('autoLockDelayMs', itemIndex) as number;
+      await client.applySettings({ auto_lock_delay_ms: delay });
+      return { success: true, autoLockDelayMs: delay };
+    }
+    case 'factoryReset': {
+      const client = await ctx.getClient();
+      await client.wipeDevice();
+      return { success: true, wiped: true };
+    }
+    case 'exportDebugLog': {
+      const client = await ctx.getClient();
+      const features = await client.getFeatures();
+      return {
+        device: client.getDevice() as unknown as IDataObject,
+        features: features as unknown as IDataObject,
+        exportedAt: new Date().toISOString(),
+      };
+    }
+    default:
+      throw unsupportedOperation.call(this, 'security', operation, itemIndex);
+  }
+}
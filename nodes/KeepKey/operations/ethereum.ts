@@ -0,0 +1,631 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Ethereum, EVM chain, ERC-20 and DeFi resource handlers
+ */
+
+import { IDataObject, IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+
+import { EVM_CHAINS } from '../constants/coins';
+import { pathStringToArray } from '../constants/derivationPaths';
+import { signEthereumTransaction, type SignedEthereumTransaction } from '../signing';
+import {
+  decodeFunctionResult,
+  encodeFunctionCall,
+  findAbiFunction,
+  getFunctionSignature,
+  parseAbi,
+  type AbiFunction,
+} from '../utils/abiUtils';
+import {
+  getNextNonce,
+  getNonceKey,
+  getReplacementFees,
+  getTransactionStatus,
+  pruneTrackedNonces,
+  reserveNonce,
+  type EvmFees,
+  type TrackedNonce,
+} from '../utils/nonceUtils';
+import {
+  buildEip1559Transaction,
+  buildErc20TransferData,
+  buildLegacyTransaction,
+  fromBaseUnits,
+  toBaseUnits,
+  type EthereumTxParams,
+} from '../utils/transactionUtils';
+import {
+  EVM_CHAIN_PARAM_SYMBOLS,
+  getOptionalParameter,
+  getPaymentRequest,
+  OperationContext,
+  OperationResult,
+  parseJsonParameter,
+  resolveDerivationPath,
+  signTypedDataParameter,
+  unsupportedOperation,
+} from './common';
+import {
+  callEvmContract,
+  estimateEvmGas,
+  getEvmAccountNonces,
+  getEvmBalance,
+  getEvmChainId,
+  getEvmGasPrice,
+  getEvmRpcClient,
+  getEvmTransaction,
+  getEvmTransactionWithReceipt,
+} from './evmChain';
+
+/**
+ * Nonces handed out per account (see nonceUtils), as saved in the workflow's static data
+ */
+type NonceStore = Record<string, TrackedNonce[]>;
+
+/**
+ * Nonces handed out in this process, keyed by account and shared by every workflow
+ *
+ * Parallel executions each work on their own copy of the static data, the
+ * last one to finish overwriting the others, manual runs do not save it, and
+ * other workflows signing from the same account never see it. Reservations
+ * are therefore made here, with no await between reading and writing; the
+ * static data only carries them across restarts.
+ */
+const trackedNonces = new Map<string, TrackedNonce[]>();
+
+/**
+ * Resolve the EVM chain for an item (the Ethereum resource is always mainnet)
+ */
+export function getEvmChainSymbol(
+  this: IExecuteFunctions,
+  resource: string,
+  itemIndex: number,
+): string {
+  if (resource === 'ethereum') {
+    return 'ETH';
+  }
+  const chain = getOptionalParameter(this, 'chain', itemIndex, 'ethereum');
+  return EVM_CHAIN_PARAM_SYMBOLS[chain] ?? 'ETH';
+}
+
+/**
+ * Fees from the node's EIP-1559 or legacy gas price settings, in wei
+ */
+function getFeeParameters(this: IExecuteFunctions, itemIndex: number): EvmFees {
+  if (getOptionalParameter(this, 'useEip1559', itemIndex, true)) {
+    return {
+      maxFeePerGas: toBaseUnits(this.getNodeParameter('maxFee', itemIndex) as string, 9),
+      maxPriorityFeePerGas: toBaseUnits(
+        this.getNodeParameter('maxPriorityFee', itemIndex) as string,
+        9,
+      ),
+    };
+  }
+
+  const gasPrice = getOptionalParameter(this, 'gasPrice', itemIndex, '');
+  if (!gasPrice) {
+    throw new NodeOperationError(this.getNode(), 'Gas price is required for legacy transactions', {
+      itemIndex,
+    });
+  }
+  return { gasPrice: toBaseUnits(gasPrice, 9) };
+}
+
+/**
+ * Build transaction parameters, as EIP-1559 when the fees have a cap and tip
+ */
+function buildEthereumTransaction(
+  call: { to: string; value: string; data?: string; chainId: number },
+  nonce: number,
+  gasLimit: number,
+  fees: EvmFees,
+): EthereumTxParams {
+  if (fees.maxFeePerGas !== undefined && fees.maxPriorityFeePerGas !== undefined) {
+    return buildEip1559Transaction(
+      call.to,
+      call.value,
+      nonce,
+      gasLimit,
+      fees.maxFeePerGas,
+      fees.maxPriorityFeePerGas,
+      call.chainId,
+      call.data,
+    );
+  }
+  return buildLegacyTransaction(
+    call.to,
+    call.value,
+    nonce,
+    gasLimit,
+    fees.gasPrice ?? '0',
+    call.chainId,
+    call.data,
+  );
+}
+
+function getTrackedNonces(this: IExecuteFunctions, key: string): TrackedNonce[] {
+  const tracked = trackedNonces.get(key);
+  if (tracked) {
+    return tracked;
+  }
+  const store = (this.getWorkflowStaticData('global').evmNonces ?? {}) as NonceStore;
+  return store[key] ?? [];
+}
+
+function setTrackedNonces(this: IExecuteFunctions, key: string, tracked: TrackedNonce[]): void {
+  trackedNonces.set(key, tracked);
+  const staticData = this.getWorkflowStaticData('global');
+  staticData.evmNonces = { ...((staticData.evmNonces ?? {}) as NonceStore), [key]: tracked };
+}
+
+/**
+ * Record the transaction signed with a nonce, or release the nonce when there is none
+ */
+function trackNonce(this: IExecuteFunctions, key: string, nonce: number, hash?: string): void {
+  const tracked = getTrackedNonces.call(this, key).filter((entry) => entry.nonce !== nonce);
+  if (hash) {
+    tracked.push({ nonce, hash, reservedAt: Date.now() });
+    tracked.sort((a, b) => a.nonce - b.nonce);
+  }
+  setTrackedNonces.call(this, key, tracked);
+}
+
+/**
+ * Address from the Address field, or the device's at the derivation path when it is empty
+ */
+async function getAccountAddress(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  symbol: string,
+  itemIndex: number,
+): Promise<{ address: string; path?: string }> {
+  const address = getOptionalParameter(this, 'address', itemIndex, '').trim();
+  if (address) {
+    return { address };
+  }
+  const client = await ctx.getClient();
+  const path = resolveDerivationPath.call(this, itemIndex, symbol);
+  return {
+    address: await client.ethereumGetAddress({ address_n: pathStringToArray(path) }),
+    path,
+  };
+}
+
+/**
+ * Call data encoded from the ABI fields, or the Data field as is when no ABI is given
+ */
+function getCallData(
+  this: IExecuteFunctions,
+  itemIndex: number,
+): { data?: string; abiFunction?: AbiFunction } {
+  const abi = getOptionalParameter(this, 'abi', itemIndex, '').trim();
+  if (!abi) {
+    return { data: getOptionalParameter(this, 'data', itemIndex, '') || undefined };
+  }
+  const args = parseJsonParameter.call(this, 'functionArgs', itemIndex);
+  try {
+    const abiFunction = findAbiFunction(
+      parseAbi(abi),
+      getOptionalParameter(this, 'functionName', itemIndex, ''),
+    );
+    return { data: encodeFunctionCall(abiFunction, args ?? []), abiFunction };
+  } catch (error) {
+    throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+  }
+}
+
+/**
+ * Ethereum, EVM chain and ERC-20 resources
+ */
+export async function executeEthereumOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  const resource = this.getNodeParameter('resource', itemIndex);
+  const symbol = getEvmChainSymbol.call(this, resource, itemIndex);
+  const chainId = await getEvmChainId.call(this, symbol);
+
+  switch (operation) {
+    case 'getAddress': {
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, symbol);
+      const showOnDevice = getOptionalParameter(this, 'showOnDevice', itemIndex, false);
+      const address = await client.ethereumGetAddress({
+        address_n: pathStringToArray(path),
+        show_display: showOnDevice,
+      });
+      return { chain: symbol, chainId, address, path, verified: showOnDevice };
+    }
+    case 'signMessage': {
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, symbol);
+      const message = this.getNodeParameter('message', itemIndex) as string;
+      const result = await client.ethereumSignMessage({
+        address_n: pathStringToArray(path),
+        message: Buffer.from(message, 'utf8').toString('hex'),
+      });
+      return { chain: symbol, path, message, address: result.address, signature: result.signature };
+    }
+    case 'verifyMessage': {
+      const client = await ctx.getClient();
+      const message = this.getNodeParameter('message', itemIndex) as string;
+      const address = this.getNodeParameter('address', itemIndex) as string;
+      const signature = this.getNodeParameter('signature', itemIndex) as string;
+      const valid = await client.ethereumVerifyMessage({
+        address,
+        signature,
+        message: Buffer.from(message, 'utf8').toString('hex'),
+      });
+      return { chain: symbol, address, message, valid };
+    }
+    case 'signTypedData': {
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, symbol);
+      const signed = await signTypedDataParameter.call(this, client, path, itemIndex);
+      return { chain: symbol, ...signed };
+    }
+    case 'signTransaction':
+    case 'transfer': {
+      if (!chainId) {
+        throw unsupportedOperation.call(this, resource, operation, itemIndex);
+      }
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, symbol);
+      // A payment URI sets the recipient and token; without an amount the Amount field is used
+      const payment = getPaymentRequest.call(this, itemIndex, symbol);
+      const toAddress =
+        payment?.address ?? (this.getNodeParameter('toAddress', itemIndex) as string);
+      const tokenAddress = payment
+        ? payment.tokenContract
+        : operation === 'transfer'
+          ? (this.getNodeParameter('tokenAddress', itemIndex) as string)
+          : undefined;
+      const amount = this.getNodeParameter('amount', itemIndex) as string;
+
+      // Token transfers send no ether; the recipient and amount go in the call data
+      const call = tokenAddress
+        ? {
+            to: tokenAddress,
+            value: '0',
+            data: buildErc20TransferData(
+              toAddress,
+              payment?.baseUnits ??
+                toBaseUnits(amount, getOptionalParameter(this, 'tokenDecimals', itemIndex, 18)),
+            ),
+            chainId,
+          }
+        : {
+            to: toAddress,
+            value: payment?.baseUnits ?? toBaseUnits(amount || '0', 18),
+            data: getCallData.call(this, itemIndex).data,
+            chainId,
+          };
+      const fees = getFeeParameters.call(this, itemIndex);
+      const gasLimit = this.getNodeParameter('gasLimit', itemIndex) as number;
+
+      // A managed nonce is held for this workflow until the chain has seen the transaction
+      let nonceKey: string | undefined;
+      let nonce: number;
+      if (getOptionalParameter(this, 'manageNonce', itemIndex, false)) {
+        const address = await client.ethereumGetAddress({ address_n: pathStringToArray(path) });
+        const rpc = await getEvmRpcClient.call(this, symbol, itemIndex);
+        const nonces = await getEvmAccountNonces.call(this, rpc, address, itemIndex);
+        nonceKey = getNonceKey(chainId, address);
+        const reserved = reserveNonce(getTrackedNonces.call(this, nonceKey), nonces, Date.now());
+        setTrackedNonces.call(this, nonceKey, reserved.tracked);
+        nonce = reserved.nonce;
+      } else {
+        nonce = this.getNodeParameter('nonce', itemIndex) as number;
+      }
+
+      const tx = buildEthereumTransaction(call, nonce, gasLimit, fees);
+      let signed: SignedEthereumTransaction;
+      try {
+        signed = await signEthereumTransaction(client, pathStringToArray(path), tx);
+      } catch (error) {
+        if (nonceKey) {
+          trackNonce.call(this, nonceKey, nonce);
+        }
+        throw error;
+      }
+      if (nonceKey) {
+        trackNonce.call(this, nonceKey, nonce, signed.hash);
+      }
+      return {
+        chain: symbol,
+        chainId,
+        path,
+        to: tx.to,
+        value: tx.value,
+        nonce: tx.nonce,
+        txType: tx.txType ?? 0,
+        v: signed.v,
+        r: signed.r,
+        s: signed.s,
+        signedTx: signed.serializedTx,
+        hash: signed.hash,
+      };
+    }
+    case 'getBalance': {
+      // Token balances need the token contract, which this does not read
+      if (resource === 'erc20') {
+        throw unsupportedOperation.call(this, resource, operation, itemIndex);
+      }
+      const { address, path } = await getAccountAddress.call(this, ctx, symbol, itemIndex);
+      const rpc = await getEvmRpcClient.call(this, symbol, itemIndex);
+      const balance = await getEvmBalance.call(this, rpc, address, itemIndex);
+      return {
+        chain: symbol,
+        chainId,
+        address,
+        path,
+        balance: fromBaseUnits(balance, 18),
+        balanceWei: balance,
+        currency: EVM_CHAINS[symbol]?.nativeCurrency ?? symbol,
+      };
+    }
+    case 'getGasPrice': {
+      const rpc = await getEvmRpcClient.call(this, symbol, itemIndex);
+      const { gasPrice, baseFeePerGas, maxPriorityFeePerGas } = await getEvmGasPrice.call(
+        this,
+        rpc,
+        itemIndex,
+      );
+      // Room for the base fee to double before the transaction is included, as wallets allow
+      const maxFeePerGas =
+        baseFeePerGas === undefined
+          ? undefined
+          : (BigInt(baseFeePerGas) * BigInt(2) + BigInt(maxPriorityFeePerGas)).toString();
+      return {
+        chain: symbol,
+        chainId,
+        gasPrice: fromBaseUnits(gasPrice, 9),
+        baseFee: baseFeePerGas === undefined ? undefined : fromBaseUnits(baseFeePerGas, 9),
+        maxPriorityFee: fromBaseUnits(maxPriorityFeePerGas, 9),
+        maxFee: maxFeePerGas === undefined ? undefined : fromBaseUnits(maxFeePerGas, 9),
+        gasPriceWei: gasPrice,
+        eip1559: baseFeePerGas !== undefined,
+      };
+    }
+    case 'estimateGas': {
+      const { address } = await getAccountAddress.call(this, ctx, symbol, itemIndex);
+      const rpc = await getEvmRpcClient.call(this, symbol, itemIndex);
+      const to = this.getNodeParameter('toAddress', itemIndex) as string;
+      const value = toBaseUnits(getOptionalParameter(this, 'amount', itemIndex, '') || '0', 18);
+      const { data } = getCallData.call(this, itemIndex);
+      const [gasLimit, { gasPrice }] = await Promise.all([
+        estimateEvmGas.call(
+          this,
+          rpc,
+          { from: address, to, value: `0x${BigInt(value).toString(16)}`, data },
+          itemIndex,
+        ),
+        getEvmGasPrice.call(this, rpc, itemIndex),
+      ]);
+      const fee = (BigInt(gasLimit) * BigInt(gasPrice)).toString();
+      return {
+        chain: symbol,
+        chainId,
+        from: address,
+        to,
+        value,
+        gasLimit,
+        gasPrice: fromBaseUnits(gasPrice, 9),
+        estimatedFee: fromBaseUnits(fee, 18),
+        estimatedFeeWei: fee,
+      };
+    }
+    case 'callContract': {
+      const rpc = await getEvmRpcClient.call(this, symbol, itemIndex);
+      const to = this.getNodeParameter('contractAddress', itemIndex) as string;
+      const { data = '0x', abiFunction } = getCallData.call(this, itemIndex);
+      const result = await callEvmContract.call(this, rpc, { to, data }, itemIndex);
+      if (!abiFunction) {
+        return { chain: symbol, chainId, to, data, result };
+      }
+      let decoded: IDataObject;
+      try {
+        decoded = decodeFunctionResult(abiFunction, result) as IDataObject;
+      } catch (error) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Could not decode the result of ${abiFunction.name}: ${(error as Error).message}`,
+          { itemIndex },
+        );
+      }
+      return {
+        chain: symbol,
+        chainId,
+        to,
+        function: getFunctionSignature(abiFunction),
+        data,
+        result,
+        decoded,
+        // The lone output of a getter, such as balanceOf
+        value: abiFunction.outputs.length === 1 ? Object.values(decoded)[0] : undefined,
+      };
+    }
+    case 'getTransaction': {
+      const rpc = await getEvmRpcClient.call(this, symbol, itemIndex);
+      const hash = (this.getNodeParameter('txHash', itemIndex) as string).trim();
+      const tx = await getEvmTransaction.call(this, rpc, hash, itemIndex);
+      if (!tx) {
+        throw new NodeOperationError(this.getNode(), `Transaction ${hash} was not found`, {
+          itemIndex,
+        });
+      }
+      return {
+        chain: symbol,
+        hash: tx.hash,
+        from: tx.from,
+        to: tx.to,
+        nonce: tx.nonce,
+        value: fromBaseUnits(tx.value, 18),
+        valueWei: tx.value,
+        data: tx.data,
+        gasLimit: tx.gasLimit,
+        txType: tx.txType,
+        ...tx.fees,
+        blockNumber: tx.blockNumber,
+        pending: tx.blockNumber === null,
+      };
+    }
+    case 'getNonce': {
+      if (!chainId) {
+        throw unsupportedOperation.call(this, resource, operation, itemIndex);
+      }
+      const { address, path } = await getAccountAddress.call(this, ctx, symbol, itemIndex);
+      const rpc = await getEvmRpcClient.call(this, symbol, itemIndex);
+      const nonces = await getEvmAccountNonces.call(this, rpc, address, itemIndex);
+      const tracked = pruneTrackedNonces(
+        getTrackedNonces.call(this, getNonceKey(chainId, address)),
+        nonces,
+        Date.now(),
+      );
+      return {
+        chain: symbol,
+        chainId,
+        address,
+        path,
+        nonce: getNextNonce(tracked, nonces),
+        latestNonce: nonces.latest,
+        pendingNonce: nonces.pending,
+        tracked: tracked.map(({ nonce, hash, reservedAt }) => ({
+          nonce,
+          hash,
+          reservedAt: new Date(reservedAt).toISOString(),
+        })),
+      };
+    }
+    case 'getTransactionReceipt': {
+      const rpc = await getEvmRpcClient.call(this, symbol, itemIndex);
+      const hash = (this.getNodeParameter('txHash', itemIndex) as string).trim();
+      const { transaction: tx, receipt } = await getEvmTransactionWithReceipt.call(
+        this,
+        rpc,
+        hash,
+        itemIndex,
+      );
+
+      // Without a receipt, the sender's mined nonce and the base fee tell why it is waiting
+      let latestNonce: number | undefined;
+      let baseFeePerGas: string | undefined;
+      if (!receipt && tx) {
+        const [nonces, gasPrice] = await Promise.all([
+          getEvmAccountNonces.call(this, rpc, tx.from, itemIndex),
+          getEvmGasPrice.call(this, rpc, itemIndex),
+        ]);
+        latestNonce = nonces.latest;
+        baseFeePerGas = gasPrice.baseFeePerGas;
+      }
+      const { status, reason } = getTransactionStatus({
+        receiptStatus: receipt?.status,
+        transaction: tx ?? undefined,
+        latestNonce,
+        baseFeePerGas,
+      });
+      return {
+        chain: symbol,
+        hash,
+        status,
+        reason,
+        from: tx?.from,
+        to: tx?.to,
+        nonce: tx?.nonce,
+        ...tx?.fees,
+        blockNumber: receipt?.blockNumber,
+        gasUsed: receipt?.gasUsed,
+        effectiveGasPrice: receipt?.effectiveGasPrice,
+        contractAddress: receipt?.contractAddress,
+        logs: receipt?.logs,
+        latestNonce,
+        baseFeePerGas,
+      };
+    }
+    case 'speedUpTransaction':
+    case 'cancelTransaction': {
+      if (!chainId) {
+        throw unsupportedOperation.call(this, resource, operation, itemIndex);
+      }
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, symbol);
+      const address = await client.ethereumGetAddress({ address_n: pathStringToArray(path) });
+      const rpc = await getEvmRpcClient.call(this, symbol, itemIndex);
+      const hash = (this.getNodeParameter('txHash', itemIndex) as string).trim();
+
+      const original = await getEvmTransaction.call(this, rpc, hash, itemIndex);
+      if (!original) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Transaction ${hash} was not found: it was dropped or never broadcast`,
+          { itemIndex },
+        );
+      }
+      if (original.blockNumber !== null) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Transaction ${hash} is already mined in block ${original.blockNumber}`,
+          { itemIndex },
+        );
+      }
+      if (original.from.toLowerCase() !== address.toLowerCase()) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Transaction ${hash} was sent from ${original.from}, not from ${address} at ${path}`,
+          { itemIndex },
+        );
+      }
+
+      // A speed-up resends the same call; a cancellation sends nothing to ourselves
+      const fees = getReplacementFees(original.fees, getFeeParameters.call(this, itemIndex));
+      const tx =
+        operation === 'cancelTransaction'
+          ? buildEthereumTransaction(
+              { to: address, value: '0', chainId },
+              original.nonce,
+              21000,
+              fees,
+            )
+          : buildEthereumTransaction(
+              {
+                to: original.to ?? '',
+                value: original.value,
+                data: original.data === '0x' ? undefined : original.data,
+                chainId,
+              },
+              original.nonce,
+              original.gasLimit,
+              fees,
+            );
+      const signed = await signEthereumTransaction(client, pathStringToArray(path), tx);
+      trackNonce.call(this, getNonceKey(chainId, address), tx.nonce, signed.hash);
+      return {
+        chain: symbol,
+        chainId,
+        path,
+        replacedHash: hash,
+        to: tx.to,
+        value: tx.value,
+        nonce: tx.nonce,
+        txType: tx.txType ?? 0,
+        ...fees,
+        originalFees: { ...original.fees },
+        v: signed.v,
+        r: signed.r,
+        s: signed.s,
+        signedTx: signed.serializedTx,
+        hash: signed.hash,
+      };
+    }
+    default:
+      throw unsupportedOperation.call(this, resource, operation, itemIndex);
+  }
+}
@@ -0,0 +1,375 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Chain backend for EVM chains (Ethereum JSON-RPC)
+ */
+
+import { IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+
+import { EVM_CHAINS } from '../constants/coins';
+import { ALCHEMY_NETWORKS, ETHEREUM_NETWORKS, INFURA_NETWORKS } from '../constants/networks';
+import { JsonRpcClient } from '../utils/jsonRpcUtils';
+import type { AccountNonces, EvmFees } from '../utils/nonceUtils';
+import { getNetworkCredentials } from './chain';
+
+/** A block number in hex, or latest, pending or earliest */
+type BlockTag = string;
+
+/**
+ * Call object of eth_call and eth_estimateGas, with hex quantities
+ */
+export interface EvmCallRequest {
+  from?: string;
+  to: string;
+  value?: string;
+  data?: string;
+}
+
+interface RpcTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  nonce: string;
+  value: string;
+  input: string;
+  gas: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  type?: string;
+  blockNumber: string | null;
+}
+
+interface RpcReceipt {
+  transactionHash: string;
+  status?: string;
+  blockNumber: string;
+  gasUsed: string;
+  effectiveGasPrice?: string;
+  contractAddress: string | null;
+  logs: unknown[];
+}
+
+interface RpcBlock {
+  number: string;
+  baseFeePerGas?: string;
+}
+
+/**
+ * The Ethereum JSON-RPC methods the node uses
+ */
+export type EvmRpcMethods = {
+  eth_getBalance: { params: [string, BlockTag]; result: string };
+  eth_getTransactionCount: { params: [string, BlockTag]; result: string };
+  eth_gasPrice: { params: []; result: string };
+  eth_estimateGas: { params: [EvmCallRequest]; result: string };
+  eth_call: { params: [EvmCallRequest, BlockTag]; result: string };
+  eth_getTransactionByHash: { params: [string]; result: RpcTransaction | null };
+  eth_getTransactionReceipt: { params: [string]; result: RpcReceipt | null };
+  eth_getBlockByNumber: { params: [BlockTag, boolean]; result: RpcBlock | null };
+};
+
+export type EvmRpcClient = JsonRpcClient<EvmRpcMethods>;
+
+/**
+ * A transaction known to the node, with quantities in decimal
+ */
+export interface EvmTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  nonce: number;
+  /** wei */
+  value: string;
+  data: string;
+  gasLimit: number;
+  fees: EvmFees;
+  txType: number;
+  /** null while pending */
+  blockNumber: number | null;
+}
+
+export interface EvmReceipt {
+  hash: string;
+  /** 1 for success, 0 for a revert */
+  status: number;
+  blockNumber: number;
+  gasUsed: number;
+  effectiveGasPrice?: string;
+  contractAddress: string | null;
+  logs: unknown[];
+}
+
+/**
+ * Current fees in wei
+ */
+export interface EvmGasPrice {
+  gasPrice: string;
+  /** Base fee of the latest block, undefined on chains without EIP-1559 */
+  baseFeePerGas?: string;
+  /** The tip included in the node's gas price */
+  maxPriorityFeePerGas: string;
+}
+
+const RPC_TIMEOUT = 10000;
+
+function toDecimal(quantity: string): string {
+  return BigInt(quantity).toString();
+}
+
+function toTransaction(tx: RpcTransaction): EvmTransaction {
+  const txType = tx.type ? Number(tx.type) : 0;
+  return {
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to,
+    nonce: Number(tx.nonce),
+    value: toDecimal(tx.value),
+    data: tx.input,
+    gasLimit: Number(tx.gas),
+    fees:
+      txType === 2 && tx.maxFeePerGas && tx.maxPriorityFeePerGas
+        ? {
+            maxFeePerGas: toDecimal(tx.maxFeePerGas),
+            maxPriorityFeePerGas: toDecimal(tx.maxPriorityFeePerGas),
+          }
+        : { gasPrice: toDecimal(tx.gasPrice ?? '0x0') },
+    txType,
+    blockNumber: tx.blockNumber === null ? null : Number(tx.blockNumber),
+  };
+}
+
+function toReceipt(receipt: RpcReceipt): EvmReceipt {
+  return {
+    hash: receipt.transactionHash,
+    // Receipts from before Byzantium carry a state root instead of a status
+    status: receipt.status === undefined ? 1 : Number(receipt.status),
+    blockNumber: Number(receipt.blockNumber),
+    gasUsed: Number(receipt.gasUsed),
+    effectiveGasPrice: receipt.effectiveGasPrice ? toDecimal(receipt.effectiveGasPrice) : undefined,
+    contractAddress: receipt.contractAddress,
+    logs: receipt.logs,
+  };
+}
+
+/**
+ * Await an RPC call, reporting its failure against the item
+ */
+async function request<T>(
+  context: IExecuteFunctions,
+  pending: Promise<T>,
+  itemIndex: number,
+): Promise<T> {
+  try {
+    return await pending;
+  } catch (error) {
+    throw new NodeOperationError(context.getNode(), (error as Error).message, { itemIndex });
+  }
+}
+
+/**
+ * Ethereum network from the optional KeepKey Network credentials
+ */
+async function getEthereumNetwork(this: IExecuteFunctions): Promise<string> {
+  const credentials = await getNetworkCredentials.call(this);
+  const network = credentials?.ethereumNetwork as string | undefined;
+  return network && network in ETHEREUM_NETWORKS ? network : 'mainnet';
+}
+
+/**
+ * Chain ID of an EVM chain, following the credentials' network for Ethereum
+ */
+export async function getEvmChainId(
+  this: IExecuteFunctions,
+  symbol: string,
+): Promise<number | undefined> {
+  if (symbol === 'ETH') {
+    return ETHEREUM_NETWORKS[await getEthereumNetwork.call(this)].chainId;
+  }
+  return EVM_CHAINS[symbol]?.chainId;
+}
+
+/**
+ * JSON-RPC endpoints of an EVM chain, in the order to try them
+ *
+ * The KeepKey Network Ethereum RPC URLs come first for Ethereum, then
+ * Infura and Alchemy when their keys are set, then the public endpoints.
+ */
+export async function getEvmRpcEndpoints(
+  this: IExecuteFunctions,
+  symbol: string,
+  itemIndex: number,
+): Promise<string[]> {
+  const credentials = await getNetworkCredentials.call(this);
+  const network = symbol === 'ETH' ? await getEthereumNetwork.call(this) : symbol;
+  const endpoints: string[] = [];
+
+  const customUrls = (credentials?.ethereumRpcUrl as string | undefined) ?? '';
+  if (symbol === 'ETH') {
+    endpoints.push(...customUrls.split(',').map((url) => url.trim()));
+  }
+  const infuraProjectId = credentials?.infuraProjectId as string | undefined;
+  if (infuraProjectId && INFURA_NETWORKS[network]) {
+    endpoints.push(`https://${INFURA_NETWORKS[network]}.infura.io/v3/${infuraProjectId}`);
+  }
+  const alchemyApiKey = credentials?.alchemyApiKey as string | undefined;
+  if (alchemyApiKey && ALCHEMY_NETWORKS[network]) {
+    endpoints.push(`https://${ALCHEMY_NETWORKS[network]}.g.alchemy.com/v2/${alchemyApiKey}`);
+  }
+  if (symbol === 'ETH' && network !== 'mainnet') {
+    endpoints.push(ETHEREUM_NETWORKS[network].rpcUrl);
+  } else {
+    const chain = EVM_CHAINS[symbol];
+    endpoints.push(chain?.rpcUrl ?? '', ...(chain?.fallbackRpcUrls ?? []));
+  }
+
+  const urls = endpoints.filter(Boolean);
+  if (!urls.length) {
+    throw new NodeOperationError(this.getNode(), `No RPC endpoint is known for ${symbol}`, {
+      itemIndex,
+    });
+  }
+  return urls;
+}
+
+/**
+ * JSON-RPC client failing over between the chain's endpoints
+ */
+export async function getEvmRpcClient(
+  this: IExecuteFunctions,
+  symbol: string,
+  itemIndex: number,
+): Promise<EvmRpcClient> {
+  const endpoints = await getEvmRpcEndpoints.call(this, symbol, itemIndex);
+  return new JsonRpcClient<EvmRpcMethods>(endpoints, async (url, body) =>
+    this.helpers.httpRequest({ method: 'POST', url, body, json: true, timeout: RPC_TIMEOUT }),
+  );
+}
+
+/**
+ * Balance of an address in wei
+ */
+export async function getEvmBalance(
+  this: IExecuteFunctions,
+  client: EvmRpcClient,
+  address: string,
+  itemIndex: number,
+): Promise<string> {
+  const balance = await request(
+    this,
+    client.call('eth_getBalance', [address, 'latest']),
+    itemIndex,
+  );
+  return toDecimal(balance);
+}
+
+/**
+ * Mined and pending transaction counts of an address
+ */
+export async function getEvmAccountNonces(
+  this: IExecuteFunctions,
+  client: EvmRpcClient,
+  address: string,
+  itemIndex: number,
+): Promise<AccountNonces> {
+  const [latest, pending] = await request(
+    this,
+    client.batch([
+      { method: 'eth_getTransactionCount', params: [address, 'latest'] },
+      { method: 'eth_getTransactionCount', params: [address, 'pending'] },
+    ]),
+    itemIndex,
+  );
+  return { latest: Number(latest), pending: Number(pending) };
+}
+
+/**
+ * The node's gas price with the base fee it includes
+ */
+export async function getEvmGasPrice(
+  this: IExecuteFunctions,
+  client: EvmRpcClient,
+  itemIndex: number,
+): Promise<EvmGasPrice> {
+  const [gasPrice, block] = await request(
+    this,
+    client.batch([
+      { method: 'eth_gasPrice', params: [] },
+      { method: 'eth_getBlockByNumber', params: ['latest', false] },
+    ]),
+    itemIndex,
+  );
+  const price = BigInt(gasPrice);
+  const baseFee = block?.baseFeePerGas ? BigInt(block.baseFeePerGas) : undefined;
+  const tip = baseFee === undefined || baseFee > price ? price : price - baseFee;
+  return {
+    gasPrice: price.toString(),
+    baseFeePerGas: baseFee?.toString(),
+    maxPriorityFeePerGas: tip.toString(),
+  };
+}
+
+/**
+ * Gas a call would use
+ */
+export async function estimateEvmGas(
+  this: IExecuteFunctions,
+  client: EvmRpcClient,
+  call: EvmCallRequest,
+  itemIndex: number,
+): Promise<number> {
+  return Number(await request(this, client.call('eth_estimateGas', [call]), itemIndex));
+}
+
+/**
+ * Return data of a read-only call against the latest block
+ */
+export async function callEvmContract(
+  this: IExecuteFunctions,
+  client: EvmRpcClient,
+  call: EvmCallRequest,
+  itemIndex: number,
+): Promise<string> {
+  return request(this, client.call('eth_call', [call, 'latest']), itemIndex);
+}
+
+/**
+ * Look up a transaction, mined or pending; null when the node does not know it
+ */
+export async function getEvmTransaction(
+  this: IExecuteFunctions,
+  client: EvmRpcClient,
+  hash: string,
+  itemIndex: number,
+): Promise<EvmTransaction | null> {
+  const tx = await request(this, client.call('eth_getTransactionByHash', [hash]), itemIndex);
+  return tx ? toTransaction(tx) : null;
+}
+
+/**
+ * A transaction and its receipt, each null while unknown or pending
+ */
+export async function getEvmTransactionWithReceipt(
+  this: IExecuteFunctions,
+  client: EvmRpcClient,
+  hash: string,
+  itemIndex: number,
+): Promise<{ transaction: EvmTransaction | null; receipt: EvmReceipt | null }> {
+  const [tx, receipt] = await request(
+    this,
+    client.batch([
+      { method: 'eth_getTransactionByHash', params: [hash] },
+      { method: 'eth_getTransactionReceipt', params: [hash] },
+    ]),
+    itemIndex,
+  );
+  return {
+    transaction: tx ? toTransaction(tx) : null,
+    receipt: receipt ? toReceipt(receipt) : null,
+  };
+}
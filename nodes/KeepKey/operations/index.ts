@@ -0,0 +1,17 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+export * from './common';
+export * from './chain';
+export * from './evmChain';
+export * from './device';
+export * from './wallet';
+export * from './bitcoin';
+export * from './ethereum';
+export * from './cosmos';
+export * from './signing';
+export * from './market';
@@ -0,0 +1,208 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Exchange, asset, ShapeShift and swap resource handlers (ShapeShift API)
+ */
+
+import {
+  ICredentialDataDecryptedObject,
+  IDataObject,
+  IExecuteFunctions,
+  IHttpRequestMethods,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import { SHAPESHIFT_ENDPOINTS } from '../constants/networks';
+import { isValidEthereumAddress } from '../utils/addressUtils';
+import { validateSwapParams } from '../utils/swapUtils';
+import {
+  getOptionalParameter,
+  OperationContext,
+  OperationResult,
+  unsupportedOperation,
+} from './common';
+
+/**
+ * Call the ShapeShift API, using the base URL and key from the optional KeepKey API credentials
+ */
+export async function shapeShiftRequest(
+  this: IExecuteFunctions,
+  method: IHttpRequestMethods,
+  endpoint: string,
+  options: { qs?: IDataObject; body?: IDataObject } = {},
+): Promise<IDataObject | IDataObject[]> {
+  let credentials: ICredentialDataDecryptedObject | undefined;
+  try {
+    credentials = await this.getCredentials<ICredentialDataDecryptedObject>('keepKeyApi');
+  } catch {
+    // Credentials are optional for public endpoints
+  }
+
+  const baseUrl = credentials?.baseUrl as string | undefined;
+  const url = baseUrl
+    ? `${baseUrl.replace(/\/$/, '')}${endpoint.replace(/^\/api\/v1/, '')}`
+    : `${SHAPESHIFT_ENDPOINTS.API_URL}${endpoint}`;
+
+  return this.helpers.httpRequest({
+    method,
+    url,
+    qs: options.qs,
+    body: options.body,
+    json: true,
+    headers: credentials?.apiKey ? { Authorization: `Bearer ${credentials.apiKey as string}` } : {},
+  }) as Promise<IDataObject | IDataObject[]>;
+}
+
+function getSwapParams(this: IExecuteFunctions, itemIndex: number) {
+  const fromAsset = this.getNodeParameter('fromCoin', itemIndex) as string;
+  const toAsset = this.getNodeParameter('toCoin', itemIndex) as string;
+  const amount = parseFloat(this.getNodeParameter('amount', itemIndex) as string);
+  const destinationAddress = getOptionalParameter(this, 'destinationAddress', itemIndex, '');
+
+  const validation = validateSwapParams({ fromAsset, toAsset, amount, destinationAddress });
+  if (!validation.isValid) {
+    throw new NodeOperationError(this.getNode(), validation.errors.join(', '), { itemIndex });
+  }
+  return { fromAsset, toAsset, amount, destinationAddress };
+}
+
+async function getQuote(this: IExecuteFunctions, itemIndex: number): Promise<OperationResult> {
+  const { fromAsset, toAsset, amount } = getSwapParams.call(this, itemIndex);
+  return shapeShiftRequest.call(this, 'GET', SHAPESHIFT_ENDPOINTS.QUOTE, {
+    qs: { sellAsset: fromAsset, buyAsset: toAsset, sellAmount: amount },
+  });
+}
+
+async function createSwap(this: IExecuteFunctions, itemIndex: number): Promise<OperationResult> {
+  const { fromAsset, toAsset, amount, destinationAddress } = getSwapParams.call(this, itemIndex);
+  return shapeShiftRequest.call(this, 'POST', SHAPESHIFT_ENDPOINTS.SWAP, {
+    body: {
+      sellAsset: fromAsset,
+      buyAsset: toAsset,
+      sellAmount: amount,
+      receiveAddress: destinationAddress,
+      refundAddress: getOptionalParameter(this, 'returnAddress', itemIndex, ''),
+    },
+  });
+}
+
+async function getStatus(this: IExecuteFunctions, itemIndex: number): Promise<OperationResult> {
+  const orderId = this.getNodeParameter('orderId', itemIndex) as string;
+  return shapeShiftRequest.call(
+    this,
+    'GET',
+    `${SHAPESHIFT_ENDPOINTS.STATUS}/${encodeURIComponent(orderId)}`,
+  );
+}
+
+/**
+ * Exchange, ShapeShift and swap resources
+ */
+export async function executeExchangeOperation(
+  this: IExecuteFunctions,
+  _ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  const resource = this.getNodeParameter('resource', itemIndex);
+
+  switch (operation) {
+    case 'getExchangeRate': {
+      const fromCoin = this.getNodeParameter('fromCoin', itemIndex) as string;
+      const toCoin = this.getNodeParameter('toCoin', itemIndex) as string;
+      return shapeShiftRequest.call(this, 'GET', SHAPESHIFT_ENDPOINTS.RATES, {
+        qs: { sellAsset: fromCoin, buyAsset: toCoin },
+      });
+    }
+    case 'getExchangeLimits':
+    case 'getLimits': {
+      const fromCoin = this.getNodeParameter('fromCoin', itemIndex) as string;
+      const toCoin = this.getNodeParameter('toCoin', itemIndex) as string;
+      return shapeShiftRequest.call(this, 'GET', `${SHAPESHIFT_ENDPOINTS.RATES}/limits`, {
+        qs: { sellAsset: fromCoin, buyAsset: toCoin },
+      });
+    }
+    case 'getQuote':
+    case 'estimate':
+      return getQuote.call(this, itemIndex);
+    case 'createExchangeOrder':
+    case 'executeTrade':
+    case 'execute':
+      return createSwap.call(this, itemIndex);
+    case 'getExchangeOrder':
+    case 'getTradeStatus':
+    case 'getStatus':
+      return getStatus.call(this, itemIndex);
+    case 'getSupportedPairs':
+    case 'getSupportedAssets':
+      return shapeShiftRequest.call(this, 'GET', SHAPESHIFT_ENDPOINTS.ASSETS);
+    case 'getMarketData':
+      return shapeShiftRequest.call(this, 'GET', SHAPESHIFT_ENDPOINTS.RATES);
+    default:
+      throw unsupportedOperation.call(this, resource, operation, itemIndex);
+  }
+}
+
+/**
+ * Asset resource
+ */
+export async function executeAssetOperation(
+  this: IExecuteFunctions,
+  _ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  switch (operation) {
+    case 'getSupportedAssets':
+      return shapeShiftRequest.call(this, 'GET', SHAPESHIFT_ENDPOINTS.ASSETS);
+    case 'getAssetInfo': {
+      const coin = this.getNodeParameter('coin', itemIndex) as string;
+      return shapeShiftRequest.call(
+        this,
+        'GET',
+        `${SHAPESHIFT_ENDPOINTS.ASSETS}/${encodeURIComponent(coin)}`,
+      );
+    }
+    case 'getMarketData': {
+      const coin = this.getNodeParameter('coin', itemIndex) as string;
+      const vsCurrency = getOptionalParameter(this, 'vs_currency', itemIndex, 'usd');
+      return shapeShiftRequest.call(this, 'GET', SHAPESHIFT_ENDPOINTS.RATES, {
+        qs: { asset: coin, vsCurrency },
+      });
+    }
+    case 'getPriceHistory': {
+      const coin = this.getNodeParameter('coin', itemIndex) as string;
+      return shapeShiftRequest.call(this, 'GET', `${SHAPESHIFT_ENDPOINTS.RATES}/history`, {
+        qs: {
+          asset: coin,
+          days: getOptionalParameter(this, 'days', itemIndex, 7),
+          interval: getOptionalParameter(this, 'interval', itemIndex, '1d'),
+        },
+      });
+    }
+    case 'addCustomToken': {
+      const contractAddress = this.getNodeParameter('contract_address', itemIndex) as string;
+      if (!isValidEthereumAddress(contractAddress)) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Invalid token contract address: ${contractAddress}`,
+          {
+            itemIndex,
+          },
+        );
+      }
+      return {
+        contractAddress,
+        symbol: this.getNodeParameter('symbol', itemIndex) as string,
+        decimals: this.getNodeParameter('decimals', itemIndex) as number,
+      };
+    }
+    default:
+      throw unsupportedOperation.call(this, 'asset', operation, itemIndex);
+  }
+}
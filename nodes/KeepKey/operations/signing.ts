@@ -0,0 +1,318 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Signing and utility resource handlers
+ */
+
+import { IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+
+import { BITCOIN_LIKE_COINS } from '../constants/coins';
+import { ADDRESS_TYPES, pathStringToArray } from '../constants/derivationPaths';
+import { signMultisigTransaction, signPsbt, type MultisigInput } from '../signing';
+import { decodePsbt, type Psbt } from '../utils/psbtUtils';
+import {
+  calculateBitcoinFee,
+  calculateFeeRate,
+  estimateBitcoinTxSize,
+} from '../utils/transactionUtils';
+import {
+  getCoinAddressType,
+  getDeviceCoinName,
+  getMultisigParameters,
+  getOptionalParameter,
+  OperationContext,
+  OperationResult,
+  OutputParameter,
+  parseJsonParameter,
+  requireCoin,
+  resolveDerivationPath,
+  signTypedDataParameter,
+  toAddressType,
+  toBitcoinOutput,
+  toInputScriptType,
+  unsupportedOperation,
+} from './common';
+
+/**
+ * Path used for CipherKeyValue when none is given (SLIP-0011 convention)
+ */
+const DEFAULT_CIPHER_PATH = "m/10016'/0";
+
+// CipherKeyValue values must be a multiple of the AES block size
+const CIPHER_BLOCK_SIZE = 16;
+
+/**
+ * Multisig inputs as entered in the node: this device's key as a path string
+ */
+type MultisigInputParameter = Omit<MultisigInput, 'addressN'> & {
+  path?: string;
+  addressN?: number[];
+};
+
+/**
+ * Signing resource
+ */
+export async function executeSigningOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  const coin = requireCoin.call(
+    this,
+    getOptionalParameter(this, 'coin', itemIndex, 'bitcoin'),
+    itemIndex,
+  );
+  const addressType = getCoinAddressType(coin.symbol, ADDRESS_TYPES.nativeSegwit);
+
+  switch (operation) {
+    case 'signMessage': {
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, coin.symbol, addressType);
+      const message = this.getNodeParameter('message', itemIndex) as string;
+      const messageHex = Buffer.from(message, 'utf8').toString('hex');
+      const addressN = pathStringToArray(path);
+
+      if (coin.family === 'cosmos') {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Message signing is not supported for ${coin.symbol}`,
+          {
+            itemIndex,
+          },
+        );
+      }
+      const result =
+        coin.family === 'ethereum'
+          ? await client.ethereumSignMessage({ address_n: addressN, message: messageHex })
+          : await client.signMessage({
+              address_n: addressN,
+              message: messageHex,
+              coin_name: getDeviceCoinName(coin.symbol),
+              script_type: toInputScriptType(addressType),
+            });
+      return {
+        coin: coin.symbol,
+        path,
+        message,
+        address: result.address,
+        signature: result.signature,
+      };
+    }
+    case 'verifySignature': {
+      const client = await ctx.getClient();
+      const message = this.getNodeParameter('message', itemIndex) as string;
+      const address = this.getNodeParameter('address', itemIndex) as string;
+      const signature = this.getNodeParameter('signature', itemIndex) as string;
+      const messageHex = Buffer.from(message, 'utf8').toString('hex');
+      const valid =
+        coin.family === 'ethereum'
+          ? await client.ethereumVerifyMessage({ address, signature, message: messageHex })
+          : await client.verifyMessage({
+              address,
+              signature,
+              message: messageHex,
+              coin_name: getDeviceCoinName(coin.symbol),
+            });
+      return { coin: coin.symbol, address, message, valid };
+    }
+    case 'signPsbt': {
+      if (coin.family !== 'bitcoin') {
+        throw new NodeOperationError(
+          this.getNode(),
+          `PSBT signing is only supported for Bitcoin-like coins, not ${coin.symbol}`,
+          { itemIndex },
+        );
+      }
+      let psbt: Psbt;
+      try {
+        psbt = decodePsbt(this.getNodeParameter('psbt', itemIndex) as string);
+      } catch (error) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Invalid PSBT: ${(error as Error).message}`,
+          { itemIndex },
+        );
+      }
+      const client = await ctx.getClient();
+      const signed = await signPsbt(client, {
+        coin: BITCOIN_LIKE_COINS[coin.symbol],
+        coinName: getDeviceCoinName(coin.symbol),
+        psbt,
+        finalize: getOptionalParameter(this, 'finalizePsbt', itemIndex, true),
+      });
+      return {
+        coin: coin.symbol,
+        txid: signed.txid,
+        psbt: signed.psbt,
+        complete: signed.signedTx !== undefined,
+        ...(signed.signedTx !== undefined && { signedTx: signed.signedTx }),
+      };
+    }
+    case 'multiSign': {
+      if (coin.family !== 'bitcoin') {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Multisig signing is only supported for Bitcoin-like coins, not ${coin.symbol}`,
+          { itemIndex },
+        );
+      }
+      const multisigType = getCoinAddressType(
+        coin.symbol,
+        toAddressType(getOptionalParameter(this, 'addressType', itemIndex, 'segwit')),
+      );
+      const multisig = getMultisigParameters.call(this, itemIndex, multisigType);
+      if (!multisig) {
+        throw new NodeOperationError(this.getNode(), 'Multisig signing needs the cosigner xpubs', {
+          itemIndex,
+        });
+      }
+      const inputs = (
+        parseJsonParameter.call(this, 'inputs', itemIndex) as MultisigInputParameter[]
+      ).map(({ path, ...input }) => {
+        const addressN = input.addressN ?? (path ? pathStringToArray(path) : undefined);
+        if (!addressN) {
+          throw new NodeOperationError(
+            this.getNode(),
+            `Input ${input.txid}:${input.vout} needs the path of this device's key`,
+            { itemIndex },
+          );
+        }
+        return { ...input, addressN };
+      });
+      const outputs = (
+        parseJsonParameter.call(this, 'outputs', itemIndex) as OutputParameter[]
+      ).map(toBitcoinOutput);
+      if (!inputs.length || !outputs.length) {
+        throw new NodeOperationError(
+          this.getNode(),
+          'A transaction needs at least one input and one output',
+          { itemIndex },
+        );
+      }
+
+      const client = await ctx.getClient();
+      const signed = await signMultisigTransaction(client, {
+        coinName: getDeviceCoinName(coin.symbol),
+        m: multisig.m,
+        xpubs: multisig.xpubs,
+        scriptType: multisig.scriptType,
+        inputs,
+        outputs,
+        prevTxs: parseJsonParameter.call(this, 'prevTxs', itemIndex) as Record<string, string>,
+        lockTime: getOptionalParameter(this, 'lockTime', itemIndex, 0),
+      });
+      const fee = calculateBitcoinFee(inputs, outputs);
+      const vsize = estimateBitcoinTxSize(inputs.length, outputs.length, multisigType, {
+        m: multisig.m,
+        n: multisig.xpubs.length,
+      });
+      return {
+        coin: coin.symbol,
+        txid: signed.txid,
+        signedTx: signed.serializedTx,
+        multisig: `${multisig.m}-of-${multisig.xpubs.length}`,
+        cosignerIndex: signed.cosignerIndex,
+        complete: signed.complete,
+        signatures: signed.multisigSignatures,
+        fee,
+        vsize,
+        feeRate: calculateFeeRate(fee, vsize),
+      };
+    }
+    case 'signTypedData': {
+      if (coin.family !== 'ethereum') {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Typed data signing is only supported for EVM chains, not ${coin.symbol}`,
+          { itemIndex },
+        );
+      }
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, coin.symbol);
+      const signed = await signTypedDataParameter.call(this, client, path, itemIndex);
+      return { coin: coin.symbol, ...signed };
+    }
+    case 'getPublicKey':
+    case 'deriveKey': {
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, coin.symbol, addressType);
+      const result = await client.getPublicKey({ address_n: pathStringToArray(path) });
+      return { coin: coin.symbol, path, publicKey: result.node?.public_key, xpub: result.xpub };
+    }
+    default:
+      throw unsupportedOperation.call(this, 'signing', operation, itemIndex);
+  }
+}
+
+/**
+ * Utility resource
+ */
+export async function executeUtilityOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  switch (operation) {
+    case 'getRandom':
+    case 'getEntropy': {
+      const client = await ctx.getClient();
+      const size = getOptionalParameter(this, 'entropySize', itemIndex, 32);
+      const entropy = await client.getEntropy(size);
+      return { entropy: entropy.toString('hex'), size: entropy.length };
+    }
+    case 'encryptMessage':
+    case 'decryptMessage':
+    case 'cipherKeyValue': {
+      const client = await ctx.getClient();
+      const key = this.getNodeParameter('cipherKey', itemIndex) as string;
+      const value = this.getNodeParameter('cipherValue', itemIndex) as string;
+      const path =
+        getOptionalParameter(this, 'cipherPath', itemIndex, DEFAULT_CIPHER_PATH) ||
+        DEFAULT_CIPHER_PATH;
+      const encrypt =
+        operation === 'encryptMessage' ||
+        (operation === 'cipherKeyValue' && getOptionalParameter(this, 'encrypt', itemIndex, true));
+
+      // Plain text is padded with zero bytes; ciphertext is expected as hex
+      let data =
+        encrypt && operation === 'encryptMessage'
+          ? Buffer.from(value, 'utf8')
+          : Buffer.from(value, 'hex');
+      if (data.length % CIPHER_BLOCK_SIZE !== 0) {
+        data = Buffer.concat([
+          data,
+          Buffer.alloc(CIPHER_BLOCK_SIZE - (data.length % CIPHER_BLOCK_SIZE)),
+        ]);
+      }
+
+      const result = await client.cipherKeyValue({
+        address_n: pathStringToArray(path),
+        key,
+        value: data.toString('hex'),
+        encrypt,
+        ask_on_encrypt: true,
+        ask_on_decrypt: true,
+      });
+      const output: { path: string; key: string; encrypt: boolean; value: string; text?: string } =
+        {
+          path,
+          key,
+          encrypt,
+          value: result,
+        };
+      if (operation === 'decryptMessage') {
+        output.text = Buffer.from(result, 'hex').toString('utf8').replace(/\0+$/, '');
+      }
+      return output;
+    }
+    default:
+      throw unsupportedOperation.call(this, 'utility', operation, itemIndex);
+  }
+}
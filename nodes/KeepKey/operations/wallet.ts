@@ -0,0 +1,623 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Wallet, account and address resource handlers
+ */
+
+import { IDataObject, IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+
+import { BITCOIN_LIKE_COINS } from '../constants/coins';
+import { KeepKeyClient } from '../transport';
+import { toMultisigRedeemScript } from '../signing';
+import {
+  ADDRESS_TYPES,
+  DERIVATION_TEMPLATES,
+  getAddressTypeForPurpose,
+  getDerivationPath,
+  HARDENED_OFFSET,
+  pathArrayToString,
+  pathStringToArray,
+  type AddressType,
+} from '../constants/derivationPaths';
+import {
+  buildPaymentUri,
+  convertAddressFormat,
+  createAddressInfo,
+  decodeAddressForCoin,
+  detectAddressType,
+  formatAddressDisplay,
+  getBitcoinAddressType,
+  normalizeAddress,
+  publicKeyToAddress,
+} from '../utils/addressUtils';
+import {
+  decodeExtendedPublicKey,
+  deriveChildPublicKey,
+  type ExtendedPublicKey,
+} from '../utils/bip32Utils';
+import {
+  DESCRIPTOR_ADDRESS_TYPES,
+  formatDescriptor,
+  getAccountDescriptors,
+  parseDescriptor,
+  type DescriptorKey,
+  type OutputDescriptor,
+} from '../utils/descriptorUtils';
+import { DEFAULT_GAP_LIMIT, discoverAccounts } from '../utils/discoveryUtils';
+import {
+  encodeQrCode,
+  renderQrPng,
+  renderQrSvg,
+  renderQrText,
+  type QrCode,
+  type QrErrorCorrection,
+} from '../utils/qrCodeUtils';
+import { getAddressUsage, getEsploraUrl } from './chain';
+import {
+  getAddressForCoin,
+  getCoinAddressType,
+  getDeviceCoinName,
+  getOptionalParameter,
+  MULTISIG_SCRIPT_TYPES,
+  OperationContext,
+  OperationResult,
+  replaceChange,
+  requireCoin,
+  ResolvedCoin,
+  resolveDerivationPath,
+  toAccountPath,
+  toAddressType,
+  toInputScriptType,
+  unsupportedOperation,
+} from './common';
+
+function getTemplateSymbol(coin: ResolvedCoin): string {
+  return coin.family === 'ethereum' ? 'ETH' : coin.symbol;
+}
+
+function getDefaultAddressType(coin: ResolvedCoin): AddressType {
+  return coin.family === 'bitcoin'
+    ? getCoinAddressType(coin.symbol, ADDRESS_TYPES.nativeSegwit)
+    : ADDRESS_TYPES.legacy;
+}
+
+/**
+ * Address type a path's purpose implies, falling back to the coin's default
+ */
+function getPathAddressType(coin: ResolvedCoin, path: string): AddressType {
+  const purpose = pathStringToArray(path)[0];
+  const addressType =
+    purpose !== undefined ? getAddressTypeForPurpose(purpose - HARDENED_OFFSET) : undefined;
+  return addressType && coin.family === 'bitcoin'
+    ? getCoinAddressType(coin.symbol, addressType)
+    : getDefaultAddressType(coin);
+}
+
+async function getMasterFingerprint(
+  client: KeepKeyClient,
+  coinName: string,
+  purpose: number,
+): Promise<string> {
+  const fingerprint = await client.getMasterFingerprint({ purpose, coin_name: coinName });
+  return fingerprint.toString(16).padStart(8, '0');
+}
+
+/**
+ * Extended public key at a path, with receive and change descriptors for Bitcoin-like coins
+ */
+async function getXpub(
+  client: KeepKeyClient,
+  coin: ResolvedCoin,
+  path: string,
+  addressType: AddressType,
+): Promise<IDataObject> {
+  const addressN = pathStringToArray(path);
+  const coinName = coin.family === 'bitcoin' ? getDeviceCoinName(coin.symbol) : 'Bitcoin';
+  const result = await client.getPublicKey({
+    address_n: addressN,
+    coin_name: coinName,
+    script_type: coin.family === 'bitcoin' ? toInputScriptType(addressType) : undefined,
+  });
+  const xpub: IDataObject = { path, xpub: result.xpub, publicKey: result.node?.public_key };
+  if (coin.family !== 'bitcoin' || !addressN.length) {
+    return xpub;
+  }
+  const fingerprint = await getMasterFingerprint(client, coinName, addressN[0]);
+  const descriptors = getAccountDescriptors(addressType, fingerprint, addressN, result.xpub);
+  return {
+    ...xpub,
+    fingerprint,
+    descriptor: descriptors.receive,
+    changeDescriptor: descriptors.change,
+  };
+}
+
+/**
+ * Device xpub of a BIP44-style account
+ */
+async function getDeviceAccountXpub(
+  client: KeepKeyClient,
+  coin: ResolvedCoin,
+  addressType: AddressType,
+  accountIndex: number,
+): Promise<string> {
+  const path = toAccountPath(getDerivationPath(coin.symbol, addressType, accountIndex, 0));
+  const { xpub } = await client.getPublicKey({
+    address_n: pathStringToArray(path),
+    coin_name: getDeviceCoinName(coin.symbol),
+    script_type: toInputScriptType(addressType),
+  });
+  return xpub;
+}
+
+/**
+ * Account key to derive addresses from: the xpub entered in the node, or the device's
+ */
+async function getAccountKey(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  coin: ResolvedCoin,
+  addressType: AddressType,
+  itemIndex: number,
+): Promise<ExtendedPublicKey> {
+  const accountXpub = getOptionalParameter(this, 'accountXpub', itemIndex, '');
+  if (accountXpub) {
+    try {
+      return decodeExtendedPublicKey(accountXpub);
+    } catch (error) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Invalid account xpub: ${(error as Error).message}`,
+        { itemIndex },
+      );
+    }
+  }
+  const client = await ctx.getClient();
+  return decodeExtendedPublicKey(await getDeviceAccountXpub(client, coin, addressType, 0));
+}
+
+/**
+ * Address of a descriptor at an index, derived on the device from this device's key in it
+ */
+async function getDescriptorAddress(
+  client: KeepKeyClient,
+  coin: ResolvedCoin,
+  descriptor: OutputDescriptor,
+  addressIndex: number,
+  showOnDevice: boolean,
+): Promise<IDataObject> {
+  const coinName = getDeviceCoinName(coin.symbol);
+  const addressType = DESCRIPTOR_ADDRESS_TYPES[descriptor.script];
+  const purpose = descriptor.keys.find((key) => key.originPath?.length)?.originPath?.[0];
+  if (purpose === undefined) {
+    throw new Error('Descriptor keys need an origin [fingerprint/path] to be found on the device');
+  }
+  const fingerprint = await getMasterFingerprint(client, coinName, purpose);
+  const own = descriptor.keys.find((key) => key.fingerprint === fingerprint && key.originPath);
+  if (!own?.originPath) {
+    throw new Error(`Descriptor has no key from this device (${fingerprint})`);
+  }
+
+  const accountPath = pathArrayToString(own.originPath);
+  const { node } = await client.getPublicKey({ address_n: own.originPath, coin_name: coinName });
+  if (decodeExtendedPublicKey(own.key).publicKey.toString('hex') !== node.public_key) {
+    throw new Error(`The descriptor key at ${accountPath} does not match this device`);
+  }
+
+  const childPath = [...own.childPath, ...(own.wildcard ? [addressIndex] : [])];
+  const path = pathArrayToString([...own.originPath, ...childPath]);
+  if (descriptor.threshold === undefined) {
+    const address = await getAddressForCoin(client, coin, path, showOnDevice, addressType);
+    return { address, path, addressType, fingerprint };
+  }
+
+  if (descriptor.sorted) {
+    throw new Error('sortedmulti cannot be shown on the device; use multi with the keys in order');
+  }
+  const derivation = ({ childPath: steps, wildcard }: DescriptorKey): string =>
+    `${steps.join('/')}${wildcard ? '/*' : ''}`;
+  if (descriptor.keys.some((key) => derivation(key) !== derivation(own))) {
+    throw new Error('Every multisig key must use the same derivation below its xpub');
+  }
+  const address = await client.getAddress({
+    address_n: pathStringToArray(path),
+    coin_name: coinName,
+    script_type: MULTISIG_SCRIPT_TYPES[addressType],
+    show_display: showOnDevice,
+    multisig: toMultisigRedeemScript({
+      m: descriptor.threshold,
+      xpubs: descriptor.keys.map(({ key: xpub }) => xpub),
+      addressN: childPath,
+    }),
+  });
+  return {
+    address,
+    path,
+    addressType,
+    fingerprint,
+    multisig: `${descriptor.threshold}-of-${descriptor.keys.length}`,
+  };
+}
+
+/**
+ * Wallet resource
+ */
+export async function executeWalletOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  const coin = requireCoin.call(
+    this,
+    this.getNodeParameter('coin', itemIndex) as string,
+    itemIndex,
+  );
+  const addressType = getDefaultAddressType(coin);
+
+  switch (operation) {
+    case 'getAddresses': {
+      const limit = getOptionalParameter(this, 'limit', itemIndex, 10);
+      const offset = getOptionalParameter(this, 'offset', itemIndex, 0);
+      const addresses: IDataObject[] = [];
+      if (coin.family === 'bitcoin') {
+        // Derived locally from the account key; the device is asked once at most
+        const account = await getAccountKey.call(this, ctx, coin, addressType, itemIndex);
+        const accountIndex =
+          account.depth === 3 && account.childNumber >= HARDENED_OFFSET
+            ? account.childNumber - HARDENED_OFFSET
+            : 0;
+        const change = getOptionalParameter(this, 'changeAddresses', itemIndex, false) ? 1 : 0;
+        const chain = deriveChildPublicKey(account, change);
+        for (let index = offset; index < offset + limit; index++) {
+          const { publicKey } = deriveChildPublicKey(chain, index);
+          const address = publicKeyToAddress(
+            publicKey,
+            addressType,
+            BITCOIN_LIKE_COINS[coin.symbol],
+          );
+          const path = replaceChange(
+            getDerivationPath(coin.symbol, addressType, accountIndex, index),
+            change,
+          );
+          addresses.push({
+            ...createAddressInfo(address, path, coin.symbol, addressType),
+            index,
+            change,
+          });
+        }
+        return addresses;
+      }
+      const client = await ctx.getClient();
+      for (let index = offset; index < offset + limit; index++) {
+        const path = getDerivationPath(getTemplateSymbol(coin), addressType, 0, index);
+        const address = await getAddressForCoin(client, coin, path, false, addressType);
+        addresses.push({ ...createAddressInfo(address, path, coin.symbol, addressType), index });
+      }
+      return addresses;
+    }
+    case 'generateAddress': {
+      const client = await ctx.getClient();
+      const path = this.getNodeParameter('address_n', itemIndex) as string;
+      const showOnDevice = getOptionalParameter(this, 'showOnDevice', itemIndex, false);
+      const address = await getAddressForCoin(client, coin, path, showOnDevice, addressType);
+      return createAddressInfo(
+        address,
+        path,
+        coin.symbol,
+        addressType,
+        showOnDevice,
+      ) as unknown as IDataObject;
+    }
+    case 'getExtendedPublicKey': {
+      const client = await ctx.getClient();
+      const path = this.getNodeParameter('address_n', itemIndex) as string;
+      return {
+        coin: coin.symbol,
+        ...(await getXpub(client, coin, path, getPathAddressType(coin, path))),
+      };
+    }
+    default:
+      throw unsupportedOperation.call(this, 'wallet', operation, itemIndex);
+  }
+}
+
+/**
+ * Account resource (Bitcoin-like accounts)
+ */
+export async function executeAccountOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  const coin = requireCoin.call(
+    this,
+    getOptionalParameter(this, 'coin', itemIndex, 'bitcoin'),
+    itemIndex,
+  );
+  const addressType =
+    coin.family === 'bitcoin'
+      ? getCoinAddressType(
+          coin.symbol,
+          toAddressType(getOptionalParameter(this, 'addressType', itemIndex, 'segwit')),
+        )
+      : ADDRESS_TYPES.legacy;
+
+  switch (operation) {
+    case 'getPublicKey':
+    case 'getXpub': {
+      const client = await ctx.getClient();
+      const path = toAccountPath(
+        resolveDerivationPath.call(this, itemIndex, coin.symbol, addressType),
+      );
+      return {
+        coin: coin.symbol,
+        addressType,
+        ...(await getXpub(client, coin, path, addressType)),
+      };
+    }
+    case 'getAddress':
+    case 'getReceiveAddress':
+    case 'getChangeAddress':
+    case 'verifyAddress': {
+      const client = await ctx.getClient();
+      const change = operation === 'getChangeAddress' ? 1 : 0;
+      const path = resolveDerivationPath.call(this, itemIndex, coin.symbol, addressType, change);
+      const showOnDevice =
+        operation === 'verifyAddress' ||
+        getOptionalParameter(this, 'showOnDevice', itemIndex, false);
+      const address = await getAddressForCoin(client, coin, path, showOnDevice, addressType);
+      return {
+        ...createAddressInfo(address, path, coin.symbol, addressType, showOnDevice),
+        change,
+      };
+    }
+    case 'createAccount':
+    case 'getAccountInfo': {
+      const client = await ctx.getClient();
+      const path = resolveDerivationPath.call(this, itemIndex, coin.symbol, addressType);
+      const account = await getXpub(client, coin, toAccountPath(path), addressType);
+      const receiveAddress = await getAddressForCoin(
+        client,
+        coin,
+        replaceChange(path, 0),
+        false,
+        addressType,
+      );
+      return {
+        coin: coin.symbol,
+        addressType,
+        accountIndex: getOptionalParameter(this, 'accountIndex', itemIndex, 0),
+        ...account,
+        receiveAddress,
+      };
+    }
+    case 'exportAccounts': {
+      const client = await ctx.getClient();
+      const accountIndex = getOptionalParameter(this, 'accountIndex', itemIndex, 0);
+      const templates = DERIVATION_TEMPLATES[coin.symbol] ?? {};
+      const accounts: IDataObject[] = [];
+      for (const type of Object.keys(templates)) {
+        const scriptAddressType = type in ADDRESS_TYPES ? (type as AddressType) : addressType;
+        const path = toAccountPath(getDerivationPath(coin.symbol, type, accountIndex, 0));
+        accounts.push({
+          coin: coin.symbol,
+          addressType: type,
+          accountIndex,
+          ...(await getXpub(client, coin, path, scriptAddressType)),
+        });
+      }
+      return accounts;
+    }
+    case 'discoverAccounts': {
+      if (coin.family !== 'bitcoin') {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Account discovery is only supported for Bitcoin-like coins, not ${coin.symbol}`,
+          { itemIndex },
+        );
+      }
+      const baseUrl = await getEsploraUrl.call(this, coin.symbol, itemIndex);
+      const client = await ctx.getClient();
+      const addressTypes = Object.keys(DERIVATION_TEMPLATES[coin.symbol] ?? {}).filter(
+        (type): type is AddressType => type in ADDRESS_TYPES,
+      );
+      const accounts = await discoverAccounts({
+        coin: BITCOIN_LIKE_COINS[coin.symbol],
+        addressTypes,
+        gapLimit: getOptionalParameter(this, 'gapLimit', itemIndex, DEFAULT_GAP_LIMIT),
+        getAccountXpub: (type, index) => getDeviceAccountXpub(client, coin, type, index),
+        getAddressUsage: (address) => getAddressUsage.call(this, baseUrl, address),
+      });
+      // The accounts are the output, one item each: nothing listens to this execution's client
+      return accounts.map((account) => ({ coin: coin.symbol, ...account }));
+    }
+    case 'importDescriptor': {
+      const text = this.getNodeParameter('descriptor', itemIndex) as string;
+      let descriptor: OutputDescriptor;
+      try {
+        descriptor = parseDescriptor(text);
+        descriptor.keys.forEach(({ key }) => decodeExtendedPublicKey(key));
+      } catch (error) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Invalid descriptor: ${(error as Error).message}`,
+          { itemIndex },
+        );
+      }
+      if (coin.family !== 'bitcoin') {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Descriptors are only supported for Bitcoin-like coins, not ${coin.symbol}`,
+          { itemIndex },
+        );
+      }
+      const client = await ctx.getClient();
+      const addressIndex = getOptionalParameter(this, 'addressIndex', itemIndex, 0);
+      const showOnDevice = getOptionalParameter(this, 'showOnDevice', itemIndex, false);
+      return {
+        coin: coin.symbol,
+        descriptor: formatDescriptor(descriptor),
+        script: descriptor.script,
+        index: addressIndex,
+        ...(await getDescriptorAddress(client, coin, descriptor, addressIndex, showOnDevice)),
+        verified: showOnDevice,
+      };
+    }
+    default:
+      throw unsupportedOperation.call(this, 'account', operation, itemIndex);
+  }
+}
+
+/**
+ * Address resource
+ */
+export async function executeAddressOperation(
+  this: IExecuteFunctions,
+  ctx: OperationContext,
+  operation: string,
+  itemIndex: number,
+): Promise<OperationResult> {
+  switch (operation) {
+    case 'generate':
+    case 'derive':
+    case 'showOnDevice': {
+      const client = await ctx.getClient();
+      const coin = requireCoin.call(
+        this,
+        this.getNodeParameter('coin', itemIndex) as string,
+        itemIndex,
+      );
+      const addressType = getDefaultAddressType(coin);
+      const path = resolveDerivationPath.call(
+        this,
+        itemIndex,
+        getTemplateSymbol(coin),
+        addressType,
+      );
+      const showOnDevice =
+        operation === 'showOnDevice' ||
+        getOptionalParameter(this, 'showOnDevice', itemIndex, false);
+      const address = await getAddressForCoin(client, coin, path, showOnDevice, addressType);
+      return createAddressInfo(
+        address,
+        path,
+        coin.symbol,
+        addressType,
+        showOnDevice,
+      ) as unknown as IDataObject;
+    }
+    case 'validate': {
+      const address = normalizeAddress(this.getNodeParameter('address', itemIndex) as string);
+      const coin = this.getNodeParameter('coin', itemIndex) as string;
+      try {
+        return { address, coin, valid: true, ...decodeAddressForCoin(address, coin) };
+      } catch (error) {
+        return { address, coin, valid: false, error: (error as Error).message };
+      }
+    }
+    case 'getQrCode': {
+      // Trim only: the letter case of Ethereum addresses carries the EIP-55 checksum
+      const address = (this.getNodeParameter('address', itemIndex) as string).trim();
+      const coin = this.getNodeParameter('coin', itemIndex) as string;
+      const format = this.getNodeParameter('qrFormat', itemIndex) as string;
+      const errorCorrection = this.getNodeParameter(
+        'qrErrorCorrection',
+        itemIndex,
+      ) as QrErrorCorrection;
+      const scale = getOptionalParameter(this, 'qrScale', itemIndex, 8);
+
+      let content: string;
+      let qr: QrCode;
+      try {
+        if (this.getNodeParameter('qrContent', itemIndex) === 'paymentUri') {
+          content = buildPaymentUri(coin, {
+            address,
+            amount: getOptionalParameter(this, 'paymentAmount', itemIndex, ''),
+            label: getOptionalParameter(this, 'paymentLabel', itemIndex, ''),
+            message: getOptionalParameter(this, 'paymentMessage', itemIndex, ''),
+            tokenContract: getOptionalParameter(this, 'paymentTokenContract', itemIndex, ''),
+            tokenDecimals: getOptionalParameter(this, 'paymentTokenDecimals', itemIndex, 18),
+          });
+        } else {
+          decodeAddressForCoin(address, coin);
+          content = address;
+        }
+        qr = encodeQrCode(content, errorCorrection);
+      } catch (error) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Invalid QR code content: ${(error as Error).message}`,
+          { itemIndex },
+        );
+      }
+
+      const json = { address, coin, content, version: qr.version, size: qr.size };
+      if (format === 'svg') {
+        return { ...json, svg: renderQrSvg(qr, { scale }) };
+      }
+      if (format === 'text') {
+        return { ...json, text: renderQrText(qr) };
+      }
+      const binaryPropertyName = getOptionalParameter(
+        this,
+        'binaryPropertyName',
+        itemIndex,
+        'data',
+      );
+      const image = await this.helpers.prepareBinaryData(
+        renderQrPng(qr, { scale }),
+        'qr-code.png',
+        'image/png',
+      );
+      return { json, binary: { [binaryPropertyName]: image } };
+    }
+    case 'convertFormat': {
+      // Trim only: the letter case of Ethereum addresses carries the EIP-55 checksum
+      const address = (this.getNodeParameter('address', itemIndex) as string).trim();
+      const coin = this.getNodeParameter('coin', itemIndex) as string;
+      const format = this.getNodeParameter('addressFormat', itemIndex) as string;
+      try {
+        return {
+          address,
+          coin,
+          format,
+          converted: convertAddressFormat(address, coin, format),
+        };
+      } catch (error) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Invalid address: ${(error as Error).message}`,
+          { itemIndex },
+        );
+      }
+    }
+    case 'getType': {
+      const address = normalizeAddress(this.getNodeParameter('address', itemIndex) as string);
+      const type = detectAddressType(address);
+      return {
+        address,
+        type,
+        bitcoinAddressType: type === 'bitcoin' ? getBitcoinAddressType(address) : undefined,
+      };
+    }
+    case 'lookup': {
+      const address = normalizeAddress(this.getNodeParameter('address', itemIndex) as string);
+      const type = detectAddressType(address);
+      return {
+        address,
+        type,
+        bitcoinAddressType: type === 'bitcoin' ? getBitcoinAddressType(address) : undefined,
+        display: formatAddressDisplay(address),
+      };
+    }
+    default:
+      throw unsupportedOperation.call(this, 'address', operation, itemIndex);
+  }
+}
@@ -0,0 +1,317 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Bitcoin transaction signing
+ *
+ * SignTx starts a streaming exchange: the device answers with TxRequests
+ * asking for one piece of the transaction at a time (an input, an output, or
+ * metadata, inputs and outputs of a previous transaction) and returns the
+ * signed transaction in serialized chunks as it goes.
+ */
+
+import { MESSAGE_TYPES } from '../constants/events';
+import {
+  KeepKeyClient,
+  KeepKeyDeviceError,
+  type MessageResponse,
+  type MultisigRedeemScript,
+} from '../transport';
+import { decodeExtendedPublicKey } from '../utils/bip32Utils';
+import {
+  parseBitcoinTransaction,
+  type BitcoinInput,
+  type BitcoinMultisig,
+  type BitcoinOutput,
+  type RawBitcoinTransaction,
+} from '../utils/transactionUtils';
+
+export interface BitcoinSignRequest {
+  /** Device coin name, e.g. Bitcoin or Litecoin */
+  coinName: string;
+  inputs: BitcoinInput[];
+  outputs: BitcoinOutput[];
+  /** Raw hex of every transaction spent by the inputs, keyed by txid */
+  prevTxs: Record<string, string>;
+  version?: number;
+  lockTime?: number;
+}
+
+export interface SignedBitcoinTransaction {
+  txid: string;
+  serializedTx: string;
+  /** Signature for each input, in input order */
+  signatures: string[];
+}
+
+interface TxRequest {
+  request_type?: string;
+  details?: { request_index?: number; tx_hash?: string };
+  serialized?: { signature_index?: number; signature?: string; serialized_tx?: string };
+}
+
+const DEFAULT_SEQUENCE = 0xffffffff;
+
+/**
+ * Output script type matching each input script type, for change outputs
+ */
+const CHANGE_SCRIPT_TYPES: Record<string, string> = {
+  SPENDADDRESS: 'PAYTOADDRESS',
+  SPENDMULTISIG: 'PAYTOMULTISIG',
+  SPENDP2SHWITNESS: 'PAYTOP2SHWITNESS',
+  SPENDWITNESS: 'PAYTOWITNESS',
+  SPENDTAPROOT: 'PAYTOTAPROOT',
+};
+
+/**
+ * Device multisig structure for a script built from cosigner xpubs
+ */
+export function toMultisigRedeemScript(multisig: BitcoinMultisig): MultisigRedeemScript {
+  return {
+    pubkeys: multisig.xpubs.map((xpub) => {
+      const key = decodeExtendedPublicKey(xpub);
+      return {
+        node: {
+          depth: key.depth,
+          fingerprint: key.parentFingerprint,
+          child_num: key.childNumber,
+          chain_code: key.chainCode.toString('hex'),
+          public_key: key.publicKey.toString('hex'),
+        },
+        address_n: multisig.addressN,
+      };
+    }),
+    signatures: multisig.signatures ?? multisig.xpubs.map(() => ''),
+    m: multisig.m,
+  };
+}
+
+function sameCosigners(a: BitcoinMultisig, b: BitcoinMultisig): boolean {
+  return (
+    a.m === b.m &&
+    a.xpubs.length === b.xpubs.length &&
+    a.xpubs.every((xpub, i) => xpub === b.xpubs[i])
+  );
+}
+
+/**
+ * Change must pay back to the script the inputs spend from: single-sig change
+ * for single-sig inputs, the same cosigners and threshold for multisig inputs
+ */
+function assertChangeMatchesInputs(request: BitcoinSignRequest): void {
+  const inputMultisig = request.inputs.find((input) => input.multisig)?.multisig;
+  request.outputs.forEach((output, index) => {
+    if (!output.addressN) {
+      return;
+    }
+    const matches =
+      inputMultisig && output.multisig
+        ? sameCosigners(inputMultisig, output.multisig)
+        : !inputMultisig && !output.multisig;
+    if (!matches) {
+      throw new Error(`Change output ${index} does not pay to the multisig script of the inputs`);
+    }
+  });
+}
+
+/**
+ * Answers the device's TxRequests from the supplied transaction data
+ */
+class BitcoinSigner {
+  private readonly prevTxs = new Map<string, RawBitcoinTransaction>();
+  private readonly chunks: string[] = [];
+  private readonly signatures: string[] = [];
+
+  constructor(private readonly request: BitcoinSignRequest) {}
+
+  async sign(client: KeepKeyClient): Promise<SignedBitcoinTransaction> {
+    const { inputs, outputs, coinName, version = 1, lockTime = 0 } = this.request;
+    assertChangeMatchesInputs(this.request);
+    // Check the previous transactions before the device starts asking for them
+    for (const [txid, hex] of Object.entries(this.request.prevTxs)) {
+      const parsed = parseBitcoinTransaction(hex);
+      if (parsed.txid !== txid.toLowerCase()) {
+        throw new Error(`Previous transaction ${txid} hashes to ${parsed.txid}`);
+      }
+      this.prevTxs.set(parsed.txid, parsed);
+    }
+
+    let response = await client.callWithInteraction<TxRequest>(MESSAGE_TYPES.SignTx, {
+      outputs_count: outputs.length,
+      inputs_count: inputs.length,
+      coin_name: coinName,
+      version,
+      lock_time: lockTime,
+    });
+
+    try {
+      for (;;) {
+        const txRequest = this.expectTxRequest(response);
+        this.collect(txRequest);
+        if (txRequest.request_type === 'TXFINISHED') {
+          break;
+        }
+        response = await client.callWithInteraction<TxRequest>(MESSAGE_TYPES.TxAck, {
+          tx: this.answer(txRequest),
+        });
+      }
+    } catch (error) {
+      // Our own errors leave the device mid-signing
+      if (!(error instanceof KeepKeyDeviceError)) {
+        await client.cancel().catch(() => undefined);
+      }
+      throw error;
+    }
+
+    const serializedTx = this.chunks.join('');
+    return {
+      txid: parseBitcoinTransaction(serializedTx).txid,
+      serializedTx,
+      signatures: this.signatures,
+    };
+  }
+
+  private expectTxRequest(response: MessageResponse<TxRequest>): TxRequest {
+    if (response.type !== MESSAGE_TYPES.TxRequest) {
+      throw new Error(`Unexpected response during signing: message type ${response.type}`);
+    }
+    return response.message;
+  }
+
+  /**
+   * Keep the serialized chunk and signature the device sent along with its request
+   */
+  private collect(txRequest: TxRequest): void {
+    const serialized = txRequest.serialized;
+    if (serialized?.serialized_tx) {
+      this.chunks.push(serialized.serialized_tx);
+    }
+    if (serialized?.signature_index !== undefined && serialized.signature) {
+      this.signatures[serialized.signature_index] = serialized.signature;
+    }
+  }
+
+  /**
+   * Build the TxAck payload for a request
+   */
+  private answer(txRequest: TxRequest): Record<string, unknown> {
+    const index = txRequest.details?.request_index ?? 0;
+    const txHash = txRequest.details?.tx_hash;
+
+    if (txHash) {
+      return this.answerPrevTx(txRequest.request_type, txHash, index);
+    }
+
+    switch (txRequest.request_type) {
+      case 'TXINPUT':
+        return { inputs: [this.toDeviceInput(this.pick(this.request.inputs, index, 'input'))] };
+      case 'TXOUTPUT':
+        return { outputs: [this.toDeviceOutput(this.pick(this.request.outputs, index, 'output'))] };
+      default:
+        throw new Error(`Unsupported signing request ${String(txRequest.request_type)}`);
+    }
+  }
+
+  private answerPrevTx(
+    requestType: string | undefined,
+    txHash: string,
+    index: number,
+  ): Record<string, unknown> {
+    const prevTx = this.prevTxs.get(txHash.toLowerCase());
+    if (!prevTx) {
+      throw new Error(`Previous transaction ${txHash} is required to sign`);
+    }
+
+    switch (requestType) {
+      case 'TXMETA':
+        return {
+          version: prevTx.version,
+          lock_time: prevTx.lockTime,
+          inputs_cnt: prevTx.inputs.length,
+          outputs_cnt: prevTx.outputs.length,
+        };
+      case 'TXINPUT': {
+        const input = this.pick(prevTx.inputs, index, `input of ${txHash}`);
+        return {
+          inputs: [
+            {
+              prev_hash: input.prevHash,
+              prev_index: input.prevIndex,
+              script_sig: input.scriptSig,
+              sequence: input.sequence,
+            },
+          ],
+        };
+      }
+      case 'TXOUTPUT': {
+        const output = this.pick(prevTx.outputs, index, `output of ${txHash}`);
+        return { bin_outputs: [{ amount: output.amount, script_pubkey: output.scriptPubKey }] };
+      }
+      default:
+        throw new Error(`Unsupported signing request ${String(requestType)} for ${txHash}`);
+    }
+  }
+
+  private pick<T>(items: T[], index: number, label: string): T {
+    const item = items[index];
+    if (item === undefined) {
+      throw new Error(`Device requested ${label} ${index}, which does not exist`);
+    }
+    return item;
+  }
+
+  private toDeviceInput(input: BitcoinInput): Record<string, unknown> {
+    if (!input.addressN) {
+      throw new Error(`Input ${input.txid}:${input.vout} needs the derivation path of its key`);
+    }
+    return {
+      address_n: input.addressN,
+      prev_hash: input.txid,
+      prev_index: input.vout,
+      amount: input.value,
+      script_type: input.scriptType ?? 'SPENDWITNESS',
+      sequence: input.sequence ?? DEFAULT_SEQUENCE,
+      ...(input.multisig && { multisig: toMultisigRedeemScript(input.multisig) }),
+    };
+  }
+
+  private toDeviceOutput(output: BitcoinOutput): Record<string, unknown> {
+    if (output.opReturnData !== undefined) {
+      return { amount: 0, script_type: 'PAYTOOPRETURN', op_return_data: output.opReturnData };
+    }
+    if (output.addressN) {
+      // Change goes back to the wallet with the same script type as the first input
+      const inputType = this.request.inputs[0]?.scriptType ?? 'SPENDWITNESS';
+      return {
+        address_n: output.addressN,
+        amount: output.value,
+        script_type: output.scriptType ?? CHANGE_SCRIPT_TYPES[inputType] ?? 'PAYTOWITNESS',
+        address_type: 'CHANGE',
+        ...(output.multisig && { multisig: toMultisigRedeemScript(output.multisig) }),
+      };
+    }
+    if (!output.address) {
+      throw new Error('Every output needs an address, a change path or OP_RETURN data');
+    }
+    return {
+      address: output.address,
+      amount: output.value,
+      script_type: output.scriptType ?? 'PAYTOADDRESS',
+      address_type: 'SPEND',
+    };
+  }
+}
+
+/**
+ * Sign a Bitcoin-like transaction on the device
+ */
+export function signBitcoinTransaction(
+  client: KeepKeyClient,
+  request: BitcoinSignRequest,
+): Promise<SignedBitcoinTransaction> {
+  return new BitcoinSigner(request).sign(client);
+}
@@ -0,0 +1,267 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Cosmos SDK amino signing for Cosmos Hub, THORChain and Osmosis
+ *
+ * The chain's SignTx message carries the account, sequence, fee and memo.
+ * The device then asks for each message in turn with a MsgRequest, rebuilds
+ * the amino sign doc from the acks and answers with the signature.
+ */
+
+import * as crypto from 'crypto';
+
+import { COSMOS_CHAINS, type CosmosChain } from '../constants/coins';
+import { MESSAGE_TYPES } from '../constants/events';
+import { KeepKeyClient, KeepKeyDeviceError } from '../transport';
+import {
+  buildCosmosStdTx,
+  serializeCosmosSignDoc,
+  type CosmosAminoMsg,
+  type CosmosCoin,
+  type CosmosSignDoc,
+  type CosmosStdTx,
+} from '../utils/transactionUtils';
+
+export interface SignedCosmosTransaction {
+  signDoc: CosmosSignDoc;
+  /** Compressed secp256k1 public key, hex */
+  publicKey: string;
+  /** r||s signature, base64 as it appears in the StdTx */
+  signature: string;
+  stdTx: CosmosStdTx;
+}
+
+interface CosmosSigningMessages {
+  signTx: number;
+  msgRequest: number;
+  msgAck: number;
+  signedTx: number;
+  /** MsgAck payload for an amino message, or null when the device cannot sign it */
+  toDeviceMsg(chain: CosmosChain, msg: CosmosAminoMsg): Record<string, unknown> | null;
+}
+
+// DER prefix of a SubjectPublicKeyInfo holding a compressed secp256k1 point
+const SECP256K1_SPKI_PREFIX = Buffer.from('3036301006072a8648ce3d020106052b8104000a032200', 'hex');
+
+function requirePrefix(chain: CosmosChain, address: unknown): string {
+  if (typeof address !== 'string' || !address.startsWith(`${chain.prefix}1`)) {
+    throw new Error(`Expected a ${chain.name} address, got ${String(address)}`);
+  }
+  return address;
+}
+
+/**
+ * Amount of a single coin in the chain's own denom; the device signs uint64 amounts only
+ */
+function requireNativeAmount(chain: CosmosChain, coins: unknown): string {
+  const [coin, ...rest] = (Array.isArray(coins) ? coins : [coins]) as CosmosCoin[];
+  if (!coin || rest.length || coin.denom !== chain.denom) {
+    throw new Error(`${chain.name} messages must carry a single ${chain.denom} amount`);
+  }
+  return coin.amount;
+}
+
+function toCosmosSend(chain: CosmosChain, value: Record<string, unknown>): Record<string, unknown> {
+  return {
+    send: {
+      from_address: requirePrefix(chain, value.from_address),
+      to_address: value.to_address,
+      amount: requireNativeAmount(chain, value.amount),
+    },
+  };
+}
+
+const SIGNING_MESSAGES: Record<string, CosmosSigningMessages> = {
+  ATOM: {
+    signTx: MESSAGE_TYPES.CosmosSignTx,
+    msgRequest: MESSAGE_TYPES.CosmosMsgRequest,
+    msgAck: MESSAGE_TYPES.CosmosMsgAck,
+    signedTx: MESSAGE_TYPES.CosmosSignedTx,
+    toDeviceMsg(chain, { type, value }) {
+      switch (type) {
+        case 'cosmos-sdk/MsgSend':
+          return toCosmosSend(chain, value);
+        case 'cosmos-sdk/MsgDelegate':
+        case 'cosmos-sdk/MsgUndelegate':
+          return {
+            [type === 'cosmos-sdk/MsgDelegate' ? 'delegate' : 'undelegate']: {
+              delegator_address: requirePrefix(chain, value.delegator_address),
+              validator_address: value.validator_address,
+              amount: requireNativeAmount(chain, value.amount),
+              denom: chain.denom,
+            },
+          };
+        default:
+          return null;
+      }
+    },
+  },
+  RUNE: {
+    signTx: MESSAGE_TYPES.ThorchainSignTx,
+    msgRequest: MESSAGE_TYPES.ThorchainMsgRequest,
+    msgAck: MESSAGE_TYPES.ThorchainMsgAck,
+    signedTx: MESSAGE_TYPES.ThorchainSignedTx,
+    toDeviceMsg(chain, { type, value }) {
+      switch (type) {
+        case 'thorchain/MsgSend':
+          return toCosmosSend(chain, value);
+        case 'thorchain/MsgDeposit': {
+          const [coin, ...rest] = (value.coins ?? []) as Array<{ asset: string; amount: string }>;
+          if (!coin || rest.length) {
+            throw new Error('THORChain deposits must carry a single coin');
+          }
+          return {
+            deposit: {
+              asset: coin.asset,
+              amount: coin.amount,
+              memo: value.memo,
+              signer: requirePrefix(chain, value.signer),
+            },
+          };
+        }
+        default:
+          return null;
+      }
+    },
+  },
+  OSMO: {
+    signTx: MESSAGE_TYPES.OsmosisSignTx,
+    msgRequest: MESSAGE_TYPES.OsmosisMsgRequest,
+    msgAck: MESSAGE_TYPES.OsmosisMsgAck,
+    signedTx: MESSAGE_TYPES.OsmosisSignedTx,
+    toDeviceMsg(chain, { type, value }) {
+      switch (type) {
+        case 'cosmos-sdk/MsgSend': {
+          const [token, ...rest] = (value.amount ?? []) as CosmosCoin[];
+          if (!token || rest.length) {
+            throw new Error('Osmosis sends must carry a single coin');
+          }
+          return {
+            send: {
+              from_address: requirePrefix(chain, value.from_address),
+              to_address: value.to_address,
+              token,
+            },
+          };
+        }
+        case 'osmosis/gamm/swap-exact-amount-in': {
+          const [route, ...rest] = (value.routes ?? []) as Array<{
+            pool_id: string;
+            token_out_denom: string;
+          }>;
+          if (!route || rest.length) {
+            throw new Error('Osmosis swaps must go through a single pool');
+          }
+          const tokenIn = value.token_in as CosmosCoin;
+          return {
+            swap: {
+              sender: requirePrefix(chain, value.sender),
+              pool_id: route.pool_id,
+              token_out_denom: route.token_out_denom,
+              token_in_denom: tokenIn.denom,
+              token_in_amount: tokenIn.amount,
+              token_out_min_amount: value.token_out_min_amount,
+            },
+          };
+        }
+        default:
+          return null;
+      }
+    },
+  },
+};
+
+/**
+ * Check a device signature against the locally built sign doc
+ */
+function verifySignature(signDoc: CosmosSignDoc, publicKey: Buffer, signature: Buffer): boolean {
+  if (publicKey.length !== 33 || signature.length !== 64) {
+    return false;
+  }
+  const key = crypto.createPublicKey({
+    key: Buffer.concat([SECP256K1_SPKI_PREFIX, publicKey]),
+    format: 'der',
+    type: 'spki',
+  });
+  return crypto.verify(
+    'sha256',
+    serializeCosmosSignDoc(signDoc),
+    { key, dsaEncoding: 'ieee-p1363' },
+    signature,
+  );
+}
+
+/**
+ * Sign an amino sign doc on the device and assemble the StdTx
+ *
+ * The returned signature is verified against the local sign doc, so a
+ * mismatch between what was built here and what the device signed is caught
+ * before anything is broadcast.
+ */
+export async function signCosmosTransaction(
+  client: KeepKeyClient,
+  symbol: string,
+  addressN: number[],
+  signDoc: CosmosSignDoc,
+): Promise<SignedCosmosTransaction> {
+  const chain = COSMOS_CHAINS[symbol];
+  const messages = SIGNING_MESSAGES[symbol];
+  if (!chain || !messages) {
+    throw new Error(`Amino signing is not supported for ${symbol}`);
+  }
+  const acks = signDoc.msgs.map((msg) => {
+    const ack = messages.toDeviceMsg(chain, msg);
+    if (!ack) {
+      throw new Error(`${chain.name} cannot sign ${msg.type} messages`);
+    }
+    return ack;
+  });
+
+  let response = await client.callWithInteraction(messages.signTx, {
+    address_n: addressN,
+    account_number: signDoc.account_number,
+    chain_id: signDoc.chain_id,
+    fee_amount: requireNativeAmount(chain, signDoc.fee.amount),
+    gas: signDoc.fee.gas,
+    memo: signDoc.memo,
+    sequence: signDoc.sequence,
+    msg_count: acks.length,
+  });
+
+  let next = 0;
+  try {
+    while (response.type === messages.msgRequest) {
+      if (next >= acks.length) {
+        throw new Error(`Device requested message ${next + 1} of ${acks.length}`);
+      }
+      response = await client.callWithInteraction(messages.msgAck, acks[next++]);
+    }
+  } catch (error) {
+    if (!(error instanceof KeepKeyDeviceError)) {
+      await client.cancel().catch(() => undefined);
+    }
+    throw error;
+  }
+
+  if (response.type !== messages.signedTx) {
+    throw new Error(`Unexpected response during signing: message type ${response.type}`);
+  }
+  const signed = response.message as { public_key: string; signature: string };
+  const publicKey = Buffer.from(signed.public_key, 'hex');
+  const signature = Buffer.from(signed.signature, 'hex');
+  if (!verifySignature(signDoc, publicKey, signature)) {
+    throw new Error('Device signature does not match the locally built sign doc');
+  }
+
+  return {
+    signDoc,
+    publicKey: publicKey.toString('hex'),
+    signature: signature.toString('base64'),
+    stdTx: buildCosmosStdTx(signDoc, publicKey, signature),
+  };
+}
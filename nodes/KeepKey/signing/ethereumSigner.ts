@@ -0,0 +1,130 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Ethereum transaction signing
+ *
+ * EthereumSignTx carries the transaction fields and the first chunk of its
+ * data. While data remains, the device answers with an EthereumTxRequest
+ * giving the size of the next chunk it wants; the last request carries the
+ * signature.
+ */
+
+import { MESSAGE_TYPES } from '../constants/events';
+import { KeepKeyClient, KeepKeyDeviceError } from '../transport';
+import { keccak256 } from '../utils/hashUtils';
+import { toRlpInteger } from '../utils/rlpUtils';
+import {
+  serializeEthereumTransaction,
+  type EthereumSignature,
+  type EthereumTxParams,
+} from '../utils/transactionUtils';
+
+export interface SignedEthereumTransaction extends EthereumSignature {
+  /** Signed transaction, ready for eth_sendRawTransaction */
+  serializedTx: string;
+  hash: string;
+}
+
+interface EthereumTxRequest {
+  data_length?: number;
+  signature_v?: number;
+  signature_r?: string;
+  signature_s?: string;
+}
+
+/** Data sent along with EthereumSignTx */
+const INITIAL_CHUNK_SIZE = 1024;
+
+function toHexQuantity(value: number | string | undefined): string {
+  return toRlpInteger(value ?? 0).toString('hex');
+}
+
+/**
+ * The device reports v as 27/28, chain-adjusted (EIP-155) or as the bare recovery id
+ */
+function toRecoveryId(v: number): number {
+  if (v < 27) {
+    return v;
+  }
+  return v < 35 ? v - 27 : (v - 35) % 2;
+}
+
+/**
+ * v for a legacy transaction: EIP-155 replay protection when a chain id is set
+ */
+function toLegacyV(recoveryId: number, chainId: number): number {
+  return chainId ? chainId * 2 + 35 + recoveryId : 27 + recoveryId;
+}
+
+/**
+ * Sign an Ethereum transaction on the device
+ */
+export async function signEthereumTransaction(
+  client: KeepKeyClient,
+  addressN: number[],
+  tx: EthereumTxParams,
+): Promise<SignedEthereumTransaction> {
+  const data = Buffer.from((tx.data ?? '').replace(/^0x/i, ''), 'hex');
+  const eip1559 = tx.txType === 2;
+
+  let response = await client.callWithInteraction<EthereumTxRequest>(MESSAGE_TYPES.EthereumSignTx, {
+    address_n: addressN,
+    nonce: toHexQuantity(tx.nonce),
+    gas_limit: toHexQuantity(tx.gasLimit),
+    to: tx.to.replace(/^0x/i, ''),
+    value: toHexQuantity(tx.value),
+    data_initial_chunk: data.subarray(0, INITIAL_CHUNK_SIZE).toString('hex'),
+    data_length: data.length,
+    chain_id: tx.chainId,
+    ...(eip1559
+      ? {
+          tx_type: 2,
+          max_fee_per_gas: toHexQuantity(tx.maxFeePerGas),
+          max_priority_fee_per_gas: toHexQuantity(tx.maxPriorityFeePerGas),
+        }
+      : { gas_price: toHexQuantity(tx.gasPrice) }),
+  });
+
+  let offset = Math.min(data.length, INITIAL_CHUNK_SIZE);
+  try {
+    while (response.type === MESSAGE_TYPES.EthereumTxRequest && response.message.data_length) {
+      const chunk = data.subarray(offset, offset + response.message.data_length);
+      if (chunk.length !== response.message.data_length) {
+        throw new Error(
+          `Device requested ${response.message.data_length} bytes of data at offset ${offset}, ` +
+            `but only ${data.length - offset} remain`,
+        );
+      }
+      offset += chunk.length;
+      response = await client.callWithInteraction<EthereumTxRequest>(MESSAGE_TYPES.EthereumTxAck, {
+        data_chunk: chunk.toString('hex'),
+      });
+    }
+  } catch (error) {
+    if (!(error instanceof KeepKeyDeviceError)) {
+      await client.cancel().catch(() => undefined);
+    }
+    throw error;
+  }
+
+  const { signature_v: deviceV, signature_r: r, signature_s: s } = response.message;
+  if (response.type !== MESSAGE_TYPES.EthereumTxRequest || deviceV === undefined || !r || !s) {
+    throw new Error(`Unexpected response during signing: message type ${response.type}`);
+  }
+
+  const recoveryId = toRecoveryId(deviceV);
+  const v = eip1559 ? recoveryId : toLegacyV(recoveryId, tx.chainId);
+  const signature = { v, r, s };
+  const serializedTx = serializeEthereumTransaction(tx, signature);
+
+  return {
+    ...signature,
+    serializedTx,
+    hash: `0x${keccak256(Buffer.from(serializedTx.slice(2), 'hex')).toString('hex')}`,
+  };
+}
@@ -0,0 +1,13 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+export * from './bitcoinSigner';
+export * from './cosmosSigner';
+export * from './ethereumSigner';
+export * from './multisigSigner';
+export * from './psbtSigner';
+export * from './typedDataSigner';
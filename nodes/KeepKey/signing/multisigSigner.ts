@@ -0,0 +1,158 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * m-of-n multisig signing
+ *
+ * Every cosigner is given by its account xpub. Inputs and change outputs name
+ * a key of this device's account; the same path below the account is used for
+ * every cosigner to build the script. Signatures from earlier cosigners are
+ * passed to the device, which adds its own and serializes the result.
+ */
+
+import { pathArrayToString } from '../constants/derivationPaths';
+import { KeepKeyClient } from '../transport';
+import { decodeExtendedPublicKey } from '../utils/bip32Utils';
+import type { BitcoinInput, BitcoinOutput } from '../utils/transactionUtils';
+import { signBitcoinTransaction, type SignedBitcoinTransaction } from './bitcoinSigner';
+
+// Limit of the device's multisig structure (and of standard P2SH scripts)
+const MAX_COSIGNERS = 15;
+
+export interface MultisigInput {
+  txid: string;
+  vout: number;
+  value: number;
+  /** Full path of this device's key */
+  addressN: number[];
+  sequence?: number;
+  /** Signatures from earlier cosigners, aligned with the xpubs */
+  signatures?: string[];
+}
+
+export interface MultisigSignRequest {
+  /** Device coin name, e.g. Bitcoin or Litecoin */
+  coinName: string;
+  /** Signatures required */
+  m: number;
+  /** Account xpub of every cosigner, this device included, in redeem script order */
+  xpubs: string[];
+  /** SPENDMULTISIG (P2SH), SPENDP2SHWITNESS (P2SH-P2WSH) or SPENDWITNESS (P2WSH) */
+  scriptType: string;
+  inputs: MultisigInput[];
+  /** Change outputs set addressN to a key of the multisig account */
+  outputs: BitcoinOutput[];
+  /** Raw hex of every transaction spent by the inputs, keyed by txid */
+  prevTxs: Record<string, string>;
+  lockTime?: number;
+}
+
+export interface SignedMultisigTransaction extends SignedBitcoinTransaction {
+  /** Position of this device among the cosigners */
+  cosignerIndex: number;
+  /** Signatures collected so far for each input, aligned with the xpubs */
+  multisigSignatures: string[][];
+  /** Whether every input now carries m signatures */
+  complete: boolean;
+}
+
+function isBelowAccount(addressN: number[], accountPath: number[]): boolean {
+  return (
+    addressN.length > accountPath.length && accountPath.every((step, i) => addressN[i] === step)
+  );
+}
+
+/**
+ * Sign a transaction spending m-of-n multisig inputs
+ */
+export async function signMultisigTransaction(
+  client: KeepKeyClient,
+  request: MultisigSignRequest,
+): Promise<SignedMultisigTransaction> {
+  const { m, xpubs, inputs } = request;
+  if (!xpubs.length || xpubs.length > MAX_COSIGNERS) {
+    throw new Error(`Multisig needs between 1 and ${MAX_COSIGNERS} cosigners`);
+  }
+  if (!Number.isInteger(m) || m < 1 || m > xpubs.length) {
+    throw new Error(`Threshold must be between 1 and ${xpubs.length}, got ${m}`);
+  }
+  if (!inputs.length) {
+    throw new Error('A multisig transaction needs at least one input');
+  }
+  const keys = xpubs.map((xpub) => decodeExtendedPublicKey(xpub));
+  const depth = keys[0].depth;
+  if (keys.some((key) => key.depth !== depth)) {
+    throw new Error('Cosigner xpubs must all be at the same depth');
+  }
+
+  // Every input spends from the account of the first one
+  const accountPath = inputs[0].addressN.slice(0, depth);
+  const account = pathArrayToString(accountPath);
+  for (const input of inputs) {
+    const label = `Input ${input.txid}:${input.vout}`;
+    if (!isBelowAccount(input.addressN, accountPath)) {
+      throw new Error(`${label} is not below the multisig account ${account}`);
+    }
+    if (input.signatures && input.signatures.length !== xpubs.length) {
+      throw new Error(`${label} must list one signature per cosigner`);
+    }
+  }
+  const { node } = await client.getPublicKey({
+    address_n: accountPath,
+    coin_name: request.coinName,
+  });
+  const cosignerIndex = keys.findIndex(
+    (key) =>
+      key.publicKey.toString('hex') === node.public_key &&
+      key.chainCode.toString('hex') === node.chain_code,
+  );
+  if (cosignerIndex < 0) {
+    throw new Error(`This device's key at ${account} is not one of the cosigners`);
+  }
+
+  const signInputs: BitcoinInput[] = inputs.map((input) => {
+    const signatures = input.signatures ?? xpubs.map(() => '');
+    return {
+      txid: input.txid,
+      vout: input.vout,
+      value: input.value,
+      addressN: input.addressN,
+      scriptType: request.scriptType,
+      sequence: input.sequence,
+      multisig: { m, xpubs, addressN: input.addressN.slice(depth), signatures },
+    };
+  });
+  const outputs = request.outputs.map((output, index) => {
+    if (!output.addressN) {
+      return output;
+    }
+    if (!isBelowAccount(output.addressN, accountPath)) {
+      throw new Error(`Change output ${index} is not below the multisig account ${account}`);
+    }
+    return { ...output, multisig: { m, xpubs, addressN: output.addressN.slice(depth) } };
+  });
+
+  const signed = await signBitcoinTransaction(client, {
+    coinName: request.coinName,
+    inputs: signInputs,
+    outputs,
+    prevTxs: request.prevTxs,
+    lockTime: request.lockTime,
+  });
+
+  const multisigSignatures = signInputs.map((input, index) => {
+    const signatures = [...(input.multisig?.signatures ?? [])];
+    signatures[cosignerIndex] = signed.signatures[index] ?? '';
+    return signatures;
+  });
+  return {
+    ...signed,
+    cosignerIndex,
+    multisigSignatures,
+    complete: multisigSignatures.every((signatures) => signatures.filter(Boolean).length >= m),
+  };
+}
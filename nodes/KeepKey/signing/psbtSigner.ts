@@ -0,0 +1,362 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * PSBT signing
+ *
+ * The PSBT is mapped onto an ordinary SignTx exchange: inputs and change
+ * outputs carrying a BIP32 derivation from this device become address_n
+ * entries, other outputs become addresses. Multisig inputs also carry their
+ * cosigner keys, each given to the device as a bare key with no path below
+ * it, and the partial signatures other cosigners already added. The device's
+ * signatures are then merged back into the PSBT as partial signatures.
+ */
+
+import * as crypto from 'crypto';
+
+import type { BitcoinLikeCoin } from '../constants/coins';
+import { KeepKeyClient } from '../transport';
+import { scriptToAddress } from '../utils/addressUtils';
+import { encodeExtendedPublicKey } from '../utils/bip32Utils';
+import { hash160 } from '../utils/hashUtils';
+import {
+  encodePsbt,
+  extractPsbtTransaction,
+  finalizePsbtInput,
+  getBip32Derivations,
+  getPsbtEntries,
+  getPsbtField,
+  getPsbtInputUtxo,
+  parseMultisigScript,
+  PSBT_IN,
+  PSBT_OUT,
+  setPsbtEntry,
+  SIGHASH_ALL,
+  type Bip32Derivation,
+  type MultisigScript,
+  type Psbt,
+  type PsbtMap,
+} from '../utils/psbtUtils';
+import {
+  parseBitcoinTransaction,
+  type BitcoinInput,
+  type BitcoinMultisig,
+  type BitcoinOutput,
+} from '../utils/transactionUtils';
+import { signBitcoinTransaction } from './bitcoinSigner';
+
+export interface PsbtSignRequest {
+  coin: BitcoinLikeCoin;
+  /** Device coin name, e.g. Bitcoin or Litecoin */
+  coinName: string;
+  psbt: Psbt;
+  /** Finalize every input and extract the network transaction */
+  finalize?: boolean;
+}
+
+export interface SignedPsbt {
+  /** Updated PSBT, base64 */
+  psbt: string;
+  txid: string;
+  /** Extracted transaction, present when finalized */
+  signedTx?: string;
+}
+
+// Version bytes for the bare cosigner keys handed to the device
+const XPUB_VERSION = 0x0488b21e;
+
+interface ScriptInfo {
+  /** Key hash of a single-key script */
+  keyHash?: string;
+  /** Threshold and keys of a multisig script */
+  multisig?: MultisigScript;
+  inputType: string;
+  outputType: string;
+}
+
+/**
+ * Key hash or multisig keys a script commits to, with the matching script types
+ */
+function classifyScript(
+  script: string,
+  redeemScript: Buffer | undefined,
+  witnessScript?: Buffer,
+): ScriptInfo | null {
+  let match = /^76a914([0-9a-f]{40})88ac$/.exec(script);
+  if (match) {
+    return { keyHash: match[1], inputType: 'SPENDADDRESS', outputType: 'PAYTOADDRESS' };
+  }
+  match = /^0014([0-9a-f]{40})$/.exec(script);
+  if (match) {
+    return { keyHash: match[1], inputType: 'SPENDWITNESS', outputType: 'PAYTOWITNESS' };
+  }
+  const witnessMultisig = witnessScript && parseMultisigScript(witnessScript);
+  const witnessProgram =
+    witnessScript && `0020${crypto.createHash('sha256').update(witnessScript).digest('hex')}`;
+  if (witnessMultisig && script === witnessProgram) {
+    return { multisig: witnessMultisig, inputType: 'SPENDWITNESS', outputType: 'PAYTOWITNESS' };
+  }
+
+  match = /^a914([0-9a-f]{40})87$/.exec(script);
+  if (!match || !redeemScript || hash160(redeemScript).toString('hex') !== match[1]) {
+    return null;
+  }
+  const redeem = redeemScript.toString('hex');
+  const nested = /^0014([0-9a-f]{40})$/.exec(redeem);
+  if (nested) {
+    return { keyHash: nested[1], inputType: 'SPENDP2SHWITNESS', outputType: 'PAYTOP2SHWITNESS' };
+  }
+  if (witnessMultisig && redeem === witnessProgram) {
+    return {
+      multisig: witnessMultisig,
+      inputType: 'SPENDP2SHWITNESS',
+      outputType: 'PAYTOP2SHWITNESS',
+    };
+  }
+  const multisig = parseMultisigScript(redeemScript);
+  return multisig && { multisig, inputType: 'SPENDMULTISIG', outputType: 'PAYTOMULTISIG' };
+}
+
+/**
+ * The derivation belonging to this device, checked against the script it should control
+ */
+function ownDerivation(
+  derivations: Bip32Derivation[],
+  fingerprint: Buffer,
+  script: ScriptInfo,
+  label: string,
+): Bip32Derivation | undefined {
+  const own = derivations.find((derivation) => derivation.fingerprint.equals(fingerprint));
+  const controls = script.multisig
+    ? script.multisig.pubkeys.some((pubkey) => own?.pubkey.equals(pubkey))
+    : hash160(own?.pubkey ?? Buffer.alloc(0)).toString('hex') === script.keyHash;
+  if (own && !controls) {
+    throw new Error(`${label} derivation key does not match its script`);
+  }
+  return own;
+}
+
+/**
+ * Device multisig structure for a script, with the partial signatures already in the input
+ *
+ * The PSBT carries cosigner keys rather than their account xpubs, so each key
+ * becomes a depth-0 node with no path below it.
+ */
+function toBitcoinMultisig(multisig: MultisigScript, input: PsbtMap): BitcoinMultisig {
+  const partialSigs = getPsbtEntries(input, PSBT_IN.PARTIAL_SIG);
+  return {
+    m: multisig.m,
+    xpubs: multisig.pubkeys.map((publicKey) =>
+      encodeExtendedPublicKey({
+        version: XPUB_VERSION,
+        depth: 0,
+        parentFingerprint: 0,
+        childNumber: 0,
+        chainCode: Buffer.alloc(32),
+        publicKey,
+      }),
+    ),
+    addressN: [],
+    signatures: multisig.pubkeys.map((pubkey) => {
+      const partialSig = partialSigs.find((entry) => entry.key.subarray(1).equals(pubkey));
+      // The device takes the DER signature without its sighash byte
+      return partialSig ? partialSig.value.subarray(0, -1).toString('hex') : '';
+    }),
+  };
+}
+
+/**
+ * Master key fingerprint, asked for under the purpose of the first input key
+ */
+async function getMasterFingerprint(
+  client: KeepKeyClient,
+  coinName: string,
+  psbt: Psbt,
+): Promise<Buffer> {
+  const firstPath = psbt.inputs
+    .flatMap((input) => getBip32Derivations(input, PSBT_IN.BIP32_DERIVATION))
+    .find((derivation) => derivation.path.length > 0)?.path;
+  if (!firstPath) {
+    throw new Error('PSBT inputs carry no BIP32 derivations to sign with');
+  }
+  const fingerprint = Buffer.alloc(4);
+  fingerprint.writeUInt32BE(
+    await client.getMasterFingerprint({ purpose: firstPath[0], coin_name: coinName }),
+  );
+  return fingerprint;
+}
+
+function toSignInputs(psbt: Psbt, fingerprint: Buffer): BitcoinInput[] {
+  return psbt.tx.inputs.map((txInput, index) => {
+    const input = psbt.inputs[index];
+    const label = `PSBT input ${index}`;
+    const utxo = getPsbtInputUtxo(psbt, index);
+    if (!utxo) {
+      throw new Error(`${label} is missing the output it spends`);
+    }
+    const sighash = getPsbtField(input, PSBT_IN.SIGHASH_TYPE);
+    if (sighash && sighash.readUInt32LE(0) !== SIGHASH_ALL) {
+      throw new Error(`${label} requests a sighash type other than SIGHASH_ALL`);
+    }
+    const script = classifyScript(
+      utxo.scriptPubKey,
+      getPsbtField(input, PSBT_IN.REDEEM_SCRIPT),
+      getPsbtField(input, PSBT_IN.WITNESS_SCRIPT),
+    );
+    if (!script) {
+      throw new Error(`${label} spends an unsupported script ${utxo.scriptPubKey}`);
+    }
+    const derivation = ownDerivation(
+      getBip32Derivations(input, PSBT_IN.BIP32_DERIVATION),
+      fingerprint,
+      script,
+      label,
+    );
+    if (!derivation) {
+      throw new Error(`${label} has no key from this device (${fingerprint.toString('hex')})`);
+    }
+    return {
+      txid: txInput.prevHash,
+      vout: txInput.prevIndex,
+      value: utxo.amount,
+      addressN: derivation.path,
+      scriptType: script.inputType,
+      sequence: txInput.sequence,
+      ...(script.multisig && { multisig: toBitcoinMultisig(script.multisig, input) }),
+    };
+  });
+}
+
+/**
+ * Outputs for SignTx; single-key change of a single-key spend goes by path
+ *
+ * Multisig change is paid by address: the device only recognizes change to
+ * the same cosigner keys as the inputs, and those differ per address.
+ */
+function toSignOutputs(
+  psbt: Psbt,
+  coin: BitcoinLikeCoin,
+  fingerprint: Buffer,
+  inputs: BitcoinInput[],
+): BitcoinOutput[] {
+  const multisigSpend = inputs.some((input) => input.multisig);
+  return psbt.tx.outputs.map((txOutput, index) => {
+    const output = psbt.outputs[index];
+    const script = Buffer.from(txOutput.scriptPubKey, 'hex');
+    if (script[0] === 0x6a) {
+      // OP_RETURN followed by a direct push or OP_PUSHDATA1
+      const data = script.subarray(script[1] === 0x4c ? 3 : 2);
+      return { value: txOutput.amount, opReturnData: data.toString('hex') };
+    }
+
+    const classified = classifyScript(
+      txOutput.scriptPubKey,
+      getPsbtField(output, PSBT_OUT.REDEEM_SCRIPT),
+    );
+    const change = !multisigSpend && classified?.keyHash !== undefined ? classified : null;
+    const derivation =
+      change &&
+      ownDerivation(
+        getBip32Derivations(output, PSBT_OUT.BIP32_DERIVATION),
+        fingerprint,
+        change,
+        `PSBT output ${index}`,
+      );
+    if (change && derivation) {
+      return { value: txOutput.amount, addressN: derivation.path, scriptType: change.outputType };
+    }
+    return { value: txOutput.amount, address: scriptToAddress(script, coin) };
+  });
+}
+
+/**
+ * Check that the device signed exactly the transaction the PSBT describes
+ */
+function assertSameTransaction(psbt: Psbt, serializedTx: string): void {
+  const signed = parseBitcoinTransaction(serializedTx);
+  const { tx } = psbt;
+  const same =
+    signed.version === tx.version &&
+    signed.lockTime === tx.lockTime &&
+    signed.inputs.length === tx.inputs.length &&
+    signed.outputs.length === tx.outputs.length &&
+    signed.inputs.every(
+      (input, i) =>
+        input.prevHash === tx.inputs[i].prevHash &&
+        input.prevIndex === tx.inputs[i].prevIndex &&
+        input.sequence === tx.inputs[i].sequence,
+    ) &&
+    signed.outputs.every(
+      (output, i) =>
+        output.amount === tx.outputs[i].amount &&
+        output.scriptPubKey === tx.outputs[i].scriptPubKey,
+    );
+  if (!same) {
+    throw new Error('Device signed a transaction that differs from the PSBT');
+  }
+}
+
+/**
+ * Sign every input of a PSBT with this device's key
+ *
+ * Single-key inputs must belong to this device and multisig inputs must list
+ * it among their cosigners: the device signs all inputs of a transaction at
+ * once, so none can be left to another wallet. The PSBT is updated in place
+ * with the device's partial signatures, next to those of other cosigners.
+ */
+export async function signPsbt(
+  client: KeepKeyClient,
+  request: PsbtSignRequest,
+): Promise<SignedPsbt> {
+  const { psbt, coin, coinName } = request;
+  const fingerprint = await getMasterFingerprint(client, coinName, psbt);
+  const inputs = toSignInputs(psbt, fingerprint);
+  const outputs = toSignOutputs(psbt, coin, fingerprint, inputs);
+
+  const prevTxs: Record<string, string> = {};
+  for (const input of psbt.inputs) {
+    const prevTx = getPsbtField(input, PSBT_IN.NON_WITNESS_UTXO);
+    if (prevTx) {
+      prevTxs[parseBitcoinTransaction(prevTx.toString('hex')).txid] = prevTx.toString('hex');
+    }
+  }
+
+  const signed = await signBitcoinTransaction(client, {
+    coinName,
+    inputs,
+    outputs,
+    prevTxs,
+    version: psbt.tx.version,
+    lockTime: psbt.tx.lockTime,
+  });
+  assertSameTransaction(psbt, signed.serializedTx);
+
+  psbt.inputs.forEach((input, index) => {
+    const derivation = getBip32Derivations(input, PSBT_IN.BIP32_DERIVATION).find((entry) =>
+      entry.fingerprint.equals(fingerprint),
+    );
+    const signature = signed.signatures[index];
+    if (!derivation || !signature) {
+      throw new Error(`Device returned no signature for PSBT input ${index}`);
+    }
+    setPsbtEntry(
+      input,
+      Buffer.concat([Buffer.from([PSBT_IN.PARTIAL_SIG]), derivation.pubkey]),
+      Buffer.concat([Buffer.from(signature, 'hex'), Buffer.from([SIGHASH_ALL])]),
+    );
+  });
+
+  if (!request.finalize) {
+    return { psbt: encodePsbt(psbt).toString('base64'), txid: psbt.tx.txid };
+  }
+  psbt.inputs.forEach((_, index) => finalizePsbtInput(psbt, index));
+  return {
+    psbt: encodePsbt(psbt).toString('base64'),
+    txid: psbt.tx.txid,
+    signedTx: extractPsbtTransaction(psbt),
+  };
+}
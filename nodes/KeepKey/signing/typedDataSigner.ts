@@ -0,0 +1,235 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * EIP-712 typed data signing
+ *
+ * After EthereumSignTypedData the device pulls the document piece by piece:
+ * a StructRequest asks for the members of a named struct, and a ValueRequest
+ * asks for one value by member path. The path starts with 0 for the domain or
+ * 1 for the message, followed by member and array indices.
+ */
+
+import { MESSAGE_TYPES } from '../constants/events';
+import { KeepKeyClient, KeepKeyDeviceError, type MessageResponse } from '../transport';
+import { keccak256 } from '../utils/hashUtils';
+import { recoverPublicKey } from '../utils/secp256k1Utils';
+import {
+  hashTypedData,
+  integerToBytes,
+  parseTypedDataType,
+  toTypedDataBytes,
+  toTypedDataInteger,
+  type TypedData,
+  type TypedDataField,
+  type TypedDataHashes,
+} from '../utils/typedDataUtils';
+
+export interface SignedTypedData extends TypedDataHashes {
+  address: string;
+  signature: string;
+}
+
+type DeviceFieldType = {
+  data_type: string;
+  size?: number;
+  entry_type?: DeviceFieldType;
+  struct_name?: string;
+};
+
+/**
+ * Describe a type the way EthereumTypedDataStructAck expects it
+ */
+function toDeviceFieldType(
+  types: Record<string, TypedDataField[]>,
+  typeName: string,
+): DeviceFieldType {
+  const type = parseTypedDataType(types, typeName);
+  switch (type.kind) {
+    case 'array':
+      return {
+        data_type: 'ARRAY',
+        size: type.length,
+        entry_type: toDeviceFieldType(types, type.entryType),
+      };
+    case 'struct':
+      return { data_type: 'STRUCT', size: types[type.name].length, struct_name: type.name };
+    case 'uint':
+    case 'int':
+      return { data_type: type.kind.toUpperCase(), size: type.bits / 8 };
+    case 'bytes':
+      return { data_type: 'BYTES', size: type.size };
+    default:
+      return { data_type: type.kind.toUpperCase() };
+  }
+}
+
+/**
+ * Encode a single value for EthereumTypedDataValueAck; arrays are sent as their length
+ */
+function toDeviceValue(
+  types: Record<string, TypedDataField[]>,
+  typeName: string,
+  value: unknown,
+): Buffer {
+  const type = parseTypedDataType(types, typeName);
+  switch (type.kind) {
+    case 'array': {
+      if (!Array.isArray(value)) {
+        throw new Error(`Expected an array for ${typeName}`);
+      }
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(value.length);
+      return length;
+    }
+    case 'struct':
+      throw new Error(`Device requested struct ${type.name} as a single value`);
+    case 'uint':
+    case 'int':
+      return integerToBytes(toTypedDataInteger(value, type), type.bits / 8);
+    case 'bytes':
+    case 'address':
+      return toTypedDataBytes(value, typeName);
+    case 'bool':
+      return Buffer.from([value === true || value === 'true' ? 1 : 0]);
+    case 'string':
+      return Buffer.from(String(value), 'utf8');
+  }
+}
+
+/**
+ * Find the type and value a member path points at
+ */
+function resolveMemberPath(
+  typedData: TypedData,
+  memberPath: number[],
+): { type: string; value: unknown } {
+  const [root, ...indices] = memberPath;
+  let type = root === 0 ? 'EIP712Domain' : typedData.primaryType;
+  let value: unknown = root === 0 ? typedData.domain : typedData.message;
+  if (root !== 0 && root !== 1) {
+    throw new Error(`Invalid member path ${memberPath.join('.')}`);
+  }
+
+  for (const index of indices) {
+    const parsed = parseTypedDataType(typedData.types, type);
+    if (parsed.kind === 'struct') {
+      const field = typedData.types[parsed.name][index];
+      if (!field) {
+        throw new Error(`Invalid member path ${memberPath.join('.')}`);
+      }
+      type = field.type;
+      value = (value as Record<string, unknown>)[field.name];
+    } else if (parsed.kind === 'array' && Array.isArray(value) && index < value.length) {
+      type = parsed.entryType;
+      value = value[index];
+    } else {
+      throw new Error(`Invalid member path ${memberPath.join('.')}`);
+    }
+  }
+  return { type, value };
+}
+
+/**
+ * Answer one device request with the matching ack
+ */
+function answer(
+  typedData: TypedData,
+  response: MessageResponse,
+): [number, Record<string, unknown>] {
+  switch (response.type) {
+    case MESSAGE_TYPES.EthereumTypedDataStructRequest: {
+      const { name } = response.message as { name: string };
+      const fields = typedData.types[name];
+      if (!fields) {
+        throw new Error(`Device requested unknown struct ${name}`);
+      }
+      return [
+        MESSAGE_TYPES.EthereumTypedDataStructAck,
+        {
+          members: fields.map((field) => ({
+            name: field.name,
+            type: toDeviceFieldType(typedData.types, field.type),
+          })),
+        },
+      ];
+    }
+    case MESSAGE_TYPES.EthereumTypedDataValueRequest: {
+      const { member_path: memberPath = [] } = response.message as { member_path?: number[] };
+      const { type, value } = resolveMemberPath(typedData, memberPath);
+      if (value === undefined) {
+        throw new Error(`Missing value at member path ${memberPath.join('.')}`);
+      }
+      return [
+        MESSAGE_TYPES.EthereumTypedDataValueAck,
+        { value: toDeviceValue(typedData.types, type, value).toString('hex') },
+      ];
+    }
+    default:
+      throw new Error(`Unexpected response during signing: message type ${response.type}`);
+  }
+}
+
+/**
+ * Check that a 65-byte r || s || v signature over the digest comes from the address
+ */
+function verifySignature(digest: string, signature: Buffer, address: string): boolean {
+  if (signature.length !== 65) {
+    return false;
+  }
+  const v = signature[64];
+  try {
+    const publicKey = recoverPublicKey(
+      Buffer.from(digest.slice(2), 'hex'),
+      signature.subarray(0, 64),
+      v < 27 ? v : v - 27,
+    );
+    const recovered = keccak256(publicKey.subarray(1)).subarray(12).toString('hex');
+    return `0x${recovered}` === address.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sign EIP-712 typed data on the device
+ *
+ * The hashes are computed locally too, and the signer recovered from the
+ * signature must be the device address, so a device that signed a different
+ * view of the document is caught here.
+ */
+export async function signTypedData(
+  client: KeepKeyClient,
+  addressN: number[],
+  typedData: TypedData,
+): Promise<SignedTypedData> {
+  const hashes = hashTypedData(typedData);
+
+  let response = await client.callWithInteraction(MESSAGE_TYPES.EthereumSignTypedData, {
+    address_n: addressN,
+    primary_type: typedData.primaryType,
+    metamask_v4_compat: true,
+  });
+
+  try {
+    while (response.type !== MESSAGE_TYPES.EthereumTypedDataSignature) {
+      const [ackType, ack] = answer(typedData, response);
+      response = await client.callWithInteraction(ackType, ack);
+    }
+  } catch (error) {
+    if (!(error instanceof KeepKeyDeviceError)) {
+      await client.cancel().catch(() => undefined);
+    }
+    throw error;
+  }
+
+  const { address, signature } = response.message as { address: string; signature: string };
+  if (!verifySignature(hashes.digest, Buffer.from(signature, 'hex'), address)) {
+    throw new Error('Device signature does not match the locally computed digest');
+  }
+  return { ...hashes, address, signature: `0x${signature}` };
+}
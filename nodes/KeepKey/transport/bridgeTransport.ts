@@ -14,11 +14,14 @@
  */
 
 import { EventEmitter } from 'events';
-import { BRIDGE_CONFIG, DEVICE_TIMEOUTS } from '../constants/usbIds';
+import { BRIDGE_CONFIG, DEVICE_TIMEOUTS, USB_CONFIG } from '../constants/usbIds';
 import { DEVICE_EVENTS } from '../constants/events';
+import { pollDevices, type Transport, type TransportListener } from './transport';
 
 export interface BridgeDevice {
   path: string;
+  vendorId: number;
+  productId: number;
   session?: string;
   debugSession?: string;
   product?: string;
@@ -38,7 +41,7 @@ export interface BridgeResponse<T = unknown> {
 /**
  * KeepKey Bridge Transport
  */
-export class BridgeTransport extends EventEmitter {
+export class BridgeTransport extends EventEmitter implements Transport {
   private config: Required<BridgeTransportConfig>;
   private session: string | null = null;
   private device: BridgeDevice | null = null;
@@ -82,14 +85,32 @@ export class BridgeTransport extends EventEmitter {
    */
   async enumerate(): Promise<BridgeDevice[]> {
     const response = await fetch(`${this.config.url}${BRIDGE_CONFIG.ENDPOINTS.ENUMERATE}`);
-    const devices = await response.json() as BridgeDevice[];
-    return devices;
+    const devices = await response.json() as Array<Omit<BridgeDevice, 'vendorId' | 'productId'>>;
+    return devices.map((d) => ({
+      ...d,
+      vendorId: USB_CONFIG.VENDOR_ID,
+      productId: USB_CONFIG.PRODUCT_ID,
+    }));
+  }
+
+  /**
+   * Acquire a device and open a session on it
+   */
+  acquire(path?: string): Promise<BridgeDevice> {
+    return this.connect(path);
+  }
+
+  /**
+   * Close the session on the acquired device
+   */
+  release(): Promise<void> {
+    return this.disconnect();
   }
 
   /**
    * Acquire a device session
    */
-  async acquire(devicePath: string, previousSession?: string | null): Promise<string> {
+  async acquireSession(devicePath: string, previousSession?: string | null): Promise<string> {
     const prev = previousSession || 'null';
     const response = await fetch(
       `${this.config.url}${BRIDGE_CONFIG.ENDPOINTS.ACQUIRE}/${devicePath}/${prev}`,
@@ -108,7 +129,7 @@ export class BridgeTransport extends EventEmitter {
   /**
    * Release a device session
    */
-  async release(session: string): Promise<void> {
+  async releaseSession(session: string): Promise<void> {
     const response = await fetch(`${this.config.url}${BRIDGE_CONFIG.ENDPOINTS.RELEASE}/${session}`, {
       method: 'POST',
     });
@@ -141,7 +162,7 @@ export class BridgeTransport extends EventEmitter {
       }
 
       // Acquire session
-      this.session = await this.acquire(targetDevice.path, targetDevice.session);
+      this.session = await this.acquireSession(targetDevice.path, targetDevice.session);
       this.device = { ...targetDevice, session: this.session };
       this.connected = true;
 
@@ -166,7 +187,7 @@ export class BridgeTransport extends EventEmitter {
       this.stopListening();
 
       // Release session
-      await this.release(this.session);
+      await this.releaseSession(this.session);
 
       this.session = null;
       this.device = null;
@@ -205,6 +226,7 @@ export class BridgeTransport extends EventEmitter {
   async call<T = unknown>(
     messageType: number,
     message: Record<string, unknown>,
+    timeout?: number,
   ): Promise<BridgeResponse<T>> {
     if (!this.session) {
       throw new Error('No active session');
@@ -217,7 +239,7 @@ export class BridgeTransport extends EventEmitter {
         type: messageType,
         message,
       }),
-      signal: AbortSignal.timeout(this.config.timeout),
+      signal: AbortSignal.timeout(timeout ?? this.config.timeout),
     });
 
     if (!response.ok) {
@@ -253,9 +275,16 @@ export class BridgeTransport extends EventEmitter {
   }
 
   /**
-   * Start listening for device events
+   * Watch for devices being plugged in or removed
+   */
+  listen(callback: TransportListener): () => void {
+    return pollDevices(() => this.enumerate(), callback);
+  }
+
+  /**
+   * Start listening for device events on the current session
    */
-  async listen(): Promise<void> {
+  async listenForMessages(): Promise<void> {
     if (!this.session) {
       throw new Error('No active session');
     }
@@ -279,7 +308,7 @@ export class BridgeTransport extends EventEmitter {
 
       // Continue listening if not aborted
       if (!this.listenController.signal.aborted) {
-        void this.listen();
+        void this.listenForMessages();
       }
     } catch (error) {
       if ((error as Error).name !== 'AbortError') {
@@ -342,7 +371,7 @@ export class BridgeTransport extends EventEmitter {
 
     if (currentDevice.session !== this.session) {
       // Session changed, re-acquire
-      this.session = await this.acquire(currentDevice.path, currentDevice.session);
+      this.session = await this.acquireSession(currentDevice.path, currentDevice.session);
       this.device.session = this.session;
     }
 
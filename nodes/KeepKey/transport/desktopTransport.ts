@@ -0,0 +1,152 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * KeepKey Desktop Transport
+ *
+ * This module provides communication with KeepKey devices through the
+ * REST API exposed by the KeepKey Desktop application.
+ */
+
+import { EventEmitter } from 'events';
+import { DESKTOP_CONFIG, DEVICE_TIMEOUTS } from '../constants/usbIds';
+import { DEVICE_EVENTS } from '../constants/events';
+import {
+  pollDevices,
+  type MessageResponse,
+  type Transport,
+  type TransportDevice,
+  type TransportListener,
+} from './transport';
+
+export interface DesktopTransportConfig {
+  url?: string;
+  apiKey?: string;
+  timeout?: number;
+}
+
+/**
+ * KeepKey Desktop Transport
+ */
+export class DesktopTransport extends EventEmitter implements Transport {
+  private config: Required<Omit<DesktopTransportConfig, 'apiKey'>> & { apiKey?: string };
+  private device: TransportDevice | null = null;
+
+  constructor(config: DesktopTransportConfig = {}) {
+    super();
+    this.config = {
+      url: config.url || DESKTOP_CONFIG.DEFAULT_URL,
+      apiKey: config.apiKey,
+      timeout: config.timeout || DEVICE_TIMEOUTS.OPERATION,
+    };
+  }
+
+  /**
+   * Enumerate devices known to KeepKey Desktop
+   */
+  async enumerate(): Promise<TransportDevice[]> {
+    const response = await fetch(`${this.config.url}${DESKTOP_CONFIG.ENDPOINTS.DEVICES}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to list devices: ${error}`);
+    }
+
+    return response.json() as Promise<TransportDevice[]>;
+  }
+
+  /**
+   * Select a device; Desktop owns the USB session itself
+   */
+  async acquire(path?: string): Promise<TransportDevice> {
+    try {
+      const devices = await this.enumerate();
+
+      if (devices.length === 0) {
+        throw new Error('No KeepKey device found via Desktop');
+      }
+
+      const targetDevice = path ? devices.find((d) => d.path === path) : devices[0];
+
+      if (!targetDevice) {
+        throw new Error(`Device not found: ${path}`);
+      }
+
+      this.device = targetDevice;
+      this.emit(DEVICE_EVENTS.CONNECTED, this.device);
+      return this.device;
+    } catch (error) {
+      this.emit(DEVICE_EVENTS.FAILURE, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Forget the selected device
+   */
+  release(): Promise<void> {
+    if (this.device) {
+      this.device = null;
+      this.emit(DEVICE_EVENTS.DISCONNECTED);
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Call device with a message
+   */
+  async call<T = unknown>(
+    messageType: number,
+    message: Record<string, unknown>,
+    timeout?: number,
+  ): Promise<MessageResponse<T>> {
+    if (!this.device) {
+      throw new Error('No device acquired');
+    }
+
+    const response = await fetch(`${this.config.url}/call`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.getHeaders() },
+      body: JSON.stringify({ type: messageType, ...message }),
+      signal: AbortSignal.timeout(timeout ?? this.config.timeout),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Desktop call failed: ${error}`);
+    }
+
+    return response.json() as Promise<MessageResponse<T>>;
+  }
+
+  /**
+   * Watch for devices being plugged in or removed
+   */
+  listen(callback: TransportListener): () => void {
+    return pollDevices(() => this.enumerate(), callback);
+  }
+
+  /**
+   * Get current device
+   */
+  getDevice(): TransportDevice | null {
+    return this.device;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+}
+
+/**
+ * Create a new Desktop transport instance
+ */
+export function createDesktopTransport(config?: DesktopTransportConfig): DesktopTransport {
+  return new DesktopTransport(config);
+}
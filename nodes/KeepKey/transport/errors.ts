@@ -0,0 +1,73 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Device errors
+ */
+
+import { FAILURE_TYPES } from '../constants/events';
+
+export type FailureCode = keyof typeof FAILURE_TYPES;
+
+/**
+ * Failures that can succeed on a second attempt (after the user acts or the session is renewed)
+ */
+const RETRYABLE_FAILURES: ReadonlySet<FailureCode> = new Set<FailureCode>([
+  'UnexpectedMessage',
+  'ButtonExpected',
+  'ActionCancelled',
+  'PinExpected',
+  'PinCancelled',
+  'PinInvalid',
+  'PinMismatch',
+  'InvalidSession',
+]);
+
+/**
+ * Resolve the code of a Failure message: a FAILURE_TYPES number, its name,
+ * or the "Failure_<Name>" form some bridges send
+ */
+function toFailureCode(code: unknown): FailureCode | undefined {
+  if (typeof code === 'number') {
+    return (Object.keys(FAILURE_TYPES) as FailureCode[]).find((key) => FAILURE_TYPES[key] === code);
+  }
+  if (typeof code === 'string') {
+    const name = code.replace(/^(FailureType_)?Failure_/, '');
+    return name in FAILURE_TYPES ? (name as FailureCode) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * A Failure response from the device
+ */
+export class KeepKeyDeviceError extends Error {
+  /** FAILURE_TYPES name, or undefined when the device sent an unknown code */
+  readonly code: FailureCode | undefined;
+  /** Message text as reported by the device */
+  readonly deviceMessage: string;
+  readonly retryable: boolean;
+
+  constructor(code: FailureCode | undefined, deviceMessage: string = '') {
+    super(deviceMessage || `Device returned failure ${code ?? 'with unknown code'}`);
+    this.name = 'KeepKeyDeviceError';
+    this.code = code;
+    this.deviceMessage = deviceMessage;
+    this.retryable = code !== undefined && RETRYABLE_FAILURES.has(code);
+  }
+
+  /**
+   * Build the error from a decoded Failure message
+   */
+  static fromFailure(message: unknown): KeepKeyDeviceError {
+    const failure = (message ?? {}) as { code?: unknown; message?: unknown };
+    return new KeepKeyDeviceError(
+      toFailureCode(failure.code),
+      typeof failure.message === 'string' ? failure.message : '',
+    );
+  }
+}
@@ -5,7 +5,13 @@
  * See LICENSE file for details.
  */
 
+export * from './transport';
+export * from './errors';
 export * from './keepkeyClient';
+export * from './protobuf';
+export * from './messages';
 export * from './usbTransport';
 export * from './webUsbTransport';
 export * from './bridgeTransport';
+export * from './desktopTransport';
+export * from './replayTransport';
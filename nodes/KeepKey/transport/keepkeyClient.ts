@@ -20,6 +20,12 @@ import {
   type ConnectionType,
 } from '../constants/usbIds';
 import { DEVICE_EVENTS, MESSAGE_TYPES, type KeepKeyEvent } from '../constants/events';
+import { BridgeTransport } from './bridgeTransport';
+import { DesktopTransport } from './desktopTransport';
+import { KeepKeyDeviceError } from './errors';
+import type { MessageResponse, Transport } from './transport';
+import { UsbTransport } from './usbTransport';
+import { WebUsbTransport } from './webUsbTransport';
 
 // Log licensing notice once when module is loaded
 console.warn(`[Velocity BPA Licensing Notice]
@@ -66,18 +72,111 @@ export interface TransportConfig {
   desktopUrl?: string;
   apiKey?: string;
   timeout?: number;
+  /** Custom transport to use instead of the one selected by connectionType */
+  transport?: Transport;
+  /** Answers PIN, passphrase and recovery word requests during calls */
+  providers?: InteractionProviders;
+  /** Leave the PIN and passphrase session open on disconnect instead of clearing it */
+  keepSession?: boolean;
 }
 
-export interface MessageResponse<T = unknown> {
-  type: number;
-  message: T;
+/**
+ * Sources for user input the device asks for in the middle of a call
+ *
+ * The PIN provider receives the PinMatrixRequest and must return the PIN
+ * encoded against the scrambled matrix shown on the device.
+ */
+export interface InteractionProviders {
+  pin?: (request: { type?: string }) => Promise<string>;
+  passphrase?: () => Promise<string>;
+  word?: () => Promise<string>;
+}
+
+/**
+ * Requests that need user input, with the provider, event and time allowed for each
+ */
+const INPUT_REQUESTS: Record<
+  number,
+  {
+    provider: keyof InteractionProviders;
+    label: string;
+    event: KeepKeyEvent;
+    ack: number;
+    field: string;
+    timeout: number;
+  }
+> = {
+  [MESSAGE_TYPES.PinMatrixRequest]: {
+    provider: 'pin',
+    label: 'PIN',
+    event: DEVICE_EVENTS.PIN_REQUEST,
+    ack: MESSAGE_TYPES.PinMatrixAck,
+    field: 'pin',
+    timeout: DEVICE_TIMEOUTS.PIN_ENTRY,
+  },
+  [MESSAGE_TYPES.PassphraseRequest]: {
+    provider: 'passphrase',
+    label: 'passphrase',
+    event: DEVICE_EVENTS.PASSPHRASE_REQUEST,
+    ack: MESSAGE_TYPES.PassphraseAck,
+    field: 'passphrase',
+    timeout: DEVICE_TIMEOUTS.PASSPHRASE_ENTRY,
+  },
+  [MESSAGE_TYPES.WordRequest]: {
+    provider: 'word',
+    label: 'recovery word',
+    event: DEVICE_EVENTS.WORD_REQUEST,
+    ack: MESSAGE_TYPES.WordAck,
+    field: 'word',
+    timeout: DEVICE_TIMEOUTS.RECOVERY_WORD,
+  },
+};
+
+function withTimeout<T>(promise: Promise<T>, timeout: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Timed out after ${timeout}ms waiting for ${label}`)),
+      timeout,
+    );
+  });
+  return Promise.race([promise, deadline]).finally(() => clearTimeout(timer));
+}
+
+export interface HDNode {
+  depth: number;
+  fingerprint: number;
+  child_num: number;
+  chain_code: string;
+  public_key: string;
+}
+
+/**
+ * Cosigner keys and collected signatures of an m-of-n multisig script
+ */
+export interface MultisigRedeemScript {
+  pubkeys: Array<{ node: HDNode; address_n: number[] }>;
+  /** DER signatures aligned with pubkeys, empty for cosigners that have not signed */
+  signatures: string[];
+  m: number;
+}
+
+export interface PublicKeyResponse {
+  node: HDNode;
+  xpub: string;
+}
+
+export interface MessageSignature {
+  address: string;
+  signature: string;
 }
 
 export class KeepKeyClient extends EventEmitter {
   private config: TransportConfig;
   private device: KeepKeyDevice | null = null;
   private connected: boolean = false;
-  private sessionId: string | null = null;
+  private transport: Transport;
+  private providers: InteractionProviders;
 
   constructor(config: TransportConfig) {
     super();
@@ -87,6 +186,15 @@ export class KeepKeyClient extends EventEmitter {
       productId: config.productId || USB_CONFIG.PRODUCT_ID,
       timeout: config.timeout || DEVICE_TIMEOUTS.OPERATION,
     };
+    this.transport = config.transport ?? createTransport(this.config);
+    this.providers = config.providers ?? {};
+  }
+
+  /**
+   * Replace the PIN, passphrase and recovery word providers
+   */
+  setProviders(providers: InteractionProviders): void {
+    this.providers = providers;
   }
 
   /**
@@ -94,19 +202,26 @@ export class KeepKeyClient extends EventEmitter {
    */
   async connect(): Promise<KeepKeyDevice> {
     try {
-      switch (this.config.connectionType) {
-        case CONNECTION_TYPES.USB_HID:
-          return await this.connectUsbHid();
-        case CONNECTION_TYPES.WEBUSB:
-          return await this.connectWebUsb();
-        case CONNECTION_TYPES.KEEPKEY_DESKTOP:
-          return await this.connectDesktop();
-        case CONNECTION_TYPES.KEEPKEY_BRIDGE:
-          return await this.connectBridge();
-        default:
-          throw new Error(`Unsupported connection type: ${this.config.connectionType}`);
-      }
+      const device = await this.transport.acquire(this.config.devicePath);
+      this.device = {
+        path: device.path,
+        vendorId: device.vendorId,
+        productId: device.productId,
+      };
+      this.connected = true;
+
+      const features = await this.getFeatures();
+      this.device.features = features;
+      this.device.label = features.label;
+
+      this.emit(DEVICE_EVENTS.CONNECTED, this.device);
+      return this.device;
     } catch (error) {
+      if (this.connected) {
+        this.connected = false;
+        this.device = null;
+        await this.transport.release().catch(() => undefined);
+      }
       this.emit(DEVICE_EVENTS.FAILURE, error);
       throw error;
     }
@@ -121,11 +236,17 @@ export class KeepKeyClient extends EventEmitter {
     }
 
     try {
-      await this.clearSession();
-      this.connected = false;
-      this.device = null;
-      this.sessionId = null;
-      this.emit(DEVICE_EVENTS.DISCONNECTED);
+      try {
+        if (!this.config.keepSession) {
+          await this.clearSession();
+        }
+      } finally {
+        // Give the device back even when the session could not be cleared
+        this.connected = false;
+        this.device = null;
+        await this.transport.release();
+        this.emit(DEVICE_EVENTS.DISCONNECTED);
+      }
     } catch (error) {
       throw new Error(`Failed to disconnect: ${(error as Error).message}`);
     }
@@ -184,7 +305,6 @@ export class KeepKeyClient extends EventEmitter {
    */
   async clearSession(): Promise<void> {
     await this.call(MESSAGE_TYPES.ClearSession, {});
-    this.sessionId = null;
   }
 
   /**
@@ -196,14 +316,14 @@ export class KeepKeyClient extends EventEmitter {
     use_passphrase?: boolean;
     auto_lock_delay_ms?: number;
   }): Promise<void> {
-    await this.callWithButtonAck(MESSAGE_TYPES.ApplySettings, settings);
+    await this.callWithInteraction(MESSAGE_TYPES.ApplySettings, settings);
   }
 
   /**
    * Wipe device
    */
   async wipeDevice(): Promise<void> {
-    await this.callWithButtonAck(MESSAGE_TYPES.WipeDevice, {});
+    await this.callWithInteraction(MESSAGE_TYPES.WipeDevice, {});
   }
 
   /**
@@ -215,21 +335,24 @@ export class KeepKeyClient extends EventEmitter {
     pin_protection?: boolean;
     label?: string;
     language?: string;
-    skip_backup?: boolean;
+    no_backup?: boolean;
   }): Promise<void> {
-    await this.callWithButtonAck(MESSAGE_TYPES.ResetDevice, {
+    await this.callWithInteraction(MESSAGE_TYPES.ResetDevice, {
       display_random: true,
       strength: params.strength || 256,
       passphrase_protection: params.passphrase_protection || false,
-      pin_protection: params.pin_protection || true,
+      pin_protection: params.pin_protection ?? true,
       label: params.label || '',
       language: params.language || 'en-US',
-      skip_backup: params.skip_backup || false,
+      no_backup: params.no_backup || false,
     });
   }
 
   /**
    * Recover device from seed
+   *
+   * Without a word provider this returns the first WordRequest, and the words
+   * are then sent one at a time with sendWord().
    */
   async recoverDevice(params: {
     word_count: 12 | 18 | 24;
@@ -240,11 +363,11 @@ export class KeepKeyClient extends EventEmitter {
     enforce_wordlist?: boolean;
     type?: number;
     dry_run?: boolean;
-  }): Promise<void> {
-    await this.callWithRecovery(MESSAGE_TYPES.RecoveryDevice, {
+  }): Promise<MessageResponse> {
+    return this.runInteraction(MESSAGE_TYPES.RecoveryDevice, {
       word_count: params.word_count,
       passphrase_protection: params.passphrase_protection || false,
-      pin_protection: params.pin_protection || true,
+      pin_protection: params.pin_protection ?? true,
       label: params.label || '',
       language: params.language || 'en-US',
       enforce_wordlist: params.enforce_wordlist !== false,
@@ -256,242 +379,299 @@ export class KeepKeyClient extends EventEmitter {
   /**
    * Change PIN
    */
-  async changePin(remove: boolean = false): Promise<void> {
-    await this.callWithPinMatrix(MESSAGE_TYPES.ChangePin, { remove });
+  async changePin(remove: boolean = false): Promise<MessageResponse> {
+    return this.runInteraction(MESSAGE_TYPES.ChangePin, { remove });
   }
 
   /**
-   * Send PIN matrix acknowledgement
+   * Get public key (and xpub) for a derivation path
    */
-  async sendPin(pin: string): Promise<MessageResponse> {
-    return this.call(MESSAGE_TYPES.PinMatrixAck, { pin });
+  async getPublicKey(params: {
+    address_n: number[];
+    coin_name?: string;
+    script_type?: string;
+    ecdsa_curve_name?: string;
+    show_display?: boolean;
+  }): Promise<PublicKeyResponse> {
+    const response = await this.callWithInteraction<PublicKeyResponse>(MESSAGE_TYPES.GetPublicKey, {
+      coin_name: 'Bitcoin',
+      ...params,
+    });
+    return response.message;
+  }
+
+  /**
+   * Get the master key fingerprint, read from the parent fingerprint of a depth-1 key
+   */
+  async getMasterFingerprint(params: { purpose: number; coin_name?: string }): Promise<number> {
+    const { purpose, ...rest } = params;
+    const { node } = await this.getPublicKey({ address_n: [purpose], ...rest });
+    return node.fingerprint;
   }
 
   /**
-   * Send passphrase acknowledgement
+   * Get a Bitcoin-like address
    */
-  async sendPassphrase(passphrase: string, onDevice: boolean = false): Promise<MessageResponse> {
-    return this.call(MESSAGE_TYPES.PassphraseAck, {
-      passphrase: onDevice ? undefined : passphrase,
-      on_device: onDevice,
+  async getAddress(params: {
+    address_n: number[];
+    coin_name?: string;
+    script_type?: string;
+    show_display?: boolean;
+    multisig?: MultisigRedeemScript;
+  }): Promise<string> {
+    const response = await this.callWithInteraction<{ address: string }>(MESSAGE_TYPES.GetAddress, {
+      coin_name: 'Bitcoin',
+      ...params,
     });
+    return response.message.address;
   }
 
   /**
-   * Send word acknowledgement (for recovery)
+   * Sign a message with a Bitcoin-like key
    */
-  async sendWord(word: string): Promise<MessageResponse> {
-    return this.call(MESSAGE_TYPES.WordAck, { word });
+  async signMessage(params: {
+    address_n: number[];
+    message: string;
+    coin_name?: string;
+    script_type?: string;
+  }): Promise<MessageSignature> {
+    const response = await this.callWithInteraction<MessageSignature>(MESSAGE_TYPES.SignMessage, {
+      coin_name: 'Bitcoin',
+      ...params,
+    });
+    return response.message;
   }
 
   /**
-   * Send button acknowledgement
+   * Verify a Bitcoin-like message signature on the device
    */
-  async sendButtonAck(): Promise<MessageResponse> {
-    return this.call(MESSAGE_TYPES.ButtonAck, {});
+  async verifyMessage(params: {
+    address: string;
+    signature: string;
+    message: string;
+    coin_name?: string;
+  }): Promise<boolean> {
+    return this.verifySignature(MESSAGE_TYPES.VerifyMessage, { coin_name: 'Bitcoin', ...params });
   }
 
   /**
-   * Make a call to the device
+   * Get an Ethereum address
    */
-  async call<T = unknown>(type: number, params: Record<string, unknown>): Promise<MessageResponse<T>> {
-    if (!this.connected) {
-      throw new Error('Device not connected');
+  async ethereumGetAddress(params: { address_n: number[]; show_display?: boolean }): Promise<string> {
+    const response = await this.callWithInteraction<{ address: string; address_str?: string }>(
+      MESSAGE_TYPES.EthereumGetAddress,
+      params,
+    );
+    // Firmware returns raw address bytes; newer versions also send the checksummed string
+    const { address, address_str: addressStr } = response.message;
+    if (addressStr) {
+      return addressStr;
     }
+    return address.startsWith('0x') ? address : `0x${address}`;
+  }
 
-    // Implementation depends on transport type
-    switch (this.config.connectionType) {
-      case CONNECTION_TYPES.USB_HID:
-        return this.callUsbHid<T>(type, params);
-      case CONNECTION_TYPES.WEBUSB:
-        return this.callWebUsb<T>(type, params);
-      case CONNECTION_TYPES.KEEPKEY_DESKTOP:
-        return this.callDesktop<T>(type, params);
-      case CONNECTION_TYPES.KEEPKEY_BRIDGE:
-        return this.callBridge<T>(type, params);
-      default:
-        throw new Error(`Unsupported connection type: ${this.config.connectionType}`);
-    }
+  /**
+   * Sign a message with an Ethereum key (personal_sign)
+   */
+  async ethereumSignMessage(params: { address_n: number[]; message: string }): Promise<MessageSignature> {
+    const response = await this.callWithInteraction<MessageSignature>(
+      MESSAGE_TYPES.EthereumSignMessage,
+      params,
+    );
+    return response.message;
   }
 
   /**
-   * Call with button acknowledgement handling
+   * Verify an Ethereum message signature on the device
    */
-  private async callWithButtonAck<T = unknown>(
-    type: number,
-    params: Record<string, unknown>,
-  ): Promise<MessageResponse<T>> {
-    const response = await this.call<T>(type, params);
+  async ethereumVerifyMessage(params: {
+    address: string;
+    signature: string;
+    message: string;
+  }): Promise<boolean> {
+    return this.verifySignature(MESSAGE_TYPES.EthereumVerifyMessage, params);
+  }
 
-    if (response.type === MESSAGE_TYPES.ButtonRequest) {
-      this.emit(DEVICE_EVENTS.BUTTON_REQUEST, response.message);
-      return this.sendButtonAck() as Promise<MessageResponse<T>>;
-    }
+  /**
+   * Get a Cosmos SDK address (Cosmos Hub, THORChain or Osmosis)
+   */
+  async cosmosGetAddress(
+    messageType: number,
+    params: { address_n: number[]; show_display?: boolean; testnet?: boolean },
+  ): Promise<string> {
+    const response = await this.callWithInteraction<{ address: string }>(messageType, params);
+    return response.message.address;
+  }
 
-    return response;
+  /**
+   * Encrypt or decrypt a value with a key derived on the device
+   */
+  async cipherKeyValue(params: {
+    address_n: number[];
+    key: string;
+    value: string;
+    encrypt: boolean;
+    ask_on_encrypt?: boolean;
+    ask_on_decrypt?: boolean;
+    iv?: string;
+  }): Promise<string> {
+    const response = await this.callWithInteraction<{ value: string }>(
+      MESSAGE_TYPES.CipherKeyValue,
+      params,
+    );
+    return response.message.value;
   }
 
   /**
-   * Call with PIN matrix handling
+   * Send PIN matrix acknowledgement and continue the interaction
    */
-  private async callWithPinMatrix<T = unknown>(
-    type: number,
-    params: Record<string, unknown>,
-  ): Promise<MessageResponse<T>> {
-    const response = await this.call<T>(type, params);
+  async sendPin(pin: string): Promise<MessageResponse> {
+    return this.runInteraction(MESSAGE_TYPES.PinMatrixAck, { pin });
+  }
 
-    if (response.type === MESSAGE_TYPES.PinMatrixRequest) {
-      this.emit(DEVICE_EVENTS.PIN_REQUEST, response.message);
-      // PIN will be sent separately via sendPin()
-    }
+  /**
+   * Send passphrase acknowledgement and continue the interaction
+   */
+  async sendPassphrase(passphrase: string): Promise<MessageResponse> {
+    return this.runInteraction(MESSAGE_TYPES.PassphraseAck, { passphrase });
+  }
 
-    return response;
+  /**
+   * Send word acknowledgement (for recovery) and continue the interaction
+   */
+  async sendWord(word: string): Promise<MessageResponse> {
+    return this.runInteraction(MESSAGE_TYPES.WordAck, { word });
+  }
+
+  /**
+   * Send button acknowledgement
+   */
+  async sendButtonAck(): Promise<MessageResponse> {
+    return this.call(MESSAGE_TYPES.ButtonAck, {}, DEVICE_TIMEOUTS.BUTTON);
   }
 
   /**
-   * Call with recovery word handling
+   * Make a single call to the device
+   *
+   * A Failure response is thrown as a KeepKeyDeviceError.
    */
-  private async callWithRecovery<T = unknown>(
+  async call<T = unknown>(
     type: number,
     params: Record<string, unknown>,
+    timeout?: number,
   ): Promise<MessageResponse<T>> {
-    const response = await this.call<T>(type, params);
-
-    if (response.type === MESSAGE_TYPES.WordRequest) {
-      this.emit(DEVICE_EVENTS.WORD_REQUEST, response.message);
-      // Word will be sent separately via sendWord()
+    if (!this.connected) {
+      throw new Error('Device not connected');
     }
 
+    const response = await this.transport.call<T>(type, params, timeout ?? this.config.timeout);
+    if (response.type === MESSAGE_TYPES.Failure) {
+      throw KeepKeyDeviceError.fromFailure(response.message);
+    }
     return response;
   }
 
-  // Transport-specific implementations
-
-  private async connectUsbHid(): Promise<KeepKeyDevice> {
-    // USB HID connection implementation
-    // Note: Requires node-hid or similar library
-    const device: KeepKeyDevice = {
-      path: this.config.devicePath || '',
-      vendorId: this.config.vendorId!,
-      productId: this.config.productId!,
-    };
-
-    this.device = device;
-    this.connected = true;
-
-    const features = await this.getFeatures();
-    this.device.features = features;
-    this.device.label = features.label;
-
-    this.emit(DEVICE_EVENTS.CONNECTED, this.device);
-    return this.device;
+  /**
+   * Get the underlying transport
+   */
+  getTransport(): Transport {
+    return this.transport;
   }
 
-  private async connectWebUsb(): Promise<KeepKeyDevice> {
-    // WebUSB connection implementation
-    const device: KeepKeyDevice = {
-      path: 'webusb',
-      vendorId: this.config.vendorId!,
-      productId: this.config.productId!,
-    };
-
-    this.device = device;
-    this.connected = true;
-
-    const features = await this.getFeatures();
-    this.device.features = features;
-    this.device.label = features.label;
-
-    this.emit(DEVICE_EVENTS.CONNECTED, this.device);
-    return this.device;
+  /**
+   * Send a request and answer every intermediate device request until the
+   * final response arrives
+   *
+   * Throws when the device asks for input no provider can give.
+   */
+  async callWithInteraction<T = unknown>(
+    type: number,
+    params: Record<string, unknown>,
+  ): Promise<MessageResponse<T>> {
+    const response = await this.runInteraction<T>(type, params);
+    await this.assertAnswered(response);
+    return response;
   }
 
-  private async connectDesktop(): Promise<KeepKeyDevice> {
-    // KeepKey Desktop API connection
-    const url = this.config.desktopUrl || 'http://localhost:1646';
-    const response = await fetch(`${url}/devices`);
-    const devices = await response.json() as KeepKeyDevice[];
-
-    if (devices.length === 0) {
-      throw new Error('No KeepKey device found via Desktop');
+  /**
+   * Run a verify request; the device answers a bad signature with an InvalidSignature failure
+   */
+  private async verifySignature(type: number, params: Record<string, unknown>): Promise<boolean> {
+    try {
+      await this.callWithInteraction(type, params);
+      return true;
+    } catch (error) {
+      if (error instanceof KeepKeyDeviceError && error.code === 'InvalidSignature') {
+        return false;
+      }
+      throw error;
     }
-
-    this.device = devices[0];
-    this.connected = true;
-
-    this.emit(DEVICE_EVENTS.CONNECTED, this.device);
-    return this.device;
   }
 
-  private async connectBridge(): Promise<KeepKeyDevice> {
-    // KeepKey Bridge connection
-    const url = this.config.bridgeUrl || 'http://localhost:1646';
-    const response = await fetch(`${url}/enumerate`);
-    const devices = await response.json() as Array<{ path: string; session?: string }>;
-
-    if (devices.length === 0) {
-      throw new Error('No KeepKey device found via Bridge');
+  /**
+   * Fail if the interaction stopped at an input request no provider could answer
+   */
+  private async assertAnswered(response: MessageResponse): Promise<void> {
+    const input = INPUT_REQUESTS[response.type];
+    if (input) {
+      // Leave the device ready for the next request rather than waiting for input
+      await this.call(MESSAGE_TYPES.Cancel, {}).catch(() => undefined);
+      const message = `Device requested a ${input.label} but no ${input.label} provider is configured`;
+      // A locked device is a failure workflows can branch on, as if the device had reported it
+      throw input.provider === 'pin'
+        ? new KeepKeyDeviceError('PinExpected', message)
+        : new Error(message);
     }
-
-    const deviceInfo = devices[0];
-
-    // Acquire session
-    const acquireResponse = await fetch(`${url}/acquire/${deviceInfo.path}/${deviceInfo.session || 'null'}`, {
-      method: 'POST',
-    });
-    const session = await acquireResponse.json() as { session: string };
-    this.sessionId = session.session;
-
-    this.device = {
-      path: deviceInfo.path,
-      vendorId: this.config.vendorId!,
-      productId: this.config.productId!,
-    };
-    this.connected = true;
-
-    const features = await this.getFeatures();
-    this.device.features = features;
-    this.device.label = features.label;
-
-    this.emit(DEVICE_EVENTS.CONNECTED, this.device);
-    return this.device;
   }
 
-  private async callUsbHid<T>(_type: number, _params: Record<string, unknown>): Promise<MessageResponse<T>> {
-    // USB HID call implementation
-    throw new Error('USB HID transport requires native module');
-  }
+  /**
+   * Drive the request/response loop: buttons are always acknowledged, input
+   * requests are answered from the providers
+   *
+   * Returns on Success, the final payload, or an input request with no provider (which the caller may answer later with sendPin/sendWord/...).
+   */
+  private async runInteraction<T = unknown>(
+    type: number,
+    params: Record<string, unknown>,
+  ): Promise<MessageResponse<T>> {
+    let response = await this.call<T>(type, params);
 
-  private async callWebUsb<T>(_type: number, _params: Record<string, unknown>): Promise<MessageResponse<T>> {
-    // WebUSB call implementation
-    throw new Error('WebUSB transport requires browser environment');
-  }
+    for (;;) {
+      if (response.type === MESSAGE_TYPES.ButtonRequest) {
+        this.emit(DEVICE_EVENTS.BUTTON_REQUEST, response.message);
+        response = (await this.sendButtonAck()) as MessageResponse<T>;
+        continue;
+      }
 
-  private async callDesktop<T>(type: number, params: Record<string, unknown>): Promise<MessageResponse<T>> {
-    const url = this.config.desktopUrl || 'http://localhost:1646';
-    const response = await fetch(`${url}/call`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
-      },
-      body: JSON.stringify({ type, ...params }),
-    });
+      if (response.type === MESSAGE_TYPES.PassphraseStateRequest) {
+        response = await this.call<T>(MESSAGE_TYPES.PassphraseStateAck, {});
+        continue;
+      }
 
-    const result = await response.json() as MessageResponse<T>;
-    return result;
-  }
+      const input = INPUT_REQUESTS[response.type];
+      if (!input) {
+        return response;
+      }
 
-  private async callBridge<T>(type: number, params: Record<string, unknown>): Promise<MessageResponse<T>> {
-    const url = this.config.bridgeUrl || 'http://localhost:1646';
-    const response = await fetch(`${url}/call/${this.sessionId}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ type, message: params }),
-    });
+      this.emit(input.event, response.message);
+      const provider = this.providers[input.provider];
+      if (!provider) {
+        return response;
+      }
 
-    const result = await response.json() as MessageResponse<T>;
-    return result;
+      let value: string;
+      try {
+        value = await withTimeout(
+          provider(response.message as { type?: string }),
+          input.timeout,
+          `${input.label} entry`,
+        );
+      } catch (error) {
+        await this.call(MESSAGE_TYPES.Cancel, {}).catch(() => undefined);
+        throw error;
+      }
+      response = await this.call<T>(input.ack, { [input.field]: value });
+    }
   }
 
   /**
@@ -516,6 +696,33 @@ export function createKeepKeyClient(config: TransportConfig): KeepKeyClient {
   return new KeepKeyClient(config);
 }
 
+/**
+ * Create the transport for a connection type
+ */
+export function createTransport(config: TransportConfig): Transport {
+  switch (config.connectionType) {
+    case CONNECTION_TYPES.USB_HID:
+      return new UsbTransport({
+        vendorId: config.vendorId,
+        productId: config.productId,
+        devicePath: config.devicePath,
+        timeout: config.timeout,
+      });
+    case CONNECTION_TYPES.WEBUSB:
+      return new WebUsbTransport({ timeout: config.timeout });
+    case CONNECTION_TYPES.KEEPKEY_DESKTOP:
+      return new DesktopTransport({
+        url: config.desktopUrl,
+        apiKey: config.apiKey,
+        timeout: config.timeout,
+      });
+    case CONNECTION_TYPES.KEEPKEY_BRIDGE:
+      return new BridgeTransport({ url: config.bridgeUrl, timeout: config.timeout });
+    default:
+      throw new Error(`Unsupported connection type: ${String(config.connectionType)}`);
+  }
+}
+
 /**
  * Enumerate connected KeepKey devices
  */
@@ -523,23 +730,6 @@ export async function enumerateDevices(
   connectionType: ConnectionType,
   options?: { bridgeUrl?: string; desktopUrl?: string },
 ): Promise<KeepKeyDevice[]> {
-  switch (connectionType) {
-    case CONNECTION_TYPES.KEEPKEY_DESKTOP: {
-      const url = options?.desktopUrl || 'http://localhost:1646';
-      const response = await fetch(`${url}/devices`);
-      return response.json() as Promise<KeepKeyDevice[]>;
-    }
-    case CONNECTION_TYPES.KEEPKEY_BRIDGE: {
-      const url = options?.bridgeUrl || 'http://localhost:1646';
-      const response = await fetch(`${url}/enumerate`);
-      const devices = await response.json() as Array<{ path: string }>;
-      return devices.map((d) => ({
-        path: d.path,
-        vendorId: USB_CONFIG.VENDOR_ID,
-        productId: USB_CONFIG.PRODUCT_ID,
-      }));
-    }
-    default:
-      return [];
-  }
+  const devices = await createTransport({ connectionType, ...options }).enumerate();
+  return devices.map((d) => ({ path: d.path, vendorId: d.vendorId, productId: d.productId }));
 }
@@ -0,0 +1,601 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * KeepKey wire protocol message schemas
+ *
+ * One schema per MESSAGE_TYPES entry, following the KeepKey device-protocol
+ * definitions (messages.proto, types.proto and the per-chain files).
+ */
+
+import { MESSAGE_TYPES, FAILURE_TYPES, BUTTON_REQUEST_TYPES } from '../constants/events';
+import {
+  decodeProtobuf,
+  encodeProtobuf,
+  FieldDefinition,
+  MessageSchema,
+  ProtobufObject,
+  ScalarType,
+} from './protobuf';
+
+function field(id: number, name: string, type: ScalarType, repeated = false): FieldDefinition {
+  return { id, name, type, repeated };
+}
+
+function enumField(id: number, name: string, values: Record<string, number>): FieldDefinition {
+  return { id, name, type: 'enum', values };
+}
+
+function messageField(
+  id: number,
+  name: string,
+  schema: MessageSchema,
+  repeated = false,
+): FieldDefinition {
+  return { id, name, type: 'message', schema, repeated };
+}
+
+function schema(name: string, fields: FieldDefinition[] = []): MessageSchema {
+  return { name, fields };
+}
+
+const addressN = field(1, 'address_n', 'uint32', true);
+
+// Enums
+
+export const INPUT_SCRIPT_TYPES = {
+  SPENDADDRESS: 0,
+  SPENDMULTISIG: 1,
+  EXTERNAL: 2,
+  SPENDWITNESS: 3,
+  SPENDP2SHWITNESS: 4,
+  SPENDTAPROOT: 5,
+};
+
+export const OUTPUT_SCRIPT_TYPES = {
+  PAYTOADDRESS: 0,
+  PAYTOSCRIPTHASH: 1,
+  PAYTOMULTISIG: 2,
+  PAYTOOPRETURN: 3,
+  PAYTOWITNESS: 4,
+  PAYTOP2SHWITNESS: 5,
+  PAYTOTAPROOT: 6,
+};
+
+export const OUTPUT_ADDRESS_TYPES = {
+  SPEND: 0,
+  TRANSFER: 1,
+  CHANGE: 2,
+  EXCHANGE: 3,
+};
+
+export const TX_REQUEST_TYPES = {
+  TXINPUT: 0,
+  TXOUTPUT: 1,
+  TXMETA: 2,
+  TXFINISHED: 3,
+  TXEXTRADATA: 4,
+};
+
+export const PIN_MATRIX_REQUEST_TYPES = {
+  PinMatrixRequestType_Current: 1,
+  PinMatrixRequestType_NewFirst: 2,
+  PinMatrixRequestType_NewSecond: 3,
+};
+
+export const ETHEREUM_DATA_TYPES = {
+  UINT: 1,
+  INT: 2,
+  BYTES: 3,
+  STRING: 4,
+  BOOL: 5,
+  ADDRESS: 6,
+  ARRAY: 7,
+  STRUCT: 8,
+};
+
+const FAILURE_CODES: Record<string, number> = { ...FAILURE_TYPES };
+const BUTTON_REQUEST_CODES: Record<string, number> = { ...BUTTON_REQUEST_TYPES };
+
+// Shared types
+
+const HD_NODE = schema('HDNodeType', [
+  field(1, 'depth', 'uint32'),
+  field(2, 'fingerprint', 'uint32'),
+  field(3, 'child_num', 'uint32'),
+  field(4, 'chain_code', 'bytes'),
+  field(5, 'private_key', 'bytes'),
+  field(6, 'public_key', 'bytes'),
+]);
+
+const HD_NODE_PATH = schema('HDNodePathType', [
+  messageField(1, 'node', HD_NODE),
+  field(2, 'address_n', 'uint32', true),
+]);
+
+const MULTISIG_REDEEM_SCRIPT = schema('MultisigRedeemScriptType', [
+  messageField(1, 'pubkeys', HD_NODE_PATH, true),
+  field(2, 'signatures', 'bytes', true),
+  field(3, 'm', 'uint32'),
+]);
+
+const COIN_TYPE = schema('CoinType', [
+  field(1, 'coin_name', 'string'),
+  field(2, 'coin_shortcut', 'string'),
+  field(3, 'address_type', 'uint32'),
+  field(4, 'maxfee_kb', 'uint64'),
+  field(5, 'address_type_p2sh', 'uint32'),
+  field(8, 'signed_message_header', 'string'),
+  field(9, 'bip44_account_path', 'uint32'),
+]);
+
+const POLICY_TYPE = schema('PolicyType', [
+  field(1, 'policy_name', 'string'),
+  field(2, 'enabled', 'bool'),
+]);
+
+const TX_INPUT = schema('TxInputType', [
+  addressN,
+  field(2, 'prev_hash', 'bytes'),
+  field(3, 'prev_index', 'uint32'),
+  field(4, 'script_sig', 'bytes'),
+  field(5, 'sequence', 'uint32'),
+  enumField(6, 'script_type', INPUT_SCRIPT_TYPES),
+  messageField(7, 'multisig', MULTISIG_REDEEM_SCRIPT),
+  field(8, 'amount', 'uint64'),
+]);
+
+const TX_OUTPUT_BIN = schema('TxOutputBinType', [
+  field(1, 'amount', 'uint64'),
+  field(2, 'script_pubkey', 'bytes'),
+]);
+
+const TX_OUTPUT = schema('TxOutputType', [
+  field(1, 'address', 'string'),
+  field(2, 'address_n', 'uint32', true),
+  field(3, 'amount', 'uint64'),
+  enumField(4, 'script_type', OUTPUT_SCRIPT_TYPES),
+  messageField(5, 'multisig', MULTISIG_REDEEM_SCRIPT),
+  field(6, 'op_return_data', 'bytes'),
+  enumField(7, 'address_type', OUTPUT_ADDRESS_TYPES),
+]);
+
+const TRANSACTION = schema('TransactionType', [
+  field(1, 'version', 'uint32'),
+  messageField(2, 'inputs', TX_INPUT, true),
+  messageField(3, 'bin_outputs', TX_OUTPUT_BIN, true),
+  field(4, 'lock_time', 'uint32'),
+  messageField(5, 'outputs', TX_OUTPUT, true),
+  field(6, 'inputs_cnt', 'uint32'),
+  field(7, 'outputs_cnt', 'uint32'),
+  field(8, 'extra_data', 'bytes'),
+  field(9, 'extra_data_len', 'uint32'),
+  field(10, 'expiry', 'uint32'),
+  field(11, 'overwintered', 'bool'),
+  field(12, 'version_group_id', 'uint32'),
+  field(13, 'branch_id', 'uint32'),
+]);
+
+const TX_REQUEST_DETAILS = schema('TxRequestDetailsType', [
+  field(1, 'request_index', 'uint32'),
+  field(2, 'tx_hash', 'bytes'),
+  field(3, 'extra_data_len', 'uint32'),
+  field(4, 'extra_data_offset', 'uint32'),
+]);
+
+const TX_REQUEST_SERIALIZED = schema('TxRequestSerializedType', [
+  field(1, 'signature_index', 'uint32'),
+  field(2, 'signature', 'bytes'),
+  field(3, 'serialized_tx', 'bytes'),
+]);
+
+const ETHEREUM_FIELD_TYPE = schema('EthereumFieldType', [
+  enumField(1, 'data_type', ETHEREUM_DATA_TYPES),
+  field(2, 'size', 'uint32'),
+  field(4, 'struct_name', 'string'),
+]);
+// Array entry types nest recursively
+ETHEREUM_FIELD_TYPE.fields.push(messageField(3, 'entry_type', ETHEREUM_FIELD_TYPE));
+
+const ETHEREUM_STRUCT_MEMBER = schema('EthereumStructMember', [
+  messageField(1, 'type', ETHEREUM_FIELD_TYPE),
+  field(2, 'name', 'string'),
+]);
+
+// Cosmos SDK chains share the same message layout
+
+function cosmosGetAddress(name: string): MessageSchema {
+  return schema(name, [addressN, field(2, 'show_display', 'bool'), field(3, 'testnet', 'bool')]);
+}
+
+function cosmosSignTx(name: string): MessageSchema {
+  return schema(name, [
+    addressN,
+    field(2, 'account_number', 'uint64'),
+    field(3, 'chain_id', 'string'),
+    field(4, 'fee_amount', 'uint32'),
+    field(5, 'gas', 'uint32'),
+    field(6, 'memo', 'string'),
+    field(7, 'sequence', 'uint64'),
+    field(8, 'msg_count', 'uint32'),
+    field(9, 'testnet', 'bool'),
+  ]);
+}
+
+function cosmosSignedTx(name: string): MessageSchema {
+  return schema(name, [field(1, 'public_key', 'bytes'), field(2, 'signature', 'bytes')]);
+}
+
+// Messages the device pulls one at a time after *SignTx
+
+const COSMOS_MSG_SEND = schema('CosmosMsgSend', [
+  field(6, 'from_address', 'string'),
+  field(7, 'to_address', 'string'),
+  field(8, 'amount', 'uint64'),
+  enumField(9, 'address_type', OUTPUT_ADDRESS_TYPES),
+]);
+
+const COSMOS_MSG_DELEGATE = schema('CosmosMsgDelegate', [
+  field(1, 'delegator_address', 'string'),
+  field(2, 'validator_address', 'string'),
+  field(3, 'amount', 'uint64'),
+  field(4, 'denom', 'string'),
+]);
+
+const THORCHAIN_MSG_DEPOSIT = schema('ThorchainMsgDeposit', [
+  field(1, 'asset', 'string'),
+  field(2, 'amount', 'uint64'),
+  field(3, 'memo', 'string'),
+  field(4, 'signer', 'string'),
+]);
+
+const OSMOSIS_TOKEN = schema('OsmosisToken', [
+  field(1, 'denom', 'string'),
+  field(2, 'amount', 'string'),
+]);
+
+const OSMOSIS_MSG_SEND = schema('OsmosisMsgSend', [
+  field(1, 'from_address', 'string'),
+  field(2, 'to_address', 'string'),
+  messageField(3, 'token', OSMOSIS_TOKEN),
+]);
+
+const OSMOSIS_MSG_SWAP = schema('OsmosisMsgSwap', [
+  field(1, 'sender', 'string'),
+  field(2, 'pool_id', 'string'),
+  field(3, 'token_out_denom', 'string'),
+  field(4, 'token_in_denom', 'string'),
+  field(5, 'token_in_amount', 'string'),
+  field(6, 'token_out_min_amount', 'string'),
+]);
+
+/**
+ * Schemas by message type number
+ */
+export const MESSAGE_SCHEMAS: Record<number, MessageSchema> = {
+  // Initialization
+  [MESSAGE_TYPES.Initialize]: schema('Initialize'),
+  [MESSAGE_TYPES.Ping]: schema('Ping', [
+    field(1, 'message', 'string'),
+    field(2, 'button_protection', 'bool'),
+    field(3, 'pin_protection', 'bool'),
+    field(4, 'passphrase_protection', 'bool'),
+  ]),
+  [MESSAGE_TYPES.Success]: schema('Success', [field(1, 'message', 'string')]),
+  [MESSAGE_TYPES.Failure]: schema('Failure', [
+    enumField(1, 'code', FAILURE_CODES),
+    field(2, 'message', 'string'),
+  ]),
+  [MESSAGE_TYPES.ChangePin]: schema('ChangePin', [field(1, 'remove', 'bool')]),
+  [MESSAGE_TYPES.WipeDevice]: schema('WipeDevice'),
+  [MESSAGE_TYPES.GetEntropy]: schema('GetEntropy', [field(1, 'size', 'uint32')]),
+  [MESSAGE_TYPES.Entropy]: schema('Entropy', [field(1, 'entropy', 'bytes')]),
+  [MESSAGE_TYPES.LoadDevice]: schema('LoadDevice', [
+    field(1, 'mnemonic', 'string'),
+    messageField(2, 'node', HD_NODE),
+    field(3, 'pin', 'string'),
+    field(4, 'passphrase_protection', 'bool'),
+    field(5, 'language', 'string'),
+    field(6, 'label', 'string'),
+    field(7, 'skip_checksum', 'bool'),
+    field(8, 'u2f_counter', 'uint32'),
+  ]),
+  [MESSAGE_TYPES.ResetDevice]: schema('ResetDevice', [
+    field(1, 'display_random', 'bool'),
+    field(2, 'strength', 'uint32'),
+    field(3, 'passphrase_protection', 'bool'),
+    field(4, 'pin_protection', 'bool'),
+    field(5, 'language', 'string'),
+    field(6, 'label', 'string'),
+    field(7, 'no_backup', 'bool'),
+    field(8, 'auto_lock_delay_ms', 'uint32'),
+    field(9, 'u2f_counter', 'uint32'),
+  ]),
+  [MESSAGE_TYPES.Features]: schema('Features', [
+    field(1, 'vendor', 'string'),
+    field(2, 'major_version', 'uint32'),
+    field(3, 'minor_version', 'uint32'),
+    field(4, 'patch_version', 'uint32'),
+    field(5, 'bootloader_mode', 'bool'),
+    field(6, 'device_id', 'string'),
+    field(7, 'pin_protection', 'bool'),
+    field(8, 'passphrase_protection', 'bool'),
+    field(9, 'language', 'string'),
+    field(10, 'label', 'string'),
+    messageField(11, 'coins', COIN_TYPE, true),
+    field(12, 'initialized', 'bool'),
+    field(13, 'revision', 'bytes'),
+    field(14, 'bootloader_hash', 'bytes'),
+    field(15, 'imported', 'bool'),
+    field(16, 'pin_cached', 'bool'),
+    field(17, 'passphrase_cached', 'bool'),
+    messageField(18, 'policies', POLICY_TYPE, true),
+    field(21, 'model', 'string'),
+    field(22, 'firmware_variant', 'string'),
+    field(23, 'firmware_hash', 'bytes'),
+    field(24, 'no_backup', 'bool'),
+    field(25, 'wipe_code_protection', 'bool'),
+    field(26, 'auto_lock_delay_ms', 'uint32'),
+  ]),
+  [MESSAGE_TYPES.PinMatrixRequest]: schema('PinMatrixRequest', [
+    enumField(1, 'type', PIN_MATRIX_REQUEST_TYPES),
+  ]),
+  [MESSAGE_TYPES.PinMatrixAck]: schema('PinMatrixAck', [field(1, 'pin', 'string')]),
+  [MESSAGE_TYPES.Cancel]: schema('Cancel'),
+  [MESSAGE_TYPES.ClearSession]: schema('ClearSession'),
+  [MESSAGE_TYPES.ApplySettings]: schema('ApplySettings', [
+    field(1, 'language', 'string'),
+    field(2, 'label', 'string'),
+    field(3, 'use_passphrase', 'bool'),
+    field(4, 'homescreen', 'bytes'),
+    field(6, 'auto_lock_delay_ms', 'uint32'),
+    field(7, 'u2f_counter', 'uint32'),
+  ]),
+  [MESSAGE_TYPES.ButtonRequest]: schema('ButtonRequest', [
+    enumField(1, 'code', BUTTON_REQUEST_CODES),
+    field(2, 'data', 'string'),
+  ]),
+  [MESSAGE_TYPES.ButtonAck]: schema('ButtonAck'),
+  [MESSAGE_TYPES.ApplyFlags]: schema('ApplyFlags', [field(1, 'flags', 'uint32')]),
+  [MESSAGE_TYPES.GetNonce]: schema('GetNonce'),
+  [MESSAGE_TYPES.Nonce]: schema('Nonce', [field(1, 'nonce', 'bytes')]),
+
+  // Passphrase
+  [MESSAGE_TYPES.PassphraseRequest]: schema('PassphraseRequest'),
+  [MESSAGE_TYPES.PassphraseAck]: schema('PassphraseAck', [field(1, 'passphrase', 'string')]),
+  [MESSAGE_TYPES.PassphraseStateRequest]: schema('PassphraseStateRequest', [
+    field(1, 'state', 'bytes'),
+  ]),
+  [MESSAGE_TYPES.PassphraseStateAck]: schema('PassphraseStateAck'),
+
+  // Recovery
+  [MESSAGE_TYPES.RecoveryDevice]: schema('RecoveryDevice', [
+    field(1, 'word_count', 'uint32'),
+    field(2, 'passphrase_protection', 'bool'),
+    field(3, 'pin_protection', 'bool'),
+    field(4, 'language', 'string'),
+    field(5, 'label', 'string'),
+    field(6, 'enforce_wordlist', 'bool'),
+    field(8, 'use_character_cipher', 'bool'),
+    field(9, 'auto_lock_delay_ms', 'uint32'),
+    field(10, 'u2f_counter', 'uint32'),
+    field(11, 'dry_run', 'bool'),
+  ]),
+  [MESSAGE_TYPES.WordRequest]: schema('WordRequest'),
+  [MESSAGE_TYPES.WordAck]: schema('WordAck', [field(1, 'word', 'string')]),
+
+  // Bitcoin
+  [MESSAGE_TYPES.GetPublicKey]: schema('GetPublicKey', [
+    addressN,
+    field(2, 'ecdsa_curve_name', 'string'),
+    field(3, 'show_display', 'bool'),
+    field(4, 'coin_name', 'string'),
+    enumField(5, 'script_type', INPUT_SCRIPT_TYPES),
+  ]),
+  [MESSAGE_TYPES.PublicKey]: schema('PublicKey', [
+    messageField(1, 'node', HD_NODE),
+    field(2, 'xpub', 'string'),
+  ]),
+  [MESSAGE_TYPES.GetAddress]: schema('GetAddress', [
+    addressN,
+    field(2, 'coin_name', 'string'),
+    field(3, 'show_display', 'bool'),
+    messageField(4, 'multisig', MULTISIG_REDEEM_SCRIPT),
+    enumField(5, 'script_type', INPUT_SCRIPT_TYPES),
+  ]),
+  [MESSAGE_TYPES.Address]: schema('Address', [field(1, 'address', 'string')]),
+  [MESSAGE_TYPES.SignTx]: schema('SignTx', [
+    field(1, 'outputs_count', 'uint32'),
+    field(2, 'inputs_count', 'uint32'),
+    field(3, 'coin_name', 'string'),
+    field(4, 'version', 'uint32'),
+    field(5, 'lock_time', 'uint32'),
+    field(6, 'expiry', 'uint32'),
+    field(7, 'overwintered', 'bool'),
+    field(8, 'version_group_id', 'uint32'),
+    field(9, 'branch_id', 'uint32'),
+  ]),
+  [MESSAGE_TYPES.TxRequest]: schema('TxRequest', [
+    enumField(1, 'request_type', TX_REQUEST_TYPES),
+    messageField(2, 'details', TX_REQUEST_DETAILS),
+    messageField(3, 'serialized', TX_REQUEST_SERIALIZED),
+  ]),
+  [MESSAGE_TYPES.TxAck]: schema('TxAck', [messageField(1, 'tx', TRANSACTION)]),
+  [MESSAGE_TYPES.CipherKeyValue]: schema('CipherKeyValue', [
+    addressN,
+    field(2, 'key', 'string'),
+    field(3, 'value', 'bytes'),
+    field(4, 'encrypt', 'bool'),
+    field(5, 'ask_on_encrypt', 'bool'),
+    field(6, 'ask_on_decrypt', 'bool'),
+    field(7, 'iv', 'bytes'),
+  ]),
+  [MESSAGE_TYPES.SignMessage]: schema('SignMessage', [
+    addressN,
+    field(2, 'message', 'bytes'),
+    field(3, 'coin_name', 'string'),
+    enumField(4, 'script_type', INPUT_SCRIPT_TYPES),
+  ]),
+  [MESSAGE_TYPES.VerifyMessage]: schema('VerifyMessage', [
+    field(1, 'address', 'string'),
+    field(2, 'signature', 'bytes'),
+    field(3, 'message', 'bytes'),
+    field(4, 'coin_name', 'string'),
+  ]),
+  [MESSAGE_TYPES.MessageSignature]: schema('MessageSignature', [
+    field(1, 'address', 'string'),
+    field(2, 'signature', 'bytes'),
+  ]),
+  [MESSAGE_TYPES.CipheredKeyValue]: schema('CipheredKeyValue', [field(1, 'value', 'bytes')]),
+
+  // Ethereum
+  [MESSAGE_TYPES.EthereumGetAddress]: schema('EthereumGetAddress', [
+    addressN,
+    field(2, 'show_display', 'bool'),
+  ]),
+  [MESSAGE_TYPES.EthereumAddress]: schema('EthereumAddress', [
+    field(1, 'address', 'bytes'),
+    field(2, 'address_str', 'string'),
+  ]),
+  [MESSAGE_TYPES.EthereumSignTx]: schema('EthereumSignTx', [
+    addressN,
+    field(2, 'nonce', 'bytes'),
+    field(3, 'gas_price', 'bytes'),
+    field(4, 'gas_limit', 'bytes'),
+    field(5, 'to', 'bytes'),
+    field(6, 'value', 'bytes'),
+    field(7, 'data_initial_chunk', 'bytes'),
+    field(8, 'data_length', 'uint32'),
+    field(9, 'to_address_n', 'uint32', true),
+    enumField(10, 'address_type', OUTPUT_ADDRESS_TYPES),
+    field(12, 'chain_id', 'uint32'),
+    field(13, 'tx_type', 'uint32'),
+    field(14, 'max_fee_per_gas', 'bytes'),
+    field(15, 'max_priority_fee_per_gas', 'bytes'),
+    field(100, 'token_value', 'bytes'),
+    field(101, 'token_to', 'bytes'),
+    field(102, 'token_shortcut', 'string'),
+  ]),
+  [MESSAGE_TYPES.EthereumTxRequest]: schema('EthereumTxRequest', [
+    field(1, 'data_length', 'uint32'),
+    field(2, 'signature_v', 'uint32'),
+    field(3, 'signature_r', 'bytes'),
+    field(4, 'signature_s', 'bytes'),
+    field(5, 'hash', 'bytes'),
+    field(6, 'signature_der', 'bytes'),
+  ]),
+  [MESSAGE_TYPES.EthereumTxAck]: schema('EthereumTxAck', [field(1, 'data_chunk', 'bytes')]),
+  [MESSAGE_TYPES.EthereumSignMessage]: schema('EthereumSignMessage', [
+    addressN,
+    field(2, 'message', 'bytes'),
+  ]),
+  [MESSAGE_TYPES.EthereumVerifyMessage]: schema('EthereumVerifyMessage', [
+    field(1, 'address', 'bytes'),
+    field(2, 'signature', 'bytes'),
+    field(3, 'message', 'bytes'),
+  ]),
+  [MESSAGE_TYPES.EthereumMessageSignature]: schema('EthereumMessageSignature', [
+    field(1, 'address', 'bytes'),
+    field(2, 'signature', 'bytes'),
+  ]),
+  [MESSAGE_TYPES.EthereumSignTypedData]: schema('EthereumSignTypedData', [
+    addressN,
+    field(2, 'primary_type', 'string'),
+    field(3, 'metamask_v4_compat', 'bool'),
+  ]),
+  [MESSAGE_TYPES.EthereumTypedDataStructRequest]: schema('EthereumTypedDataStructRequest', [
+    field(1, 'name', 'string'),
+  ]),
+  [MESSAGE_TYPES.EthereumTypedDataStructAck]: schema('EthereumTypedDataStructAck', [
+    messageField(1, 'members', ETHEREUM_STRUCT_MEMBER, true),
+  ]),
+  [MESSAGE_TYPES.EthereumTypedDataValueRequest]: schema('EthereumTypedDataValueRequest', [
+    field(1, 'member_path', 'uint32', true),
+  ]),
+  [MESSAGE_TYPES.EthereumTypedDataValueAck]: schema('EthereumTypedDataValueAck', [
+    field(1, 'value', 'bytes'),
+  ]),
+  [MESSAGE_TYPES.EthereumTypedDataSignature]: schema('EthereumTypedDataSignature', [
+    field(1, 'signature', 'bytes'),
+    field(2, 'address', 'string'),
+  ]),
+
+  // Cosmos
+  [MESSAGE_TYPES.CosmosGetAddress]: cosmosGetAddress('CosmosGetAddress'),
+  [MESSAGE_TYPES.CosmosAddress]: schema('CosmosAddress', [field(1, 'address', 'string')]),
+  [MESSAGE_TYPES.CosmosSignTx]: cosmosSignTx('CosmosSignTx'),
+  [MESSAGE_TYPES.CosmosSignedTx]: cosmosSignedTx('CosmosSignedTx'),
+  [MESSAGE_TYPES.CosmosMsgRequest]: schema('CosmosMsgRequest'),
+  [MESSAGE_TYPES.CosmosMsgAck]: schema('CosmosMsgAck', [
+    messageField(1, 'send', COSMOS_MSG_SEND),
+    messageField(2, 'delegate', COSMOS_MSG_DELEGATE),
+    messageField(3, 'undelegate', COSMOS_MSG_DELEGATE),
+  ]),
+
+  // THORChain
+  [MESSAGE_TYPES.ThorchainGetAddress]: cosmosGetAddress('ThorchainGetAddress'),
+  [MESSAGE_TYPES.ThorchainAddress]: schema('ThorchainAddress', [field(1, 'address', 'string')]),
+  [MESSAGE_TYPES.ThorchainSignTx]: cosmosSignTx('ThorchainSignTx'),
+  [MESSAGE_TYPES.ThorchainSignedTx]: cosmosSignedTx('ThorchainSignedTx'),
+  [MESSAGE_TYPES.ThorchainMsgRequest]: schema('ThorchainMsgRequest'),
+  [MESSAGE_TYPES.ThorchainMsgAck]: schema('ThorchainMsgAck', [
+    messageField(1, 'send', COSMOS_MSG_SEND),
+    messageField(2, 'deposit', THORCHAIN_MSG_DEPOSIT),
+  ]),
+
+  // Osmosis
+  [MESSAGE_TYPES.OsmosisGetAddress]: cosmosGetAddress('OsmosisGetAddress'),
+  [MESSAGE_TYPES.OsmosisAddress]: schema('OsmosisAddress', [field(1, 'address', 'string')]),
+  [MESSAGE_TYPES.OsmosisSignTx]: cosmosSignTx('OsmosisSignTx'),
+  [MESSAGE_TYPES.OsmosisSignedTx]: cosmosSignedTx('OsmosisSignedTx'),
+  [MESSAGE_TYPES.OsmosisMsgRequest]: schema('OsmosisMsgRequest'),
+  [MESSAGE_TYPES.OsmosisMsgAck]: schema('OsmosisMsgAck', [
+    messageField(1, 'send', OSMOSIS_MSG_SEND),
+    messageField(11, 'swap', OSMOSIS_MSG_SWAP),
+  ]),
+
+  // Firmware
+  [MESSAGE_TYPES.FirmwareErase]: schema('FirmwareErase'),
+  [MESSAGE_TYPES.FirmwareUpload]: schema('FirmwareUpload', [
+    field(1, 'payload_hash', 'bytes'),
+    field(2, 'payload', 'bytes'),
+  ]),
+  [MESSAGE_TYPES.FirmwareRequest]: schema('FirmwareRequest', [
+    field(1, 'offset', 'uint32'),
+    field(2, 'length', 'uint32'),
+  ]),
+  [MESSAGE_TYPES.SelfTest]: schema('SelfTest', [field(1, 'payload', 'bytes')]),
+};
+
+function getSchema(messageType: number): MessageSchema {
+  const messageSchema = MESSAGE_SCHEMAS[messageType];
+  if (!messageSchema) {
+    throw new Error(`Unknown message type: ${messageType}`);
+  }
+  return messageSchema;
+}
+
+/**
+ * Protocol name of a message type (e.g. "GetAddress")
+ */
+export function getMessageName(messageType: number): string {
+  return getSchema(messageType).name;
+}
+
+/**
+ * Serialize a message to its protobuf payload
+ */
+export function encodeMessage(messageType: number, message: ProtobufObject): Buffer {
+  return encodeProtobuf(getSchema(messageType), message);
+}
+
+/**
+ * Parse a protobuf payload received from the device
+ */
+export function decodeMessage(messageType: number, payload: Buffer): ProtobufObject {
+  return decodeProtobuf(getSchema(messageType), payload);
+}
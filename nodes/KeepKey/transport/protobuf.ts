@@ -0,0 +1,332 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Minimal protobuf (proto2) wire format codec
+ *
+ * Messages are described by plain schema objects and converted to and from the
+ * JSON shape used by the rest of the client: bytes as hex strings, enums by
+ * name, 64-bit integers as numbers (or decimal strings beyond 2^53).
+ */
+
+export type ScalarType = 'uint32' | 'uint64' | 'bool' | 'string' | 'bytes';
+
+export interface FieldDefinition {
+  id: number;
+  name: string;
+  type: ScalarType | 'enum' | 'message';
+  repeated?: boolean;
+  /** Value names for enum fields */
+  values?: Record<string, number>;
+  /** Nested schema for message fields */
+  schema?: MessageSchema;
+}
+
+export interface MessageSchema {
+  name: string;
+  fields: FieldDefinition[];
+}
+
+export type ProtobufObject = Record<string, unknown>;
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+const HEX_PATTERN = /^(0x)?([0-9a-fA-F]{2})*$/;
+
+function writeVarint(chunks: Buffer[], value: bigint): void {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    let byte = Number(remaining & BigInt(0x7f));
+    remaining >>= BigInt(7);
+    if (remaining > BigInt(0)) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (remaining > BigInt(0));
+  chunks.push(Buffer.from(bytes));
+}
+
+function writeTag(chunks: Buffer[], id: number, wireType: number): void {
+  writeVarint(chunks, BigInt((id << 3) | wireType));
+}
+
+function writeLengthDelimited(chunks: Buffer[], id: number, data: Buffer): void {
+  writeTag(chunks, id, WIRE_LENGTH_DELIMITED);
+  writeVarint(chunks, BigInt(data.length));
+  chunks.push(data);
+}
+
+function nestedSchema(field: FieldDefinition): MessageSchema {
+  if (!field.schema) {
+    throw new Error(`Message field ${field.name} has no schema`);
+  }
+  return field.schema;
+}
+
+function fieldError(schema: MessageSchema, field: FieldDefinition, reason: string): Error {
+  return new Error(`Invalid ${schema.name}.${field.name}: ${reason}`);
+}
+
+function toInteger(schema: MessageSchema, field: FieldDefinition, value: unknown): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  throw fieldError(schema, field, `expected an unsigned integer, got ${JSON.stringify(value)}`);
+}
+
+/**
+ * Convert a bytes value (Buffer, Uint8Array or hex string) to a Buffer
+ */
+function toBytes(schema: MessageSchema, field: FieldDefinition, value: unknown): Buffer {
+  if (Buffer.isBuffer(value)) {
+    return value;
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value);
+  }
+  if (typeof value === 'string' && HEX_PATTERN.test(value)) {
+    return Buffer.from(value.replace(/^0x/, ''), 'hex');
+  }
+  throw fieldError(schema, field, 'expected hex-encoded bytes');
+}
+
+function encodeField(
+  chunks: Buffer[],
+  schema: MessageSchema,
+  field: FieldDefinition,
+  value: unknown,
+): void {
+  switch (field.type) {
+    case 'uint32': {
+      const integer = toInteger(schema, field, value);
+      if (integer > BigInt(0xffffffff)) {
+        throw fieldError(schema, field, 'value does not fit in 32 bits');
+      }
+      writeTag(chunks, field.id, WIRE_VARINT);
+      writeVarint(chunks, integer);
+      break;
+    }
+    case 'uint64': {
+      const integer = toInteger(schema, field, value);
+      if (integer >= BigInt(2) ** BigInt(64)) {
+        throw fieldError(schema, field, 'value does not fit in 64 bits');
+      }
+      writeTag(chunks, field.id, WIRE_VARINT);
+      writeVarint(chunks, integer);
+      break;
+    }
+    case 'bool':
+      writeTag(chunks, field.id, WIRE_VARINT);
+      writeVarint(chunks, BigInt(value ? 1 : 0));
+      break;
+    case 'string':
+      writeLengthDelimited(chunks, field.id, Buffer.from(String(value), 'utf8'));
+      break;
+    case 'bytes':
+      writeLengthDelimited(chunks, field.id, toBytes(schema, field, value));
+      break;
+    case 'enum': {
+      const numeric = typeof value === 'string' ? field.values?.[value] : value;
+      if (typeof numeric !== 'number') {
+        throw fieldError(schema, field, `unknown value ${JSON.stringify(value)}`);
+      }
+      writeTag(chunks, field.id, WIRE_VARINT);
+      writeVarint(chunks, BigInt(numeric));
+      break;
+    }
+    case 'message':
+      if (typeof value !== 'object' || value === null) {
+        throw fieldError(schema, field, 'expected an object');
+      }
+      writeLengthDelimited(
+        chunks,
+        field.id,
+        encodeProtobuf(nestedSchema(field), value as ProtobufObject),
+      );
+      break;
+  }
+}
+
+/**
+ * Encode an object with the given schema; keys not in the schema are ignored
+ */
+export function encodeProtobuf(schema: MessageSchema, message: ProtobufObject): Buffer {
+  const chunks: Buffer[] = [];
+
+  for (const field of schema.fields) {
+    const value = message[field.name];
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    if (field.repeated) {
+      if (!Array.isArray(value)) {
+        throw fieldError(schema, field, 'expected an array');
+      }
+      for (const item of value) {
+        encodeField(chunks, schema, field, item);
+      }
+    } else {
+      encodeField(chunks, schema, field, value);
+    }
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Sequential reader over a protobuf payload
+ */
+class ProtobufReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  get done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  readVarint(): bigint {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    for (;;) {
+      if (this.offset >= this.buffer.length) {
+        throw new Error('Truncated protobuf varint');
+      }
+      const byte = this.buffer[this.offset++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      shift += BigInt(7);
+    }
+  }
+
+  readBytes(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Truncated protobuf field');
+    }
+    const data = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return data;
+  }
+
+  readLengthDelimited(): Buffer {
+    return this.readBytes(Number(this.readVarint()));
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.readVarint();
+        break;
+      case WIRE_FIXED64:
+        this.readBytes(8);
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.readLengthDelimited();
+        break;
+      case WIRE_FIXED32:
+        this.readBytes(4);
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+function decodeVarintValue(field: FieldDefinition, value: bigint): unknown {
+  switch (field.type) {
+    case 'bool':
+      return value !== BigInt(0);
+    case 'enum': {
+      const numeric = Number(value);
+      const values = field.values ?? {};
+      const name = Object.keys(values).find((key) => values[key] === numeric);
+      return name ?? numeric;
+    }
+    default:
+      return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+}
+
+function decodeLengthDelimitedValue(field: FieldDefinition, data: Buffer): unknown {
+  switch (field.type) {
+    case 'string':
+      return data.toString('utf8');
+    case 'bytes':
+      return data.toString('hex');
+    case 'message':
+      return decodeProtobuf(nestedSchema(field), data);
+    default:
+      throw new Error(`Unexpected length-delimited data for ${field.name}`);
+  }
+}
+
+/**
+ * Decode a payload with the given schema; unknown fields are skipped
+ */
+export function decodeProtobuf(schema: MessageSchema, payload: Buffer): ProtobufObject {
+  const result: ProtobufObject = {};
+  for (const field of schema.fields) {
+    if (field.repeated) {
+      result[field.name] = [];
+    }
+  }
+
+  const reader = new ProtobufReader(payload);
+  while (!reader.done) {
+    const tag = Number(reader.readVarint());
+    const id = tag >>> 3;
+    const wireType = tag & 0x07;
+    const field = schema.fields.find((f) => f.id === id);
+
+    if (!field) {
+      reader.skip(wireType);
+      continue;
+    }
+
+    const values: unknown[] = [];
+    if (wireType === WIRE_VARINT) {
+      values.push(decodeVarintValue(field, reader.readVarint()));
+    } else if (wireType === WIRE_LENGTH_DELIMITED) {
+      const data = reader.readLengthDelimited();
+      if (
+        field.repeated &&
+        (field.type === 'uint32' || field.type === 'uint64' || field.type === 'enum')
+      ) {
+        // Packed repeated scalars
+        const packed = new ProtobufReader(data);
+        while (!packed.done) {
+          values.push(decodeVarintValue(field, packed.readVarint()));
+        }
+      } else {
+        values.push(decodeLengthDelimitedValue(field, data));
+      }
+    } else {
+      throw new Error(`Unexpected wire type ${wireType} for ${schema.name}.${field.name}`);
+    }
+
+    if (field.repeated) {
+      (result[field.name] as unknown[]).push(...values);
+    } else {
+      result[field.name] = values[0];
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,180 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Recorded-session transports
+ *
+ * RecordingTransport wraps a real transport and captures every exchange;
+ * ReplayTransport plays such a recording back without hardware, failing as
+ * soon as the client sends something the recording did not expect. Together
+ * they let device flows run in CI.
+ */
+
+import { MESSAGE_SCHEMAS } from './messages';
+import type { MessageResponse, Transport, TransportDevice, TransportListener } from './transport';
+
+export interface RecordedExchange {
+  request: { type: number; message: Record<string, unknown> };
+  response: MessageResponse;
+}
+
+export interface RecordedSession {
+  device: TransportDevice;
+  exchanges: RecordedExchange[];
+}
+
+function describeType(type: number): string {
+  const schema = MESSAGE_SCHEMAS[type];
+  return schema ? `${schema.name} (${type})` : `message type ${type}`;
+}
+
+/**
+ * JSON with sorted keys and undefined values dropped, for order-insensitive comparison
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      const record = v as Record<string, unknown>;
+      return Object.fromEntries(
+        Object.keys(record)
+          .sort()
+          .map((k) => [k, record[k]]),
+      );
+    }
+    return v;
+  });
+}
+
+/**
+ * Plays back a recorded session in order
+ */
+export class ReplayTransport implements Transport {
+  private position = 0;
+  private acquired = false;
+
+  constructor(private readonly session: RecordedSession) {}
+
+  enumerate(): Promise<TransportDevice[]> {
+    return Promise.resolve([this.session.device]);
+  }
+
+  acquire(path?: string): Promise<TransportDevice> {
+    if (path && path !== this.session.device.path) {
+      return Promise.reject(new Error(`Device not found: ${path}`));
+    }
+    this.acquired = true;
+    return Promise.resolve(this.session.device);
+  }
+
+  call<T = unknown>(
+    messageType: number,
+    message: Record<string, unknown>,
+  ): Promise<MessageResponse<T>> {
+    if (!this.acquired) {
+      return Promise.reject(new Error('No device acquired'));
+    }
+
+    const exchange = this.session.exchanges[this.position];
+    if (!exchange) {
+      return Promise.reject(
+        new Error(`Recording exhausted: unexpected ${describeType(messageType)}`),
+      );
+    }
+
+    if (exchange.request.type !== messageType) {
+      return Promise.reject(
+        new Error(
+          `Replay mismatch at exchange ${this.position}: expected ${describeType(
+            exchange.request.type,
+          )}, got ${describeType(messageType)}`,
+        ),
+      );
+    }
+
+    if (canonicalJson(exchange.request.message) !== canonicalJson(message)) {
+      return Promise.reject(
+        new Error(
+          `Replay mismatch at exchange ${this.position}: ${describeType(
+            messageType,
+          )} sent ${canonicalJson(message)}, recorded ${canonicalJson(exchange.request.message)}`,
+        ),
+      );
+    }
+
+    this.position++;
+    return Promise.resolve(JSON.parse(JSON.stringify(exchange.response)) as MessageResponse<T>);
+  }
+
+  release(): Promise<void> {
+    this.acquired = false;
+    return Promise.resolve();
+  }
+
+  listen(_callback: TransportListener): () => void {
+    // A recording has a single device that never comes or goes
+    return () => {};
+  }
+
+  /**
+   * Whether every recorded exchange has been played
+   */
+  isComplete(): boolean {
+    return this.position === this.session.exchanges.length;
+  }
+}
+
+/**
+ * Records every exchange made through another transport
+ */
+export class RecordingTransport implements Transport {
+  private device: TransportDevice | null = null;
+  private exchanges: RecordedExchange[] = [];
+
+  constructor(private readonly inner: Transport) {}
+
+  enumerate(): Promise<TransportDevice[]> {
+    return this.inner.enumerate();
+  }
+
+  async acquire(path?: string): Promise<TransportDevice> {
+    this.device = await this.inner.acquire(path);
+    return this.device;
+  }
+
+  async call<T = unknown>(
+    messageType: number,
+    message: Record<string, unknown>,
+    timeout?: number,
+  ): Promise<MessageResponse<T>> {
+    const response = await this.inner.call<T>(messageType, message, timeout);
+    // Round-trip through JSON so the recording matches what a file would hold
+    this.exchanges.push(
+      JSON.parse(
+        JSON.stringify({ request: { type: messageType, message }, response }),
+      ) as RecordedExchange,
+    );
+    return response;
+  }
+
+  release(): Promise<void> {
+    return this.inner.release();
+  }
+
+  listen(callback: TransportListener): () => void {
+    return this.inner.listen(callback);
+  }
+
+  /**
+   * The session recorded so far, ready to be saved as JSON
+   */
+  getSession(): RecordedSession {
+    if (!this.device) {
+      throw new Error('No device acquired');
+    }
+    return { device: this.device, exchanges: [...this.exchanges] };
+  }
+}
@@ -0,0 +1,96 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Transport interface
+ *
+ * Every way of reaching a KeepKey (hidraw, WebUSB, Bridge, Desktop, or a
+ * recorded session) implements this interface, and KeepKeyClient talks to the
+ * device only through it.
+ */
+
+export interface TransportDevice {
+  path: string;
+  vendorId: number;
+  productId: number;
+  serialNumber?: string;
+  product?: string;
+}
+
+export interface MessageResponse<T = unknown> {
+  type: number;
+  message: T;
+}
+
+export type TransportListener = (event: 'connect' | 'disconnect', device: TransportDevice) => void;
+
+export interface Transport {
+  /** List the devices reachable through this transport */
+  enumerate(): Promise<TransportDevice[]>;
+  /** Claim a device (the first one found when no path is given) */
+  acquire(path?: string): Promise<TransportDevice>;
+  /** Send a protocol message and return the device's reply within timeout ms */
+  call<T = unknown>(
+    messageType: number,
+    message: Record<string, unknown>,
+    timeout?: number,
+  ): Promise<MessageResponse<T>>;
+  /** Give the claimed device back */
+  release(): Promise<void>;
+  /** Watch for devices being plugged in or removed; returns an unsubscribe function */
+  listen(callback: TransportListener): () => void;
+}
+
+const DEVICE_POLL_INTERVAL = 1000;
+
+/**
+ * Emit connect/disconnect events by polling enumerate() for changes
+ *
+ * Used by transports that have no native hotplug notifications.
+ */
+export function pollDevices(
+  enumerate: () => Promise<TransportDevice[]>,
+  callback: TransportListener,
+  interval: number = DEVICE_POLL_INTERVAL,
+): () => void {
+  let known: Map<string, TransportDevice> | null = null;
+  let polling = false;
+
+  const poll = async (): Promise<void> => {
+    if (polling) {
+      return;
+    }
+    polling = true;
+    try {
+      const current = new Map((await enumerate()).map((d) => [d.path, d]));
+      if (known) {
+        for (const [path, device] of current) {
+          if (!known.has(path)) {
+            callback('connect', device);
+          }
+        }
+        for (const [path, device] of known) {
+          if (!current.has(path)) {
+            callback('disconnect', device);
+          }
+        }
+      }
+      known = current;
+    } catch {
+      // Keep the last known list; the next poll will catch up
+    } finally {
+      polling = false;
+    }
+  };
+
+  void poll();
+  const timer = setInterval(() => void poll(), interval);
+  // Never keep the process alive just to watch for devices
+  timer.unref?.();
+
+  return () => clearInterval(timer);
+}
@@ -13,8 +13,13 @@
  */
 
 import { EventEmitter } from 'events';
+import { constants as fsConstants, promises as fs } from 'fs';
+import type { FileHandle } from 'fs/promises';
+import * as path from 'path';
 import { USB_CONFIG, DEVICE_TIMEOUTS } from '../constants/usbIds';
 import { DEVICE_EVENTS } from '../constants/events';
+import { decodeMessage, encodeMessage } from './messages';
+import { pollDevices, type MessageResponse, type Transport, type TransportListener } from './transport';
 
 export interface UsbDevice {
   vendorId: number;
@@ -27,20 +32,195 @@ export interface UsbDevice {
   interface?: number;
 }
 
+/**
+ * Open handle on a HID device, exchanging raw 64-byte reports
+ */
+export interface HidDevice {
+  write(report: Buffer): Promise<void>;
+  read(timeout: number): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
 export interface UsbTransportConfig {
   vendorId?: number;
   productId?: number;
   devicePath?: string;
   timeout?: number;
+  /** sysfs mount point used for enumeration (default: /sys) */
+  sysfsRoot?: string;
+  /** Directory containing the hidraw device nodes (default: /dev) */
+  devRoot?: string;
+  /** Opens a device path; defaults to the hidraw character device */
+  openDevice?: (devicePath: string) => Promise<HidDevice>;
+}
+
+/**
+ * A decoded protocol message
+ */
+export interface UsbMessage {
+  type: number;
+  payload: Buffer;
+}
+
+// Every report starts with '?'; the first report of a message adds the '##' magic
+const REPORT_MARKER = 0x3f;
+const MESSAGE_MAGIC = 0x23;
+const HEADER_SIZE = 9;
+
+/**
+ * Split a protocol message into 64-byte HID reports
+ *
+ * Wire format: '?##' + type (uint16 BE) + length (uint32 BE) + payload, continued
+ * in reports that each start with '?' and are zero-padded to 64 bytes.
+ */
+export function encodeHidPackets(messageType: number, payload: Buffer): Buffer[] {
+  const header = Buffer.alloc(HEADER_SIZE - 1);
+  header[0] = MESSAGE_MAGIC;
+  header[1] = MESSAGE_MAGIC;
+  header.writeUInt16BE(messageType, 2);
+  header.writeUInt32BE(payload.length, 4);
+
+  const fullMessage = Buffer.concat([header, payload]);
+  const chunkSize = USB_CONFIG.PACKET_SIZE - 1;
+
+  const packets: Buffer[] = [];
+  for (let i = 0; i < fullMessage.length; i += chunkSize) {
+    const packet = Buffer.alloc(USB_CONFIG.PACKET_SIZE);
+    packet[0] = REPORT_MARKER;
+    fullMessage.copy(packet, 1, i, Math.min(i + chunkSize, fullMessage.length));
+    packets.push(packet);
+  }
+  return packets;
+}
+
+/**
+ * Read the type and payload length from the first report of a message
+ */
+export function decodeHidHeader(packet: Buffer): { type: number; length: number } {
+  if (
+    packet.length < HEADER_SIZE ||
+    packet[0] !== REPORT_MARKER ||
+    packet[1] !== MESSAGE_MAGIC ||
+    packet[2] !== MESSAGE_MAGIC
+  ) {
+    throw new Error('Malformed message header from device');
+  }
+  return { type: packet.readUInt16BE(3), length: packet.readUInt32BE(5) };
+}
+
+/**
+ * Reassemble a protocol message from its HID reports
+ */
+export function decodeHidPackets(packets: Buffer[]): UsbMessage {
+  if (packets.length === 0) {
+    throw new Error('No packets to decode');
+  }
+
+  const { type, length } = decodeHidHeader(packets[0]);
+  const chunks = [packets[0].subarray(HEADER_SIZE)];
+  for (const packet of packets.slice(1)) {
+    if (packet[0] !== REPORT_MARKER) {
+      throw new Error('Malformed continuation packet from device');
+    }
+    chunks.push(packet.subarray(1));
+  }
+
+  const payload = Buffer.concat(chunks);
+  if (payload.length < length) {
+    throw new Error(`Incomplete message: expected ${length} bytes, got ${payload.length}`);
+  }
+  return { type, payload: payload.subarray(0, length) };
+}
+
+/**
+ * Parse a sysfs uevent file into its KEY=value fields
+ */
+function parseUevent(content: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of content.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator > 0) {
+      fields[line.slice(0, separator)] = line.slice(separator + 1).trim();
+    }
+  }
+  return fields;
+}
+
+// Interval between reads while the device has no report ready
+const HIDRAW_POLL_INTERVAL = 5;
+
+/**
+ * Read reports until a complete message has been received
+ */
+export async function readHidMessage(readPacket: () => Promise<Buffer>): Promise<UsbMessage> {
+  const first = await readPacket();
+  const { length } = decodeHidHeader(first);
+
+  const packets = [first];
+  let received = first.length - HEADER_SIZE;
+  while (received < length) {
+    const packet = await readPacket();
+    packets.push(packet);
+    received += packet.length - 1;
+  }
+
+  return decodeHidPackets(packets);
+}
+
+/**
+ * Linux hidraw character device
+ *
+ * The node is opened non-blocking and polled, so a read that times out never
+ * leaves a blocked thread behind and the device can always be closed.
+ */
+export class HidrawDevice implements HidDevice {
+  private constructor(private readonly handle: FileHandle) {}
+
+  /**
+   * Open a hidraw device node for reading and writing
+   */
+  static async open(devicePath: string): Promise<HidrawDevice> {
+    const handle = await fs.open(devicePath, fsConstants.O_RDWR | fsConstants.O_NONBLOCK);
+    return new HidrawDevice(handle);
+  }
+
+  async write(report: Buffer): Promise<void> {
+    await this.handle.write(report);
+  }
+
+  async read(timeout: number): Promise<Buffer> {
+    const deadline = Date.now() + timeout;
+    const buffer = Buffer.alloc(USB_CONFIG.PACKET_SIZE);
+
+    while (Date.now() < deadline) {
+      try {
+        const { bytesRead } = await this.handle.read(buffer, 0, buffer.length, null);
+        if (bytesRead > 0) {
+          return buffer.subarray(0, bytesRead);
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EAGAIN') {
+          throw error;
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, HIDRAW_POLL_INTERVAL));
+    }
+
+    throw new Error(`Timed out after ${timeout}ms waiting for device`);
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
 }
 
 /**
  * USB HID Transport for KeepKey
  */
-export class UsbTransport extends EventEmitter {
+export class UsbTransport extends EventEmitter implements Transport {
   private config: Required<Omit<UsbTransportConfig, 'devicePath'>> & { devicePath?: string };
   private device: UsbDevice | null = null;
-  private handle: unknown = null;
+  private handle: HidDevice | null = null;
   private connected: boolean = false;
 
   constructor(config: UsbTransportConfig = {}) {
@@ -50,24 +230,68 @@ export class UsbTransport extends EventEmitter {
       productId: config.productId || USB_CONFIG.PRODUCT_ID,
       devicePath: config.devicePath,
       timeout: config.timeout || DEVICE_TIMEOUTS.OPERATION,
+      sysfsRoot: config.sysfsRoot || '/sys',
+      devRoot: config.devRoot || '/dev',
+      openDevice: config.openDevice || ((devicePath) => HidrawDevice.open(devicePath)),
     };
   }
 
   /**
    * Enumerate all connected KeepKey devices
+   *
+   * Walks /sys/class/hidraw and matches the vendor/product IDs from each
+   * device's uevent; only the wallet interface (not U2F/debug) is returned.
    */
   async enumerate(): Promise<UsbDevice[]> {
-    try {
-      // Note: This requires the 'usb' or 'node-hid' package
-      // In a real implementation, we would use:
-      // import HID from 'node-hid';
-      // const devices = HID.devices();
+    const classDir = path.join(this.config.sysfsRoot, 'class', 'hidraw');
 
-      // For now, return mock implementation info
-      return [];
+    let entries: string[];
+    try {
+      entries = await fs.readdir(classDir);
     } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // No hidraw support (not Linux, or the module is not loaded)
+        return [];
+      }
       throw new Error(`Failed to enumerate USB devices: ${(error as Error).message}`);
     }
+
+    const devices: UsbDevice[] = [];
+    for (const entry of entries.sort()) {
+      const deviceDir = path.join(classDir, entry, 'device');
+      let uevent: Record<string, string>;
+      try {
+        uevent = parseUevent(await fs.readFile(path.join(deviceDir, 'uevent'), 'utf8'));
+      } catch {
+        continue;
+      }
+
+      const [, vendor, product] = (uevent.HID_ID || '').split(':');
+      const vendorId = parseInt(vendor, 16);
+      const productId = parseInt(product, 16);
+      if (vendorId !== this.config.vendorId || productId !== this.config.productId) {
+        continue;
+      }
+
+      // The resolved path ends in ".../<bus>-<port>:<config>.<interface>/<hid device>"
+      const interfaceMatch = /:\d+\.(\d+)\/[^/]+$/.exec(
+        await fs.realpath(deviceDir).catch(() => ''),
+      );
+      const interfaceNumber = interfaceMatch ? parseInt(interfaceMatch[1], 10) : undefined;
+      if (interfaceNumber !== undefined && interfaceNumber !== USB_CONFIG.INTERFACE) {
+        continue;
+      }
+
+      devices.push({
+        vendorId,
+        productId,
+        path: path.join(this.config.devRoot, entry),
+        serialNumber: uevent.HID_UNIQ || undefined,
+        product: uevent.HID_NAME || undefined,
+        interface: interfaceNumber,
+      });
+    }
+    return devices;
   }
 
   /**
@@ -97,14 +321,13 @@ export class UsbTransport extends EventEmitter {
         };
       }
 
-      // Open HID device
-      // In real implementation:
-      // this.handle = new HID.HID(this.device.path);
+      this.handle = await this.config.openDevice(this.device.path);
 
       this.connected = true;
       this.emit(DEVICE_EVENTS.CONNECTED, this.device);
       return this.device;
     } catch (error) {
+      this.device = null;
       this.emit(DEVICE_EVENTS.FAILURE, error);
       throw new Error(`Failed to connect to device: ${(error as Error).message}`);
     }
@@ -119,8 +342,7 @@ export class UsbTransport extends EventEmitter {
     }
 
     try {
-      // In real implementation:
-      // (this.handle as HID.HID).close();
+      await this.handle.close();
 
       this.connected = false;
       this.device = null;
@@ -159,9 +381,7 @@ export class UsbTransport extends EventEmitter {
       packet[0] = 0x00; // Report ID
       data.copy(packet, 1, 0, Math.min(data.length, USB_CONFIG.PACKET_SIZE));
 
-      // In real implementation:
-      // return (this.handle as HID.HID).write(Array.from(packet));
-
+      await this.handle.write(packet);
       return packet.length;
     } catch (error) {
       throw new Error(`Failed to write to device: ${(error as Error).message}`);
@@ -177,14 +397,7 @@ export class UsbTransport extends EventEmitter {
     }
 
     try {
-      // In real implementation:
-      // const readTimeoutMs = timeout || this.config.timeout;
-      // const data = (this.handle as HID.HID).readTimeout(readTimeoutMs);
-      // return Buffer.from(data);
-
-      // Mock empty response
-      void timeout; // Acknowledge parameter
-      return Buffer.alloc(0);
+      return await this.handle.read(timeout || this.config.timeout);
     } catch (error) {
       throw new Error(`Failed to read from device: ${(error as Error).message}`);
     }
@@ -199,66 +412,54 @@ export class UsbTransport extends EventEmitter {
   }
 
   /**
-   * Send a protocol message
+   * Send a protocol message and wait for the device's reply
    */
-  async sendMessage(messageType: number, message: Buffer): Promise<Buffer> {
-    // KeepKey protocol format:
-    // [0x3F] [MSG_TYPE (2 bytes)] [MSG_LENGTH (4 bytes)] [MSG_DATA...]
-
-    const header = Buffer.alloc(7);
-    header[0] = 0x3f; // Protocol marker
-    header.writeUInt16BE(messageType, 1);
-    header.writeUInt32BE(message.length, 3);
-
-    const fullMessage = Buffer.concat([header, message]);
-
-    // Split into packets
-    const packets: Buffer[] = [];
-    for (let i = 0; i < fullMessage.length; i += USB_CONFIG.PACKET_SIZE - 1) {
-      const packet = Buffer.alloc(USB_CONFIG.PACKET_SIZE);
-      packet[0] = i === 0 ? 0x3f : 0x3f; // First packet marker
-      fullMessage.copy(packet, 1, i, Math.min(i + USB_CONFIG.PACKET_SIZE - 1, fullMessage.length));
-      packets.push(packet);
-    }
-
-    // Send all packets
-    for (const packet of packets) {
+  async sendMessage(messageType: number, message: Buffer, timeout?: number): Promise<UsbMessage> {
+    for (const packet of encodeHidPackets(messageType, message)) {
       await this.write(packet);
     }
 
-    // Read response packets
-    const responsePackets: Buffer[] = [];
-    let totalLength = 0;
-    let expectedLength = 0;
-    let responseType = 0;
-
-    while (true) {
-      const packet = await this.read();
-      if (packet.length === 0) {
-        break;
-      }
+    return readHidMessage(() => this.read(timeout));
+  }
 
-      if (responsePackets.length === 0 && packet[0] === 0x3f) {
-        // First packet - extract header
-        responseType = packet.readUInt16BE(1);
-        expectedLength = packet.readUInt32BE(3);
-        responsePackets.push(packet.subarray(7));
-        totalLength += packet.length - 7;
-      } else {
-        responsePackets.push(packet.subarray(1));
-        totalLength += packet.length - 1;
-      }
+  /**
+   * Claim a device for exclusive use
+   */
+  acquire(path?: string): Promise<UsbDevice> {
+    return this.connect(path);
+  }
 
-      if (totalLength >= expectedLength) {
-        break;
-      }
-    }
+  /**
+   * Release the claimed device
+   */
+  release(): Promise<void> {
+    return this.disconnect();
+  }
 
-    // Note: responseType could be used to validate response type matches expected
-    void responseType;
+  /**
+   * Encode a message, send it and decode the reply
+   */
+  async call<T = unknown>(
+    messageType: number,
+    message: Record<string, unknown>,
+    timeout?: number,
+  ): Promise<MessageResponse<T>> {
+    const response = await this.sendMessage(
+      messageType,
+      encodeMessage(messageType, message),
+      timeout,
+    );
+    return {
+      type: response.type,
+      message: decodeMessage(response.type, response.payload) as T,
+    };
+  }
 
-    const response = Buffer.concat(responsePackets, expectedLength);
-    return response;
+  /**
+   * Watch for devices being plugged in or removed
+   */
+  listen(callback: TransportListener): () => void {
+    return pollDevices(() => this.enumerate(), callback);
   }
 }
 
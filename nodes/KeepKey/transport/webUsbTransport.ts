@@ -16,6 +16,9 @@
 import { EventEmitter } from 'events';
 import { USB_CONFIG, WEBUSB_CONFIG, DEVICE_TIMEOUTS } from '../constants/usbIds';
 import { DEVICE_EVENTS } from '../constants/events';
+import { decodeMessage, encodeMessage } from './messages';
+import type { MessageResponse, Transport, TransportListener } from './transport';
+import { encodeHidPackets, readHidMessage } from './usbTransport';
 
 // Browser-specific type declarations for Node.js compilation
 type BufferSource = ArrayBuffer | ArrayBufferView;
@@ -95,6 +98,8 @@ function getNavigatorUsb(): USB | null {
 }
 
 export interface WebUsbDevice {
+  /** Serial number, which identifies the device across reconnects */
+  path: string;
   vendorId: number;
   productId: number;
   deviceClass: number;
@@ -117,7 +122,7 @@ export interface WebUsbTransportConfig {
  * WebUSB Transport for KeepKey
  * Note: This transport is primarily for browser environments
  */
-export class WebUsbTransport extends EventEmitter {
+export class WebUsbTransport extends EventEmitter implements Transport {
   private _config: Required<WebUsbTransportConfig>;
   private device: USBDevice | null = null;
   private connected: boolean = false;
@@ -296,15 +301,73 @@ export class WebUsbTransport extends EventEmitter {
    * Send a message and wait for response
    */
   async call<T = unknown>(
-    _messageType: number,
-    _message: Record<string, unknown>,
-  ): Promise<{ type: number; message: T }> {
-    // In a real implementation, this would:
-    // 1. Serialize the message using protobuf
-    // 2. Send via write()
-    // 3. Read response via read()
-    // 4. Deserialize response
-    throw new Error('WebUSB transport call() not implemented - use bridge transport in n8n');
+    messageType: number,
+    message: Record<string, unknown>,
+    timeout?: number,
+  ): Promise<MessageResponse<T>> {
+    for (const packet of encodeHidPackets(messageType, encodeMessage(messageType, message))) {
+      await this.write(packet);
+    }
+
+    const limit = timeout ?? this._config.timeout;
+    const response = await readHidMessage(() => this.readPacket(limit));
+    return {
+      type: response.type,
+      message: decodeMessage(response.type, response.payload) as T,
+    };
+  }
+
+  /**
+   * Read one report, giving up after timeout ms (the transfer itself cannot be cancelled)
+   */
+  private readPacket(timeout: number): Promise<Buffer> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${timeout}ms waiting for device`)),
+        timeout,
+      );
+    });
+    return Promise.race([this.read().then((data) => Buffer.from(data)), deadline]).finally(() =>
+      clearTimeout(timer),
+    );
+  }
+
+  /**
+   * List authorized devices
+   */
+  enumerate(): Promise<WebUsbDevice[]> {
+    return this.getDevices();
+  }
+
+  /**
+   * Claim an authorized device by serial number, or the first available one
+   */
+  async acquire(path?: string): Promise<WebUsbDevice> {
+    if (!path) {
+      return this.connect();
+    }
+
+    const devices = (await getNavigatorUsb()?.getDevices()) ?? [];
+    const device = devices.find((d) => this.mapDevice(d).path === path);
+    if (!device) {
+      throw new Error(`Device not found: ${path}`);
+    }
+    return this.connect(device);
+  }
+
+  /**
+   * Release the claimed device
+   */
+  release(): Promise<void> {
+    return this.disconnect();
+  }
+
+  /**
+   * Watch for devices being plugged in or removed
+   */
+  listen(callback: TransportListener): () => void {
+    return this.listenForDevices(callback);
   }
 
   /**
@@ -340,6 +403,7 @@ export class WebUsbTransport extends EventEmitter {
    */
   private mapDevice(device: USBDevice): WebUsbDevice {
     return {
+      path: device.serialNumber || 'webusb',
       vendorId: device.vendorId,
       productId: device.productId,
       deviceClass: device.deviceClass,
@@ -0,0 +1,596 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Solidity contract ABI: function lookup, call data encoding and result decoding
+ *
+ * Functions come from a JSON ABI (or a build artifact holding one) or from
+ * human-readable signatures such as
+ * `function balanceOf(address owner) view returns (uint256)`. Values follow
+ * JSON: integers are decimal strings (numbers and 0x hex are accepted on
+ * input), bytes are 0x hex, and tuples are objects keyed by component name
+ * when every component is named, arrays otherwise.
+ */
+
+import { checksumEthereumAddress } from './addressUtils';
+import { keccak256 } from './hashUtils';
+import { integerToBytes, toTypedDataBytes, toTypedDataInteger } from './typedDataUtils';
+
+export interface AbiParameter {
+  name: string;
+  type: string;
+  /** Members of a tuple type */
+  components?: AbiParameter[];
+}
+
+export interface AbiFunction {
+  name: string;
+  inputs: AbiParameter[];
+  outputs: AbiParameter[];
+  stateMutability: 'pure' | 'view' | 'nonpayable' | 'payable';
+}
+
+export type AbiType =
+  | { kind: 'array'; entryType: AbiType; length?: number }
+  | { kind: 'tuple'; components: AbiParameter[] }
+  | { kind: 'uint' | 'int'; bits: number }
+  | { kind: 'bytes'; size?: number }
+  | { kind: 'string' | 'bool' | 'address' };
+
+const WORD = 32;
+
+const PARAMETER_MODIFIERS = new Set(['indexed', 'memory', 'calldata', 'storage', 'payable']);
+
+const STATE_MUTABILITIES = new Set(['pure', 'view', 'nonpayable', 'payable']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Classify a parameter's type (uint256, bytes32, tuple[], address[2], ...)
+ */
+export function parseAbiType(parameter: AbiParameter): AbiType {
+  const { type } = parameter;
+  const array = /^(.+)\[(\d*)\]$/.exec(type);
+  if (array) {
+    return {
+      kind: 'array',
+      entryType: parseAbiType({ ...parameter, type: array[1] }),
+      length: array[2] ? Number(array[2]) : undefined,
+    };
+  }
+  if (type === 'tuple') {
+    if (!Array.isArray(parameter.components)) {
+      throw new Error(`Tuple parameter ${parameter.name || '(unnamed)'} has no components`);
+    }
+    parameter.components.forEach(parseAbiType);
+    return { kind: 'tuple', components: parameter.components };
+  }
+
+  const integer = /^(u?int)(\d*)$/.exec(type);
+  if (integer) {
+    const bits = integer[2] ? Number(integer[2]) : 256;
+    if (bits < 8 || bits > 256 || bits % 8) {
+      throw new Error(`Invalid ABI type ${type}`);
+    }
+    return { kind: integer[1] as 'uint' | 'int', bits };
+  }
+
+  const bytes = /^bytes(\d*)$/.exec(type);
+  if (bytes) {
+    const size = bytes[1] ? Number(bytes[1]) : undefined;
+    if (size !== undefined && (size < 1 || size > 32)) {
+      throw new Error(`Invalid ABI type ${type}`);
+    }
+    return { kind: 'bytes', size };
+  }
+
+  if (type === 'string' || type === 'bool' || type === 'address') {
+    return { kind: type };
+  }
+  throw new Error(`Unknown ABI type ${type}`);
+}
+
+/**
+ * Index of the parenthesis closing the one at start
+ */
+function findClosingParen(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  throw new Error(`Unbalanced parentheses in ${text}`);
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')') {
+      depth--;
+    } else if (text[i] === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim());
+}
+
+/**
+ * Spell integer aliases out, as the canonical signature requires
+ */
+function normalizeType(type: string): string {
+  return type.replace(/^(u?int)(?=$|\[)/, '$1256');
+}
+
+/**
+ * Parse a human-readable parameter list: `address to, (uint256 a, bool b)[] items`
+ */
+function parseParameterList(text: string): AbiParameter[] {
+  if (!text.trim()) {
+    return [];
+  }
+  return splitTopLevel(text).map((part) => {
+    const tuple = /^(?:tuple\s*)?\(/.exec(part);
+    let type: string;
+    let components: AbiParameter[] | undefined;
+    let rest: string;
+    if (tuple) {
+      const open = tuple[0].length - 1;
+      const close = findClosingParen(part, open);
+      components = parseParameterList(part.slice(open + 1, close));
+      const suffix = /^((?:\[\d*\])*)(.*)$/.exec(part.slice(close + 1)) as RegExpExecArray;
+      type = `tuple${suffix[1]}`;
+      rest = suffix[2];
+    } else {
+      const [first = '', ...words] = part.split(/\s+/);
+      type = normalizeType(first);
+      rest = words.join(' ');
+    }
+    const names = rest.split(/\s+/).filter((word) => word && !PARAMETER_MODIFIERS.has(word));
+    if (!type || names.length > 1) {
+      throw new Error(`Invalid parameter: ${part}`);
+    }
+    return { name: names[0] ?? '', type, ...(components ? { components } : {}) };
+  });
+}
+
+/**
+ * Parse a human-readable function signature, such as
+ * `function transfer(address to, uint256 amount) returns (bool)` or
+ * `balanceOf(address)`
+ */
+export function parseFunctionSignature(signature: string): AbiFunction {
+  const text = signature.trim().replace(/;$/, '');
+  const match = /^(?:function\s+)?([A-Za-z_$][\w$]*)\s*\(/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid function signature: ${signature}`);
+  }
+  const open = match[0].length - 1;
+  const close = findClosingParen(text, open);
+  const inputs = parseParameterList(text.slice(open + 1, close));
+
+  let outputs: AbiParameter[] = [];
+  let modifiers = text.slice(close + 1);
+  const returns = /\breturns\s*\(/.exec(modifiers);
+  if (returns) {
+    const outputsOpen = returns.index + returns[0].length - 1;
+    const outputsClose = findClosingParen(modifiers, outputsOpen);
+    outputs = parseParameterList(modifiers.slice(outputsOpen + 1, outputsClose));
+    modifiers = modifiers.slice(0, returns.index) + modifiers.slice(outputsClose + 1);
+  }
+  const stateMutability = modifiers.split(/\s+/).find((word) => STATE_MUTABILITIES.has(word)) as
+    AbiFunction['stateMutability'] | undefined;
+
+  return { name: match[1], inputs, outputs, stateMutability: stateMutability ?? 'nonpayable' };
+}
+
+function toAbiParameter(value: unknown, label: string): AbiParameter {
+  if (!isRecord(value) || typeof value.type !== 'string') {
+    throw new Error(`Parameter of ${label} has no type`);
+  }
+  const parameter: AbiParameter = {
+    name: typeof value.name === 'string' ? value.name : '',
+    type: normalizeType(value.type),
+  };
+  if (Array.isArray(value.components)) {
+    parameter.components = value.components.map((component) => toAbiParameter(component, label));
+  }
+  parseAbiType(parameter);
+  return parameter;
+}
+
+function toAbiFunction(fragment: Record<string, unknown>): AbiFunction {
+  const name = fragment.name;
+  if (typeof name !== 'string' || !name) {
+    throw new Error('ABI function has no name');
+  }
+  const inputs = Array.isArray(fragment.inputs) ? fragment.inputs : [];
+  const outputs = Array.isArray(fragment.outputs) ? fragment.outputs : [];
+  // ABIs from before Solidity 0.4.16 only have the constant and payable flags
+  const stateMutability =
+    typeof fragment.stateMutability === 'string' && STATE_MUTABILITIES.has(fragment.stateMutability)
+      ? (fragment.stateMutability as AbiFunction['stateMutability'])
+      : fragment.constant
+        ? 'view'
+        : fragment.payable
+          ? 'payable'
+          : 'nonpayable';
+  return {
+    name,
+    inputs: inputs.map((input) => toAbiParameter(input, name)),
+    outputs: outputs.map((output) => toAbiParameter(output, name)),
+    stateMutability,
+  };
+}
+
+/**
+ * Functions of a contract ABI
+ *
+ * Takes a JSON ABI, a build artifact with an abi field, a JSON array of
+ * human-readable signatures, or signatures one per line. Events, errors and
+ * constructors are left out.
+ */
+export function parseAbi(input: string | unknown[] | Record<string, unknown>): AbiFunction[] {
+  let abi: unknown = input;
+  if (typeof input === 'string') {
+    const text = input.trim();
+    abi = /^[[{]/.test(text)
+      ? JSON.parse(text)
+      : text.split(/[\r\n]+/).filter((line) => line.trim());
+  }
+  if (isRecord(abi) && Array.isArray(abi.abi)) {
+    abi = abi.abi;
+  }
+  if (!Array.isArray(abi)) {
+    throw new Error('An ABI must be a JSON array or function signatures, one per line');
+  }
+
+  return abi.flatMap((fragment: unknown): AbiFunction[] => {
+    if (typeof fragment === 'string') {
+      return /^\s*(event|error|constructor|fallback|receive)\b/.test(fragment)
+        ? []
+        : [parseFunctionSignature(fragment)];
+    }
+    if (!isRecord(fragment)) {
+      throw new Error('ABI entries must be objects or signatures');
+    }
+    // The type defaults to function
+    return fragment.type === undefined || fragment.type === 'function'
+      ? [toAbiFunction(fragment)]
+      : [];
+  });
+}
+
+function canonicalType(parameter: AbiParameter): string {
+  if (!parameter.type.startsWith('tuple')) {
+    return parameter.type;
+  }
+  const components = (parameter.components ?? []).map(canonicalType).join(',');
+  return `(${components})${parameter.type.slice('tuple'.length)}`;
+}
+
+/**
+ * Canonical signature the selector is hashed from: `transfer(address,uint256)`
+ */
+export function getFunctionSignature(fn: AbiFunction): string {
+  return `${fn.name}(${fn.inputs.map(canonicalType).join(',')})`;
+}
+
+/**
+ * First 4 bytes of the signature's Keccak-256, 0x-prefixed
+ */
+export function getFunctionSelector(fn: AbiFunction): string {
+  return `0x${keccak256(getFunctionSignature(fn)).subarray(0, 4).toString('hex')}`;
+}
+
+/**
+ * Pick a function by name, signature or selector; an ABI with a single
+ * function needs none
+ */
+export function findAbiFunction(functions: AbiFunction[], name: string = ''): AbiFunction {
+  const wanted = name.trim();
+  if (!wanted) {
+    if (functions.length === 1) {
+      return functions[0];
+    }
+    throw new Error(
+      `The ABI has ${functions.length} functions; name the one to call ` +
+        `(${functions.map(({ name }) => name).join(', ')})`,
+    );
+  }
+
+  let matches: AbiFunction[];
+  if (/^0x[0-9a-fA-F]{8}$/.test(wanted)) {
+    matches = functions.filter((fn) => getFunctionSelector(fn) === wanted.toLowerCase());
+  } else if (wanted.includes('(')) {
+    const signature = getFunctionSignature(parseFunctionSignature(wanted));
+    matches = functions.filter((fn) => getFunctionSignature(fn) === signature);
+  } else {
+    matches = functions.filter((fn) => fn.name === wanted);
+  }
+
+  if (!matches.length) {
+    throw new Error(`Function ${wanted} is not in the ABI`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `Function ${wanted} is overloaded; give its signature, one of ` +
+        matches.map(getFunctionSignature).join(', '),
+    );
+  }
+  return matches[0];
+}
+
+function isDynamic(type: AbiType): boolean {
+  switch (type.kind) {
+    case 'string':
+      return true;
+    case 'bytes':
+      return type.size === undefined;
+    case 'array':
+      return type.length === undefined || isDynamic(type.entryType);
+    case 'tuple':
+      return type.components.some((component) => isDynamic(parseAbiType(component)));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Bytes a static type takes in place: one word, or all of a fixed array's or tuple's
+ */
+function staticSize(type: AbiType): number {
+  if (type.kind === 'array' && type.length !== undefined) {
+    return type.length * staticSize(type.entryType);
+  }
+  if (type.kind === 'tuple') {
+    return type.components.reduce((sum, component) => sum + staticSize(parseAbiType(component)), 0);
+  }
+  return WORD;
+}
+
+function padRight(data: Buffer): Buffer {
+  return Buffer.concat([data, Buffer.alloc((WORD - (data.length % WORD)) % WORD)]);
+}
+
+function encodeLength(length: number): Buffer {
+  return integerToBytes(BigInt(length), WORD);
+}
+
+/**
+ * Values of a tuple or parameter list, from an array or an object keyed by name
+ */
+function toSequence(parameters: AbiParameter[], value: unknown, label: string): unknown[] {
+  if (Array.isArray(value)) {
+    if (value.length !== parameters.length) {
+      throw new Error(`${label} takes ${parameters.length} values, got ${value.length}`);
+    }
+    return value;
+  }
+  if (isRecord(value)) {
+    return parameters.map(({ name }, i) => {
+      if (!name || !(name in value)) {
+        throw new Error(`${label} is missing ${name || `value ${i}`}`);
+      }
+      return value[name];
+    });
+  }
+  throw new Error(`Expected an array or object for ${label}`);
+}
+
+function encodeSequence(types: AbiType[], values: unknown[], labels: string[]): Buffer {
+  const headSize = types.reduce(
+    (sum, type) => sum + (isDynamic(type) ? WORD : staticSize(type)),
+    0,
+  );
+  const heads: Buffer[] = [];
+  const tails: Buffer[] = [];
+  let tailOffset = headSize;
+  types.forEach((type, i) => {
+    const encoded = encodeValue(type, values[i], labels[i]);
+    if (isDynamic(type)) {
+      heads.push(encodeLength(tailOffset));
+      tails.push(encoded);
+      tailOffset += encoded.length;
+    } else {
+      heads.push(encoded);
+    }
+  });
+  return Buffer.concat([...heads, ...tails]);
+}
+
+function encodeValue(type: AbiType, value: unknown, label: string): Buffer {
+  switch (type.kind) {
+    case 'uint':
+    case 'int':
+      if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+        throw new Error(`${label}: pass ${value} as a string to keep its precision`);
+      }
+      try {
+        return integerToBytes(toTypedDataInteger(value, type), WORD);
+      } catch (error) {
+        throw new Error(`${label}: ${(error as Error).message}`);
+      }
+    case 'bool':
+      if (typeof value !== 'boolean' && value !== 'true' && value !== 'false') {
+        throw new Error(`Expected true or false for ${label}`);
+      }
+      return encodeLength(value === true || value === 'true' ? 1 : 0);
+    case 'address':
+      if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+        throw new Error(`Expected a 0x-prefixed 20-byte address for ${label}`);
+      }
+      return Buffer.concat([Buffer.alloc(12), Buffer.from(value.slice(2), 'hex')]);
+    case 'string':
+    case 'bytes': {
+      if (type.kind === 'string' && typeof value !== 'string') {
+        throw new Error(`Expected a string for ${label}`);
+      }
+      const data =
+        type.kind === 'string'
+          ? Buffer.from(value as string, 'utf8')
+          : toTypedDataBytes(value, label);
+      if (type.kind === 'bytes' && type.size !== undefined) {
+        if (data.length !== type.size) {
+          throw new Error(`Expected ${type.size} bytes for ${label}, got ${data.length}`);
+        }
+        return padRight(data);
+      }
+      return Buffer.concat([encodeLength(data.length), padRight(data)]);
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        throw new Error(`Expected an array for ${label}`);
+      }
+      if (type.length !== undefined && value.length !== type.length) {
+        throw new Error(`Expected ${type.length} values for ${label}, got ${value.length}`);
+      }
+      const items = encodeSequence(
+        value.map(() => type.entryType),
+        value,
+        value.map((_, i) => `${label}[${i}]`),
+      );
+      return type.length === undefined ? Buffer.concat([encodeLength(value.length), items]) : items;
+    }
+    case 'tuple':
+      return encodeSequence(
+        type.components.map(parseAbiType),
+        toSequence(type.components, value, label),
+        type.components.map(({ name }, i) => `${label}.${name || i}`),
+      );
+  }
+}
+
+/**
+ * ABI-encode values for a parameter list, given as an array in order or an
+ * object keyed by parameter name
+ */
+export function encodeAbiParameters(parameters: AbiParameter[], values: unknown): Buffer {
+  return encodeSequence(
+    parameters.map(parseAbiType),
+    toSequence(parameters, values, 'Arguments'),
+    parameters.map(({ name }, i) => name || `argument ${i}`),
+  );
+}
+
+/**
+ * Call data for a function: its selector followed by the encoded arguments
+ */
+export function encodeFunctionCall(fn: AbiFunction, args: unknown = []): string {
+  return `${getFunctionSelector(fn)}${encodeAbiParameters(fn.inputs, args).toString('hex')}`;
+}
+
+function readWord(data: Buffer, offset: number): Buffer {
+  if (offset < 0 || offset + WORD > data.length) {
+    throw new Error('ABI data is too short for its types');
+  }
+  return data.subarray(offset, offset + WORD);
+}
+
+function readInteger(data: Buffer, offset: number, signed: boolean = false): bigint {
+  const value = BigInt(`0x${readWord(data, offset).toString('hex')}`);
+  const modulus = BigInt(2) ** BigInt(WORD * 8);
+  return signed && value >= modulus / BigInt(2) ? value - modulus : value;
+}
+
+function readOffset(data: Buffer, offset: number): number {
+  const value = readInteger(data, offset);
+  if (value > BigInt(data.length)) {
+    throw new Error('ABI data has an offset past its end');
+  }
+  return Number(value);
+}
+
+function decodeSequence(types: AbiType[], data: Buffer, base: number): unknown[] {
+  let head = base;
+  return types.map((type) => {
+    if (isDynamic(type)) {
+      const value = decodeValue(type, data, base + readOffset(data, head));
+      head += WORD;
+      return value;
+    }
+    const value = decodeValue(type, data, head);
+    head += staticSize(type);
+    return value;
+  });
+}
+
+/**
+ * Values keyed by name when every parameter is named, in order otherwise
+ */
+function toNamedValues(parameters: AbiParameter[], values: unknown[]): unknown {
+  if (!parameters.length || parameters.some(({ name }) => !name)) {
+    return values;
+  }
+  return Object.fromEntries(parameters.map(({ name }, i) => [name, values[i]]));
+}
+
+function decodeValue(type: AbiType, data: Buffer, offset: number): unknown {
+  switch (type.kind) {
+    case 'uint':
+    case 'int':
+      return readInteger(data, offset, type.kind === 'int').toString();
+    case 'bool':
+      return readInteger(data, offset) !== BigInt(0);
+    case 'address':
+      return checksumEthereumAddress(`0x${readWord(data, offset).subarray(12).toString('hex')}`);
+    case 'string':
+    case 'bytes': {
+      if (type.kind === 'bytes' && type.size !== undefined) {
+        return `0x${readWord(data, offset).subarray(0, type.size).toString('hex')}`;
+      }
+      const length = readOffset(data, offset);
+      const start = offset + WORD;
+      if (start + length > data.length) {
+        throw new Error('ABI data is too short for its types');
+      }
+      const bytes = data.subarray(start, start + length);
+      return type.kind === 'string' ? bytes.toString('utf8') : `0x${bytes.toString('hex')}`;
+    }
+    case 'array': {
+      const length = type.length ?? readOffset(data, offset);
+      const base = type.length === undefined ? offset + WORD : offset;
+      return decodeSequence(
+        Array.from({ length }, () => type.entryType),
+        data,
+        base,
+      );
+    }
+    case 'tuple':
+      return toNamedValues(
+        type.components,
+        decodeSequence(type.components.map(parseAbiType), data, offset),
+      );
+  }
+}
+
+/**
+ * Decode ABI-encoded data for a parameter list, returning the values in order
+ */
+export function decodeAbiParameters(parameters: AbiParameter[], data: string | Buffer): unknown[] {
+  const bytes = typeof data === 'string' ? toTypedDataBytes(data, 'ABI data') : data;
+  return decodeSequence(parameters.map(parseAbiType), bytes, 0);
+}
+
+/**
+ * Decode the return data of a call, keyed by output name or, for unnamed
+ * outputs, by position
+ */
+export function decodeFunctionResult(fn: AbiFunction, data: string): Record<string, unknown> {
+  const values = decodeAbiParameters(fn.outputs, data);
+  return Object.fromEntries(fn.outputs.map(({ name }, i) => [name || String(i), values[i]]));
+}
@@ -9,32 +9,222 @@
  * Address validation and utility functions for multiple blockchain networks
  */
 
-import * as crypto from 'crypto';
+import {
+  BITCOIN_LIKE_COINS,
+  COSMOS_CHAINS,
+  EVM_CHAINS,
+  type BitcoinLikeCoin,
+} from '../constants/coins';
+import type { AddressType } from '../constants/derivationPaths';
+import { BITCOIN_NETWORKS } from '../constants/networks';
+import {
+  base58CheckDecode,
+  base58CheckEncode,
+  bech32Decode,
+  bech32Encode,
+  cashAddrDecode,
+  cashAddrEncode,
+  convertBits,
+  decodeSegwitAddress,
+  encodeSegwitAddress,
+} from './encodingUtils';
+import { hash160, keccak256 } from './hashUtils';
+import { getTaprootOutputKey } from './secp256k1Utils';
+import { fromBaseUnits, toBaseUnits } from './transactionUtils';
+
+export type AddressNetwork = 'mainnet' | 'testnet';
+
+export type AddressScriptType =
+  | 'p2pkh'
+  | 'p2sh'
+  | 'p2wpkh'
+  | 'p2wsh'
+  | 'p2tr'
+  | 'witnessUnknown'
+  | 'account'
+  | 'contract';
 
 /**
- * Validate a Bitcoin address format
+ * Checksum-verified contents of an address
  */
-export function isValidBitcoinAddress(address: string, _network: 'mainnet' | 'testnet' = 'mainnet'): boolean {
-  if (!address || typeof address !== 'string') return false;
-  
-  // Legacy addresses (P2PKH) - start with 1 (mainnet) or m/n (testnet)
-  if (/^[1mn][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(address)) {
-    return true; // Simplified - real validation would check Base58Check checksum
+export interface DecodedAddress {
+  encoding: 'base58check' | 'cashaddr' | 'bech32' | 'bech32m' | 'hex';
+  /** Version byte (hex) for Base58Check, human-readable part for Bech32 and CashAddr, 0x for hex */
+  prefix: string;
+  /** Key hash, script hash, witness program or account bytes, in hex */
+  payload: string;
+  scriptType: AddressScriptType;
+  witnessVersion?: number;
+}
+
+// Display names accepted in place of coin symbols
+const COIN_ALIASES: Record<string, string> = {
+  BITCOIN: 'BTC',
+  LITECOIN: 'LTC',
+  DOGECOIN: 'DOGE',
+  BITCOINCASH: 'BCH',
+  ETHEREUM: 'ETH',
+  POLYGON: 'MATIC',
+  ARBITRUM: 'ARB',
+  OPTIMISM: 'OP',
+  BSC: 'BNB',
+  COSMOS: 'ATOM',
+  THORCHAIN: 'RUNE',
+  OSMOSIS: 'OSMO',
+};
+
+function resolveCoinSymbol(coin: string): string {
+  return COIN_ALIASES[coin.toUpperCase()] ?? coin.toUpperCase();
+}
+
+function getAddressPrefixes(
+  coin: BitcoinLikeCoin,
+  network: AddressNetwork,
+): { pubKeyHash?: number; scriptHash?: number; bech32?: string; cashAddr?: string } {
+  if (network === 'mainnet') {
+    return {
+      pubKeyHash: coin.addressPrefix,
+      scriptHash: coin.scriptPrefix,
+      bech32: coin.bech32Prefix,
+      cashAddr: coin.cashAddrPrefix,
+    };
   }
-  // SegWit addresses (P2SH) - start with 3 (mainnet) or 2 (testnet)
-  if (/^[32][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(address)) {
-    return true;
+  if (coin.symbol !== 'BTC') {
+    throw new Error(`No ${network} address prefixes are known for ${coin.symbol}`);
   }
-  // Native SegWit addresses (Bech32) - start with bc1 (mainnet) or tb1 (testnet)
-  if (/^(bc1|tb1)[a-z0-9]{25,90}$/.test(address)) {
-    return true;
+  const { pubKeyHash, scriptHash, bech32 } = BITCOIN_NETWORKS[network];
+  return { pubKeyHash, scriptHash, bech32 };
+}
+
+function getWitnessScriptType(version: number, program: Buffer): AddressScriptType {
+  if (version === 0) {
+    return program.length === 20 ? 'p2wpkh' : 'p2wsh';
   }
-  // Taproot addresses (Bech32m) - start with bc1p
-  if (/^bc1p[a-z0-9]{58}$/.test(address)) {
+  return version === 1 && program.length === 32 ? 'p2tr' : 'witnessUnknown';
+}
+
+function isDecodable(decode: () => unknown): boolean {
+  try {
+    decode();
     return true;
+  } catch {
+    return false;
   }
-  
-  return false;
+}
+
+/**
+ * Decode a Bitcoin-like address, verifying its checksum and network prefix
+ */
+export function decodeBitcoinAddress(
+  address: string,
+  coin: BitcoinLikeCoin,
+  network: AddressNetwork = 'mainnet',
+): DecodedAddress {
+  const prefixes = getAddressPrefixes(coin, network);
+  if (prefixes.bech32 && address.toLowerCase().startsWith(`${prefixes.bech32}1`)) {
+    const { version, program } = decodeSegwitAddress(prefixes.bech32, address);
+    return {
+      encoding: version === 0 ? 'bech32' : 'bech32m',
+      prefix: prefixes.bech32,
+      payload: program.toString('hex'),
+      scriptType: getWitnessScriptType(version, program),
+      witnessVersion: version,
+    };
+  }
+  // Legacy addresses start with 1 or 3; CashAddr payloads with q or p
+  if (prefixes.cashAddr && /^([a-z]+:)?[qp]/i.test(address)) {
+    const { prefix, type, hash } = cashAddrDecode(address, prefixes.cashAddr);
+    if (prefix !== prefixes.cashAddr) {
+      throw new Error(`Expected a ${prefixes.cashAddr} address, got prefix ${prefix}`);
+    }
+    if (type > 1 || hash.length !== 20) {
+      throw new Error(`Unsupported CashAddr type ${type}`);
+    }
+    return {
+      encoding: 'cashaddr',
+      prefix,
+      payload: hash.toString('hex'),
+      scriptType: type === 0 ? 'p2pkh' : 'p2sh',
+    };
+  }
+
+  const data = base58CheckDecode(address);
+  if (data.length !== 21) {
+    throw new Error(`Base58Check address must carry 21 bytes, got ${data.length}`);
+  }
+  const scriptType =
+    data[0] === prefixes.pubKeyHash ? 'p2pkh' : data[0] === prefixes.scriptHash ? 'p2sh' : null;
+  if (!scriptType) {
+    throw new Error(`Version byte ${data[0]} is not a ${coin.name} ${network} address`);
+  }
+  return {
+    encoding: 'base58check',
+    prefix: data.subarray(0, 1).toString('hex'),
+    payload: data.subarray(1).toString('hex'),
+    scriptType,
+  };
+}
+
+/**
+ * Decode a Cosmos SDK account address, verifying its checksum and prefix
+ */
+export function decodeCosmosAddress(address: string, prefix: string): DecodedAddress {
+  const { hrp, words, variant } = bech32Decode(address);
+  if (hrp !== prefix) {
+    throw new Error(`Expected a ${prefix} address, got prefix ${hrp}`);
+  }
+  if (variant !== 'bech32') {
+    throw new Error('Cosmos addresses must use Bech32');
+  }
+  const payload = Buffer.from(convertBits(words, 5, 8, false));
+  if (payload.length !== 20 && payload.length !== 32) {
+    throw new Error(`Cosmos addresses carry 20 or 32 bytes, got ${payload.length}`);
+  }
+  return {
+    encoding: 'bech32',
+    prefix,
+    payload: payload.toString('hex'),
+    scriptType: payload.length === 20 ? 'account' : 'contract',
+  };
+}
+
+/**
+ * Decode an address of a coin given by symbol or name
+ */
+export function decodeAddressForCoin(
+  address: string,
+  coin: string,
+  network: AddressNetwork = 'mainnet',
+): DecodedAddress {
+  const symbol = resolveCoinSymbol(coin);
+  if (BITCOIN_LIKE_COINS[symbol]) {
+    return decodeBitcoinAddress(address, BITCOIN_LIKE_COINS[symbol], network);
+  }
+  if (COSMOS_CHAINS[symbol]) {
+    return decodeCosmosAddress(address, COSMOS_CHAINS[symbol].prefix);
+  }
+  if (EVM_CHAINS[symbol]) {
+    if (!isValidEthereumAddress(address)) {
+      throw new Error('Ethereum addresses are 0x followed by 40 hex characters');
+    }
+    return {
+      encoding: 'hex',
+      prefix: '0x',
+      payload: address.slice(2).toLowerCase(),
+      scriptType: 'account',
+    };
+  }
+  throw new Error(`Unsupported coin ${coin}`);
+}
+
+/**
+ * Validate a Bitcoin address (checksum and network prefix)
+ */
+export function isValidBitcoinAddress(
+  address: string,
+  network: AddressNetwork = 'mainnet',
+): boolean {
+  return isDecodable(() => decodeBitcoinAddress(address, BITCOIN_LIKE_COINS.BTC, network));
 }
 
 /**
@@ -45,25 +235,24 @@ export function isValidEthereumAddress(address: string): boolean {
 }
 
 /**
- * Validate a Cosmos address format
+ * Validate a Cosmos address (checksum and prefix)
  */
 export function isValidCosmosAddress(address: string, prefix: string = 'cosmos'): boolean {
-  const regex = new RegExp(`^${prefix}1[a-z0-9]{38}$`);
-  return regex.test(address);
+  return isDecodable(() => decodeCosmosAddress(address, prefix));
 }
 
 /**
- * Validate a THORChain address format
+ * Validate a THORChain address
  */
 export function isValidThorchainAddress(address: string): boolean {
-  return /^thor1[a-z0-9]{38}$/.test(address);
+  return isValidCosmosAddress(address, 'thor');
 }
 
 /**
- * Validate an Osmosis address format
+ * Validate an Osmosis address
  */
 export function isValidOsmosisAddress(address: string): boolean {
-  return /^osmo1[a-z0-9]{38}$/.test(address);
+  return isValidCosmosAddress(address, 'osmo');
 }
 
 /**
@@ -72,7 +261,7 @@ export function isValidOsmosisAddress(address: string): boolean {
 export function detectAddressType(
   address: string,
 ): 'bitcoin' | 'ethereum' | 'cosmos' | 'thorchain' | 'osmosis' | 'unknown' {
-  if (isValidBitcoinAddress(address)) {
+  if (isValidBitcoinAddress(address) || isValidBitcoinAddress(address, 'testnet')) {
     return 'bitcoin';
   }
   if (isValidEthereumAddress(address)) {
@@ -96,96 +285,318 @@ export function detectAddressType(
 export function getBitcoinAddressType(
   address: string,
 ): 'legacy' | 'segwit' | 'nativeSegwit' | 'taproot' | 'unknown' {
-  if (/^[1][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(address)) {
-    return 'legacy';
+  let scriptType: AddressScriptType;
+  try {
+    scriptType = decodeBitcoinAddress(address, BITCOIN_LIKE_COINS.BTC).scriptType;
+  } catch {
+    return 'unknown';
   }
-  if (/^3[a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(address)) {
-    return 'segwit';
+  switch (scriptType) {
+    case 'p2pkh':
+      return 'legacy';
+    case 'p2sh':
+      return 'segwit';
+    case 'p2wpkh':
+    case 'p2wsh':
+      return 'nativeSegwit';
+    case 'p2tr':
+      return 'taproot';
+    default:
+      return 'unknown';
   }
-  if (/^bc1q[a-z0-9]{38,}$/.test(address)) {
-    return 'nativeSegwit';
-  }
-  if (/^bc1p[a-z0-9]{58}$/.test(address)) {
-    return 'taproot';
-  }
-  return 'unknown';
 }
 
 /**
  * Checksum an Ethereum address (EIP-55)
  */
 export function checksumEthereumAddress(address: string): string {
-  // Remove 0x prefix and lowercase
-  const addr = address.toLowerCase().replace('0x', '');
-  
-  // Create keccak256 hash of the lowercase address
-  const hash = crypto.createHash('sha3-256').update(addr).digest('hex');
-  
-  // Apply checksum based on hash
-  let checksummed = '0x';
-  for (let i = 0; i < addr.length; i++) {
-    // If the hash character is >= 8, uppercase the address character
-    if (parseInt(hash[i], 16) >= 8) {
-      checksummed += addr[i].toUpperCase();
-    } else {
-      checksummed += addr[i];
+  if (!isValidEthereumAddress(address)) {
+    throw new Error('Ethereum addresses are 0x followed by 40 hex characters');
+  }
+  const lower = address.slice(2).toLowerCase();
+  const hash = keccak256(lower).toString('hex');
+  const chars = [...lower].map((char, i) =>
+    parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char,
+  );
+  return `0x${chars.join('')}`;
+}
+
+/**
+ * Validate address for a specific coin
+ */
+export function validateAddressForCoin(address: string, coin: string): boolean {
+  return isDecodable(() => decodeAddressForCoin(address, coin));
+}
+
+/**
+ * Re-encode an address of a coin in another format, keeping its payload
+ *
+ * Formats are legacy or cashaddr for Bitcoin Cash, checksum (EIP-55) or
+ * lowercase for EVM chains, and another chain or Bech32 prefix for Cosmos.
+ */
+export function convertAddressFormat(address: string, coin: string, format: string): string {
+  const symbol = resolveCoinSymbol(coin);
+  const decoded = decodeAddressForCoin(address, symbol);
+  const payload = Buffer.from(decoded.payload, 'hex');
+
+  const cashAddrPrefix = BITCOIN_LIKE_COINS[symbol]?.cashAddrPrefix;
+  if (cashAddrPrefix && format === 'cashaddr') {
+    return cashAddrEncode(cashAddrPrefix, decoded.scriptType === 'p2sh' ? 1 : 0, payload);
+  }
+  if (cashAddrPrefix && format === 'legacy') {
+    const { addressPrefix, scriptPrefix } = BITCOIN_LIKE_COINS[symbol];
+    const version = decoded.scriptType === 'p2sh' ? scriptPrefix : addressPrefix;
+    return base58CheckEncode(Buffer.concat([Buffer.from([version ?? 0]), payload]));
+  }
+  if (COSMOS_CHAINS[symbol] && format !== 'legacy' && format !== 'cashaddr') {
+    const prefix = COSMOS_CHAINS[resolveCoinSymbol(format)]?.prefix ?? format.toLowerCase();
+    if (!/^[a-z]{1,83}$/.test(prefix)) {
+      throw new Error(`Invalid Bech32 prefix ${format}`);
     }
+    return bech32Encode(prefix, convertBits([...payload], 8, 5, true), 'bech32');
   }
-  
-  // If input was already checksummed and matches, return it
-  if (address.startsWith('0x') && address !== address.toLowerCase()) {
-    // Verify it's a valid checksum
-    const inputLower = address.toLowerCase();
-    if (inputLower === checksummed.toLowerCase()) {
-      return address; // Return original if it was already properly checksummed
+  if (EVM_CHAINS[symbol] && format === 'checksum') {
+    return checksumEthereumAddress(address);
+  }
+  if (EVM_CHAINS[symbol] && format === 'lowercase') {
+    return address.toLowerCase();
+  }
+  throw new Error(`${coin} addresses cannot be converted to ${format}`);
+}
+
+/**
+ * Payment request carried by a BIP-21, EIP-681 or Cosmos URI
+ */
+export interface PaymentRequest {
+  /** Recipient address */
+  address: string;
+  /** Amount in whole coins, or whole tokens when tokenContract is set */
+  amount?: string;
+  label?: string;
+  /** BIP-21 message, or the memo of a Cosmos transfer */
+  message?: string;
+  /** ERC-20 contract whose transfer(address,uint256) the URI calls */
+  tokenContract?: string;
+  tokenDecimals?: number;
+  /** EVM chain ID, defaults to the coin's */
+  chainId?: number;
+}
+
+// Decimal places of an amount in a payment URI, which BIP-21 writes in whole coins
+const BITCOIN_DECIMALS = 8;
+const ETHER_DECIMALS = 18;
+
+// BIP-21 style scheme of a Bitcoin-like coin, e.g. bitcoincash
+function getUriScheme(coin: BitcoinLikeCoin): string {
+  return coin.name.toLowerCase().replace(/\s/g, '');
+}
+
+function toQueryString(params: Record<string, string | undefined>): string {
+  const query = Object.entries(params)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '')
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Build a payment URI: BIP-21 for Bitcoin-like coins, EIP-681 for EVM chains
+ * (native value or an ERC-20 transfer) and cosmos: with amount in the base denom
+ */
+export function buildPaymentUri(coin: string, request: PaymentRequest): string {
+  const symbol = resolveCoinSymbol(coin);
+  const { address, amount, label, message } = request;
+  decodeAddressForCoin(address, symbol);
+
+  const bitcoinCoin = BITCOIN_LIKE_COINS[symbol];
+  if (bitcoinCoin) {
+    const satoshis = amount ? toBaseUnits(amount, BITCOIN_DECIMALS) : undefined;
+    return `${getUriScheme(bitcoinCoin)}:${address.replace(/^[a-z]+:/i, '')}${toQueryString({
+      amount: satoshis && fromBaseUnits(satoshis, BITCOIN_DECIMALS),
+      label,
+      message,
+    })}`;
+  }
+
+  const evmChain = EVM_CHAINS[symbol];
+  if (evmChain) {
+    const chainId = request.chainId ?? evmChain.chainId;
+    const { tokenContract } = request;
+    if (!tokenContract) {
+      return `ethereum:${address}@${chainId}${toQueryString({
+        value: amount ? toBaseUnits(amount, ETHER_DECIMALS) : undefined,
+      })}`;
+    }
+    if (!isValidEthereumAddress(tokenContract)) {
+      throw new Error(`Invalid token contract address: ${tokenContract}`);
     }
+    return `ethereum:${tokenContract}@${chainId}/transfer${toQueryString({
+      address,
+      uint256: amount ? toBaseUnits(amount, request.tokenDecimals ?? ETHER_DECIMALS) : undefined,
+    })}`;
   }
-  
-  return checksummed;
+
+  const cosmosChain = COSMOS_CHAINS[symbol];
+  return `cosmos:${address}${toQueryString({
+    chain_id: cosmosChain.chainId,
+    amount: amount ? toBaseUnits(amount, cosmosChain.decimals) : undefined,
+    denom: amount ? cosmosChain.denom : undefined,
+    memo: message,
+  })}`;
 }
 
 /**
- * Validate address for a specific coin
+ * Payment request read from a URI, with the coin it pays in
  */
-export function validateAddressForCoin(address: string, coin: string): boolean {
-  const coinUpper = coin.toUpperCase();
-  
-  // Bitcoin and Bitcoin-like
-  if (coinUpper === 'BTC' || coinUpper === 'BITCOIN') {
-    return isValidBitcoinAddress(address);
+export interface ParsedPaymentUri extends PaymentRequest {
+  coin: string;
+  /** Amount in satoshis, wei, token units or the Cosmos base denom */
+  baseUnits?: string;
+}
+
+function parseQuery(query: string | undefined): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const pair of query ? query.split('&') : []) {
+    const separator = pair.indexOf('=');
+    const key = decodeURIComponent(separator < 0 ? pair : pair.slice(0, separator));
+    if (key in params) {
+      throw new Error(`Duplicate URI parameter ${key}`);
+    }
+    params[key] = separator < 0 ? '' : decodeURIComponent(pair.slice(separator + 1));
   }
-  if (coinUpper === 'LTC' || coinUpper === 'LITECOIN') {
-    // Litecoin addresses start with L, M, or ltc1
-    return /^[LM3][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(address) || /^ltc1[a-z0-9]{25,90}$/.test(address);
+  return params;
+}
+
+/**
+ * EIP-681 numbers may use an exponent, e.g. 2.014e18, but must be whole
+ */
+function parseEip681Number(value: string): string {
+  const match = /^(\d+)(?:\.(\d+))?(?:e(\d+))?$/i.exec(value);
+  if (!match) {
+    throw new Error(`Invalid EIP-681 number ${value}`);
   }
-  if (coinUpper === 'DOGE' || coinUpper === 'DOGECOIN') {
-    return /^D[5-9A-HJ-NP-U][a-km-zA-HJ-NP-Z1-9]{24,33}$/.test(address);
+  const [, whole, fraction = '', exponent = '0'] = match;
+  const shift = Number(exponent) - fraction.length;
+  const digits = `${whole}${fraction}`;
+  if (shift < 0 && !/^0+$/.test(digits.slice(shift))) {
+    throw new Error(`EIP-681 number ${value} is not a whole number of base units`);
   }
-  if (coinUpper === 'BCH') {
-    return /^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(address) || /^bitcoincash:[a-z0-9]{42}$/.test(address);
+  return BigInt(shift < 0 ? digits.slice(0, shift) : digits.padEnd(digits.length + shift, '0'))
+    .toString();
+}
+
+function parseBitcoinUri(
+  coin: BitcoinLikeCoin,
+  path: string,
+  params: Record<string, string>,
+): ParsedPaymentUri {
+  const required = Object.keys(params).find((key) => key.startsWith('req-'));
+  if (required) {
+    throw new Error(`Unsupported required parameter ${required}`);
   }
-  
-  // Ethereum and EVM chains
-  if (coinUpper === 'ETH' || coinUpper === 'ETHEREUM' || 
-      coinUpper === 'MATIC' || coinUpper === 'POLYGON' ||
-      coinUpper === 'ARB' || coinUpper === 'ARBITRUM' ||
-      coinUpper === 'OP' || coinUpper === 'OPTIMISM' ||
-      coinUpper === 'AVAX' || coinUpper === 'BNB' || coinUpper === 'BSC') {
-    return isValidEthereumAddress(address);
+  // CashAddr keeps its prefix, which doubles as the URI scheme
+  const address =
+    coin.cashAddrPrefix && /^[qp]/i.test(path) ? `${coin.cashAddrPrefix}:${path}` : path;
+  const baseUnits = params.amount ? toBaseUnits(params.amount, BITCOIN_DECIMALS) : undefined;
+  return {
+    coin: coin.symbol,
+    address,
+    amount: baseUnits && fromBaseUnits(baseUnits, BITCOIN_DECIMALS),
+    baseUnits,
+    label: params.label,
+    message: params.message,
+  };
+}
+
+function parseEthereumUri(path: string, params: Record<string, string>): ParsedPaymentUri {
+  const match = /^(?:pay-)?(0x[0-9a-fA-F]{40})(?:@(\d+))?(?:\/(\w+))?$/.exec(path);
+  if (!match) {
+    throw new Error(`Unsupported EIP-681 target ${path}; ENS names are not resolved`);
   }
-  
-  // Cosmos chains
-  if (coinUpper === 'ATOM' || coinUpper === 'COSMOS') {
-    return isValidCosmosAddress(address, 'cosmos');
+  const [, target, chainIdText = '1', functionName] = match;
+  const chainId = Number(chainIdText);
+  const chain = Object.values(EVM_CHAINS).find((evmChain) => evmChain.chainId === chainId);
+  if (!chain) {
+    throw new Error(`Unknown EVM chain ID ${chainId}`);
   }
-  if (coinUpper === 'RUNE' || coinUpper === 'THORCHAIN') {
-    return isValidThorchainAddress(address);
+
+  if (!functionName) {
+    const baseUnits = params.value ? parseEip681Number(params.value) : undefined;
+    return {
+      coin: chain.symbol,
+      address: target,
+      chainId,
+      amount: baseUnits && fromBaseUnits(baseUnits, ETHER_DECIMALS),
+      baseUnits,
+    };
   }
-  if (coinUpper === 'OSMO' || coinUpper === 'OSMOSIS') {
-    return isValidOsmosisAddress(address);
+  if (functionName !== 'transfer') {
+    throw new Error(`Unsupported EIP-681 function ${functionName}`);
   }
-  
-  return false;
+  if (!params.address) {
+    throw new Error('EIP-681 transfer URIs need an address parameter');
+  }
+  return {
+    coin: chain.symbol,
+    address: params.address,
+    chainId,
+    tokenContract: target,
+    baseUnits: params.uint256 ? parseEip681Number(params.uint256) : undefined,
+  };
+}
+
+function parseCosmosUri(path: string, params: Record<string, string>): ParsedPaymentUri {
+  const prefix = path.slice(0, path.lastIndexOf('1')).toLowerCase();
+  const chain = Object.values(COSMOS_CHAINS).find((cosmosChain) => cosmosChain.prefix === prefix);
+  if (!chain) {
+    throw new Error(`Unknown Cosmos address prefix ${prefix}`);
+  }
+  if (params.chain_id && params.chain_id !== chain.chainId) {
+    throw new Error(`Chain ID ${params.chain_id} does not match ${chain.name}`);
+  }
+  if (params.denom && params.denom !== chain.denom) {
+    throw new Error(`Unsupported denom ${params.denom}; ${chain.name} pays in ${chain.denom}`);
+  }
+  const baseUnits = params.amount ? toBaseUnits(params.amount, 0) : undefined;
+  return {
+    coin: chain.symbol,
+    address: path,
+    amount: baseUnits && fromBaseUnits(baseUnits, chain.decimals),
+    baseUnits,
+    message: params.memo,
+  };
+}
+
+/**
+ * Parse a BIP-21, EIP-681 or cosmos: payment URI and validate its address
+ */
+export function parsePaymentUri(uri: string): ParsedPaymentUri {
+  const match = /^([a-z][a-z0-9+.-]*):([^?]+)(?:\?(.*))?$/i.exec(uri.trim());
+  if (!match) {
+    throw new Error('Payment URIs have the form scheme:address?parameters');
+  }
+  const [, schemeText, path, query] = match;
+  const scheme = schemeText.toLowerCase();
+  const params = parseQuery(query);
+
+  const bitcoinCoin = Object.values(BITCOIN_LIKE_COINS).find(
+    (coin) => getUriScheme(coin) === scheme,
+  );
+  let request: ParsedPaymentUri;
+  if (bitcoinCoin) {
+    request = parseBitcoinUri(bitcoinCoin, path, params);
+  } else if (scheme === 'ethereum') {
+    request = parseEthereumUri(path, params);
+  } else if (scheme === 'cosmos') {
+    request = parseCosmosUri(path, params);
+  } else {
+    throw new Error(`Unsupported payment URI scheme ${scheme}`);
+  }
+
+  if (!validateAddressForCoin(request.address, request.coin)) {
+    throw new Error(`Invalid ${request.coin} address ${request.address}`);
+  }
+  return request;
 }
 
 /**
@@ -245,3 +656,62 @@ export function createAddressInfo(
     verified,
   };
 }
+
+/**
+ * Address for a standard output script (P2PKH, P2SH or any witness program)
+ */
+export function scriptToAddress(script: Buffer, coin: BitcoinLikeCoin): string {
+  const hex = script.toString('hex');
+
+  if (/^76a914[0-9a-f]{40}88ac$/.test(hex) && coin.addressPrefix !== undefined) {
+    const payload = Buffer.concat([Buffer.from([coin.addressPrefix]), script.subarray(3, 23)]);
+    return base58CheckEncode(payload);
+  }
+  if (/^a914[0-9a-f]{40}87$/.test(hex) && coin.scriptPrefix !== undefined) {
+    const payload = Buffer.concat([Buffer.from([coin.scriptPrefix]), script.subarray(2, 22)]);
+    return base58CheckEncode(payload);
+  }
+
+  // Witness program: OP_0 or OP_1..OP_16, then a single 2-40 byte push
+  const opcode = script[0];
+  const version = opcode === 0 ? 0 : opcode - 0x50;
+  const program = script.subarray(2);
+  const isWitness =
+    (opcode === 0 || (opcode >= 0x51 && opcode <= 0x60)) &&
+    script[1] === program.length &&
+    program.length >= 2 &&
+    program.length <= 40;
+  if (isWitness && coin.bech32Prefix) {
+    return encodeSegwitAddress(coin.bech32Prefix, version, program);
+  }
+
+  throw new Error(`Output script ${hex} has no ${coin.name} address`);
+}
+
+/**
+ * Address of a compressed public key for a script type
+ */
+export function publicKeyToAddress(
+  publicKey: Buffer,
+  addressType: AddressType,
+  coin: BitcoinLikeCoin,
+): string {
+  const keyHash = hash160(publicKey).toString('hex');
+  const witnessProgram = `0014${keyHash}`;
+  let script: string;
+  switch (addressType) {
+    case 'legacy':
+      script = `76a914${keyHash}88ac`;
+      break;
+    case 'segwit':
+      script = `a914${hash160(Buffer.from(witnessProgram, 'hex')).toString('hex')}87`;
+      break;
+    case 'nativeSegwit':
+      script = witnessProgram;
+      break;
+    case 'taproot':
+      script = `5120${getTaprootOutputKey(publicKey).toString('hex')}`;
+      break;
+  }
+  return scriptToAddress(Buffer.from(script, 'hex'), coin);
+}
@@ -0,0 +1,101 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * BIP32 extended public keys and public child derivation
+ */
+
+import * as crypto from 'crypto';
+
+import { HARDENED_OFFSET } from '../constants/derivationPaths';
+import { base58CheckDecode, base58CheckEncode } from './encodingUtils';
+import { hash160 } from './hashUtils';
+import { tweakPublicKey } from './secp256k1Utils';
+
+export interface ExtendedPublicKey {
+  /** Version bytes, e.g. 0x0488b21e for xpub */
+  version: number;
+  depth: number;
+  parentFingerprint: number;
+  childNumber: number;
+  chainCode: Buffer;
+  /** Compressed public key */
+  publicKey: Buffer;
+}
+
+/**
+ * Decode an extended public key (xpub, ypub, zpub, tpub...)
+ */
+export function decodeExtendedPublicKey(encoded: string): ExtendedPublicKey {
+  const data = base58CheckDecode(encoded.trim());
+  if (data.length !== 78) {
+    throw new Error(`Extended key must be 78 bytes, got ${data.length}`);
+  }
+  const publicKey = data.subarray(45);
+  if (publicKey[0] !== 0x02 && publicKey[0] !== 0x03) {
+    throw new Error('Extended key is not a public key');
+  }
+  return {
+    version: data.readUInt32BE(0),
+    depth: data[4],
+    parentFingerprint: data.readUInt32BE(5),
+    childNumber: data.readUInt32BE(9),
+    chainCode: Buffer.from(data.subarray(13, 45)),
+    publicKey: Buffer.from(publicKey),
+  };
+}
+
+/**
+ * Encode an extended public key in Base58Check
+ */
+export function encodeExtendedPublicKey(key: ExtendedPublicKey): string {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(key.version, 0);
+  header[4] = key.depth;
+  header.writeUInt32BE(key.parentFingerprint, 5);
+  header.writeUInt32BE(key.childNumber, 9);
+  return base58CheckEncode(Buffer.concat([header, key.chainCode, key.publicKey]));
+}
+
+/**
+ * Derive an unhardened child (CKDpub)
+ */
+export function deriveChildPublicKey(parent: ExtendedPublicKey, index: number): ExtendedPublicKey {
+  if (index >= HARDENED_OFFSET) {
+    throw new Error(`Cannot derive hardened child ${index} from an extended public key`);
+  }
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid child index ${index}`);
+  }
+  const data = Buffer.alloc(37);
+  parent.publicKey.copy(data);
+  data.writeUInt32BE(index, 33);
+  const digest = crypto.createHmac('sha512', parent.chainCode).update(data).digest();
+
+  let publicKey: Buffer;
+  try {
+    publicKey = tweakPublicKey(parent.publicKey, digest.subarray(0, 32));
+  } catch {
+    // Probability below 2^-127; BIP32 skips to the next index
+    throw new Error(`Child ${index} is not a valid key, use the next index`);
+  }
+  return {
+    version: parent.version,
+    depth: parent.depth + 1,
+    parentFingerprint: hash160(parent.publicKey).readUInt32BE(0),
+    childNumber: index,
+    chainCode: Buffer.from(digest.subarray(32)),
+    publicKey,
+  };
+}
+
+/**
+ * Derive the key at an unhardened path below an extended public key
+ */
+export function derivePublicKeyPath(key: ExtendedPublicKey, path: number[]): ExtendedPublicKey {
+  return path.reduce((parent, index) => deriveChildPublicKey(parent, index), key);
+}
@@ -0,0 +1,221 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * UTXO coin selection
+ *
+ * Branch and bound looks for a set of UTXOs that pays the outputs and fee
+ * without a change output, wasting less than the cost of creating and later
+ * spending one; it falls back to largest-first when no such set exists.
+ * Largest-first and oldest-first add UTXOs in order until the outputs and
+ * fee are covered, adding change when it is above the coin's dust threshold.
+ * Sizes come from estimateBitcoinTxSize for the wallet's script type.
+ */
+
+import type { AddressType } from '../constants/derivationPaths';
+import { estimateBitcoinTxSize, type BitcoinInput, type BitcoinOutput } from './transactionUtils';
+
+export type CoinSelectionStrategy = 'branchAndBound' | 'largestFirst' | 'oldestFirst';
+
+/**
+ * A spendable output, with its confirmations for oldest-first selection
+ */
+export interface Utxo extends BitcoinInput {
+  confirmations?: number;
+}
+
+export interface CoinSelectionOptions {
+  utxos: Utxo[];
+  /** Payments, without change */
+  outputs: BitcoinOutput[];
+  /** sat/vB */
+  feeRate: number;
+  addressType: AddressType;
+  /** Path of the change output, on the account's change chain */
+  changePath: number[];
+  /** Smallest change output worth creating, in satoshis */
+  dustThreshold: number;
+  strategy?: CoinSelectionStrategy;
+  /** Outpoints (txid:vout) never to spend */
+  exclude?: string[];
+}
+
+export interface CoinSelection {
+  /** Strategy that produced the selection, after any fallback */
+  strategy: CoinSelectionStrategy;
+  inputs: Utxo[];
+  /** Payments, then the change output when there is one */
+  outputs: BitcoinOutput[];
+  fee: number;
+  vsize: number;
+  change: number;
+}
+
+// Bitcoin Core's limit on branch and bound search steps
+const BNB_MAX_TRIES = 100000;
+
+/**
+ * Outpoint of a UTXO as txid:vout
+ */
+export function toOutpoint(utxo: Pick<BitcoinInput, 'txid' | 'vout'>): string {
+  return `${utxo.txid.toLowerCase()}:${utxo.vout}`;
+}
+
+function getFee(numInputs: number, numOutputs: number, options: CoinSelectionOptions): number {
+  return Math.ceil(
+    estimateBitcoinTxSize(numInputs, numOutputs, options.addressType) * options.feeRate,
+  );
+}
+
+/**
+ * Search for the input set whose value after input fees lands closest above
+ * the target without reaching target + costOfChange
+ */
+function branchAndBound(
+  utxos: Utxo[],
+  target: number,
+  costOfChange: number,
+  inputFee: number,
+): Utxo[] | null {
+  const pool = utxos
+    .map((utxo) => ({ utxo, effective: utxo.value - inputFee }))
+    .filter(({ effective }) => effective > 0)
+    .sort((a, b) => b.effective - a.effective);
+  // Value still available from each position on, to prune branches that cannot reach the target
+  const remaining = pool.map((_, index) =>
+    pool.slice(index).reduce((sum, { effective }) => sum + effective, 0),
+  );
+
+  const best = { indexes: null as number[] | null, excess: Infinity };
+  const selected: number[] = [];
+  let tries = 0;
+
+  const search = (index: number, value: number): void => {
+    if (++tries > BNB_MAX_TRIES || value > target + costOfChange) {
+      return;
+    }
+    if (value >= target) {
+      if (value - target < best.excess) {
+        best.indexes = [...selected];
+        best.excess = value - target;
+      }
+      return;
+    }
+    if (index >= pool.length || value + remaining[index] < target) {
+      return;
+    }
+    // Including a UTXO equal to a skipped one before it explores the same sets again
+    const duplicate =
+      index > 0 &&
+      selected[selected.length - 1] !== index - 1 &&
+      pool[index - 1].effective === pool[index].effective;
+    if (!duplicate) {
+      selected.push(index);
+      search(index + 1, value + pool[index].effective);
+      selected.pop();
+    }
+    search(index + 1, value);
+  };
+  search(0, 0);
+
+  return best.indexes?.map((index) => pool[index].utxo) ?? null;
+}
+
+/**
+ * Add UTXOs in order until the payments and fee are covered
+ */
+function accumulate(
+  utxos: Utxo[],
+  payment: number,
+  options: CoinSelectionOptions,
+): { inputs: Utxo[]; change: number } | null {
+  const numOutputs = options.outputs.length;
+  const inputs: Utxo[] = [];
+  let total = 0;
+  for (const utxo of utxos) {
+    inputs.push(utxo);
+    total += utxo.value;
+    const change = total - payment - getFee(inputs.length, numOutputs + 1, options);
+    if (change >= options.dustThreshold) {
+      return { inputs, change };
+    }
+    // Too little left for change: the remainder goes to the fee
+    if (total - payment >= getFee(inputs.length, numOutputs, options)) {
+      return { inputs, change: 0 };
+    }
+  }
+  return null;
+}
+
+/**
+ * Pick the UTXOs that pay the outputs, and the change output if any
+ */
+export function selectCoins(options: CoinSelectionOptions): CoinSelection {
+  const { outputs, feeRate, dustThreshold, addressType } = options;
+  if (!outputs.length) {
+    throw new Error('A transaction needs at least one output');
+  }
+  if (!(feeRate > 0)) {
+    throw new Error(`Fee rate must be positive, got ${feeRate}`);
+  }
+  for (const output of outputs) {
+    if (output.opReturnData === undefined && output.value < dustThreshold) {
+      throw new Error(
+        `Output of ${output.value} sat is below the dust threshold of ${dustThreshold} sat`,
+      );
+    }
+  }
+
+  const excluded = new Set((options.exclude ?? []).map((outpoint) => outpoint.toLowerCase()));
+  const utxos = options.utxos.filter((utxo) => !excluded.has(toOutpoint(utxo)));
+  const payment = outputs.reduce((sum, output) => sum + output.value, 0);
+
+  let strategy = options.strategy ?? 'branchAndBound';
+  let selection: { inputs: Utxo[]; change: number } | null = null;
+  if (strategy === 'branchAndBound') {
+    const inputFee = getFee(1, 0, options) - getFee(0, 0, options);
+    const changeOutputFee = getFee(0, 1, options) - getFee(0, 0, options);
+    const inputs = branchAndBound(
+      utxos,
+      payment + getFee(0, outputs.length, options),
+      changeOutputFee + inputFee,
+      inputFee,
+    );
+    if (inputs) {
+      selection = { inputs, change: 0 };
+    } else {
+      strategy = 'largestFirst';
+    }
+  }
+  if (!selection) {
+    const ordered = [...utxos].sort((a, b) =>
+      strategy === 'oldestFirst'
+        ? (b.confirmations ?? 0) - (a.confirmations ?? 0)
+        : b.value - a.value,
+    );
+    selection = accumulate(ordered, payment, options);
+  }
+  if (!selection) {
+    const available = utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+    const needed = payment + getFee(utxos.length, outputs.length, options);
+    throw new Error(`Insufficient funds: ${available} sat available, ${needed} sat needed`);
+  }
+
+  const { inputs, change } = selection;
+  const allOutputs = change
+    ? [...outputs, { addressN: options.changePath, value: change }]
+    : [...outputs];
+  const total = inputs.reduce((sum, utxo) => sum + utxo.value, 0);
+  return {
+    strategy,
+    inputs,
+    outputs: allOutputs,
+    fee: total - payment - change,
+    vsize: estimateBitcoinTxSize(inputs.length, allOutputs.length, addressType),
+    change,
+  };
+}
@@ -0,0 +1,317 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Output script descriptors (BIP-380 to BIP-386)
+ *
+ * Covers the descriptors a hardware wallet account exports: single-key
+ * pkh/wpkh/sh(wpkh)/tr and multi/sortedmulti under sh, wsh or sh(wsh), with
+ * key origins and the BIP-380 checksum.
+ */
+
+import { HARDENED_OFFSET, type AddressType } from '../constants/derivationPaths';
+import { base58CheckDecode, base58CheckEncode } from './encodingUtils';
+
+export type DescriptorScript =
+  'pkh' | 'sh-wpkh' | 'wpkh' | 'tr' | 'sh-multi' | 'sh-wsh-multi' | 'wsh-multi';
+
+export interface DescriptorKey {
+  /** Master key fingerprint, 8 hex characters */
+  fingerprint?: string;
+  /** Path from the master key to this key */
+  originPath?: number[];
+  /** Extended public key, or a hex public key */
+  key: string;
+  /** Steps below the key */
+  childPath: number[];
+  /** Whether a final unhardened wildcard step follows childPath */
+  wildcard: boolean;
+}
+
+export interface OutputDescriptor {
+  script: DescriptorScript;
+  keys: DescriptorKey[];
+  /** m of an m-of-n multisig descriptor */
+  threshold?: number;
+  /** sortedmulti: the script orders keys by public key */
+  sorted?: boolean;
+}
+
+/**
+ * Address type each descriptor script pays to
+ */
+export const DESCRIPTOR_ADDRESS_TYPES: Record<DescriptorScript, AddressType> = {
+  pkh: 'legacy',
+  'sh-wpkh': 'segwit',
+  wpkh: 'nativeSegwit',
+  tr: 'taproot',
+  'sh-multi': 'legacy',
+  'sh-wsh-multi': 'segwit',
+  'wsh-multi': 'nativeSegwit',
+};
+
+/**
+ * Single-key descriptor script for each address type
+ */
+export const SINGLE_KEY_SCRIPTS: Record<AddressType, DescriptorScript> = {
+  legacy: 'pkh',
+  segwit: 'sh-wpkh',
+  nativeSegwit: 'wpkh',
+  taproot: 'tr',
+};
+
+const INPUT_CHARSET =
+  '0123456789()[],\'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATORS = [0xf5dee51989, 0xa9fdca3312, 0x1bab10e32d, 0x3706b1677a, 0x644d626ffd].map(
+  (generator) => BigInt(generator),
+);
+
+// SLIP-132 versions (ypub, zpub, Ypub, Zpub, testnet forms) that descriptors spell as xpub/tpub
+const XPUB_VERSION = 0x0488b21e;
+const TPUB_VERSION = 0x043587cf;
+const SLIP132_VERSIONS: Record<number, number> = {
+  0x049d7cb2: XPUB_VERSION,
+  0x04b24746: XPUB_VERSION,
+  0x0295b43f: XPUB_VERSION,
+  0x02aa7ed3: XPUB_VERSION,
+  0x044a5262: TPUB_VERSION,
+  0x045f1cf6: TPUB_VERSION,
+  0x024289ef: TPUB_VERSION,
+  0x02575483: TPUB_VERSION,
+};
+
+const MULTI_WRAPPERS: Record<string, DescriptorScript> = {
+  sh: 'sh-multi',
+  wsh: 'wsh-multi',
+  'sh(wsh': 'sh-wsh-multi',
+};
+
+function polymod(symbols: number[]): bigint {
+  let checksum = BigInt(1);
+  for (const symbol of symbols) {
+    const top = checksum >> BigInt(35);
+    checksum = ((checksum & BigInt(0x7ffffffff)) << BigInt(5)) ^ BigInt(symbol);
+    GENERATORS.forEach((generator, i) => {
+      if ((top >> BigInt(i)) & BigInt(1)) {
+        checksum ^= generator;
+      }
+    });
+  }
+  return checksum;
+}
+
+/**
+ * BIP-380 checksum of a descriptor without its #checksum suffix
+ */
+export function descriptorChecksum(descriptor: string): string {
+  const symbols: number[] = [];
+  let groups: number[] = [];
+  for (const char of descriptor) {
+    const position = INPUT_CHARSET.indexOf(char);
+    if (position < 0) {
+      throw new Error(`Invalid descriptor character ${JSON.stringify(char)}`);
+    }
+    symbols.push(position & 31);
+    groups.push(position >> 5);
+    if (groups.length === 3) {
+      symbols.push(groups[0] * 9 + groups[1] * 3 + groups[2]);
+      groups = [];
+    }
+  }
+  if (groups.length === 1) {
+    symbols.push(groups[0]);
+  } else if (groups.length === 2) {
+    symbols.push(groups[0] * 3 + groups[1]);
+  }
+
+  const checksum = polymod([...symbols, 0, 0, 0, 0, 0, 0, 0, 0]) ^ BigInt(1);
+  let encoded = '';
+  for (let i = 0; i < 8; i++) {
+    encoded += CHECKSUM_CHARSET[Number((checksum >> BigInt(5 * (7 - i))) & BigInt(31))];
+  }
+  return encoded;
+}
+
+/**
+ * Spell an extended public key with the plain xpub/tpub version descriptors expect
+ */
+export function toDescriptorXpub(xpub: string): string {
+  const data = Buffer.from(base58CheckDecode(xpub));
+  const version = SLIP132_VERSIONS[data.readUInt32BE(0)];
+  if (version === undefined) {
+    return xpub;
+  }
+  data.writeUInt32BE(version, 0);
+  return base58CheckEncode(data);
+}
+
+function parsePathStep(step: string, label: string): number {
+  const match = /^(\d+)(['hH]?)$/.exec(step);
+  const value = match ? Number(match[1]) : NaN;
+  if (!match || value >= HARDENED_OFFSET) {
+    throw new Error(`Invalid path step "${step}" in ${label}`);
+  }
+  return match[2] ? value + HARDENED_OFFSET : value;
+}
+
+function formatPath(path: number[]): string {
+  return path
+    .map((step) => (step >= HARDENED_OFFSET ? `/${step - HARDENED_OFFSET}h` : `/${step}`))
+    .join('');
+}
+
+function parseKey(expression: string): DescriptorKey {
+  const origin = /^\[([0-9a-fA-F]{8})((?:\/[^/\]]+)*)\](.*)$/.exec(expression);
+  const [keyText, ...steps] = (origin ? origin[3] : expression).split('/');
+  if (!keyText) {
+    throw new Error(`Missing key in "${expression}"`);
+  }
+  const wildcard = steps[steps.length - 1] === '*';
+  if (/^\*['hH]$/.test(steps[steps.length - 1] ?? '')) {
+    throw new Error('Hardened wildcards cannot be derived from an extended public key');
+  }
+  return {
+    ...(origin && {
+      fingerprint: origin[1].toLowerCase(),
+      originPath: origin[2]
+        .split('/')
+        .slice(1)
+        .map((step) => parsePathStep(step, expression)),
+    }),
+    key: keyText,
+    childPath: (wildcard ? steps.slice(0, -1) : steps).map((step) =>
+      parsePathStep(step, expression),
+    ),
+    wildcard,
+  };
+}
+
+/**
+ * Text of a key expression, e.g. [d34db33f/84h/0h/0h]xpub.../0/*
+ */
+export function formatDescriptorKey(key: DescriptorKey): string {
+  const origin =
+    key.fingerprint !== undefined ? `[${key.fingerprint}${formatPath(key.originPath ?? [])}]` : '';
+  return `${origin}${key.key}${formatPath(key.childPath)}${key.wildcard ? '/*' : ''}`;
+}
+
+function unwrap(expression: string, name: string): string | null {
+  return expression.startsWith(`${name}(`) && expression.endsWith(')')
+    ? expression.slice(name.length + 1, -1)
+    : null;
+}
+
+/**
+ * Parse a descriptor, verifying its checksum when one is attached
+ */
+export function parseDescriptor(text: string): OutputDescriptor {
+  const [body, checksum, ...rest] = text.trim().split('#');
+  if (rest.length) {
+    throw new Error('Descriptor has more than one checksum');
+  }
+  if (checksum !== undefined && descriptorChecksum(body) !== checksum) {
+    throw new Error(`Invalid descriptor checksum ${checksum}`);
+  }
+
+  const single: Array<[string, DescriptorScript]> = [
+    ['pkh', 'pkh'],
+    ['wpkh', 'wpkh'],
+    ['tr', 'tr'],
+  ];
+  for (const [name, script] of single) {
+    const inner = unwrap(body, name);
+    if (inner !== null) {
+      if (inner.includes(',')) {
+        throw new Error('Taproot script trees are not supported');
+      }
+      return { script, keys: [parseKey(inner)] };
+    }
+  }
+  const nested = unwrap(body, 'sh');
+  const nestedKey = nested !== null ? unwrap(nested, 'wpkh') : null;
+  if (nestedKey !== null) {
+    return { script: 'sh-wpkh', keys: [parseKey(nestedKey)] };
+  }
+
+  for (const [wrapper, script] of Object.entries(MULTI_WRAPPERS)) {
+    const inner = wrapper === 'sh(wsh' ? unwrap(nested ?? '', 'wsh') : unwrap(body, wrapper);
+    if (inner === null) {
+      continue;
+    }
+    const sortedArgs = unwrap(inner, 'sortedmulti');
+    const args = sortedArgs ?? unwrap(inner, 'multi');
+    if (args === null) {
+      continue;
+    }
+    const [threshold, ...keys] = args.split(',');
+    const m = Number(threshold);
+    if (!/^\d+$/.test(threshold) || m < 1 || m > keys.length) {
+      throw new Error(`Invalid multisig threshold ${threshold} for ${keys.length} keys`);
+    }
+    return { script, keys: keys.map(parseKey), threshold: m, sorted: sortedArgs !== null };
+  }
+
+  throw new Error(`Unsupported descriptor ${body}`);
+}
+
+/**
+ * Descriptor text with its checksum appended
+ */
+export function formatDescriptor(descriptor: OutputDescriptor): string {
+  const keys = descriptor.keys.map(formatDescriptorKey);
+  let body: string;
+  switch (descriptor.script) {
+    case 'pkh':
+    case 'wpkh':
+    case 'tr':
+      body = `${descriptor.script}(${keys[0]})`;
+      break;
+    case 'sh-wpkh':
+      body = `sh(wpkh(${keys[0]}))`;
+      break;
+    default: {
+      const multi = `${descriptor.sorted ? 'sortedmulti' : 'multi'}(${[
+        descriptor.threshold ?? keys.length,
+        ...keys,
+      ].join(',')})`;
+      if (descriptor.script === 'sh-multi') {
+        body = `sh(${multi})`;
+      } else if (descriptor.script === 'wsh-multi') {
+        body = `wsh(${multi})`;
+      } else {
+        body = `sh(wsh(${multi}))`;
+      }
+    }
+  }
+  return `${body}#${descriptorChecksum(body)}`;
+}
+
+/**
+ * Receive and change descriptors of a single-key account
+ */
+export function getAccountDescriptors(
+  addressType: AddressType,
+  fingerprint: string,
+  accountPath: number[],
+  xpub: string,
+): { receive: string; change: string } {
+  const account = (change: number): string =>
+    formatDescriptor({
+      script: SINGLE_KEY_SCRIPTS[addressType],
+      keys: [
+        {
+          fingerprint,
+          originPath: accountPath,
+          key: toDescriptorXpub(xpub),
+          childPath: [change],
+          wildcard: true,
+        },
+      ],
+    });
+  return { receive: account(0), change: account(1) };
+}
@@ -0,0 +1,137 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * BIP44 account discovery
+ *
+ * Accounts are scanned in order for each script type. Addresses are derived
+ * locally from the account xpub and looked up one by one until `gapLimit`
+ * unused addresses follow the last used one. An account whose receive chain
+ * was never used ends the scan for its script type.
+ */
+
+import type { BitcoinLikeCoin } from '../constants/coins';
+import { getDerivationPath, HARDENED_OFFSET, type AddressType } from '../constants/derivationPaths';
+import { publicKeyToAddress } from './addressUtils';
+import {
+  decodeExtendedPublicKey,
+  deriveChildPublicKey,
+  type ExtendedPublicKey,
+} from './bip32Utils';
+
+export const DEFAULT_GAP_LIMIT = 20;
+
+/**
+ * On-chain activity of one address, amounts in satoshis
+ */
+export interface AddressUsage {
+  txCount: number;
+  balance: number;
+  unconfirmedBalance: number;
+}
+
+export interface DiscoveredAccount {
+  addressType: AddressType;
+  accountIndex: number;
+  /** Account path, e.g. m/84'/0'/0' */
+  path: string;
+  xpub: string;
+  balance: number;
+  unconfirmedBalance: number;
+  txCount: number;
+  /** Addresses with at least one transaction */
+  usedAddresses: number;
+  /** First unused index after the last used one, per chain */
+  nextReceiveIndex: number;
+  nextChangeIndex: number;
+}
+
+export interface AccountDiscoveryOptions {
+  coin: BitcoinLikeCoin;
+  addressTypes: AddressType[];
+  gapLimit?: number;
+  /** Upper bound on accounts per script type */
+  maxAccounts?: number;
+  getAccountXpub: (addressType: AddressType, accountIndex: number) => Promise<string>;
+  getAddressUsage: (address: string) => Promise<AddressUsage>;
+}
+
+interface ChainScan extends AddressUsage {
+  usedAddresses: number;
+  nextIndex: number;
+}
+
+async function scanChain(
+  account: ExtendedPublicKey,
+  change: number,
+  addressType: AddressType,
+  options: AccountDiscoveryOptions,
+  gapLimit: number,
+): Promise<ChainScan> {
+  const chain = deriveChildPublicKey(account, change);
+  const scan: ChainScan = {
+    balance: 0,
+    unconfirmedBalance: 0,
+    txCount: 0,
+    usedAddresses: 0,
+    nextIndex: 0,
+  };
+  for (let index = 0; index < scan.nextIndex + gapLimit; index++) {
+    const { publicKey } = deriveChildPublicKey(chain, index);
+    const usage = await options.getAddressUsage(
+      publicKeyToAddress(publicKey, addressType, options.coin),
+    );
+    if (usage.txCount > 0) {
+      scan.balance += usage.balance;
+      scan.unconfirmedBalance += usage.unconfirmedBalance;
+      scan.txCount += usage.txCount;
+      scan.usedAddresses += 1;
+      scan.nextIndex = index + 1;
+    }
+  }
+  return scan;
+}
+
+/**
+ * Find every used account of a coin
+ */
+export async function discoverAccounts(
+  options: AccountDiscoveryOptions,
+): Promise<DiscoveredAccount[]> {
+  const gapLimit = options.gapLimit ?? DEFAULT_GAP_LIMIT;
+  const maxAccounts = options.maxAccounts ?? HARDENED_OFFSET;
+  if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+    throw new Error(`Gap limit must be a positive integer, got ${gapLimit}`);
+  }
+
+  const accounts: DiscoveredAccount[] = [];
+  for (const addressType of options.addressTypes) {
+    for (let accountIndex = 0; accountIndex < maxAccounts; accountIndex++) {
+      const xpub = await options.getAccountXpub(addressType, accountIndex);
+      const key = decodeExtendedPublicKey(xpub);
+      const receive = await scanChain(key, 0, addressType, options, gapLimit);
+      if (!receive.usedAddresses) {
+        break;
+      }
+      const change = await scanChain(key, 1, addressType, options, gapLimit);
+      const path = getDerivationPath(options.coin.symbol, addressType, accountIndex, 0);
+      accounts.push({
+        addressType,
+        accountIndex,
+        path: path.split('/').slice(0, 4).join('/'),
+        xpub,
+        balance: receive.balance + change.balance,
+        unconfirmedBalance: receive.unconfirmedBalance + change.unconfirmedBalance,
+        txCount: receive.txCount + change.txCount,
+        usedAddresses: receive.usedAddresses + change.usedAddresses,
+        nextReceiveIndex: receive.nextIndex,
+        nextChangeIndex: change.nextIndex,
+      });
+    }
+  }
+  return accounts;
+}
@@ -0,0 +1,301 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Base58Check, Bech32/Bech32m and CashAddr encodings used by Bitcoin-like addresses
+ */
+
+import { sha256d } from './hashUtils';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_ALPHABET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+// Final XOR constants from BIP-173 and BIP-350
+const BECH32_CONSTANTS = { bech32: 1, bech32m: 0x2bc830a3 };
+
+export type Bech32Variant = keyof typeof BECH32_CONSTANTS;
+
+export interface Bech32Decoded {
+  hrp: string;
+  /** 5-bit groups, without the checksum */
+  words: number[];
+  variant: Bech32Variant;
+}
+
+export interface SegwitProgram {
+  version: number;
+  program: Buffer;
+}
+
+export interface CashAddrDecoded {
+  prefix: string;
+  /** 0 for P2PKH, 1 for P2SH */
+  type: number;
+  hash: Buffer;
+}
+
+/**
+ * Encode bytes as Base58 (leading zero bytes become leading 1s)
+ */
+export function base58Encode(data: Buffer): string {
+  let value = BigInt(`0x${data.toString('hex') || '0'}`);
+  let encoded = '';
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+    value /= BigInt(58);
+  }
+  let zeros = 0;
+  while (zeros < data.length && data[zeros] === 0) {
+    zeros++;
+  }
+  return '1'.repeat(zeros) + encoded;
+}
+
+/**
+ * Decode a Base58 string
+ */
+export function base58Decode(encoded: string): Buffer {
+  let value = BigInt(0);
+  for (const char of encoded) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid Base58 character ${JSON.stringify(char)}`);
+    }
+    value = value * BigInt(58) + BigInt(digit);
+  }
+  const hex = value === BigInt(0) ? '' : value.toString(16);
+  const body = Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+  const zeros = /^1*/.exec(encoded)?.[0].length ?? 0;
+  return Buffer.concat([Buffer.alloc(zeros), body]);
+}
+
+/**
+ * Base58 with a 4-byte double-SHA256 checksum appended
+ */
+export function base58CheckEncode(payload: Buffer): string {
+  return base58Encode(Buffer.concat([payload, sha256d(payload).subarray(0, 4)]));
+}
+
+/**
+ * Decode Base58Check and verify its checksum, returning the payload
+ */
+export function base58CheckDecode(encoded: string): Buffer {
+  const data = base58Decode(encoded);
+  if (data.length < 4) {
+    throw new Error('Base58Check data is too short');
+  }
+  const payload = data.subarray(0, -4);
+  if (!sha256d(payload).subarray(0, 4).equals(data.subarray(-4))) {
+    throw new Error('Invalid Base58Check checksum');
+  }
+  return payload;
+}
+
+function polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        checksum ^= generators[i];
+      }
+    }
+  }
+  return checksum >>> 0;
+}
+
+function expandHrp(hrp: string): number[] {
+  const chars = [...hrp].map((char) => char.charCodeAt(0));
+  return [...chars.map((code) => code >> 5), 0, ...chars.map((code) => code & 31)];
+}
+
+/**
+ * Encode 5-bit words as Bech32 or Bech32m
+ */
+export function bech32Encode(hrp: string, words: number[], variant: Bech32Variant): string {
+  const values = [...expandHrp(hrp), ...words, 0, 0, 0, 0, 0, 0];
+  const checksum = polymod(values) ^ BECH32_CONSTANTS[variant];
+  const checksumWords = [0, 1, 2, 3, 4, 5].map((i) => (checksum >>> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...words, ...checksumWords].map((word) => BECH32_ALPHABET[word]).join('')}`;
+}
+
+/**
+ * Decode a Bech32 or Bech32m string, detecting the variant from its checksum
+ */
+export function bech32Decode(encoded: string): Bech32Decoded {
+  if (encoded !== encoded.toLowerCase() && encoded !== encoded.toUpperCase()) {
+    throw new Error('Bech32 strings must not mix upper and lower case');
+  }
+  const lower = encoded.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length || lower.length > 90) {
+    throw new Error('Invalid Bech32 length or separator');
+  }
+  const hrp = lower.slice(0, separator);
+  const words = [...lower.slice(separator + 1)].map((char) => {
+    const word = BECH32_ALPHABET.indexOf(char);
+    if (word < 0) {
+      throw new Error(`Invalid Bech32 character ${JSON.stringify(char)}`);
+    }
+    return word;
+  });
+
+  const check = polymod([...expandHrp(hrp), ...words]);
+  const variant = (Object.keys(BECH32_CONSTANTS) as Bech32Variant[]).find(
+    (name) => BECH32_CONSTANTS[name] === check,
+  );
+  if (!variant) {
+    throw new Error('Invalid Bech32 checksum');
+  }
+  return { hrp, words: words.slice(0, -6), variant };
+}
+
+/**
+ * Regroup bits, e.g. bytes into the 5-bit words Bech32 carries
+ */
+export function convertBits(data: number[], from: number, to: number, pad: boolean): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << to) - 1;
+  for (const value of data) {
+    accumulator = (accumulator << from) | value;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >> bits) & maxValue);
+    }
+  }
+  if (pad && bits > 0) {
+    result.push((accumulator << (to - bits)) & maxValue);
+  } else if (!pad && (bits >= from || (accumulator << (to - bits)) & maxValue)) {
+    throw new Error('Invalid padding in Bech32 data');
+  }
+  return result;
+}
+
+/**
+ * Encode a witness program as a SegWit address (Bech32 for v0, Bech32m above)
+ */
+export function encodeSegwitAddress(hrp: string, version: number, program: Buffer): string {
+  const words = [version, ...convertBits([...program], 8, 5, true)];
+  return bech32Encode(hrp, words, version === 0 ? 'bech32' : 'bech32m');
+}
+
+/**
+ * Decode a SegWit address, checking its prefix, variant and program length
+ */
+export function decodeSegwitAddress(hrp: string, address: string): SegwitProgram {
+  const decoded = bech32Decode(address);
+  if (decoded.hrp !== hrp) {
+    throw new Error(`Expected a ${hrp} address, got prefix ${decoded.hrp}`);
+  }
+  const [version, ...words] = decoded.words;
+  if (version === undefined || version > 16) {
+    throw new Error('Invalid witness version');
+  }
+  if (decoded.variant !== (version === 0 ? 'bech32' : 'bech32m')) {
+    throw new Error(
+      `Witness version ${version} addresses must use ${version ? 'Bech32m' : 'Bech32'}`,
+    );
+  }
+  const program = Buffer.from(convertBits(words, 5, 8, false));
+  if (program.length < 2 || program.length > 40) {
+    throw new Error('Invalid witness program length');
+  }
+  if (version === 0 && program.length !== 20 && program.length !== 32) {
+    throw new Error('Witness version 0 programs must be 20 or 32 bytes');
+  }
+  return { version, program };
+}
+
+// BCH64 generator of the CashAddr checksum; values exceed 32 bits
+const CASHADDR_GENERATORS = [
+  '0x98f2bc8e61',
+  '0x79b76d99e2',
+  '0xf33e5fb3c4',
+  '0xae2eabe2a8',
+  '0x1e4f43e470',
+].map((generator) => BigInt(generator));
+
+// Hash sizes in bits, indexed by the size code of the version byte
+const CASHADDR_HASH_SIZES = [160, 192, 224, 256, 320, 384, 448, 512];
+
+function cashAddrPolymod(values: number[]): bigint {
+  let checksum = BigInt(1);
+  for (const value of values) {
+    const top = checksum >> BigInt(35);
+    checksum = ((checksum & BigInt('0x07ffffffff')) << BigInt(5)) ^ BigInt(value);
+    CASHADDR_GENERATORS.forEach((generator, i) => {
+      if ((top >> BigInt(i)) & BigInt(1)) {
+        checksum ^= generator;
+      }
+    });
+  }
+  return checksum ^ BigInt(1);
+}
+
+function expandCashAddrPrefix(prefix: string): number[] {
+  return [...[...prefix].map((char) => char.charCodeAt(0) & 31), 0];
+}
+
+/**
+ * Encode a key or script hash as a CashAddr address, e.g. bitcoincash:q...
+ */
+export function cashAddrEncode(prefix: string, type: number, hash: Buffer): string {
+  const sizeCode = CASHADDR_HASH_SIZES.indexOf(hash.length * 8);
+  if (sizeCode < 0) {
+    throw new Error(`CashAddr cannot carry a ${hash.length}-byte hash`);
+  }
+  const words = convertBits([(type << 3) | sizeCode, ...hash], 8, 5, true);
+  const checksum = cashAddrPolymod([
+    ...expandCashAddrPrefix(prefix),
+    ...words,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+  ]);
+  const checksumWords = [0, 1, 2, 3, 4, 5, 6, 7].map((i) =>
+    Number((checksum >> BigInt(5 * (7 - i))) & BigInt(31)),
+  );
+  return `${prefix}:${[...words, ...checksumWords].map((word) => BECH32_ALPHABET[word]).join('')}`;
+}
+
+/**
+ * Decode a CashAddr address; the prefix may be omitted when it is the expected one
+ */
+export function cashAddrDecode(address: string, defaultPrefix: string): CashAddrDecoded {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    throw new Error('CashAddr addresses must not mix upper and lower case');
+  }
+  const lower = address.toLowerCase();
+  const separator = lower.indexOf(':');
+  const prefix = separator < 0 ? defaultPrefix : lower.slice(0, separator);
+  const words = [...lower.slice(separator + 1)].map((char) => {
+    const word = BECH32_ALPHABET.indexOf(char);
+    if (word < 0) {
+      throw new Error(`Invalid CashAddr character ${JSON.stringify(char)}`);
+    }
+    return word;
+  });
+  if (words.length < 9 || cashAddrPolymod([...expandCashAddrPrefix(prefix), ...words])) {
+    throw new Error('Invalid CashAddr checksum');
+  }
+
+  const [version, ...hash] = convertBits(words.slice(0, -8), 5, 8, false);
+  if (version & 0x80 || hash.length * 8 !== CASHADDR_HASH_SIZES[version & 7]) {
+    throw new Error('Invalid CashAddr version byte');
+  }
+  return { prefix, type: version >> 3, hash: Buffer.from(hash) };
+}
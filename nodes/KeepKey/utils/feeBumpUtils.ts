@@ -0,0 +1,230 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Fee bumping for unconfirmed Bitcoin transactions
+ *
+ * A replacement (BIP-125) spends the same inputs as the original and must
+ * pay a higher fee rate and at least the original fee plus the incremental
+ * relay fee for its own size. A child (CPFP) spends outputs of an unconfirmed
+ * parent and pays for both, so that the package reaches the fee rate.
+ * Every input of a replacement or child signals replaceability.
+ */
+
+import type { BitcoinLikeCoin } from '../constants/coins';
+import type { AddressNetwork } from './addressUtils';
+import { calculateTransactionVsize } from './feeUtils';
+import {
+  calculateTotalInputValue,
+  calculateTotalOutputValue,
+  type BitcoinInput,
+  type BitcoinOutput,
+} from './transactionUtils';
+
+/**
+ * Highest sequence that signals replaceability (BIP-125)
+ */
+export const RBF_SEQUENCE = 0xfffffffd;
+
+/**
+ * Bitcoin Core's default incremental relay fee, in sat/vB
+ */
+export const INCREMENTAL_RELAY_FEE = 1;
+
+export interface ReplacementOptions {
+  /** Inputs and outputs of the transaction to replace */
+  inputs: BitcoinInput[];
+  outputs: BitcoinOutput[];
+  /** sat/vB */
+  feeRate: number;
+  coin: BitcoinLikeCoin;
+  network?: AddressNetwork;
+  /** Change path to pay back to when the original has no change output */
+  changePath?: number[];
+  /** Confirmed UTXOs a bump may add when the change cannot pay the fee */
+  utxos?: BitcoinInput[];
+}
+
+export interface FeeBumpResult {
+  inputs: BitcoinInput[];
+  outputs: BitcoinOutput[];
+  fee: number;
+  vsize: number;
+  /** Fee and size of the transaction replaced, or of the parent for CPFP */
+  originalFee: number;
+  originalVsize: number;
+}
+
+export interface CpfpOptions {
+  /** Outputs of the parent paid to us */
+  inputs: BitcoinInput[];
+  parentFee: number;
+  parentVsize: number;
+  /** sat/vB for parent and child together */
+  feeRate: number;
+  changePath: number[];
+  coin: BitcoinLikeCoin;
+  network?: AddressNetwork;
+}
+
+function signalReplaceable(input: BitcoinInput): BitcoinInput {
+  return { ...input, sequence: Math.min(input.sequence ?? 0xffffffff, RBF_SEQUENCE) };
+}
+
+/**
+ * Fee and size of the transaction being replaced, checking the new rate is higher
+ */
+function getOriginal(options: ReplacementOptions): { fee: number; vsize: number } {
+  const { inputs, outputs, feeRate, coin, network } = options;
+  const fee = calculateTotalInputValue(inputs) - calculateTotalOutputValue(outputs);
+  if (fee < 0) {
+    throw new Error('The outputs of the original transaction exceed its inputs');
+  }
+  const vsize = calculateTransactionVsize(inputs, outputs, coin, network);
+  if (feeRate * vsize <= fee) {
+    throw new Error(
+      `Fee rate must exceed the original ${Math.round((fee / vsize) * 100) / 100} sat/vB`,
+    );
+  }
+  return { fee, vsize };
+}
+
+/**
+ * Smallest fee a replacement of the given size may pay
+ */
+function getReplacementFee(
+  options: ReplacementOptions,
+  originalFee: number,
+  inputs: BitcoinInput[],
+  outputs: BitcoinOutput[],
+): number {
+  const vsize = calculateTransactionVsize(inputs, outputs, options.coin, options.network);
+  return Math.max(
+    Math.ceil(options.feeRate * vsize),
+    originalFee + Math.ceil(INCREMENTAL_RELAY_FEE * vsize),
+  );
+}
+
+function toResult(
+  options: ReplacementOptions,
+  original: { fee: number; vsize: number },
+  inputs: BitcoinInput[],
+  outputs: BitcoinOutput[],
+): FeeBumpResult {
+  return {
+    inputs,
+    outputs,
+    fee: calculateTotalInputValue(inputs) - calculateTotalOutputValue(outputs),
+    vsize: calculateTransactionVsize(inputs, outputs, options.coin, options.network),
+    originalFee: original.fee,
+    originalVsize: original.vsize,
+  };
+}
+
+/**
+ * Replace a transaction with the same payments at a higher fee rate
+ *
+ * The largest change output pays the extra fee. When it would fall below
+ * dust it is dropped, and when that is not enough UTXOs are added, largest
+ * first, with the change paid back.
+ */
+export function bumpFee(options: ReplacementOptions): FeeBumpResult {
+  const original = getOriginal(options);
+  const { coin } = options;
+
+  let changeIndex = -1;
+  options.outputs.forEach((output, index) => {
+    if (output.addressN && (changeIndex < 0 || output.value > options.outputs[changeIndex].value)) {
+      changeIndex = index;
+    }
+  });
+  const payments = options.outputs.filter((_, index) => index !== changeIndex);
+  const changePath = options.outputs[changeIndex]?.addressN ?? options.changePath;
+  const paid = calculateTotalOutputValue(payments);
+
+  const spent = new Set(options.inputs.map(({ txid, vout }) => `${txid}:${vout}`));
+  const pool = (options.utxos ?? [])
+    .filter(({ txid, vout }) => !spent.has(`${txid}:${vout}`))
+    .sort((a, b) => b.value - a.value);
+  const inputs = options.inputs.map(signalReplaceable);
+
+  for (;;) {
+    const total = calculateTotalInputValue(inputs);
+    if (changePath) {
+      const change: BitcoinOutput = { ...options.outputs[changeIndex], addressN: changePath };
+      const withChange = [...payments];
+      withChange.splice(changeIndex < 0 ? payments.length : changeIndex, 0, change);
+      change.value = total - paid - getReplacementFee(options, original.fee, inputs, withChange);
+      if (change.value >= coin.dustThreshold) {
+        return toResult(options, original, inputs, withChange);
+      }
+    }
+    // Too little left for change: the remainder goes to the fee
+    const fee = getReplacementFee(options, original.fee, inputs, payments);
+    if (total - paid >= fee) {
+      return toResult(options, original, inputs, payments);
+    }
+    const next = pool.shift();
+    if (!next || !changePath) {
+      throw new Error(`Insufficient funds: the replacement needs ${fee - (total - paid)} sat more`);
+    }
+    inputs.push(signalReplaceable(next));
+  }
+}
+
+/**
+ * Replace a transaction with one paying everything back to our change address
+ */
+export function cancelTransaction(options: ReplacementOptions): FeeBumpResult {
+  const original = getOriginal(options);
+  const changePath =
+    options.outputs.find((output) => output.addressN)?.addressN ?? options.changePath;
+  if (!changePath) {
+    throw new Error('A cancellation needs a change path to pay back to');
+  }
+
+  const inputs = options.inputs.map(signalReplaceable);
+  const output: BitcoinOutput = { addressN: changePath, value: 0 };
+  const total = calculateTotalInputValue(inputs);
+  output.value = total - getReplacementFee(options, original.fee, inputs, [output]);
+  if (output.value < options.coin.dustThreshold) {
+    throw new Error(`The inputs (${total} sat) cannot pay the fee of a cancellation`);
+  }
+  return toResult(options, original, inputs, [output]);
+}
+
+/**
+ * Spend outputs of an unconfirmed parent to our change address, paying
+ * enough for parent and child together to reach the fee rate
+ */
+export function buildCpfpTransaction(options: CpfpOptions): FeeBumpResult {
+  const { parentFee, parentVsize, feeRate, coin, network } = options;
+  if (!options.inputs.length) {
+    throw new Error('A child transaction needs at least one output of the parent to spend');
+  }
+
+  const inputs = options.inputs.map(signalReplaceable);
+  const output: BitcoinOutput = { addressN: options.changePath, value: 0 };
+  const vsize = calculateTransactionVsize(inputs, [output], coin, network);
+  const fee = Math.max(
+    Math.ceil(feeRate * (parentVsize + vsize)) - parentFee,
+    Math.ceil(INCREMENTAL_RELAY_FEE * vsize),
+  );
+  const total = calculateTotalInputValue(inputs);
+  output.value = total - fee;
+  if (output.value < coin.dustThreshold) {
+    throw new Error(`The outputs spent (${total} sat) cannot pay the ${fee} sat child fee`);
+  }
+  return {
+    inputs,
+    outputs: [output],
+    fee,
+    vsize,
+    originalFee: parentFee,
+    originalVsize: parentVsize,
+  };
+}
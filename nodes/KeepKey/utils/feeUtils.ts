@@ -0,0 +1,263 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Bitcoin fee estimation
+ *
+ * Fee rates come from a backend as sat/vB per confirmation target, in blocks.
+ * Sizes are computed from the actual inputs and outputs of a transaction, in
+ * weight units (BIP-141), counting every signature at its largest encoding so
+ * that a fee computed from the result is never short.
+ */
+
+import type { BitcoinLikeCoin } from '../constants/coins';
+import { decodeBitcoinAddress, type AddressNetwork } from './addressUtils';
+import { encodeVarInt, type BitcoinInput, type BitcoinOutput } from './transactionUtils';
+
+/**
+ * Confirmation target, in blocks, for each fee level
+ */
+export const FEE_LEVEL_TARGETS: Record<string, number> = {
+  high: 2,
+  medium: 6,
+  low: 144,
+};
+
+/**
+ * Targets reported by a fee estimate; 1008 blocks is the longest bitcoind estimates
+ */
+export const CONFIRMATION_TARGETS = [1, 2, 3, 6, 12, 24, 144, 504, 1008];
+
+/**
+ * Fee rates in sat/vB keyed by confirmation target
+ */
+export type FeeEstimates = Record<number, number>;
+
+// Low-S DER signature with its sighash byte, and a BIP-340 signature with SIGHASH_DEFAULT
+const ECDSA_SIGNATURE_SIZE = 72;
+const SCHNORR_SIGNATURE_SIZE = 64;
+const PUBKEY_SIZE = 33;
+
+// Outpoint and sequence
+const INPUT_BASE_SIZE = 40;
+// Amount
+const OUTPUT_BASE_SIZE = 8;
+
+const CHANGE_SCRIPT_TYPES: Record<string, string> = {
+  SPENDADDRESS: 'PAYTOADDRESS',
+  SPENDMULTISIG: 'PAYTOMULTISIG',
+  SPENDP2SHWITNESS: 'PAYTOP2SHWITNESS',
+  SPENDWITNESS: 'PAYTOWITNESS',
+  SPENDTAPROOT: 'PAYTOTAPROOT',
+};
+
+const OUTPUT_SCRIPT_SIZES: Record<string, number> = {
+  PAYTOADDRESS: 25,
+  PAYTOSCRIPTHASH: 23,
+  PAYTOMULTISIG: 23,
+  PAYTOP2SHWITNESS: 23,
+  PAYTOWITNESS: 22,
+  PAYTOTAPROOT: 34,
+};
+
+/**
+ * Size of a script push opcode for data of the given length
+ */
+function pushSize(length: number): number {
+  return length < 76 ? 1 : length < 256 ? 2 : 3;
+}
+
+/**
+ * Serialized size of a length-prefixed item
+ */
+function withLength(length: number): number {
+  return encodeVarInt(length).length + length;
+}
+
+/**
+ * Non-witness and witness bytes of an input's unlocking data
+ */
+function getInputScriptSizes(input: BitcoinInput): { scriptSig: number; witness: number } {
+  const scriptType = input.scriptType ?? 'SPENDWITNESS';
+
+  if (input.multisig) {
+    const { m, xpubs } = input.multisig;
+    // OP_m <n pubkeys> OP_n OP_CHECKMULTISIG
+    const redeemScript = 3 + xpubs.length * (1 + PUBKEY_SIZE);
+    // CHECKMULTISIG pops one extra, empty item ahead of the signatures
+    const signatures = m * (1 + ECDSA_SIGNATURE_SIZE);
+    const witness = encodeVarInt(m + 2).length + 1 + signatures + withLength(redeemScript);
+    switch (scriptType) {
+      case 'SPENDMULTISIG':
+        return { scriptSig: 1 + signatures + pushSize(redeemScript) + redeemScript, witness: 0 };
+      case 'SPENDP2SHWITNESS':
+        // Push of the 34-byte P2WSH program
+        return { scriptSig: 35, witness };
+      case 'SPENDWITNESS':
+        return { scriptSig: 0, witness };
+      default:
+        throw new Error(`Input script type ${scriptType} cannot spend a multisig script`);
+    }
+  }
+
+  const signatureAndKey = 1 + ECDSA_SIGNATURE_SIZE + 1 + PUBKEY_SIZE;
+  switch (scriptType) {
+    case 'SPENDADDRESS':
+      return { scriptSig: signatureAndKey, witness: 0 };
+    case 'SPENDP2SHWITNESS':
+      // Push of the 22-byte P2WPKH program
+      return { scriptSig: 23, witness: 1 + signatureAndKey };
+    case 'SPENDWITNESS':
+      return { scriptSig: 0, witness: 1 + signatureAndKey };
+    case 'SPENDTAPROOT':
+      return { scriptSig: 0, witness: 1 + 1 + SCHNORR_SIGNATURE_SIZE };
+    default:
+      throw new Error(`Unknown input script type ${scriptType}`);
+  }
+}
+
+/**
+ * Length of the script an output pays to
+ */
+function getOutputScriptSize(
+  output: BitcoinOutput,
+  changeType: string,
+  coin: BitcoinLikeCoin,
+  network: AddressNetwork,
+): number {
+  if (output.opReturnData !== undefined) {
+    const data = Buffer.from(output.opReturnData, 'hex').length;
+    return 1 + pushSize(data) + data;
+  }
+  if (output.address) {
+    const { scriptType, payload } = decodeBitcoinAddress(output.address, coin, network);
+    if (scriptType === 'p2pkh') {
+      return 25;
+    }
+    if (scriptType === 'p2sh') {
+      return 23;
+    }
+    // Witness version and program push
+    return 2 + payload.length / 2;
+  }
+  if (!output.addressN) {
+    throw new Error('Every output needs an address, a change path or OP_RETURN data');
+  }
+  const scriptType = output.scriptType ?? changeType;
+  // Multisig change to a native witness script pays to a 32-byte script hash
+  if (output.multisig && scriptType === 'PAYTOWITNESS') {
+    return 34;
+  }
+  const size = OUTPUT_SCRIPT_SIZES[scriptType];
+  if (!size) {
+    throw new Error(`Unknown output script type ${scriptType}`);
+  }
+  return size;
+}
+
+/**
+ * Weight of a signed transaction spending the inputs to the outputs
+ *
+ * Inputs use device script types (SPENDWITNESS...). Change outputs without a
+ * script type pay to the script type of the first input, as when signing.
+ */
+export function calculateTransactionWeight(
+  inputs: BitcoinInput[],
+  outputs: BitcoinOutput[],
+  coin: BitcoinLikeCoin,
+  network: AddressNetwork = 'mainnet',
+): number {
+  if (!inputs.length || !outputs.length) {
+    throw new Error('A transaction needs at least one input and one output');
+  }
+
+  // Version, input and output counts, lock time
+  let base = 8 + encodeVarInt(inputs.length).length + encodeVarInt(outputs.length).length;
+  const inputSizes = inputs.map(getInputScriptSizes);
+  for (const { scriptSig } of inputSizes) {
+    base += INPUT_BASE_SIZE + withLength(scriptSig);
+  }
+
+  const changeType = CHANGE_SCRIPT_TYPES[inputs[0].scriptType ?? 'SPENDWITNESS'] ?? 'PAYTOWITNESS';
+  for (const output of outputs) {
+    base += OUTPUT_BASE_SIZE + withLength(getOutputScriptSize(output, changeType, coin, network));
+  }
+
+  if (inputSizes.every(({ witness }) => !witness)) {
+    return base * 4;
+  }
+  // Marker and flag, then one witness stack per input, empty for non-witness inputs
+  return base * 4 + 2 + inputSizes.reduce((sum, { witness }) => sum + (witness || 1), 0);
+}
+
+/**
+ * Virtual size of a signed transaction spending the inputs to the outputs
+ */
+export function calculateTransactionVsize(
+  inputs: BitcoinInput[],
+  outputs: BitcoinOutput[],
+  coin: BitcoinLikeCoin,
+  network: AddressNetwork = 'mainnet',
+): number {
+  return Math.ceil(calculateTransactionWeight(inputs, outputs, coin, network) / 4);
+}
+
+/**
+ * Convert a bitcoind fee rate in BTC/kvB to sat/vB
+ */
+export function btcPerKvbToSatPerVb(feeRate: number): number {
+  return Math.round(feeRate * 1e8) / 1000;
+}
+
+/**
+ * Read an Esplora /fee-estimates response: sat/vB keyed by target as strings
+ */
+export function parseEsploraFeeEstimates(body: unknown): FeeEstimates {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('Fee estimates must be an object of fee rates keyed by target');
+  }
+  const estimates: FeeEstimates = {};
+  for (const [target, feeRate] of Object.entries(body as Record<string, unknown>)) {
+    const blocks = Number(target);
+    if (!Number.isInteger(blocks) || blocks < 1 || typeof feeRate !== 'number' || feeRate < 0) {
+      throw new Error(`Invalid fee estimate for target ${target}`);
+    }
+    estimates[blocks] = feeRate;
+  }
+  return estimates;
+}
+
+/**
+ * Fee rate to confirm within a target
+ *
+ * Uses the estimate for the longest target not above the requested one, or
+ * the shortest target estimated when the request is shorter than all of them.
+ */
+export function getFeeRateForTarget(estimates: FeeEstimates, target: number): number {
+  const targets = Object.keys(estimates)
+    .map(Number)
+    .sort((a, b) => a - b);
+  if (!targets.length) {
+    throw new Error('The backend returned no fee estimates');
+  }
+  const covered = targets.filter((blocks) => blocks <= target);
+  return estimates[covered.length ? covered[covered.length - 1] : targets[0]];
+}
+
+/**
+ * Fee rates for the reported confirmation targets
+ */
+export function selectFeeRates(
+  estimates: FeeEstimates,
+  targets: number[] = CONFIRMATION_TARGETS,
+): FeeEstimates {
+  const rates: FeeEstimates = {};
+  for (const target of targets) {
+    rates[target] = getFeeRateForTarget(estimates, target);
+  }
+  return rates;
+}
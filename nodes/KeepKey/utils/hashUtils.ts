@@ -0,0 +1,155 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Hash functions not provided directly by Node's crypto module
+ */
+
+import * as crypto from 'crypto';
+
+// Keccak-f[1600] round constants, as [low, high] 32-bit halves
+const ROUND_CONSTANTS: Array<[number, number]> = [
+  [0x00000001, 0x00000000],
+  [0x00008082, 0x00000000],
+  [0x0000808a, 0x80000000],
+  [0x80008000, 0x80000000],
+  [0x0000808b, 0x00000000],
+  [0x80000001, 0x00000000],
+  [0x80008081, 0x80000000],
+  [0x00008009, 0x80000000],
+  [0x0000008a, 0x00000000],
+  [0x00000088, 0x00000000],
+  [0x80008009, 0x00000000],
+  [0x8000000a, 0x00000000],
+  [0x8000808b, 0x00000000],
+  [0x0000008b, 0x80000000],
+  [0x00008089, 0x80000000],
+  [0x00008003, 0x80000000],
+  [0x00008002, 0x80000000],
+  [0x00000080, 0x80000000],
+  [0x0000800a, 0x00000000],
+  [0x8000000a, 0x80000000],
+  [0x80008081, 0x80000000],
+  [0x00008080, 0x80000000],
+  [0x80000001, 0x00000000],
+  [0x80008008, 0x80000000],
+];
+
+// Rotation offset for each lane (x + 5y)
+const ROTATIONS = [
+  0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14,
+];
+
+const KECCAK_256_RATE = 136;
+
+/**
+ * Apply the Keccak-f[1600] permutation to a state held as 25 lanes split in
+ * low and high 32-bit words
+ */
+function keccakF(lo: Uint32Array, hi: Uint32Array): void {
+  const cLo = new Uint32Array(5);
+  const cHi = new Uint32Array(5);
+  const bLo = new Uint32Array(25);
+  const bHi = new Uint32Array(25);
+
+  for (const [rcLo, rcHi] of ROUND_CONSTANTS) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      cLo[x] = lo[x] ^ lo[x + 5] ^ lo[x + 10] ^ lo[x + 15] ^ lo[x + 20];
+      cHi[x] = hi[x] ^ hi[x + 5] ^ hi[x + 10] ^ hi[x + 15] ^ hi[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const next = (x + 1) % 5;
+      const dLo = cLo[(x + 4) % 5] ^ ((cLo[next] << 1) | (cHi[next] >>> 31));
+      const dHi = cHi[(x + 4) % 5] ^ ((cHi[next] << 1) | (cLo[next] >>> 31));
+      for (let y = 0; y < 25; y += 5) {
+        lo[x + y] ^= dLo;
+        hi[x + y] ^= dHi;
+      }
+    }
+
+    // Rho and pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        const lane = x + 5 * y;
+        const target = y + 5 * ((2 * x + 3 * y) % 5);
+        const shift = ROTATIONS[lane];
+        let l = lo[lane];
+        let h = hi[lane];
+        if (shift >= 32) {
+          [l, h] = [h, l];
+        }
+        const n = shift % 32;
+        if (n === 0) {
+          bLo[target] = l;
+          bHi[target] = h;
+        } else {
+          bLo[target] = (l << n) | (h >>> (32 - n));
+          bHi[target] = (h << n) | (l >>> (32 - n));
+        }
+      }
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        lo[x + y] = bLo[x + y] ^ (~bLo[((x + 1) % 5) + y] & bLo[((x + 2) % 5) + y]);
+        hi[x + y] = bHi[x + y] ^ (~bHi[((x + 1) % 5) + y] & bHi[((x + 2) % 5) + y]);
+      }
+    }
+
+    // Iota
+    lo[0] ^= rcLo;
+    hi[0] ^= rcHi;
+  }
+}
+
+/**
+ * Keccak-256 as used by Ethereum (the original Keccak padding, not SHA3-256)
+ */
+export function keccak256(data: Buffer | string): Buffer {
+  const input = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+
+  // Pad to a whole number of blocks: 0x01, zeros, then 0x80 on the last byte
+  const padded = Buffer.alloc((Math.floor(input.length / KECCAK_256_RATE) + 1) * KECCAK_256_RATE);
+  input.copy(padded);
+  padded[input.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const lo = new Uint32Array(25);
+  const hi = new Uint32Array(25);
+  for (let block = 0; block < padded.length; block += KECCAK_256_RATE) {
+    for (let lane = 0; lane < KECCAK_256_RATE / 8; lane++) {
+      lo[lane] ^= padded.readUInt32LE(block + lane * 8);
+      hi[lane] ^= padded.readUInt32LE(block + lane * 8 + 4);
+    }
+    keccakF(lo, hi);
+  }
+
+  const output = Buffer.alloc(32);
+  for (let lane = 0; lane < 4; lane++) {
+    output.writeUInt32LE(lo[lane], lane * 8);
+    output.writeUInt32LE(hi[lane], lane * 8 + 4);
+  }
+  return output;
+}
+
+/**
+ * SHA-256 applied twice, as used for Bitcoin txids and Base58Check checksums
+ */
+export function sha256d(data: Buffer): Buffer {
+  const first = crypto.createHash('sha256').update(data).digest();
+  return crypto.createHash('sha256').update(first).digest();
+}
+
+/**
+ * RIPEMD-160 of SHA-256, the hash behind P2PKH and P2WPKH addresses
+ */
+export function hash160(data: Buffer): Buffer {
+  const sha = crypto.createHash('sha256').update(data).digest();
+  return crypto.createHash('ripemd160').update(sha).digest();
+}
@@ -5,7 +5,23 @@
  * See LICENSE file for details.
  */
 
+export * from './abiUtils';
 export * from './addressUtils';
+export * from './bip32Utils';
+export * from './coinSelectionUtils';
+export * from './descriptorUtils';
+export * from './discoveryUtils';
+export * from './encodingUtils';
+export * from './feeBumpUtils';
+export * from './feeUtils';
+export * from './hashUtils';
+export * from './jsonRpcUtils';
+export * from './nonceUtils';
 export * from './pinUtils';
+export * from './psbtUtils';
+export * from './qrCodeUtils';
+export * from './rlpUtils';
+export * from './secp256k1Utils';
 export * from './swapUtils';
 export * from './transactionUtils';
+export * from './typedDataUtils';
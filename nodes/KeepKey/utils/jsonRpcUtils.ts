@@ -0,0 +1,224 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * JSON-RPC 2.0 client with batching, retries and failover
+ *
+ * Endpoints are tried in order. Network errors, rate limits and server
+ * errors are retried with exponential backoff before moving to the next
+ * endpoint, and an endpoint that answers with something other than JSON-RPC
+ * is skipped. An error response from the method itself is final, except for
+ * limits and methods the endpoint does not offer.
+ */
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+export interface JsonRpcResponse<T = unknown> {
+  id: number | string | null;
+  result?: T | null;
+  error?: JsonRpcErrorObject | null;
+}
+
+/**
+ * Parameters and result of each method a client offers
+ */
+export type JsonRpcMethods = Record<string, { params: unknown[]; result: unknown }>;
+
+export type JsonRpcCall<Methods extends JsonRpcMethods> = {
+  [M in keyof Methods]: { method: M; params: Methods[M]['params'] };
+}[keyof Methods];
+
+type JsonRpcResults<Methods extends JsonRpcMethods, Calls extends unknown[]> = {
+  [K in keyof Calls]: Calls[K] extends { method: infer M extends keyof Methods }
+    ? Methods[M]['result']
+    : never;
+};
+
+/**
+ * POST a request body to an endpoint and return the parsed response body
+ */
+export type JsonRpcSend = (
+  url: string,
+  body: JsonRpcRequest | JsonRpcRequest[],
+) => Promise<unknown>;
+
+export interface JsonRpcClientOptions {
+  /** Retries per endpoint after the first attempt */
+  retries?: number;
+  /** Delay before the first retry in ms, doubling for each one after */
+  retryDelay?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Rate limit (EIP-1474 "limit exceeded") and method not found
+ */
+const ENDPOINT_ERROR_CODES = new Set([-32005, -32601]);
+const RATE_LIMIT_ERROR_CODE = -32005;
+
+/**
+ * An error response to a JSON-RPC call
+ */
+export class JsonRpcError extends Error {
+  readonly method: string;
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(method: string, error: JsonRpcErrorObject) {
+    super(`${method} failed: ${error.message}`);
+    this.name = 'JsonRpcError';
+    this.method = method;
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+/**
+ * An answer that is not the JSON-RPC response asked for
+ */
+class InvalidResponseError extends Error {}
+
+function getHttpStatus(error: unknown): number | undefined {
+  const { response, httpCode } = error as { response?: { status?: number }; httpCode?: string };
+  const status = response?.status ?? Number(httpCode);
+  return Number.isFinite(status) ? status : undefined;
+}
+
+/**
+ * Whether trying the same endpoint again may succeed
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof JsonRpcError) {
+    return error.code === RATE_LIMIT_ERROR_CODE;
+  }
+  if (error instanceof InvalidResponseError) {
+    return false;
+  }
+  const status = getHttpStatus(error);
+  return status === undefined || status === 429 || status >= 500;
+}
+
+function describeEndpoint(url: string): string {
+  // Provider URLs carry API keys in the path
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid URL';
+  }
+}
+
+function isResponse(value: unknown): value is JsonRpcResponse {
+  return typeof value === 'object' && value !== null && ('result' in value || 'error' in value);
+}
+
+export class JsonRpcClient<Methods extends JsonRpcMethods> {
+  private nextId = 1;
+
+  constructor(
+    readonly endpoints: string[],
+    private readonly send: JsonRpcSend,
+    private readonly options: JsonRpcClientOptions = {},
+  ) {
+    if (!endpoints.length) {
+      throw new Error('A JSON-RPC client needs at least one endpoint');
+    }
+  }
+
+  /**
+   * Call one method
+   */
+  async call<M extends keyof Methods & string>(
+    method: M,
+    params: Methods[M]['params'],
+  ): Promise<Methods[M]['result']> {
+    const request = this.toRequest(method, params);
+    return this.post(request, (body) => {
+      if (!isResponse(body)) {
+        throw new InvalidResponseError('The endpoint did not answer with JSON-RPC');
+      }
+      return this.readResult(request, body) as Methods[M]['result'];
+    });
+  }
+
+  /**
+   * Call several methods in one request, returning their results in order
+   */
+  async batch<Calls extends Array<JsonRpcCall<Methods>>>(
+    calls: [...Calls],
+  ): Promise<JsonRpcResults<Methods, Calls>> {
+    const requests = calls.map(({ method, params }) => this.toRequest(method as string, params));
+    return this.post(requests, (body) => {
+      if (!Array.isArray(body) || !body.every(isResponse)) {
+        throw new InvalidResponseError('The endpoint did not answer with a JSON-RPC batch');
+      }
+      // Responses to a batch may come in any order
+      const responses = new Map(body.map((response) => [response.id, response]));
+      return requests.map((request) => {
+        const response = responses.get(request.id);
+        if (!response) {
+          throw new InvalidResponseError(`The endpoint did not answer ${request.method}`);
+        }
+        return this.readResult(request, response);
+      }) as JsonRpcResults<Methods, Calls>;
+    });
+  }
+
+  private toRequest(method: string, params: unknown[]): JsonRpcRequest {
+    return { jsonrpc: '2.0', id: this.nextId++, method, params };
+  }
+
+  private readResult(request: JsonRpcRequest, response: JsonRpcResponse): unknown {
+    if (response.error) {
+      throw new JsonRpcError(request.method, response.error);
+    }
+    return response.result ?? null;
+  }
+
+  /**
+   * Send a request to each endpoint in turn until one answers
+   */
+  private async post<T>(
+    body: JsonRpcRequest | JsonRpcRequest[],
+    read: (response: unknown) => T,
+  ): Promise<T> {
+    const { retries = 2, retryDelay = 500 } = this.options;
+    const sleep =
+      this.options.sleep ??
+      ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+    const failures: string[] = [];
+
+    for (const url of this.endpoints) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return read(await this.send(url, body));
+        } catch (error) {
+          if (error instanceof JsonRpcError && !ENDPOINT_ERROR_CODES.has(error.code)) {
+            throw error;
+          }
+          if (attempt < retries && isRetryable(error)) {
+            await sleep(retryDelay * 2 ** attempt);
+            continue;
+          }
+          failures.push(`${describeEndpoint(url)}: ${(error as Error).message}`);
+          break;
+        }
+      }
+    }
+    throw new Error(`Every RPC endpoint failed (${failures.join('; ')})`);
+  }
+}
@@ -0,0 +1,190 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Nonces and replacement of pending EVM transactions
+ *
+ * The chain only counts transactions it has seen, so nonces handed out for
+ * transactions signed but not yet broadcast are tracked per account: the
+ * next nonce is the lowest one the chain has not seen that is not tracked.
+ * A tracked nonce is released once the chain has mined it, or when it has
+ * not reached the chain within the reservation time. A replacement reuses
+ * the nonce of a pending transaction and must raise its fee cap and tip by
+ * at least 10% for nodes to accept it.
+ */
+
+/**
+ * A nonce handed out for a transaction of the account
+ */
+export interface TrackedNonce {
+  nonce: number;
+  /** Hash of the transaction signed with it */
+  hash?: string;
+  /** ms since the epoch */
+  reservedAt: number;
+}
+
+/**
+ * Transaction counts of an account: mined, and including the node's mempool
+ */
+export interface AccountNonces {
+  latest: number;
+  pending: number;
+}
+
+/**
+ * Fees of an EVM transaction in wei: gasPrice for legacy transactions, the
+ * fee cap and tip for EIP-1559
+ */
+export interface EvmFees {
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+export type PendingTransactionStatus =
+  'confirmed' | 'failed' | 'pending' | 'queued' | 'stuck' | 'replaced' | 'notFound';
+
+export interface TransactionStatusOptions {
+  /** Receipt status, 1 for success and 0 for a revert, once mined */
+  receiptStatus?: number;
+  /** The transaction, when the node knows it */
+  transaction?: { nonce: number; fees: EvmFees };
+  /** Transaction count of the sender, mined */
+  latestNonce?: number;
+  /** Base fee of the latest block, in wei */
+  baseFeePerGas?: string;
+}
+
+export interface TransactionStatus {
+  status: PendingTransactionStatus;
+  reason?: string;
+}
+
+/**
+ * How long a nonce is held for a transaction the chain has not seen, in ms
+ */
+export const NONCE_RESERVATION_TTL = 30 * 60 * 1000;
+
+/**
+ * Fee increase nodes require of a replacement (geth and Erigon), in percent
+ */
+export const REPLACEMENT_FEE_BUMP_PERCENT = 10;
+
+/**
+ * Key of an account's tracked nonces
+ */
+export function getNonceKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+/**
+ * Drop nonces the chain has mined, and reservations that never reached it in time
+ */
+export function pruneTrackedNonces(
+  tracked: TrackedNonce[],
+  chain: AccountNonces,
+  now: number,
+  ttl: number = NONCE_RESERVATION_TTL,
+): TrackedNonce[] {
+  return tracked.filter(
+    ({ nonce, reservedAt }) =>
+      nonce >= chain.latest && (nonce < chain.pending || now - reservedAt < ttl),
+  );
+}
+
+/**
+ * Lowest nonce neither seen by the chain nor tracked
+ */
+export function getNextNonce(tracked: TrackedNonce[], chain: AccountNonces): number {
+  const taken = new Set(tracked.map(({ nonce }) => nonce));
+  let nonce = chain.pending;
+  while (taken.has(nonce)) {
+    nonce++;
+  }
+  return nonce;
+}
+
+/**
+ * Hand out the next nonce, returning it with the pruned and updated tracked nonces
+ */
+export function reserveNonce(
+  tracked: TrackedNonce[],
+  chain: AccountNonces,
+  now: number,
+  ttl: number = NONCE_RESERVATION_TTL,
+): { nonce: number; tracked: TrackedNonce[] } {
+  const current = pruneTrackedNonces(tracked, chain, now, ttl);
+  const nonce = getNextNonce(current, chain);
+  return {
+    nonce,
+    tracked: [...current, { nonce, reservedAt: now }].sort((a, b) => a.nonce - b.nonce),
+  };
+}
+
+function raise(value: bigint): bigint {
+  const percent = BigInt(100);
+  return (value * (percent + BigInt(REPLACEMENT_FEE_BUMP_PERCENT)) + percent - BigInt(1)) / percent;
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+/**
+ * Fees for a replacement of a pending transaction
+ *
+ * The requested fees are raised to the minimum bump over the original where
+ * they fall short. A legacy gas price counts as both fee cap and tip.
+ */
+export function getReplacementFees(original: EvmFees, requested: EvmFees): EvmFees {
+  const originalCap = BigInt(original.maxFeePerGas ?? original.gasPrice ?? 0);
+  const originalTip = BigInt(original.maxPriorityFeePerGas ?? original.gasPrice ?? 0);
+
+  if (requested.gasPrice !== undefined) {
+    return {
+      gasPrice: max(BigInt(requested.gasPrice), raise(max(originalCap, originalTip))).toString(),
+    };
+  }
+  const tip = max(BigInt(requested.maxPriorityFeePerGas ?? 0), raise(originalTip));
+  const cap = max(max(BigInt(requested.maxFeePerGas ?? 0), raise(originalCap)), tip);
+  return { maxFeePerGas: cap.toString(), maxPriorityFeePerGas: tip.toString() };
+}
+
+/**
+ * Classify a transaction from its receipt, or the reason it has none yet
+ */
+export function getTransactionStatus(options: TransactionStatusOptions): TransactionStatus {
+  const { receiptStatus, transaction, latestNonce, baseFeePerGas } = options;
+  if (receiptStatus !== undefined) {
+    return receiptStatus === 1
+      ? { status: 'confirmed' }
+      : { status: 'failed', reason: 'The transaction reverted' };
+  }
+  if (!transaction) {
+    return {
+      status: 'notFound',
+      reason: 'The node does not know the transaction: it was dropped or never broadcast',
+    };
+  }
+
+  const { nonce, fees } = transaction;
+  if (latestNonce !== undefined && nonce < latestNonce) {
+    return { status: 'replaced', reason: `Another transaction with nonce ${nonce} was mined` };
+  }
+  const cap = fees.maxFeePerGas ?? fees.gasPrice;
+  if (baseFeePerGas !== undefined && cap !== undefined && BigInt(cap) < BigInt(baseFeePerGas)) {
+    return {
+      status: 'stuck',
+      reason: `The fee cap of ${cap} wei is below the base fee of ${baseFeePerGas} wei`,
+    };
+  }
+  if (latestNonce !== undefined && nonce > latestNonce) {
+    return { status: 'queued', reason: `Waiting for nonce ${latestNonce} to be mined` };
+  }
+  return { status: 'pending' };
+}
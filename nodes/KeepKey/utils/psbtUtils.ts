@@ -0,0 +1,435 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Partially Signed Bitcoin Transactions (BIP-174, version 0)
+ *
+ * Each map is kept as its raw key-value entries so fields this module does
+ * not interpret survive a decode/encode round trip unchanged.
+ */
+
+import {
+  encodeVarInt,
+  parseBitcoinTransaction,
+  serializeBitcoinTransaction,
+  type RawBitcoinOutput,
+  type RawBitcoinTransaction,
+} from './transactionUtils';
+
+export interface PsbtEntry {
+  /** Full key, starting with the key type byte */
+  key: Buffer;
+  value: Buffer;
+}
+
+export type PsbtMap = PsbtEntry[];
+
+export interface Psbt {
+  global: PsbtMap;
+  inputs: PsbtMap[];
+  outputs: PsbtMap[];
+  /** The global unsigned transaction */
+  tx: RawBitcoinTransaction;
+}
+
+export interface MultisigScript {
+  /** Signatures required */
+  m: number;
+  /** Compressed keys in script order */
+  pubkeys: Buffer[];
+}
+
+export interface Bip32Derivation {
+  pubkey: Buffer;
+  /** Master key fingerprint, 4 bytes */
+  fingerprint: Buffer;
+  path: number[];
+}
+
+export const PSBT_GLOBAL = {
+  UNSIGNED_TX: 0x00,
+  XPUB: 0x01,
+  VERSION: 0xfb,
+} as const;
+
+export const PSBT_IN = {
+  NON_WITNESS_UTXO: 0x00,
+  WITNESS_UTXO: 0x01,
+  PARTIAL_SIG: 0x02,
+  SIGHASH_TYPE: 0x03,
+  REDEEM_SCRIPT: 0x04,
+  WITNESS_SCRIPT: 0x05,
+  BIP32_DERIVATION: 0x06,
+  FINAL_SCRIPTSIG: 0x07,
+  FINAL_SCRIPTWITNESS: 0x08,
+} as const;
+
+export const PSBT_OUT = {
+  REDEEM_SCRIPT: 0x00,
+  WITNESS_SCRIPT: 0x01,
+  BIP32_DERIVATION: 0x02,
+} as const;
+
+const PSBT_MAGIC = Buffer.from('70736274ff', 'hex');
+
+export const SIGHASH_ALL = 0x01;
+
+/**
+ * Read a CompactSize integer, returning it with the offset just past it
+ */
+function readVarIntAt(data: Buffer, offset: number): [number, number] {
+  if (offset >= data.length) {
+    throw new Error('PSBT is truncated');
+  }
+  const prefix = data[offset];
+  if (prefix === 0xfd) {
+    return [data.readUInt16LE(offset + 1), offset + 3];
+  }
+  if (prefix === 0xfe) {
+    return [data.readUInt32LE(offset + 1), offset + 5];
+  }
+  if (prefix === 0xff) {
+    const value = data.readUInt32LE(offset + 1) + data.readUInt32LE(offset + 5) * 0x100000000;
+    return [value, offset + 9];
+  }
+  return [prefix, offset + 1];
+}
+
+/**
+ * Decode a PSBT given as base64 or hex
+ */
+export function decodePsbt(encoded: string): Psbt {
+  const text = encoded.trim();
+  const data = /^([0-9a-fA-F]{2})+$/.test(text)
+    ? Buffer.from(text, 'hex')
+    : Buffer.from(text, 'base64');
+  if (!data.subarray(0, PSBT_MAGIC.length).equals(PSBT_MAGIC)) {
+    throw new Error('Not a PSBT: missing magic bytes');
+  }
+  let offset = PSBT_MAGIC.length;
+
+  const take = (length: number): Buffer => {
+    if (offset + length > data.length) {
+      throw new Error('PSBT is truncated');
+    }
+    const slice = data.subarray(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+  const readVarInt = (): number => {
+    const [value, next] = readVarIntAt(data, offset);
+    take(next - offset);
+    return value;
+  };
+  const readMap = (label: string): PsbtMap => {
+    const map: PsbtMap = [];
+    for (;;) {
+      const keyLength = readVarInt();
+      if (keyLength === 0) {
+        return map;
+      }
+      const key = Buffer.from(take(keyLength));
+      const value = Buffer.from(take(readVarInt()));
+      if (map.some((entry) => entry.key.equals(key))) {
+        throw new Error(`Duplicate key ${key.toString('hex')} in PSBT ${label}`);
+      }
+      map.push({ key, value });
+    }
+  };
+
+  const global = readMap('global map');
+  const unsignedTx = getPsbtField(global, PSBT_GLOBAL.UNSIGNED_TX);
+  if (!unsignedTx) {
+    throw new Error('PSBT has no unsigned transaction');
+  }
+  const version = getPsbtField(global, PSBT_GLOBAL.VERSION);
+  if (version && version.readUInt32LE(0) !== 0) {
+    throw new Error(`PSBT version ${version.readUInt32LE(0)} is not supported`);
+  }
+  const tx = parseBitcoinTransaction(unsignedTx.toString('hex'));
+  if (tx.inputs.some((input) => input.scriptSig)) {
+    throw new Error('PSBT unsigned transaction must have empty scriptSigs');
+  }
+
+  const inputs = tx.inputs.map((_, index) => readMap(`input ${index}`));
+  const outputs = tx.outputs.map((_, index) => readMap(`output ${index}`));
+  if (offset !== data.length) {
+    throw new Error('PSBT has trailing data');
+  }
+
+  inputs.forEach((input, index) => {
+    const prevTx = getPsbtField(input, PSBT_IN.NON_WITNESS_UTXO);
+    if (
+      prevTx &&
+      parseBitcoinTransaction(prevTx.toString('hex')).txid !== tx.inputs[index].prevHash
+    ) {
+      throw new Error(`PSBT input ${index} previous transaction does not match its outpoint`);
+    }
+  });
+
+  return { global, inputs, outputs, tx };
+}
+
+/**
+ * Serialize a PSBT to its binary form
+ */
+export function encodePsbt(psbt: Psbt): Buffer {
+  const parts: Buffer[] = [PSBT_MAGIC];
+  for (const map of [psbt.global, ...psbt.inputs, ...psbt.outputs]) {
+    for (const { key, value } of map) {
+      parts.push(encodeVarInt(key.length), key, encodeVarInt(value.length), value);
+    }
+    parts.push(Buffer.from([0x00]));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Value of the key that consists of the type byte alone
+ */
+export function getPsbtField(map: PsbtMap, type: number): Buffer | undefined {
+  return map.find((entry) => entry.key.length === 1 && entry.key[0] === type)?.value;
+}
+
+/**
+ * All entries of a key type, for types keyed by extra data such as a public key
+ */
+export function getPsbtEntries(map: PsbtMap, type: number): PsbtEntry[] {
+  return map.filter((entry) => entry.key[0] === type);
+}
+
+/**
+ * Add an entry, replacing any existing entry with the same key
+ */
+export function setPsbtEntry(map: PsbtMap, key: Buffer, value: Buffer): void {
+  const existing = map.find((entry) => entry.key.equals(key));
+  if (existing) {
+    existing.value = value;
+  } else {
+    map.push({ key, value });
+  }
+}
+
+/**
+ * BIP32 derivations of an input or output map
+ */
+export function getBip32Derivations(map: PsbtMap, type: number): Bip32Derivation[] {
+  return getPsbtEntries(map, type).map(({ key, value }) => {
+    if (value.length < 4 || value.length % 4) {
+      throw new Error('Invalid PSBT BIP32 derivation');
+    }
+    const path: number[] = [];
+    for (let offset = 4; offset < value.length; offset += 4) {
+      path.push(value.readUInt32LE(offset));
+    }
+    return { pubkey: key.subarray(1), fingerprint: value.subarray(0, 4), path };
+  });
+}
+
+/**
+ * The output an input spends, from its witness UTXO or full previous transaction
+ */
+export function getPsbtInputUtxo(psbt: Psbt, index: number): RawBitcoinOutput | undefined {
+  const input = psbt.inputs[index];
+  const witnessUtxo = getPsbtField(input, PSBT_IN.WITNESS_UTXO);
+  if (witnessUtxo) {
+    const [scriptLength, scriptStart] = readVarIntAt(witnessUtxo, 8);
+    return {
+      amount: witnessUtxo.readUInt32LE(0) + witnessUtxo.readUInt32LE(4) * 0x100000000,
+      scriptPubKey: witnessUtxo.subarray(scriptStart, scriptStart + scriptLength).toString('hex'),
+    };
+  }
+  const prevTx = getPsbtField(input, PSBT_IN.NON_WITNESS_UTXO);
+  if (prevTx) {
+    const parsed = parseBitcoinTransaction(prevTx.toString('hex'));
+    return parsed.outputs[psbt.tx.inputs[index].prevIndex];
+  }
+  return undefined;
+}
+
+function pushData(data: Buffer): Buffer {
+  if (data.length < 0x4c) {
+    return Buffer.concat([Buffer.from([data.length]), data]);
+  }
+  if (data.length <= 0xff) {
+    return Buffer.concat([Buffer.from([0x4c, data.length]), data]);
+  }
+  const prefix = Buffer.from([0x4d, 0, 0]);
+  prefix.writeUInt16LE(data.length, 1);
+  return Buffer.concat([prefix, data]);
+}
+
+/**
+ * Threshold and keys of an OP_m <pubkeys> OP_n OP_CHECKMULTISIG script
+ */
+export function parseMultisigScript(script: Buffer): MultisigScript | null {
+  const m = script[0] - 0x50;
+  const n = script[script.length - 2] - 0x50;
+  if (
+    script[script.length - 1] !== 0xae ||
+    !(m >= 1 && m <= n && n <= 16) ||
+    script.length !== n * 34 + 3
+  ) {
+    return null;
+  }
+  const pubkeys: Buffer[] = [];
+  for (let offset = 1; offset < script.length - 2; offset += 34) {
+    if (script[offset] !== 0x21) {
+      return null;
+    }
+    pubkeys.push(script.subarray(offset + 1, offset + 34));
+  }
+  return { m, pubkeys };
+}
+
+/**
+ * The first m partial signatures in key order, as CHECKMULTISIG expects them
+ */
+function getMultisigSignatures(input: PsbtMap, multisig: MultisigScript, index: number): Buffer[] {
+  const partialSigs = getPsbtEntries(input, PSBT_IN.PARTIAL_SIG);
+  const signatures = multisig.pubkeys
+    .map((pubkey) => partialSigs.find((entry) => entry.key.subarray(1).equals(pubkey))?.value)
+    .filter((signature): signature is Buffer => signature !== undefined);
+  if (signatures.length < multisig.m) {
+    throw new Error(
+      `PSBT input ${index} needs ${multisig.m} signatures to finalize, has ${signatures.length}`,
+    );
+  }
+  return signatures.slice(0, multisig.m);
+}
+
+interface FinalScripts {
+  scriptSig?: Buffer;
+  witness?: Buffer[];
+}
+
+/**
+ * Final scripts of a multisig input (P2SH, P2WSH or P2SH-P2WSH), or null for other scripts
+ */
+function finalizeMultisig(input: PsbtMap, script: string, index: number): FinalScripts | null {
+  const redeemScript = getPsbtField(input, PSBT_IN.REDEEM_SCRIPT);
+  const witnessScript = getPsbtField(input, PSBT_IN.WITNESS_SCRIPT);
+  const nested = /^a914[0-9a-f]{40}87$/.test(script);
+
+  const witnessMultisig = witnessScript && parseMultisigScript(witnessScript);
+  if (witnessScript && witnessMultisig && (nested || /^0020[0-9a-f]{64}$/.test(script))) {
+    // CHECKMULTISIG pops one extra, empty item ahead of the signatures
+    const signatures = getMultisigSignatures(input, witnessMultisig, index);
+    return {
+      scriptSig: nested && redeemScript ? pushData(redeemScript) : undefined,
+      witness: [Buffer.alloc(0), ...signatures, witnessScript],
+    };
+  }
+  const redeemMultisig = redeemScript && parseMultisigScript(redeemScript);
+  if (redeemScript && redeemMultisig && nested) {
+    const signatures = getMultisigSignatures(input, redeemMultisig, index);
+    return {
+      scriptSig: Buffer.concat([
+        Buffer.from([0x00]),
+        ...signatures.map(pushData),
+        pushData(redeemScript),
+      ]),
+    };
+  }
+  return null;
+}
+
+/**
+ * Final scripts of a single-key input (P2PKH, P2WPKH or P2SH-P2WPKH)
+ */
+function finalizeSingleKey(input: PsbtMap, script: string, index: number): FinalScripts {
+  const signatures = getPsbtEntries(input, PSBT_IN.PARTIAL_SIG);
+  if (signatures.length !== 1) {
+    throw new Error(`PSBT input ${index} needs its UTXO and exactly one signature to finalize`);
+  }
+  const pubkey = signatures[0].key.subarray(1);
+  const signature = signatures[0].value;
+  const redeemScript = getPsbtField(input, PSBT_IN.REDEEM_SCRIPT);
+
+  if (/^76a914[0-9a-f]{40}88ac$/.test(script)) {
+    return { scriptSig: Buffer.concat([pushData(signature), pushData(pubkey)]) };
+  }
+  if (/^0014[0-9a-f]{40}$/.test(script)) {
+    return { witness: [signature, pubkey] };
+  }
+  if (/^a914[0-9a-f]{40}87$/.test(script) && redeemScript?.length === 22) {
+    return { scriptSig: pushData(redeemScript), witness: [signature, pubkey] };
+  }
+  throw new Error(`PSBT input ${index} uses a script type that cannot be finalized here`);
+}
+
+/**
+ * Finalize an input from its partial signatures, for single-key scripts and
+ * m-of-n multisig
+ *
+ * Returns false when the input is already final.
+ */
+export function finalizePsbtInput(psbt: Psbt, index: number): boolean {
+  const input = psbt.inputs[index];
+  if (
+    getPsbtField(input, PSBT_IN.FINAL_SCRIPTSIG) ||
+    getPsbtField(input, PSBT_IN.FINAL_SCRIPTWITNESS)
+  ) {
+    return false;
+  }
+  const utxo = getPsbtInputUtxo(psbt, index);
+  if (!utxo) {
+    throw new Error(`PSBT input ${index} is missing the output it spends`);
+  }
+  const { scriptSig, witness } =
+    finalizeMultisig(input, utxo.scriptPubKey, index) ??
+    finalizeSingleKey(input, utxo.scriptPubKey, index);
+
+  // The finalizer keeps only the UTXO and unknown fields
+  const kept = input.filter(
+    (entry) =>
+      entry.key[0] === PSBT_IN.NON_WITNESS_UTXO ||
+      entry.key[0] === PSBT_IN.WITNESS_UTXO ||
+      entry.key[0] > PSBT_IN.FINAL_SCRIPTWITNESS,
+  );
+  input.splice(0, input.length, ...kept);
+  if (scriptSig) {
+    input.push({ key: Buffer.from([PSBT_IN.FINAL_SCRIPTSIG]), value: scriptSig });
+  }
+  if (witness) {
+    const items = witness.map((item) => Buffer.concat([encodeVarInt(item.length), item]));
+    input.push({
+      key: Buffer.from([PSBT_IN.FINAL_SCRIPTWITNESS]),
+      value: Buffer.concat([encodeVarInt(witness.length), ...items]),
+    });
+  }
+  return true;
+}
+
+function decodeWitness(data: Buffer): string[] {
+  const items: string[] = [];
+  let [count, offset] = readVarIntAt(data, 0);
+  for (; count > 0; count--) {
+    const [length, start] = readVarIntAt(data, offset);
+    items.push(data.subarray(start, start + length).toString('hex'));
+    offset = start + length;
+  }
+  return items;
+}
+
+/**
+ * Network serialization of a fully finalized PSBT
+ */
+export function extractPsbtTransaction(psbt: Psbt): string {
+  const witnesses: string[][] = [];
+  const inputs = psbt.tx.inputs.map((input, index) => {
+    const map = psbt.inputs[index];
+    const scriptSig = getPsbtField(map, PSBT_IN.FINAL_SCRIPTSIG);
+    const witness = getPsbtField(map, PSBT_IN.FINAL_SCRIPTWITNESS);
+    if (!scriptSig && !witness) {
+      throw new Error(`PSBT input ${index} is not finalized`);
+    }
+    witnesses.push(witness ? decodeWitness(witness) : []);
+    return { ...input, scriptSig: scriptSig?.toString('hex') ?? '' };
+  });
+  return serializeBitcoinTransaction({ ...psbt.tx, inputs }, witnesses);
+}
@@ -0,0 +1,548 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * QR code (ISO/IEC 18004) encoder with PNG, SVG and text renderers
+ *
+ * Content is always encoded in byte mode as UTF-8, in the smallest version
+ * that fits at the requested error correction level.
+ */
+
+import * as zlib from 'zlib';
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number;
+  errorCorrection: QrErrorCorrection;
+  /** Modules per side */
+  size: number;
+  /** Dark modules, indexed [row][column] */
+  modules: boolean[][];
+}
+
+export interface QrRenderOptions {
+  /** Pixels per module (PNG) or user units per module (SVG) */
+  scale?: number;
+  /** Quiet zone width in modules */
+  margin?: number;
+}
+
+// Format information bits of each level, and the per-version block layout tables
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// prettier-ignore
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [0, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [0, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+// prettier-ignore
+const ECC_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [0, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+  (row, col) => (row + col) % 2 === 0,
+  (row) => row % 2 === 0,
+  (_row, col) => col % 3 === 0,
+  (row, col) => (row + col) % 3 === 0,
+  (row, col) => (Math.floor(row / 2) + Math.floor(col / 3)) % 2 === 0,
+  (row, col) => ((row * col) % 2) + ((row * col) % 3) === 0,
+  (row, col) => (((row * col) % 2) + ((row * col) % 3)) % 2 === 0,
+  (row, col) => (((row + col) % 2) + ((row * col) % 3)) % 2 === 0,
+];
+
+// Finder-like run 1:1:3:1:1 next to four light modules, penalised when masking
+const FINDER_LIKE = ['10111010000', '00001011101'];
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+/**
+ * Codewords left for data and error correction once function patterns are placed
+ */
+function getRawCodewords(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      modules -= 36;
+    }
+  }
+  return Math.floor(modules / 8);
+}
+
+function getDataCapacity(version: number, level: QrErrorCorrection): number {
+  return (
+    getRawCodewords(version) - ECC_CODEWORDS_PER_BLOCK[level][version] * ECC_BLOCKS[level][version]
+  );
+}
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = size - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+// GF(256) with the QR reducing polynomial x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let product = 0;
+  for (let i = 7; i >= 0; i--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> i) & 1) * x;
+  }
+  return product;
+}
+
+function getReedSolomonDivisor(degree: number): number[] {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < degree) {
+        divisor[j] ^= divisor[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return divisor;
+}
+
+function getReedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const remainder = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => {
+      remainder[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return remainder;
+}
+
+/**
+ * Byte-mode segment, terminator and pad codewords for a version
+ */
+function encodeData(data: Buffer, version: number, capacity: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+  append(0b0100, 4);
+  append(data.length, version < 10 ? 8 : 16);
+  data.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+/**
+ * Split data into blocks, append their error correction and interleave them
+ */
+function addErrorCorrection(data: number[], version: number, level: QrErrorCorrection): number[] {
+  const blockCount = ECC_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = getRawCodewords(version);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getReedSolomonDivisor(eccLength);
+
+  // Short blocks get a placeholder after their data so all blocks line up
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = getReedSolomonRemainder(blockData, divisor);
+    blocks.push([...blockData, ...(i < shortBlocks ? [0] : []), ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortBlockLength; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+class QrMatrix {
+  readonly modules: boolean[][];
+  readonly reserved: boolean[][];
+
+  constructor(readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    this.reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  }
+
+  setFunction(row: number, col: number, dark: boolean): void {
+    this.modules[row][col] = dark;
+    this.reserved[row][col] = true;
+  }
+
+  drawFunctionPatterns(version: number): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    for (const [row, col] of [
+      [3, 3],
+      [3, this.size - 4],
+      [this.size - 4, 3],
+    ]) {
+      this.drawFinder(row, col);
+    }
+
+    const alignments = getAlignmentPositions(version);
+    const last = alignments.length - 1;
+    alignments.forEach((row, i) => {
+      alignments.forEach((col, j) => {
+        // Skip the three corners taken by finder patterns
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+          this.drawAlignment(row, col);
+        }
+      });
+    });
+
+    // Reserve the format areas before data is placed; the bits are written per mask
+    this.drawFormatBits(0);
+    this.drawVersionBits(version);
+  }
+
+  drawFinder(centerRow: number, centerCol: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const row = centerRow + dy;
+        const col = centerCol + dx;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (row >= 0 && row < this.size && col >= 0 && col < this.size) {
+          this.setFunction(row, col, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  drawAlignment(centerRow: number, centerCol: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(
+          centerRow + dy,
+          centerCol + dx,
+          Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+        );
+      }
+    }
+  }
+
+  drawFormatBits(formatData: number): void {
+    let remainder = formatData;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((formatData << 10) | remainder) ^ 0x5412;
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) {
+      this.setFunction(i, 8, getBit(bits, i));
+    }
+    this.setFunction(7, 8, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(8, 7, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunction(8, 14 - i, getBit(bits, i));
+    }
+
+    // Split between the top-right and bottom-left finders
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(8, this.size - 1 - i, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(this.size - 15 + i, 8, getBit(bits, i));
+    }
+    this.setFunction(this.size - 8, 8, true);
+  }
+
+  drawVersionBits(version: number): void {
+    if (version < 7) {
+      return;
+    }
+    let remainder = version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(b, a, getBit(bits, i));
+      this.setFunction(a, b, getBit(bits, i));
+    }
+  }
+
+  /**
+   * Place codewords in the two-module-wide zigzag from the bottom-right corner
+   */
+  drawCodewords(codewords: number[]): void {
+    let bit = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        const row = upward ? this.size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const col = right - j;
+          if (!this.reserved[row][col] && bit < codewords.length * 8) {
+            this.modules[row][col] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+            bit++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let row = 0; row < this.size; row++) {
+      for (let col = 0; col < this.size; col++) {
+        if (!this.reserved[row][col] && MASKS[mask](row, col)) {
+          this.modules[row][col] = !this.modules[row][col];
+        }
+      }
+    }
+  }
+
+  getPenalty(): number {
+    let penalty = 0;
+    const lines: string[] = [];
+    for (let i = 0; i < this.size; i++) {
+      lines.push(this.modules[i].map(Number).join(''));
+      lines.push(this.modules.map((row) => Number(row[i])).join(''));
+    }
+
+    for (const line of lines) {
+      // Runs of five or more same-colour modules
+      for (const run of line.match(/0{5,}|1{5,}/g) ?? []) {
+        penalty += run.length - 2;
+      }
+      for (const pattern of FINDER_LIKE) {
+        for (
+          let index = line.indexOf(pattern);
+          index >= 0;
+          index = line.indexOf(pattern, index + 1)
+        ) {
+          penalty += 40;
+        }
+      }
+    }
+
+    let dark = 0;
+    for (let row = 0; row < this.size; row++) {
+      for (let col = 0; col < this.size; col++) {
+        const color = this.modules[row][col];
+        dark += Number(color);
+        if (
+          row < this.size - 1 &&
+          col < this.size - 1 &&
+          color === this.modules[row][col + 1] &&
+          color === this.modules[row + 1][col] &&
+          color === this.modules[row + 1][col + 1]
+        ) {
+          penalty += 3;
+        }
+      }
+    }
+    const total = this.size * this.size;
+    return penalty + Math.floor(Math.abs((dark * 100) / total - 50) / 5) * 10;
+  }
+}
+
+/**
+ * Encode text as the smallest QR code that holds it at the given error correction level
+ */
+export function encodeQrCode(text: string, errorCorrection: QrErrorCorrection = 'M'): QrCode {
+  if (!(errorCorrection in FORMAT_BITS)) {
+    throw new Error(`Unknown error correction level ${errorCorrection}`);
+  }
+  const data = Buffer.from(text, 'utf8');
+  let version = 1;
+  const requiredBits = (v: number) => 4 + (v < 10 ? 8 : 16) + data.length * 8;
+  while (version <= 40 && requiredBits(version) > getDataCapacity(version, errorCorrection) * 8) {
+    version++;
+  }
+  if (version > 40) {
+    throw new Error(
+      `${data.length} bytes do not fit in a QR code at error correction level ${errorCorrection}`,
+    );
+  }
+
+  const capacity = getDataCapacity(version, errorCorrection);
+  const codewords = addErrorCorrection(
+    encodeData(data, version, capacity),
+    version,
+    errorCorrection,
+  );
+
+  const size = version * 4 + 17;
+  let best: QrMatrix | undefined;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const matrix = new QrMatrix(size);
+    matrix.drawFunctionPatterns(version);
+    matrix.drawCodewords(codewords);
+    matrix.applyMask(mask);
+    matrix.drawFormatBits((FORMAT_BITS[errorCorrection] << 3) | mask);
+    const penalty = matrix.getPenalty();
+    if (penalty < bestPenalty) {
+      best = matrix;
+      bestPenalty = penalty;
+    }
+  }
+  return { version, errorCorrection, size, modules: (best as QrMatrix).modules };
+}
+
+function getLayout(options: QrRenderOptions): { scale: number; margin: number } {
+  const { scale = 8, margin = 4 } = options;
+  if (!Number.isInteger(scale) || scale < 1 || !Number.isInteger(margin) || margin < 0) {
+    throw new Error('QR scale must be a positive integer and margin a non-negative integer');
+  }
+  return { scale, margin };
+}
+
+/**
+ * Render as an SVG document, one path for all dark modules
+ */
+export function renderQrSvg(qr: QrCode, options: QrRenderOptions = {}): string {
+  const { scale, margin } = getLayout(options);
+  const width = (qr.size + margin * 2) * scale;
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) {
+        path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+      }
+    });
+  });
+  const viewBox = qr.size + margin * 2;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${width}"`,
+    ` viewBox="0 0 ${viewBox} ${viewBox}" shape-rendering="crispEdges">`,
+    '<rect width="100%" height="100%" fill="#ffffff"/>',
+    `<path d="${path.join('')}" fill="#000000"/>`,
+    '</svg>',
+  ].join('');
+}
+
+/**
+ * Render with Unicode half blocks, two module rows per line; dark modules are ink
+ */
+export function renderQrText(qr: QrCode, options: QrRenderOptions = {}): string {
+  const { margin } = getLayout(options);
+  const isDark = (row: number, col: number) =>
+    row >= 0 && row < qr.size && col >= 0 && col < qr.size && qr.modules[row][col];
+
+  const lines: string[] = [];
+  for (let row = -margin; row < qr.size + margin; row += 2) {
+    let line = '';
+    for (let col = -margin; col < qr.size + margin; col++) {
+      const top = isDark(row, col);
+      const bottom = isDark(row + 1, col);
+      line += top ? (bottom ? '█' : '▀') : bottom ? '▄' : ' ';
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
+
+// CRC-32 (IEEE) table for PNG chunk checksums
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Render as an 8-bit greyscale PNG image
+ */
+export function renderQrPng(qr: QrCode, options: QrRenderOptions = {}): Buffer {
+  const { scale, margin } = getLayout(options);
+  const width = (qr.size + margin * 2) * scale;
+
+  // One filter byte (none) per scanline, then a byte per pixel
+  const pixels = Buffer.alloc((width + 1) * width, 0xff);
+  for (let y = 0; y < width; y++) {
+    pixels[y * (width + 1)] = 0;
+    const row = Math.floor(y / scale) - margin;
+    for (let x = 0; x < width; x++) {
+      const col = Math.floor(x / scale) - margin;
+      if (row >= 0 && row < qr.size && col >= 0 && col < qr.size && qr.modules[row][col]) {
+        pixels[y * (width + 1) + 1 + x] = 0;
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(width, 4);
+  header.writeUInt8(8, 8); // bit depth
+  header.writeUInt8(0, 9); // greyscale
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(pixels)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
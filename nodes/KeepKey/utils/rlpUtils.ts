@@ -0,0 +1,118 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Recursive Length Prefix (RLP) encoding used by Ethereum transactions
+ */
+
+export type RlpItem = Buffer | RlpItem[];
+
+function encodeLength(length: number, offset: number): Buffer {
+  if (length <= 55) {
+    return Buffer.from([offset + length]);
+  }
+  const lengthBytes = Buffer.from(toMinimalHex(length), 'hex');
+  return Buffer.concat([Buffer.from([offset + 55 + lengthBytes.length]), lengthBytes]);
+}
+
+function toMinimalHex(value: number): string {
+  const hex = value.toString(16);
+  return hex.length % 2 ? `0${hex}` : hex;
+}
+
+/**
+ * RLP-encode a byte string or a nested list of them
+ */
+export function rlpEncode(item: RlpItem): Buffer {
+  if (Array.isArray(item)) {
+    const payload = Buffer.concat(item.map(rlpEncode));
+    return Buffer.concat([encodeLength(payload.length, 0xc0), payload]);
+  }
+  if (item.length === 1 && item[0] < 0x80) {
+    return item;
+  }
+  return Buffer.concat([encodeLength(item.length, 0x80), item]);
+}
+
+/**
+ * Decode a single RLP item
+ */
+export function rlpDecode(data: Buffer): RlpItem {
+  const [item, end] = decodeItem(data, 0);
+  if (end !== data.length) {
+    throw new Error('RLP data has trailing bytes');
+  }
+  return item;
+}
+
+function decodeItem(data: Buffer, offset: number): [RlpItem, number] {
+  if (offset >= data.length) {
+    throw new Error('RLP data is truncated');
+  }
+  const prefix = data[offset];
+
+  if (prefix < 0x80) {
+    return [data.subarray(offset, offset + 1), offset + 1];
+  }
+
+  const isList = prefix >= 0xc0;
+  const base = isList ? 0xc0 : 0x80;
+  let start = offset + 1;
+  let length = prefix - base;
+  if (length > 55) {
+    const lengthOfLength = length - 55;
+    length = readLength(data, start, lengthOfLength);
+    start += lengthOfLength;
+  }
+  const end = start + length;
+  if (end > data.length) {
+    throw new Error('RLP data is truncated');
+  }
+
+  if (!isList) {
+    return [data.subarray(start, end), end];
+  }
+  const items: RlpItem[] = [];
+  let position = start;
+  while (position < end) {
+    const [child, next] = decodeItem(data, position);
+    items.push(child);
+    position = next;
+  }
+  if (position !== end) {
+    throw new Error('RLP list length does not match its contents');
+  }
+  return [items, end];
+}
+
+function readLength(data: Buffer, offset: number, size: number): number {
+  if (offset + size > data.length) {
+    throw new Error('RLP data is truncated');
+  }
+  let length = 0;
+  for (let i = 0; i < size; i++) {
+    length = length * 256 + data[offset + i];
+  }
+  return length;
+}
+
+/**
+ * Minimal big-endian bytes of a non-negative integer (empty for zero), as RLP expects
+ *
+ * Accepts numbers, decimal strings and 0x-prefixed hex strings.
+ */
+export function toRlpInteger(value: number | string | bigint): Buffer {
+  const integer = BigInt(value);
+  if (integer < BigInt(0)) {
+    throw new Error(`Cannot RLP-encode negative integer ${integer.toString()}`);
+  }
+  if (integer === BigInt(0)) {
+    return Buffer.alloc(0);
+  }
+  const hex = integer.toString(16);
+  return Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+}
@@ -0,0 +1,166 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * secp256k1 public key arithmetic
+ *
+ * Scalar multiplication of the generator is left to Node's ECDH; the point
+ * arithmetic needed for key tweaks and signature recovery is done here.
+ */
+
+import * as crypto from 'crypto';
+
+const P = BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f');
+const N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+
+interface Point {
+  x: bigint;
+  y: bigint;
+}
+
+function mod(value: bigint, modulus = P): bigint {
+  const result = value % modulus;
+  return result >= BigInt(0) ? result : result + modulus;
+}
+
+function modPow(base: bigint, exponent: bigint, modulus = P): bigint {
+  let result = BigInt(1);
+  let power = mod(base, modulus);
+  for (let e = exponent; e > BigInt(0); e >>= BigInt(1)) {
+    if (e & BigInt(1)) {
+      result = mod(result * power, modulus);
+    }
+    power = mod(power * power, modulus);
+  }
+  return result;
+}
+
+function toBigInt(bytes: Buffer): bigint {
+  return BigInt(`0x${bytes.toString('hex') || '0'}`);
+}
+
+function toScalarBytes(value: bigint): Buffer {
+  return Buffer.from(value.toString(16).padStart(64, '0'), 'hex');
+}
+
+function toPoint(publicKey: Buffer): Point {
+  const uncompressed = crypto.ECDH.convertKey(
+    publicKey,
+    'secp256k1',
+    undefined,
+    undefined,
+    'uncompressed',
+  ) as Buffer;
+  return { x: toBigInt(uncompressed.subarray(1, 33)), y: toBigInt(uncompressed.subarray(33)) };
+}
+
+function toCompressed(point: Point): Buffer {
+  const prefix = point.y & BigInt(1) ? '03' : '02';
+  return Buffer.from(`${prefix}${point.x.toString(16).padStart(64, '0')}`, 'hex');
+}
+
+function addPoints(a: Point, b: Point): Point {
+  let slope: bigint;
+  if (a.x === b.x) {
+    if (mod(a.y + b.y) === BigInt(0)) {
+      throw new Error('Sum is the point at infinity');
+    }
+    slope = mod(BigInt(3) * a.x * a.x * modPow(BigInt(2) * a.y, P - BigInt(2)));
+  } else {
+    slope = mod((b.y - a.y) * modPow(b.x - a.x, P - BigInt(2)));
+  }
+  const x = mod(slope * slope - a.x - b.x);
+  return { x, y: mod(slope * (a.x - x) - a.y) };
+}
+
+function multiplyGenerator(scalar: bigint): Point {
+  const ecdh = crypto.createECDH('secp256k1');
+  ecdh.setPrivateKey(toScalarBytes(scalar));
+  return toPoint(ecdh.getPublicKey());
+}
+
+function multiplyPoint(point: Point, scalar: bigint): Point {
+  let result: Point | undefined;
+  let addend = point;
+  for (let k = scalar; k > BigInt(0); k >>= BigInt(1)) {
+    if (k & BigInt(1)) {
+      result = result ? addPoints(result, addend) : addend;
+    }
+    addend = addPoints(addend, addend);
+  }
+  if (!result) {
+    throw new Error('Scalar must not be zero');
+  }
+  return result;
+}
+
+/**
+ * Compressed public key of publicKey + tweak * G
+ */
+export function tweakPublicKey(publicKey: Buffer, tweak: Buffer): Buffer {
+  const ecdh = crypto.createECDH('secp256k1');
+  try {
+    ecdh.setPrivateKey(tweak);
+  } catch {
+    throw new Error('Tweak is not a valid secp256k1 scalar');
+  }
+  return toCompressed(addPoints(toPoint(publicKey), toPoint(ecdh.getPublicKey())));
+}
+
+/**
+ * BIP340 tagged hash
+ */
+export function taggedHash(tag: string, data: Buffer): Buffer {
+  const tagHash = crypto.createHash('sha256').update(tag).digest();
+  return crypto.createHash('sha256').update(tagHash).update(tagHash).update(data).digest();
+}
+
+/**
+ * BIP86 Taproot output key (x-only) for an internal key with no script tree
+ */
+export function getTaprootOutputKey(publicKey: Buffer): Buffer {
+  const internalKey = publicKey.subarray(1, 33);
+  const evenKey = Buffer.concat([Buffer.from([0x02]), internalKey]);
+  return tweakPublicKey(evenKey, taggedHash('TapTweak', internalKey)).subarray(1);
+}
+
+/**
+ * Uncompressed public key that produced a 64-byte r || s signature over a
+ * 32-byte digest, given the signature's recovery id
+ */
+export function recoverPublicKey(digest: Buffer, signature: Buffer, recoveryId: number): Buffer {
+  const r = toBigInt(signature.subarray(0, 32));
+  const s = toBigInt(signature.subarray(32));
+  if (signature.length !== 64 || r === BigInt(0) || r >= N || s === BigInt(0) || s >= N) {
+    throw new Error('Signature is not a valid secp256k1 signature');
+  }
+  const x = r + (recoveryId & 2 ? N : BigInt(0));
+  if (recoveryId < 0 || recoveryId > 3 || x >= P) {
+    throw new Error(`Invalid recovery id ${recoveryId}`);
+  }
+
+  // R is the nonce point; its y parity is the low bit of the recovery id
+  let y = modPow(x * x * x + BigInt(7), (P + BigInt(1)) / BigInt(4));
+  if (mod(y * y) !== mod(x * x * x + BigInt(7))) {
+    throw new Error('Signature r is not on the curve');
+  }
+  if ((y & BigInt(1)) !== BigInt(recoveryId & 1)) {
+    y = P - y;
+  }
+
+  // Q = r^-1 (sR - eG)
+  const rInverse = modPow(r, N - BigInt(2), N);
+  const e = mod(toBigInt(digest), N);
+  const sR = multiplyPoint({ x, y }, mod(s * rInverse, N));
+  let q: Point;
+  try {
+    q = e === BigInt(0) ? sR : addPoints(sR, multiplyGenerator(mod(-e * rInverse, N)));
+  } catch {
+    throw new Error('Signature does not recover a public key');
+  }
+  return Buffer.concat([Buffer.from([0x04]), toScalarBytes(q.x), toScalarBytes(q.y)]);
+}
@@ -9,18 +9,64 @@
  * Transaction utilities for Bitcoin, Ethereum, and Cosmos blockchains
  */
 
+import * as crypto from 'crypto';
+
+import { rlpEncode, toRlpInteger, type RlpItem } from './rlpUtils';
+
+/**
+ * An m-of-n multisig script built from the cosigners' extended public keys
+ */
+export interface BitcoinMultisig {
+  /** Signatures required */
+  m: number;
+  /** Account xpub of every cosigner, in redeem script order */
+  xpubs: string[];
+  /** Path below each xpub, e.g. [0, 5] */
+  addressN: number[];
+  /** DER signatures already collected, aligned with xpubs; empty for cosigners yet to sign */
+  signatures?: string[];
+}
+
 export interface BitcoinInput {
   txid: string;
   vout: number;
   value: number;
   scriptPubKey?: string;
   addressN?: number[];
+  scriptType?: string;
+  sequence?: number;
+  multisig?: BitcoinMultisig;
 }
 
 export interface BitcoinOutput {
-  address: string;
+  /** Destination address; omitted for change outputs, which set addressN instead */
+  address?: string;
   value: number;
   scriptType?: string;
+  addressN?: number[];
+  opReturnData?: string;
+  /** Multisig change: the script the change pays to */
+  multisig?: BitcoinMultisig;
+}
+
+export interface RawBitcoinInput {
+  prevHash: string;
+  prevIndex: number;
+  scriptSig: string;
+  sequence: number;
+}
+
+export interface RawBitcoinOutput {
+  amount: number;
+  scriptPubKey: string;
+}
+
+export interface RawBitcoinTransaction {
+  txid: string;
+  version: number;
+  inputs: RawBitcoinInput[];
+  outputs: RawBitcoinOutput[];
+  lockTime: number;
 }
 
 export interface EthereumTxParams {
@@ -36,6 +82,13 @@ export interface EthereumTxParams {
   txType?: number;
 }
 
+export interface EthereumSignature {
+  /** Final v value: chain-adjusted for legacy transactions, the y-parity for EIP-1559 */
+  v: number;
+  r: string;
+  s: string;
+}
+
 export interface CosmosTxParams {
   fromAddress: string;
   toAddress: string;
@@ -49,6 +102,37 @@ export interface CosmosTxParams {
   sequence: number;
 }
 
+/** Everything in a sign doc apart from its messages */
+export type CosmosSignDocParams = Omit<CosmosTxParams, 'fromAddress' | 'toAddress' | 'amount'>;
+
+export interface CosmosCoin {
+  denom: string;
+  amount: string;
+}
+
+export interface CosmosAminoMsg {
+  type: string;
+  value: Record<string, unknown>;
+}
+
+/** Amino JSON sign doc, the document a Cosmos SDK signature covers */
+export interface CosmosSignDoc {
+  account_number: string;
+  chain_id: string;
+  fee: { amount: CosmosCoin[]; gas: string };
+  memo: string;
+  msgs: CosmosAminoMsg[];
+  sequence: string;
+}
+
+/** Signed amino transaction, as accepted by the legacy /txs broadcast endpoint */
+export interface CosmosStdTx {
+  msg: CosmosAminoMsg[];
+  fee: CosmosSignDoc['fee'];
+  signatures: Array<{ pub_key: { type: string; value: string }; signature: string }>;
+  memo: string;
+}
+
 /**
  * Calculate total value from inputs
  */
@@ -75,15 +159,24 @@ export function calculateBitcoinFee(inputs: BitcoinInput[], outputs: BitcoinOutp
 
 /**
  * Estimate Bitcoin transaction size in virtual bytes
+ *
+ * With multisig, inputs spend m-of-n scripts of the address type (P2SH,
+ * P2SH-P2WSH or P2WSH) and outputs pay to the matching script hash.
  */
 export function estimateBitcoinTxSize(
   numInputs: number,
   numOutputs: number,
   addressType: 'legacy' | 'segwit' | 'nativeSegwit' | 'taproot' = 'nativeSegwit',
+  multisig?: { m: number; n: number },
 ): number {
   // Base transaction overhead
   const overhead = 10;
 
+  if (multisig) {
+    const { m, n } = multisig;
+    return overhead + estimateMultisigSizes(m, n, addressType, numInputs, numOutputs);
+  }
+
   switch (addressType) {
     case 'legacy':
       // P2PKH: 148 bytes per input, 34 bytes per output
@@ -102,6 +195,45 @@ export function estimateBitcoinTxSize(
   }
 }
 
+/**
+ * Input and output vbytes for m-of-n multisig scripts
+ */
+function estimateMultisigSizes(
+  m: number,
+  n: number,
+  addressType: string,
+  numInputs: number,
+  numOutputs: number,
+): number {
+  // OP_m <n pubkeys> OP_n OP_CHECKMULTISIG, pushed whole in the scriptSig or witness
+  const redeemScript = 3 + n * 34;
+  const signatures = m * 73;
+  // Outpoint, sequence and a one-byte scriptSig length
+  const outpoint = 41;
+  // Item count, the empty CHECKMULTISIG dummy, signatures and the witness script
+  const witness = 2 + signatures + encodeVarInt(redeemScript).length + redeemScript;
+
+  switch (addressType) {
+    case 'segwit':
+      // The scriptSig pushes the 34-byte P2WSH program
+      return Math.ceil(numInputs * (outpoint + 35 + witness / 4)) + numOutputs * 32;
+    case 'nativeSegwit':
+      return Math.ceil(numInputs * (outpoint + witness / 4)) + numOutputs * 43;
+    default: {
+      // OP_0, the signatures, then the redeem script behind a direct push or OP_PUSHDATA1/2
+      let push = 3;
+      if (redeemScript < 0x4c) {
+        push = 1;
+      } else if (redeemScript <= 0xff) {
+        push = 2;
+      }
+      const scriptSig = 1 + signatures + push + redeemScript;
+      const input = outpoint - 1 + encodeVarInt(scriptSig).length + scriptSig;
+      return numInputs * input + numOutputs * 32;
+    }
+  }
+}
+
 /**
  * Calculate fee rate in sat/vB
  */
@@ -289,6 +421,101 @@ export function buildLegacyTransaction(
   };
 }
 
+/**
+ * Convert a decimal amount to integer base units (wei, gwei, token units)
+ * without floating point error
+ */
+export function toBaseUnits(amount: string | number, decimals: number): string {
+  const text = String(amount).trim();
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || text === '' || text === '.') {
+    throw new Error(`Invalid amount: ${text}`);
+  }
+  const [, whole = '', fraction = ''] = match;
+  if (fraction.replace(/0+$/, '').length > decimals) {
+    throw new Error(`Amount ${text} has more than ${decimals} decimal places`);
+  }
+  const units = `${whole}${fraction.padEnd(decimals, '0').slice(0, decimals)}`;
+  return BigInt(units || '0').toString();
+}
+
+/**
+ * Convert integer base units back to a decimal amount, without trailing zeros
+ */
+export function fromBaseUnits(units: string, decimals: number): string {
+  if (!/^\d+$/.test(units)) {
+    throw new Error(`Invalid base unit amount: ${units}`);
+  }
+  const padded = units.replace(/^0+/, '').padStart(decimals + 1, '0');
+  const whole = padded.slice(0, padded.length - decimals);
+  const fraction = padded.slice(padded.length - decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Build the call data for an ERC-20 transfer(address,uint256)
+ */
+export function buildErc20TransferData(to: string, amount: string): string {
+  const address = to.replace(/^0x/i, '').toLowerCase();
+  if (!/^[0-9a-f]{40}$/.test(address)) {
+    throw new Error(`Invalid recipient address: ${to}`);
+  }
+  const value = BigInt(amount).toString(16);
+  return `0xa9059cbb${address.padStart(64, '0')}${value.padStart(64, '0')}`;
+}
+
+function hexToBuffer(hex: string | undefined): Buffer {
+  return Buffer.from((hex ?? '').replace(/^0x/i, ''), 'hex');
+}
+
+/**
+ * RLP-serialize an Ethereum transaction
+ *
+ * Without a signature this is the payload the signature covers: EIP-155
+ * (with chainId, 0, 0) for legacy transactions, or the EIP-1559 typed payload.
+ */
+export function serializeEthereumTransaction(
+  tx: EthereumTxParams,
+  signature?: EthereumSignature,
+): string {
+  const common: RlpItem[] = [
+    toRlpInteger(tx.gasLimit),
+    hexToBuffer(tx.to),
+    toRlpInteger(tx.value || 0),
+    hexToBuffer(tx.data),
+  ];
+  const signatureFields: RlpItem[] = signature
+    ? [
+        toRlpInteger(signature.v),
+        toRlpInteger(`0x${signature.r}`),
+        toRlpInteger(`0x${signature.s}`),
+      ]
+    : [];
+
+  if (tx.txType === 2) {
+    const fields: RlpItem[] = [
+      toRlpInteger(tx.chainId),
+      toRlpInteger(tx.nonce),
+      toRlpInteger(tx.maxPriorityFeePerGas ?? 0),
+      toRlpInteger(tx.maxFeePerGas ?? 0),
+      ...common,
+      [], // access list
+      ...signatureFields,
+    ];
+    return `0x02${rlpEncode(fields).toString('hex')}`;
+  }
+
+  const fields: RlpItem[] = [
+    toRlpInteger(tx.nonce),
+    toRlpInteger(tx.gasPrice ?? 0),
+    ...common,
+    ...(signature
+      ? signatureFields
+      : [toRlpInteger(tx.chainId), Buffer.alloc(0), Buffer.alloc(0)]),
+  ];
+  return `0x${rlpEncode(fields).toString('hex')}`;
+}
+
 /**
  * Build Cosmos send message
  */
@@ -297,6 +524,7 @@ export function buildCosmosSendMsg(
   toAddress: string,
   amount: string,
   denom: string,
+  type: string = 'cosmos-sdk/MsgSend',
 ): {
   type: string;
   value: {
@@ -306,7 +534,7 @@ export function buildCosmosSendMsg(
   };
 } {
   return {
-    type: 'cosmos-sdk/MsgSend',
+    type,
     value: {
       from_address: fromAddress,
       to_address: toAddress,
@@ -315,6 +543,130 @@ export function buildCosmosSendMsg(
   };
 }
 
+/**
+ * Build Cosmos staking delegation message
+ */
+export function buildCosmosDelegateMsg(
+  delegatorAddress: string,
+  validatorAddress: string,
+  amount: string,
+  denom: string,
+): CosmosAminoMsg {
+  return {
+    type: 'cosmos-sdk/MsgDelegate',
+    value: {
+      delegator_address: delegatorAddress,
+      validator_address: validatorAddress,
+      amount: { denom, amount },
+    },
+  };
+}
+
+/**
+ * Build THORChain deposit message; swaps and liquidity actions are deposits with a memo
+ */
+export function buildThorchainDepositMsg(
+  signer: string,
+  amount: string,
+  memo: string,
+  asset: string = 'THOR.RUNE',
+): CosmosAminoMsg {
+  return {
+    type: 'thorchain/MsgDeposit',
+    value: {
+      coins: [{ asset, amount }],
+      memo,
+      signer,
+    },
+  };
+}
+
+/**
+ * Build Osmosis single-pool swap message
+ */
+export function buildOsmosisSwapMsg(
+  sender: string,
+  poolId: string,
+  tokenIn: CosmosCoin,
+  tokenOutDenom: string,
+  tokenOutMinAmount: string,
+): CosmosAminoMsg {
+  return {
+    type: 'osmosis/gamm/swap-exact-amount-in',
+    value: {
+      sender,
+      routes: [{ pool_id: poolId, token_out_denom: tokenOutDenom }],
+      token_in: tokenIn,
+      token_out_min_amount: tokenOutMinAmount,
+    },
+  };
+}
+
+/**
+ * Build the amino sign doc for a list of messages
+ */
+export function buildCosmosSignDoc(
+  msgs: CosmosAminoMsg[],
+  params: CosmosSignDocParams,
+): CosmosSignDoc {
+  return {
+    account_number: String(params.accountNumber),
+    chain_id: params.chainId,
+    fee: { amount: [{ denom: params.denom, amount: params.fee }], gas: String(params.gas) },
+    memo: params.memo ?? '',
+    msgs,
+    sequence: String(params.sequence),
+  };
+}
+
+function sortJson(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortJson);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortJson((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Canonical sign doc bytes: keys sorted, no whitespace, and HTML characters
+ * escaped the way Go's encoding/json does
+ */
+export function serializeCosmosSignDoc(signDoc: CosmosSignDoc): Buffer {
+  const json = JSON.stringify(sortJson(signDoc)).replace(
+    /[<>&\u2028\u2029]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+  );
+  return Buffer.from(json, 'utf8');
+}
+
+/**
+ * Assemble a signed StdTx from its sign doc, a compressed secp256k1 public key
+ * and a 64-byte r||s signature
+ */
+export function buildCosmosStdTx(
+  signDoc: CosmosSignDoc,
+  publicKey: Buffer,
+  signature: Buffer,
+): CosmosStdTx {
+  return {
+    msg: signDoc.msgs,
+    fee: signDoc.fee,
+    signatures: [
+      {
+        pub_key: { type: 'tendermint/PubKeySecp256k1', value: publicKey.toString('base64') },
+        signature: signature.toString('base64'),
+      },
+    ],
+    memo: signDoc.memo,
+  };
+}
+
 /**
  * Create transaction status object
  */
@@ -335,3 +687,169 @@ export function createTransactionStatus(
     timestamp: Date.now(),
   };
 }
+
+/**
+ * Parse a serialized Bitcoin transaction (legacy or segwit)
+ *
+ * The txid is computed from the serialization without witness data.
+ */
+export function parseBitcoinTransaction(hex: string): RawBitcoinTransaction {
+  if (!/^([0-9a-fA-F]{2})+$/.test(hex)) {
+    throw new Error('Transaction must be a hex string');
+  }
+  const buffer = Buffer.from(hex, 'hex');
+  let offset = 0;
+
+  const take = (length: number): Buffer => {
+    if (offset + length > buffer.length) {
+      throw new Error('Transaction is truncated');
+    }
+    const slice = buffer.subarray(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+  const readUInt32 = (): number => take(4).readUInt32LE(0);
+  const readVarInt = (): number => {
+    const prefix = take(1)[0];
+    if (prefix === 0xfd) {
+      return take(2).readUInt16LE(0);
+    }
+    if (prefix === 0xfe) {
+      return readUInt32();
+    }
+    if (prefix === 0xff) {
+      const value = take(8);
+      return value.readUInt32LE(0) + value.readUInt32LE(4) * 0x100000000;
+    }
+    return prefix;
+  };
+
+  const version = readUInt32();
+  const segwit = buffer[offset] === 0x00 && buffer[offset + 1] === 0x01;
+  if (segwit) {
+    offset += 2;
+  }
+  const bodyStart = offset;
+
+  const inputs: RawBitcoinInput[] = [];
+  const inputCount = readVarInt();
+  for (let i = 0; i < inputCount; i++) {
+    inputs.push({
+      prevHash: Buffer.from(take(32)).reverse().toString('hex'),
+      prevIndex: readUInt32(),
+      scriptSig: take(readVarInt()).toString('hex'),
+      sequence: readUInt32(),
+    });
+  }
+
+  const outputs: RawBitcoinOutput[] = [];
+  const outputCount = readVarInt();
+  for (let i = 0; i < outputCount; i++) {
+    const amount = take(8);
+    outputs.push({
+      amount: amount.readUInt32LE(0) + amount.readUInt32LE(4) * 0x100000000,
+      scriptPubKey: take(readVarInt()).toString('hex'),
+    });
+  }
+  const bodyEnd = offset;
+
+  if (segwit) {
+    for (let i = 0; i < inputCount; i++) {
+      const items = readVarInt();
+      for (let j = 0; j < items; j++) {
+        take(readVarInt());
+      }
+    }
+  }
+
+  const lockTimeBytes = take(4);
+  if (offset !== buffer.length) {
+    throw new Error('Transaction has trailing data');
+  }
+
+  const stripped = Buffer.concat([
+    buffer.subarray(0, 4),
+    buffer.subarray(bodyStart, bodyEnd),
+    lockTimeBytes,
+  ]);
+  const firstHash = crypto.createHash('sha256').update(stripped).digest();
+  const txid = crypto.createHash('sha256').update(firstHash).digest().reverse().toString('hex');
+
+  return { txid, version, inputs, outputs, lockTime: lockTimeBytes.readUInt32LE(0) };
+}
+
+/**
+ * Bitcoin CompactSize integer
+ */
+export function encodeVarInt(value: number): Buffer {
+  if (value < 0xfd) {
+    return Buffer.from([value]);
+  }
+  if (value <= 0xffff) {
+    const buffer = Buffer.alloc(3);
+    buffer[0] = 0xfd;
+    buffer.writeUInt16LE(value, 1);
+    return buffer;
+  }
+  if (value <= 0xffffffff) {
+    const buffer = Buffer.alloc(5);
+    buffer[0] = 0xfe;
+    buffer.writeUInt32LE(value, 1);
+    return buffer;
+  }
+  const buffer = Buffer.alloc(9);
+  buffer[0] = 0xff;
+  buffer.writeUInt32LE(value % 0x100000000, 1);
+  buffer.writeUInt32LE(Math.floor(value / 0x100000000), 5);
+  return buffer;
+}
+
+/**
+ * Serialize a transaction, in the SegWit format when any input has witness items
+ *
+ * Witness stacks are given per input as lists of hex items.
+ */
+export function serializeBitcoinTransaction(
+  tx: Omit<RawBitcoinTransaction, 'txid'>,
+  witnesses: string[][] = [],
+): string {
+  const uint32 = (value: number): Buffer => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value);
+    return buffer;
+  };
+  const withLength = (hex: string): Buffer => {
+    const data = Buffer.from(hex, 'hex');
+    return Buffer.concat([encodeVarInt(data.length), data]);
+  };
+  const segwit = witnesses.some((stack) => stack.length > 0);
+
+  const parts: Buffer[] = [uint32(tx.version)];
+  if (segwit) {
+    parts.push(Buffer.from([0x00, 0x01]));
+  }
+  parts.push(encodeVarInt(tx.inputs.length));
+  for (const input of tx.inputs) {
+    parts.push(
+      Buffer.from(input.prevHash, 'hex').reverse(),
+      uint32(input.prevIndex),
+      withLength(input.scriptSig),
+      uint32(input.sequence),
+    );
+  }
+  parts.push(encodeVarInt(tx.outputs.length));
+  for (const output of tx.outputs) {
+    const amount = Buffer.alloc(8);
+    amount.writeUInt32LE(output.amount % 0x100000000, 0);
+    amount.writeUInt32LE(Math.floor(output.amount / 0x100000000), 4);
+    parts.push(amount, withLength(output.scriptPubKey));
+  }
+  if (segwit) {
+    for (let i = 0; i < tx.inputs.length; i++) {
+      const stack = witnesses[i] ?? [];
+      parts.push(encodeVarInt(stack.length), ...stack.map(withLength));
+    }
+  }
+  parts.push(uint32(tx.lockTime));
+  return Buffer.concat(parts).toString('hex');
+}
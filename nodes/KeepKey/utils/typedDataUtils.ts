@@ -0,0 +1,292 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * EIP-712 typed structured data: parsing and hashing
+ */
+
+import { keccak256 } from './hashUtils';
+
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+export interface TypedData {
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  domain: Record<string, unknown>;
+  message: Record<string, unknown>;
+}
+
+export type TypedDataType =
+  | { kind: 'array'; entryType: string; length?: number }
+  | { kind: 'struct'; name: string }
+  | { kind: 'uint' | 'int'; bits: number }
+  | { kind: 'bytes'; size?: number }
+  | { kind: 'string' | 'bool' | 'address' };
+
+export interface TypedDataHashes {
+  domainHash: string;
+  /** Absent when the primary type is EIP712Domain itself */
+  messageHash?: string;
+  /** The digest that gets signed */
+  digest: string;
+}
+
+const DOMAIN_TYPE = 'EIP712Domain';
+
+/**
+ * EIP712Domain fields in their canonical order, used when a document omits the type
+ */
+const DOMAIN_FIELDS: TypedDataField[] = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+  { name: 'salt', type: 'bytes32' },
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse and validate an EIP-712 document (as sent to eth_signTypedData_v4)
+ */
+export function parseTypedData(input: string | object): TypedData {
+  const data: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!isRecord(data) || !isRecord(data.types)) {
+    throw new Error('Typed data must be an object with a types field');
+  }
+  const { primaryType, domain = {}, message } = data;
+  if (typeof primaryType !== 'string' || !Array.isArray(data.types[primaryType])) {
+    throw new Error(`Typed data primaryType ${String(primaryType)} is not defined in types`);
+  }
+  if (!isRecord(domain)) {
+    throw new Error('Typed data domain must be an object');
+  }
+  if (primaryType !== DOMAIN_TYPE && !isRecord(message)) {
+    throw new Error('Typed data message must be an object');
+  }
+
+  const types = { ...(data.types as Record<string, TypedDataField[]>) };
+  if (!types[DOMAIN_TYPE]) {
+    types[DOMAIN_TYPE] = DOMAIN_FIELDS.filter((field) => domain[field.name] !== undefined);
+  }
+  for (const [name, fields] of Object.entries(types)) {
+    if (!Array.isArray(fields)) {
+      throw new Error(`Typed data type ${name} must be a list of fields`);
+    }
+    for (const field of fields) {
+      parseTypedDataType(types, field.type);
+    }
+  }
+
+  return { types, primaryType, domain, message: isRecord(message) ? message : {} };
+}
+
+/**
+ * Classify a type name (uint256, bytes32, Person[], ...)
+ */
+export function parseTypedDataType(
+  types: Record<string, TypedDataField[]>,
+  type: string,
+): TypedDataType {
+  const array = /^(.+)\[(\d*)\]$/.exec(type);
+  if (array) {
+    parseTypedDataType(types, array[1]);
+    return {
+      kind: 'array',
+      entryType: array[1],
+      length: array[2] ? Number(array[2]) : undefined,
+    };
+  }
+  if (types[type]) {
+    return { kind: 'struct', name: type };
+  }
+
+  const integer = /^(u?int)(\d*)$/.exec(type);
+  if (integer) {
+    const bits = integer[2] ? Number(integer[2]) : 256;
+    if (bits < 8 || bits > 256 || bits % 8) {
+      throw new Error(`Invalid typed data type ${type}`);
+    }
+    return { kind: integer[1] as 'uint' | 'int', bits };
+  }
+
+  const bytes = /^bytes(\d*)$/.exec(type);
+  if (bytes) {
+    const size = bytes[1] ? Number(bytes[1]) : undefined;
+    if (size !== undefined && (size < 1 || size > 32)) {
+      throw new Error(`Invalid typed data type ${type}`);
+    }
+    return { kind: 'bytes', size };
+  }
+
+  if (type === 'string' || type === 'bool' || type === 'address') {
+    return { kind: type };
+  }
+  throw new Error(`Unknown typed data type ${type}`);
+}
+
+/**
+ * Integer value of a typed data field, range-checked against its type
+ */
+export function toTypedDataInteger(
+  value: unknown,
+  type: { kind: 'uint' | 'int'; bits: number },
+): bigint {
+  if (typeof value !== 'number' && typeof value !== 'string' && typeof value !== 'bigint') {
+    throw new Error(`Expected an integer for ${type.kind}${type.bits}`);
+  }
+  const integer = BigInt(value);
+  const limit = BigInt(2) ** BigInt(type.kind === 'uint' ? type.bits : type.bits - 1);
+  const min = type.kind === 'uint' ? BigInt(0) : -limit;
+  if (integer < min || integer >= limit) {
+    throw new Error(`Value ${integer.toString()} does not fit in ${type.kind}${type.bits}`);
+  }
+  return integer;
+}
+
+/**
+ * Bytes of a hex-encoded typed data value
+ */
+export function toTypedDataBytes(value: unknown, label: string): Buffer {
+  if (typeof value !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+    throw new Error(`Expected 0x-prefixed hex for ${label}`);
+  }
+  return Buffer.from(value.slice(2), 'hex');
+}
+
+/**
+ * Big-endian two's complement bytes of an integer
+ */
+export function integerToBytes(integer: bigint, size: number): Buffer {
+  const modulus = BigInt(2) ** BigInt(size * 8);
+  const unsigned = integer < BigInt(0) ? integer + modulus : integer;
+  return Buffer.from(unsigned.toString(16).padStart(size * 2, '0'), 'hex');
+}
+
+function structDependencies(
+  types: Record<string, TypedDataField[]>,
+  name: string,
+  found: Set<string> = new Set(),
+): Set<string> {
+  if (found.has(name)) {
+    return found;
+  }
+  found.add(name);
+  for (const field of types[name]) {
+    let type = parseTypedDataType(types, field.type);
+    while (type.kind === 'array') {
+      type = parseTypedDataType(types, type.entryType);
+    }
+    if (type.kind === 'struct') {
+      structDependencies(types, type.name, found);
+    }
+  }
+  return found;
+}
+
+/**
+ * The encodeType string: the struct followed by its dependencies sorted by name
+ */
+export function encodeTypedDataType(types: Record<string, TypedDataField[]>, name: string): string {
+  const dependencies = [...structDependencies(types, name)].filter((dep) => dep !== name).sort();
+  return [name, ...dependencies]
+    .map((type) => `${type}(${types[type].map((f) => `${f.type} ${f.name}`).join(',')})`)
+    .join('');
+}
+
+function encodeValue(
+  types: Record<string, TypedDataField[]>,
+  typeName: string,
+  value: unknown,
+): Buffer {
+  const type = parseTypedDataType(types, typeName);
+  switch (type.kind) {
+    case 'struct':
+      if (!isRecord(value)) {
+        throw new Error(`Expected an object for ${typeName}`);
+      }
+      return hashStruct(types, type.name, value);
+    case 'array': {
+      if (!Array.isArray(value)) {
+        throw new Error(`Expected an array for ${typeName}`);
+      }
+      if (type.length !== undefined && value.length !== type.length) {
+        throw new Error(`Expected ${type.length} entries for ${typeName}, got ${value.length}`);
+      }
+      return keccak256(
+        Buffer.concat(value.map((entry) => encodeValue(types, type.entryType, entry))),
+      );
+    }
+    case 'string':
+      return keccak256(Buffer.from(String(value), 'utf8'));
+    case 'bytes': {
+      const bytes = toTypedDataBytes(value, typeName);
+      if (type.size === undefined) {
+        return keccak256(bytes);
+      }
+      if (bytes.length !== type.size) {
+        throw new Error(`Expected ${type.size} bytes for ${typeName}, got ${bytes.length}`);
+      }
+      return Buffer.concat([bytes, Buffer.alloc(32 - bytes.length)]);
+    }
+    case 'bool':
+      return integerToBytes(BigInt(value === true || value === 'true' ? 1 : 0), 32);
+    case 'address': {
+      const address = toTypedDataBytes(value, typeName);
+      if (address.length !== 20) {
+        throw new Error(`Invalid address ${String(value)}`);
+      }
+      return Buffer.concat([Buffer.alloc(12), address]);
+    }
+    case 'uint':
+    case 'int':
+      return integerToBytes(toTypedDataInteger(value, type), 32);
+  }
+}
+
+/**
+ * hashStruct(s) = keccak256(typeHash || encodeData(s))
+ */
+export function hashStruct(
+  types: Record<string, TypedDataField[]>,
+  name: string,
+  data: Record<string, unknown>,
+): Buffer {
+  const typeHash = keccak256(encodeTypedDataType(types, name));
+  const fields = types[name].map((field) => {
+    if (data[field.name] === undefined) {
+      throw new Error(`Missing value for ${name}.${field.name}`);
+    }
+    return encodeValue(types, field.type, data[field.name]);
+  });
+  return keccak256(Buffer.concat([typeHash, ...fields]));
+}
+
+/**
+ * Domain separator, message hash and the final digest that gets signed
+ */
+export function hashTypedData(typedData: TypedData): TypedDataHashes {
+  const domainHash = hashStruct(typedData.types, DOMAIN_TYPE, typedData.domain);
+  const messageHash =
+    typedData.primaryType === DOMAIN_TYPE
+      ? undefined
+      : hashStruct(typedData.types, typedData.primaryType, typedData.message);
+  const digest = keccak256(
+    Buffer.concat([Buffer.from('1901', 'hex'), domainHash, ...(messageHash ? [messageHash] : [])]),
+  );
+
+  return {
+    domainHash: `0x${domainHash.toString('hex')}`,
+    messageHash: messageHash && `0x${messageHash.toString('hex')}`,
+    digest: `0x${digest.toString('hex')}`,
+  };
+}
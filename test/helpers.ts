@@ -0,0 +1,48 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+// Replay fixtures shared by the client and signer tests
+
+import { CONNECTION_TYPES } from '../nodes/KeepKey/constants/usbIds';
+import { MESSAGE_TYPES } from '../nodes/KeepKey/constants/events';
+import { KeepKeyClient, TransportConfig } from '../nodes/KeepKey/transport/keepkeyClient';
+import { RecordedExchange, ReplayTransport } from '../nodes/KeepKey/transport/replayTransport';
+
+const device = { path: 'replay-1', vendorId: 0x2b24, productId: 0x0001 };
+
+/**
+ * One request the host is expected to send and the device's reply to it
+ */
+export function exchange(
+  requestType: number,
+  message: Record<string, unknown>,
+  responseType: number,
+  response: Record<string, unknown> = {},
+): RecordedExchange {
+  return {
+    request: { type: requestType, message },
+    response: { type: responseType, message: response },
+  };
+}
+
+/**
+ * Connect a client to a replayed device that answers Initialize, then the given exchanges
+ */
+export async function connectReplay(
+  exchanges: RecordedExchange[],
+  config: Partial<TransportConfig> = {},
+): Promise<{ client: KeepKeyClient; transport: ReplayTransport }> {
+  const initialize = exchange(MESSAGE_TYPES.Initialize, {}, MESSAGE_TYPES.Features);
+  const transport = new ReplayTransport({ device, exchanges: [initialize, ...exchanges] });
+  const client = new KeepKeyClient({
+    connectionType: CONNECTION_TYPES.USB_HID,
+    transport,
+    ...config,
+  });
+  await client.connect();
+  return { client, transport };
+}
@@ -0,0 +1,165 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  decodeAbiParameters,
+  decodeFunctionResult,
+  encodeAbiParameters,
+  encodeFunctionCall,
+  findAbiFunction,
+  getFunctionSelector,
+  getFunctionSignature,
+  parseAbi,
+  parseFunctionSignature,
+} from '../../nodes/KeepKey/utils/abiUtils';
+import { buildErc20TransferData } from '../../nodes/KeepKey/utils/transactionUtils';
+
+const ERC20_ABI = JSON.stringify([
+  {
+    type: 'function',
+    name: 'transfer',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    type: 'function',
+    name: 'balanceOf',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: 'balance', type: 'uint256' }],
+  },
+  { type: 'event', name: 'Transfer', inputs: [] },
+]);
+
+const recipient = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+
+describe('abiUtils', () => {
+  describe('parseAbi', () => {
+    it('should read the functions of a JSON ABI', () => {
+      const functions = parseAbi(ERC20_ABI);
+      expect(functions.map(getFunctionSignature)).toEqual([
+        'transfer(address,uint256)',
+        'balanceOf(address)',
+      ]);
+      expect(functions[1].stateMutability).toBe('view');
+    });
+
+    it('should read human-readable signatures and build artifacts', () => {
+      const [fn] = parseAbi(
+        'event Approval(address indexed owner)\n' +
+          'function swap((address tokenIn, uint amountIn)[] calldata legs, bytes data) payable returns (uint[] out)',
+      );
+      expect(getFunctionSignature(fn)).toBe('swap((address,uint256)[],bytes)');
+      expect(fn.stateMutability).toBe('payable');
+      expect(fn.outputs).toEqual([{ name: 'out', type: 'uint256[]' }]);
+      expect(parseAbi({ abi: JSON.parse(ERC20_ABI) })).toHaveLength(2);
+    });
+  });
+
+  describe('findAbiFunction', () => {
+    const functions = parseAbi(['foo(uint256)', 'foo(address)', 'bar()']);
+
+    it('should find a function by name, signature or selector', () => {
+      expect(findAbiFunction(functions, 'bar').name).toBe('bar');
+      expect(getFunctionSignature(findAbiFunction(functions, 'foo(address to)'))).toBe(
+        'foo(address)',
+      );
+      expect(findAbiFunction(functions, getFunctionSelector(functions[0]))).toBe(functions[0]);
+      expect(findAbiFunction(parseAbi('bar()')).name).toBe('bar');
+    });
+
+    it('should ask for a signature when a name is overloaded', () => {
+      expect(() => findAbiFunction(functions, 'foo')).toThrow(
+        'Function foo is overloaded; give its signature, one of foo(uint256), foo(address)',
+      );
+      expect(() => findAbiFunction(functions, 'baz')).toThrow('Function baz is not in the ABI');
+      expect(() => findAbiFunction(functions)).toThrow('The ABI has 3 functions');
+    });
+  });
+
+  describe('encodeFunctionCall', () => {
+    it('should encode a token transfer', () => {
+      const transfer = parseFunctionSignature('transfer(address,uint256)');
+      expect(getFunctionSelector(transfer)).toBe('0xa9059cbb');
+      expect(encodeFunctionCall(transfer, [recipient, '1000000'])).toBe(
+        buildErc20TransferData(recipient, '1000000'),
+      );
+      // Arguments may be named
+      expect(encodeFunctionCall(parseAbi(ERC20_ABI)[0], { to: recipient, amount: 1000000 })).toBe(
+        buildErc20TransferData(recipient, '1000000'),
+      );
+    });
+
+    it('should encode dynamic types as in the Solidity ABI specification', () => {
+      const fn = parseFunctionSignature('f(uint256,uint32[],bytes10,bytes)');
+      const data = encodeFunctionCall(fn, [
+        '0x123',
+        [1110, 1929],
+        '0x31323334353637383930',
+        `0x${Buffer.from('Hello, world!').toString('hex')}`,
+      ]);
+      expect(data).toBe(
+        '0x8be65246' +
+          '0000000000000000000000000000000000000000000000000000000000000123' +
+          '0000000000000000000000000000000000000000000000000000000000000080' +
+          '3132333435363738393000000000000000000000000000000000000000000000' +
+          '00000000000000000000000000000000000000000000000000000000000000e0' +
+          '0000000000000000000000000000000000000000000000000000000000000002' +
+          '0000000000000000000000000000000000000000000000000000000000000456' +
+          '0000000000000000000000000000000000000000000000000000000000000789' +
+          '000000000000000000000000000000000000000000000000000000000000000d' +
+          '48656c6c6f2c20776f726c642100000000000000000000000000000000000000',
+      );
+    });
+
+    it('should reject values that do not fit their type', () => {
+      const fn = parseFunctionSignature('f(uint8 small, address to, bool flag)');
+      expect(() => encodeFunctionCall(fn, [256, recipient, true])).toThrow(
+        'small: Value 256 does not fit in uint8',
+      );
+      expect(() => encodeFunctionCall(fn, [1, '0x1234', true])).toThrow(
+        'Expected a 0x-prefixed 20-byte address for to',
+      );
+      expect(() => encodeFunctionCall(fn, [1, recipient])).toThrow(
+        'Arguments takes 3 values, got 2',
+      );
+      expect(() => encodeFunctionCall(fn, [2 ** 60, recipient, true])).toThrow(
+        'as a string to keep its precision',
+      );
+    });
+  });
+
+  describe('decoding', () => {
+    it('should decode a result by output name', () => {
+      const balanceOf = parseAbi(ERC20_ABI)[1];
+      expect(decodeFunctionResult(balanceOf, `0x${'0'.repeat(62)}ff`)).toEqual({ balance: '255' });
+    });
+
+    it('should round-trip nested dynamic values', () => {
+      const parameters = parseFunctionSignature(
+        'f((string name, int16 delta, address[] owners) item, bool, bytes4)',
+      ).inputs;
+      const values = [
+        { name: 'KeepKey', delta: '-300', owners: [recipient, recipient] },
+        true,
+        '0xdeadbeef',
+      ];
+      const encoded = encodeAbiParameters(parameters, values);
+      expect(decodeAbiParameters(parameters, encoded)).toEqual(values);
+    });
+
+    it('should reject truncated data', () => {
+      expect(() => decodeAbiParameters([{ name: '', type: 'uint256' }], '0x01')).toThrow(
+        'ABI data is too short for its types',
+      );
+    });
+  });
+});
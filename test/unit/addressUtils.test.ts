@@ -17,7 +17,14 @@ import {
   validateAddressForCoin,
   formatAddressDisplay,
   normalizeAddress,
+  scriptToAddress,
+  publicKeyToAddress,
+  decodeAddressForCoin,
+  convertAddressFormat,
+  buildPaymentUri,
+  parsePaymentUri,
 } from '../../nodes/KeepKey/utils/addressUtils';
+import { BITCOIN_LIKE_COINS } from '../../nodes/KeepKey/constants/coins';
 
 describe('addressUtils', () => {
   describe('isValidBitcoinAddress', () => {
@@ -40,9 +47,27 @@ describe('addressUtils', () => {
 
     it('should validate testnet addresses', () => {
       // P2PKH testnet
-      expect(isValidBitcoinAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn')).toBe(true);
+      expect(isValidBitcoinAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn', 'testnet')).toBe(true);
       // Bech32 testnet
-      expect(isValidBitcoinAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx')).toBe(true);
+      expect(isValidBitcoinAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx', 'testnet')).toBe(true);
+    });
+
+    it('should enforce the network prefix', () => {
+      expect(isValidBitcoinAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn')).toBe(false);
+      expect(isValidBitcoinAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx')).toBe(false);
+      expect(isValidBitcoinAddress('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2', 'testnet')).toBe(false);
+    });
+
+    it('should verify checksums', () => {
+      expect(isValidBitcoinAddress('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3')).toBe(false);
+      expect(isValidBitcoinAddress('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdp')).toBe(false);
+    });
+
+    it('should enforce the checksum variant of each witness version', () => {
+      // BIP350: v1 with a Bech32 checksum, v0 with a Bech32m checksum
+      expect(isValidBitcoinAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd')).toBe(false);
+      expect(isValidBitcoinAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh')).toBe(false);
+      expect(isValidBitcoinAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0')).toBe(true);
     });
 
     it('should reject invalid addresses', () => {
@@ -77,6 +102,8 @@ describe('addressUtils', () => {
     });
 
     it('should reject invalid Cosmos addresses', () => {
+      expect(isValidCosmosAddress('cosmos1hsk6jryyqjfhp5dhc55tc9jtckygx0eph6dd03', 'cosmos')).toBe(false);
+      expect(isValidCosmosAddress('cosmos1hsk6jryyqjfhp5dhc55tc9jtckygx0eph6dd02', 'osmo')).toBe(false);
       expect(isValidCosmosAddress('', 'cosmos')).toBe(false);
       expect(isValidCosmosAddress('cosmos1invalid', 'cosmos')).toBe(false);
       expect(isValidCosmosAddress('0x742d35Cc6634C0532925a3b844Bc9e7595f1b2b1', 'cosmos')).toBe(false);
@@ -85,7 +112,7 @@ describe('addressUtils', () => {
 
   describe('isValidThorchainAddress', () => {
     it('should validate valid THORChain addresses', () => {
-      expect(isValidThorchainAddress('thor1hsk6jryyqjfhp5dhc55tc9jtckygx0eph5mhrf')).toBe(true);
+      expect(isValidThorchainAddress('thor1hsk6jryyqjfhp5dhc55tc9jtckygx0ep3a5k64')).toBe(true);
     });
 
     it('should reject invalid THORChain addresses', () => {
@@ -96,7 +123,7 @@ describe('addressUtils', () => {
 
   describe('isValidOsmosisAddress', () => {
     it('should validate valid Osmosis addresses', () => {
-      expect(isValidOsmosisAddress('osmo1hsk6jryyqjfhp5dhc55tc9jtckygx0epx4t5vh')).toBe(true);
+      expect(isValidOsmosisAddress('osmo1hsk6jryyqjfhp5dhc55tc9jtckygx0eplp7aec')).toBe(true);
     });
 
     it('should reject invalid Osmosis addresses', () => {
@@ -120,11 +147,11 @@ describe('addressUtils', () => {
     });
 
     it('should detect THORChain addresses', () => {
-      expect(detectAddressType('thor1hsk6jryyqjfhp5dhc55tc9jtckygx0eph5mhrf')).toBe('thorchain');
+      expect(detectAddressType('thor1hsk6jryyqjfhp5dhc55tc9jtckygx0ep3a5k64')).toBe('thorchain');
     });
 
     it('should detect Osmosis addresses', () => {
-      expect(detectAddressType('osmo1hsk6jryyqjfhp5dhc55tc9jtckygx0epx4t5vh')).toBe('osmosis');
+      expect(detectAddressType('osmo1hsk6jryyqjfhp5dhc55tc9jtckygx0eplp7aec')).toBe('osmosis');
     });
 
     it('should return unknown for invalid addresses', () => {
@@ -158,6 +185,15 @@ describe('addressUtils', () => {
       expect(checksummed).toMatch(/^0x[0-9a-fA-F]{40}$/);
     });
 
+    it('should match the EIP-55 test vectors', () => {
+      expect(checksumEthereumAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed')).toBe(
+        '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+      );
+      expect(checksumEthereumAddress('0xFB6916095CA1DF60BB79CE92CE3EA74C37C5D359')).toBe(
+        '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+      );
+    });
+
     it('should handle already checksummed addresses', () => {
       const address = '0x742d35Cc6634C0532925a3b844Bc9e7595f1b2b1';
       const checksummed = checksumEthereumAddress(address);
@@ -180,6 +216,16 @@ describe('addressUtils', () => {
       expect(validateAddressForCoin('cosmos1hsk6jryyqjfhp5dhc55tc9jtckygx0eph6dd02', 'ATOM')).toBe(true);
     });
 
+    it('should validate CashAddr and legacy addresses for BCH', () => {
+      expect(
+        validateAddressForCoin('bitcoincash:qpm2qsznhks23z7629mms6s4cwef74vcwvy22gdx6a', 'BCH'),
+      ).toBe(true);
+      expect(validateAddressForCoin('1BpEi6DfDAUFd7GtittLSdBeYJvcoaVggu', 'bitcoincash')).toBe(true);
+      expect(
+        validateAddressForCoin('bitcoincash:qpm2qsznhks23z7629mms6s4cwef74vcwvy22gdx6q', 'BCH'),
+      ).toBe(false);
+    });
+
     it('should reject mismatched addresses', () => {
       expect(validateAddressForCoin('0x742d35Cc6634C0532925a3b844Bc9e7595f1b2b1', 'BTC')).toBe(false);
       expect(validateAddressForCoin('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2', 'ETH')).toBe(false);
@@ -213,4 +259,338 @@ describe('addressUtils', () => {
       expect(normalizeAddress(address).includes(' ')).toBe(false);
     });
   });
+
+  describe('scriptToAddress', () => {
+    const script = (hex: string): Buffer => Buffer.from(hex, 'hex');
+
+    it('should encode P2PKH and P2SH with the coin prefixes', () => {
+      expect(
+        scriptToAddress(
+          script('76a91462e907b15cbf27d5425399ebf6f0fb50ebb88f1888ac'),
+          BITCOIN_LIKE_COINS.BTC,
+        ),
+      ).toBe('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa');
+      expect(
+        scriptToAddress(
+          script('a91462e907b15cbf27d5425399ebf6f0fb50ebb88f1887'),
+          BITCOIN_LIKE_COINS.BTC,
+        ),
+      ).toMatch(/^3/);
+    });
+
+    it('should encode witness programs as bech32 or bech32m', () => {
+      expect(
+        scriptToAddress(
+          script('0014e8df018c7e326cc253faac7e46cdc51e68542c42'),
+          BITCOIN_LIKE_COINS.BTC,
+        ),
+      ).toBe('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq');
+      expect(
+        scriptToAddress(
+          script('512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'),
+          BITCOIN_LIKE_COINS.BTC,
+        ),
+      ).toBe('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0');
+    });
+
+    it('should reject scripts without an address', () => {
+      expect(() => scriptToAddress(script('6a0401020304'), BITCOIN_LIKE_COINS.BTC)).toThrow(
+        'Output script 6a0401020304 has no Bitcoin address',
+      );
+    });
+  });
+
+  describe('publicKeyToAddress', () => {
+    // First receive keys of the BIP44, BIP49, BIP84 and BIP86 test mnemonic
+    const key = (hex: string): Buffer => Buffer.from(hex, 'hex');
+
+    it('should build the address of every script type', () => {
+      expect(
+        publicKeyToAddress(
+          key('03aaeb52dd7494c361049de67cc680e83ebcbbbdbeb13637d92cd845f70308af5e'),
+          'legacy',
+          BITCOIN_LIKE_COINS.BTC,
+        ),
+      ).toBe('1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA');
+      expect(
+        publicKeyToAddress(
+          key('039b3b694b8fc5b5e07fb069c783cac754f5d38c3e08bed1960e31fdb1dda35c24'),
+          'segwit',
+          BITCOIN_LIKE_COINS.BTC,
+        ),
+      ).toBe('37VucYSaXLCAsxYyAPfbSi9eh4iEcbShgf');
+      expect(
+        publicKeyToAddress(
+          key('0330d54fd0dd420a6e5f8d3624f5f3482cae350f79d5f0753bf5beef9c2d91af3c'),
+          'nativeSegwit',
+          BITCOIN_LIKE_COINS.BTC,
+        ),
+      ).toBe('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu');
+      expect(
+        publicKeyToAddress(
+          key('03cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115'),
+          'taproot',
+          BITCOIN_LIKE_COINS.BTC,
+        ),
+      ).toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr');
+    });
+
+    it('should use the prefixes of the coin', () => {
+      expect(
+        publicKeyToAddress(
+          key('0330d54fd0dd420a6e5f8d3624f5f3482cae350f79d5f0753bf5beef9c2d91af3c'),
+          'nativeSegwit',
+          BITCOIN_LIKE_COINS.LTC,
+        ),
+      ).toMatch(/^ltc1q/);
+      expect(
+        publicKeyToAddress(
+          key('03aaeb52dd7494c361049de67cc680e83ebcbbbdbeb13637d92cd845f70308af5e'),
+          'legacy',
+          BITCOIN_LIKE_COINS.DOGE,
+        ),
+      ).toMatch(/^D/);
+    });
+  });
+
+  describe('decodeAddressForCoin', () => {
+    it('should return the payload and script type of Bitcoin-like addresses', () => {
+      expect(decodeAddressForCoin('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', 'BTC')).toEqual({
+        encoding: 'base58check',
+        prefix: '00',
+        payload: '62e907b15cbf27d5425399ebf6f0fb50ebb88f18',
+        scriptType: 'p2pkh',
+      });
+      expect(decodeAddressForCoin('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq', 'bitcoin')).toEqual({
+        encoding: 'bech32',
+        prefix: 'bc',
+        payload: 'e8df018c7e326cc253faac7e46cdc51e68542c42',
+        scriptType: 'p2wpkh',
+        witnessVersion: 0,
+      });
+      expect(
+        decodeAddressForCoin('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0', 'BTC'),
+      ).toMatchObject({ encoding: 'bech32m', scriptType: 'p2tr', witnessVersion: 1 });
+      expect(decodeAddressForCoin('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy', 'BTC').scriptType).toBe('p2sh');
+    });
+
+    it('should decode Cosmos and EVM addresses', () => {
+      expect(decodeAddressForCoin('thor1hsk6jryyqjfhp5dhc55tc9jtckygx0ep3a5k64', 'RUNE')).toEqual({
+        encoding: 'bech32',
+        prefix: 'thor',
+        payload: 'bc2da90c84049370d1b7c528bc164bc588833f21',
+        scriptType: 'account',
+      });
+      expect(decodeAddressForCoin('0x742d35Cc6634C0532925a3b844Bc9e7595f1b2b1', 'ETH').payload).toBe(
+        '742d35cc6634c0532925a3b844bc9e7595f1b2b1',
+      );
+    });
+
+    it('should reject addresses of another coin', () => {
+      expect(() => decodeAddressForCoin('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq', 'LTC')).toThrow();
+      expect(() => decodeAddressForCoin('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', 'DOGE')).toThrow(
+        'Version byte 0 is not a Dogecoin mainnet address',
+      );
+    });
+  });
+
+  describe('convertAddressFormat', () => {
+    it('should convert Bitcoin Cash between legacy and CashAddr', () => {
+      expect(convertAddressFormat('1BpEi6DfDAUFd7GtittLSdBeYJvcoaVggu', 'BCH', 'cashaddr')).toBe(
+        'bitcoincash:qpm2qsznhks23z7629mms6s4cwef74vcwvy22gdx6a',
+      );
+      expect(
+        convertAddressFormat('bitcoincash:ppm2qsznhks23z7629mms6s4cwef74vcwvn0h829pq', 'BCH', 'legacy'),
+      ).toBe('3CWFddi6m4ndiGyKqzYvsFYagqDLPVMTzC');
+    });
+
+    it('should move a Cosmos key hash to another chain prefix', () => {
+      const cosmos = 'cosmos1hsk6jryyqjfhp5dhc55tc9jtckygx0eph6dd02';
+      expect(convertAddressFormat(cosmos, 'ATOM', 'osmo')).toBe(
+        'osmo1hsk6jryyqjfhp5dhc55tc9jtckygx0eplp7aec',
+      );
+      expect(convertAddressFormat(cosmos, 'cosmos', 'thorchain')).toBe(
+        'thor1hsk6jryyqjfhp5dhc55tc9jtckygx0ep3a5k64',
+      );
+      expect(
+        convertAddressFormat('thor1hsk6jryyqjfhp5dhc55tc9jtckygx0ep3a5k64', 'RUNE', 'cosmos'),
+      ).toBe(cosmos);
+    });
+
+    it('should switch Ethereum addresses between EIP-55 and lowercase', () => {
+      expect(
+        convertAddressFormat('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed', 'ETH', 'checksum'),
+      ).toBe('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+      expect(
+        convertAddressFormat('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', 'ethereum', 'lowercase'),
+      ).toBe('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed');
+    });
+
+    it('should reject formats the coin does not have', () => {
+      expect(() =>
+        convertAddressFormat('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq', 'BTC', 'cashaddr'),
+      ).toThrow('BTC addresses cannot be converted to cashaddr');
+      expect(() =>
+        convertAddressFormat('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed', 'ETH', 'legacy'),
+      ).toThrow('ETH addresses cannot be converted to legacy');
+    });
+  });
+
+  describe('buildPaymentUri', () => {
+    it('should build BIP-21 URIs with amount, label and message', () => {
+      expect(
+        buildPaymentUri('BTC', {
+          address: '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2',
+          amount: '0.00100',
+          label: 'Invoice #42',
+          message: 'Thanks',
+        }),
+      ).toBe('bitcoin:1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2?amount=0.001&label=Invoice%20%2342&message=Thanks');
+      expect(buildPaymentUri('LTC', { address: 'LM2WMpR1Rp6j3Sa59cMXMs1SPzj9eXpGc1' })).toBe(
+        'litecoin:LM2WMpR1Rp6j3Sa59cMXMs1SPzj9eXpGc1',
+      );
+      expect(
+        buildPaymentUri('bitcoincash', {
+          address: 'bitcoincash:qpm2qsznhks23z7629mms6s4cwef74vcwvy22gdx6a',
+          amount: '2',
+        }),
+      ).toBe('bitcoincash:qpm2qsznhks23z7629mms6s4cwef74vcwvy22gdx6a?amount=2');
+    });
+
+    it('should build EIP-681 URIs for ether and ERC-20 transfers', () => {
+      const address = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+      expect(buildPaymentUri('ETH', { address, amount: '1.5' })).toBe(
+        `ethereum:${address}@1?value=1500000000000000000`,
+      );
+      expect(
+        buildPaymentUri('polygon', {
+          address,
+          amount: '25',
+          tokenContract: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+          tokenDecimals: 6,
+        }),
+      ).toBe(
+        `ethereum:0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174@137/transfer?address=${address}&uint256=25000000`,
+      );
+    });
+
+    it('should build cosmos: URIs in the base denom', () => {
+      expect(
+        buildPaymentUri('ATOM', {
+          address: 'cosmos1hsk6jryyqjfhp5dhc55tc9jtckygx0eph6dd02',
+          amount: '1.5',
+          message: 'order 42',
+        }),
+      ).toBe(
+        'cosmos:cosmos1hsk6jryyqjfhp5dhc55tc9jtckygx0eph6dd02?chain_id=cosmoshub-4&amount=1500000&denom=uatom&memo=order%2042',
+      );
+    });
+
+    it('should reject invalid addresses and amounts', () => {
+      expect(() => buildPaymentUri('BTC', { address: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed' })).toThrow();
+      expect(() =>
+        buildPaymentUri('BTC', { address: '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2', amount: '0.000000001' }),
+      ).toThrow('Amount 0.000000001 has more than 8 decimal places');
+    });
+  });
+
+  describe('parsePaymentUri', () => {
+    it('should parse BIP-21 URIs', () => {
+      expect(
+        parsePaymentUri(
+          'bitcoin:1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2?amount=0.00100&label=Invoice%20%2342&message=Thanks',
+        ),
+      ).toEqual({
+        coin: 'BTC',
+        address: '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2',
+        amount: '0.001',
+        baseUnits: '100000',
+        label: 'Invoice #42',
+        message: 'Thanks',
+      });
+      expect(parsePaymentUri('litecoin:LM2WMpR1Rp6j3Sa59cMXMs1SPzj9eXpGc1').coin).toBe('LTC');
+      expect(
+        parsePaymentUri('bitcoincash:qpm2qsznhks23z7629mms6s4cwef74vcwvy22gdx6a?amount=2'),
+      ).toMatchObject({
+        coin: 'BCH',
+        address: 'bitcoincash:qpm2qsznhks23z7629mms6s4cwef74vcwvy22gdx6a',
+        baseUnits: '200000000',
+      });
+    });
+
+    it('should reject unknown required parameters and invalid addresses', () => {
+      expect(() =>
+        parsePaymentUri('bitcoin:1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2?req-somethingyoudontunderstand=50'),
+      ).toThrow('Unsupported required parameter req-somethingyoudontunderstand');
+      expect(() => parsePaymentUri('bitcoin:1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3')).toThrow(
+        'Invalid BTC address 1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3',
+      );
+      expect(() => parsePaymentUri('monero:4abc')).toThrow('Unsupported payment URI scheme monero');
+    });
+
+    it('should parse EIP-681 ether payments and token transfers', () => {
+      const address = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+      expect(parsePaymentUri(`ethereum:pay-${address}@137?value=2.014e18`)).toEqual({
+        coin: 'MATIC',
+        address,
+        chainId: 137,
+        amount: '2.014',
+        baseUnits: '2014000000000000000',
+      });
+      expect(
+        parsePaymentUri(
+          `ethereum:0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174@137/transfer?address=${address}&uint256=25000000`,
+        ),
+      ).toEqual({
+        coin: 'MATIC',
+        address,
+        chainId: 137,
+        tokenContract: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+        baseUnits: '25000000',
+      });
+      expect(parsePaymentUri(`ethereum:${address}`).coin).toBe('ETH');
+    });
+
+    it('should reject what EIP-681 cannot pay', () => {
+      expect(() => parsePaymentUri('ethereum:alice.eth?value=1')).toThrow('ENS names are not resolved');
+      expect(() =>
+        parsePaymentUri('ethereum:0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed?value=1.5'),
+      ).toThrow('EIP-681 number 1.5 is not a whole number of base units');
+      expect(() =>
+        parsePaymentUri('ethereum:0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed/approve?uint256=1'),
+      ).toThrow('Unsupported EIP-681 function approve');
+      expect(() =>
+        parsePaymentUri('ethereum:0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed@999999'),
+      ).toThrow('Unknown EVM chain ID 999999');
+    });
+
+    it('should parse cosmos: URIs', () => {
+      expect(
+        parsePaymentUri(
+          'cosmos:osmo1hsk6jryyqjfhp5dhc55tc9jtckygx0eplp7aec?chain_id=osmosis-1&amount=1500000&denom=uosmo&memo=order%2042',
+        ),
+      ).toEqual({
+        coin: 'OSMO',
+        address: 'osmo1hsk6jryyqjfhp5dhc55tc9jtckygx0eplp7aec',
+        amount: '1.5',
+        baseUnits: '1500000',
+        message: 'order 42',
+      });
+      expect(() =>
+        parsePaymentUri('cosmos:cosmos1hsk6jryyqjfhp5dhc55tc9jtckygx0eph6dd02?amount=1&denom=uosmo'),
+      ).toThrow('Unsupported denom uosmo; Cosmos Hub pays in uatom');
+    });
+
+    it('should round-trip URIs built by buildPaymentUri', () => {
+      const request = {
+        address: 'cosmos1hsk6jryyqjfhp5dhc55tc9jtckygx0eph6dd02',
+        amount: '0.25',
+        message: 'rent',
+      };
+      expect(parsePaymentUri(buildPaymentUri('ATOM', request))).toMatchObject({
+        coin: 'ATOM',
+        ...request,
+      });
+    });
+  });
 });
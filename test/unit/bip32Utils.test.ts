@@ -0,0 +1,89 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  decodeExtendedPublicKey,
+  deriveChildPublicKey,
+  derivePublicKeyPath,
+  encodeExtendedPublicKey,
+} from '../../nodes/KeepKey/utils/bip32Utils';
+import { base58CheckDecode, base58CheckEncode } from '../../nodes/KeepKey/utils/encodingUtils';
+
+// BIP32 test vector 1, master key
+const masterXpub =
+  'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8';
+
+// BIP32 test vector 1, m/0H and m/0H/1
+const childXpub =
+  'xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw';
+const grandchildXpub =
+  'xpub6ASuArnXKPbfEwhqN6e3mwBcDTgzisQN1wXN9BJcM47sSikHjJf3UFHKkNAWbWMiGj7Wf5uMash7SyYq527Hqck2AxYysAA7xmALppuCkwQ';
+
+describe('bip32Utils', () => {
+  describe('decodeExtendedPublicKey', () => {
+    it('should decode the BIP32 test vector master key', () => {
+      const key = decodeExtendedPublicKey(masterXpub);
+
+      expect(key.version).toBe(0x0488b21e);
+      expect(key.depth).toBe(0);
+      expect(key.parentFingerprint).toBe(0);
+      expect(key.childNumber).toBe(0);
+      expect(key.chainCode.toString('hex')).toBe(
+        '873dff81c02f525623fd1fe5167eac3a55a049de3d314bb42ee227ffed37d508',
+      );
+      expect(key.publicKey.toString('hex')).toBe(
+        '0339a36013301597daef41fbe593a02cc513d0b55527ec2df1050e2e8ff49c85c2',
+      );
+    });
+
+    it('should reject extended private keys', () => {
+      const data = Buffer.from(base58CheckDecode(masterXpub));
+      data.fill(0, 45, 46);
+      expect(() => decodeExtendedPublicKey(base58CheckEncode(data))).toThrow(
+        'Extended key is not a public key',
+      );
+    });
+
+    it('should reject payloads of the wrong length', () => {
+      expect(() => decodeExtendedPublicKey(base58CheckEncode(Buffer.alloc(77, 1)))).toThrow(
+        'Extended key must be 78 bytes, got 77',
+      );
+    });
+  });
+
+  describe('encodeExtendedPublicKey', () => {
+    it('should round-trip a decoded key', () => {
+      expect(encodeExtendedPublicKey(decodeExtendedPublicKey(masterXpub))).toBe(masterXpub);
+    });
+  });
+
+  describe('deriveChildPublicKey', () => {
+    it('should derive the BIP32 test vector child', () => {
+      const child = deriveChildPublicKey(decodeExtendedPublicKey(childXpub), 1);
+
+      expect(encodeExtendedPublicKey(child)).toBe(grandchildXpub);
+      expect(child.depth).toBe(2);
+      expect(child.childNumber).toBe(1);
+    });
+
+    it('should refuse hardened children', () => {
+      expect(() => deriveChildPublicKey(decodeExtendedPublicKey(masterXpub), 0x80000000)).toThrow(
+        'Cannot derive hardened child 2147483648 from an extended public key',
+      );
+    });
+  });
+
+  describe('derivePublicKeyPath', () => {
+    it('should derive each step in turn', () => {
+      const account = decodeExtendedPublicKey(childXpub);
+      expect(derivePublicKeyPath(account, [1, 5])).toEqual(
+        deriveChildPublicKey(deriveChildPublicKey(account, 1), 5),
+      );
+      expect(derivePublicKeyPath(account, [])).toBe(account);
+    });
+  });
+});
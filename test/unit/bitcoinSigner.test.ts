@@ -0,0 +1,204 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { MESSAGE_TYPES } from '../../nodes/KeepKey/constants/events';
+import { RecordedExchange } from '../../nodes/KeepKey/transport/replayTransport';
+import { signBitcoinTransaction } from '../../nodes/KeepKey/signing/bitcoinSigner';
+import { parseBitcoinTransaction } from '../../nodes/KeepKey/utils/transactionUtils';
+import { connectReplay, exchange } from '../helpers';
+
+const addressN = [2147483692, 2147483648, 2147483648, 0, 0];
+
+// Genesis block coinbase, spent here as the previous transaction
+const prevTx =
+  '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04' +
+  'ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e' +
+  '206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73ffffffff0100f205' +
+  '2a01000000434104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6' +
+  'bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000';
+const prevTxid = '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b';
+const parsedPrevTx = parseBitcoinTransaction(prevTx);
+
+// The signed transaction, streamed back in two chunks
+const signedHead = '0100000001' + Buffer.from(prevTxid, 'hex').reverse().toString('hex');
+const signedTail =
+  '00000000' +
+  '02abcd' +
+  'ffffffff' +
+  '01' +
+  '00e1f50500000000' +
+  '1976a91462e907b15cbf27d5425399ebf6f0fb50ebb88f1888ac' +
+  '00000000';
+
+function txRequest(
+  requestType: number,
+  message: Record<string, unknown>,
+  response: Record<string, unknown>,
+): RecordedExchange {
+  return exchange(requestType, message, MESSAGE_TYPES.TxRequest, response);
+}
+
+const signTx = {
+  outputs_count: 1,
+  inputs_count: 1,
+  coin_name: 'Bitcoin',
+  version: 1,
+  lock_time: 0,
+};
+
+const request = {
+  coinName: 'Bitcoin',
+  inputs: [{ txid: prevTxid, vout: 0, value: 5000000000, addressN, scriptType: 'SPENDADDRESS' }],
+  outputs: [{ address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', value: 100000000 }],
+  prevTxs: { [prevTxid]: prevTx },
+};
+
+describe('signBitcoinTransaction', () => {
+  it('should answer every TxRequest and assemble the signed transaction', async () => {
+    const { client, transport } = await connectReplay([
+      txRequest(MESSAGE_TYPES.SignTx, signTx, {
+        request_type: 'TXINPUT',
+        details: { request_index: 0 },
+      }),
+      txRequest(
+        MESSAGE_TYPES.TxAck,
+        {
+          tx: {
+            inputs: [
+              {
+                address_n: addressN,
+                prev_hash: prevTxid,
+                prev_index: 0,
+                amount: 5000000000,
+                script_type: 'SPENDADDRESS',
+                sequence: 0xffffffff,
+              },
+            ],
+          },
+        },
+        { request_type: 'TXMETA', details: { tx_hash: prevTxid } },
+      ),
+      txRequest(
+        MESSAGE_TYPES.TxAck,
+        { tx: { version: 1, lock_time: 0, inputs_cnt: 1, outputs_cnt: 1 } },
+        { request_type: 'TXINPUT', details: { request_index: 0, tx_hash: prevTxid } },
+      ),
+      txRequest(
+        MESSAGE_TYPES.TxAck,
+        {
+          tx: {
+            inputs: [
+              {
+                prev_hash: '0'.repeat(64),
+                prev_index: 0xffffffff,
+                script_sig: parsedPrevTx.inputs[0].scriptSig,
+                sequence: 0xffffffff,
+              },
+            ],
+          },
+        },
+        { request_type: 'TXOUTPUT', details: { request_index: 0, tx_hash: prevTxid } },
+      ),
+      txRequest(
+        MESSAGE_TYPES.TxAck,
+        {
+          tx: {
+            bin_outputs: [
+              { amount: 5000000000, script_pubkey: parsedPrevTx.outputs[0].scriptPubKey },
+            ],
+          },
+        },
+        { request_type: 'TXOUTPUT', details: { request_index: 0 } },
+      ),
+      exchange(
+        MESSAGE_TYPES.TxAck,
+        {
+          tx: {
+            outputs: [
+              {
+                address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+                amount: 100000000,
+                script_type: 'PAYTOADDRESS',
+                address_type: 'SPEND',
+              },
+            ],
+          },
+        },
+        MESSAGE_TYPES.ButtonRequest,
+        { code: 'SignTx' },
+      ),
+      txRequest(
+        MESSAGE_TYPES.ButtonAck,
+        {},
+        {
+          request_type: 'TXOUTPUT',
+          details: { request_index: 0 },
+          serialized: { signature_index: 0, signature: '3044abcd', serialized_tx: signedHead },
+        },
+      ),
+      txRequest(
+        MESSAGE_TYPES.TxAck,
+        {
+          tx: {
+            outputs: [
+              {
+                address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+                amount: 100000000,
+                script_type: 'PAYTOADDRESS',
+                address_type: 'SPEND',
+              },
+            ],
+          },
+        },
+        { request_type: 'TXFINISHED', serialized: { serialized_tx: signedTail } },
+      ),
+    ]);
+
+    const signed = await signBitcoinTransaction(client, request);
+
+    expect(signed.serializedTx).toBe(signedHead + signedTail);
+    expect(signed.signatures).toEqual(['3044abcd']);
+    expect(signed.txid).toBe(parseBitcoinTransaction(signedHead + signedTail).txid);
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should cancel when the device asks for a previous transaction that was not given', async () => {
+    const { client, transport } = await connectReplay([
+      txRequest(MESSAGE_TYPES.SignTx, signTx, {
+        request_type: 'TXMETA',
+        details: { tx_hash: prevTxid },
+      }),
+      exchange(MESSAGE_TYPES.Cancel, {}, MESSAGE_TYPES.Failure, { code: 'ActionCancelled' }),
+    ]);
+
+    await expect(signBitcoinTransaction(client, { ...request, prevTxs: {} })).rejects.toThrow(
+      `Previous transaction ${prevTxid} is required to sign`,
+    );
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should reject previous transactions that do not match their txid', async () => {
+    const { client } = await connectReplay([]);
+
+    await expect(
+      signBitcoinTransaction(client, { ...request, prevTxs: { ['00'.repeat(32)]: prevTx } }),
+    ).rejects.toThrow(`Previous transaction ${'00'.repeat(32)} hashes to ${prevTxid}`);
+  });
+
+  it('should refuse change that does not pay to the multisig script of the inputs', async () => {
+    const { client } = await connectReplay([]);
+    const multisig = { m: 1, xpubs: ['xpub-a', 'xpub-b'], addressN: [0, 0] };
+
+    await expect(
+      signBitcoinTransaction(client, {
+        ...request,
+        inputs: [{ ...request.inputs[0], multisig }],
+        outputs: [{ addressN, value: 100000000 }],
+      }),
+    ).rejects.toThrow('Change output 0 does not pay to the multisig script of the inputs');
+  });
+});
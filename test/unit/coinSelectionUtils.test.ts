@@ -0,0 +1,92 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  CoinSelectionOptions,
+  selectCoins,
+  toOutpoint,
+  Utxo,
+} from '../../nodes/KeepKey/utils/coinSelectionUtils';
+
+const account = [0x80000054, 0x80000000, 0x80000000];
+const changePath = [...account, 1, 0];
+
+function utxo(id: string, value: number, confirmations: number): Utxo {
+  return { txid: id.repeat(64), vout: 0, value, addressN: [...account, 0, 0], confirmations };
+}
+
+const a = utxo('a', 60000, 100);
+const b = utxo('b', 41800, 50);
+const c = utxo('c', 200000, 10);
+const d = utxo('d', 30000, 500);
+
+// 10 sat/vB on P2WPKH: 680 sat per input, 310 per output, 100 of overhead
+function options(
+  amount: number,
+  overrides: Partial<CoinSelectionOptions> = {},
+): CoinSelectionOptions {
+  return {
+    utxos: [a, b, c, d],
+    outputs: [{ address: 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el', value: amount }],
+    feeRate: 10,
+    addressType: 'nativeSegwit',
+    changePath,
+    dustThreshold: 546,
+    ...overrides,
+  };
+}
+
+describe('coinSelectionUtils', () => {
+  describe('selectCoins', () => {
+    it('should find inputs that need no change with branch and bound', () => {
+      const selection = selectCoins(options(100000));
+
+      expect(selection.strategy).toBe('branchAndBound');
+      expect(selection.inputs).toEqual([a, b]);
+      expect(selection.outputs).toHaveLength(1);
+      expect(selection).toMatchObject({ fee: 1800, vsize: 177, change: 0 });
+    });
+
+    it('should fall back to largest first when no input set avoids change', () => {
+      const selection = selectCoins(options(150000));
+
+      expect(selection.strategy).toBe('largestFirst');
+      expect(selection.inputs).toEqual([c]);
+      expect(selection.outputs[1]).toEqual({ addressN: changePath, value: 48600 });
+      expect(selection).toMatchObject({ fee: 1400, change: 48600 });
+    });
+
+    it('should spend the most confirmed UTXOs first', () => {
+      const selection = selectCoins(options(100000, { strategy: 'oldestFirst' }));
+
+      expect(selection.inputs).toEqual([d, a, b]);
+      expect(selection).toMatchObject({ fee: 2760, change: 29040 });
+    });
+
+    it('should skip excluded outpoints and leave change below dust to the fee', () => {
+      const selection = selectCoins(
+        options(100000, { strategy: 'largestFirst', exclude: [toOutpoint(c).toUpperCase()] }),
+      );
+
+      expect(selection.inputs).toEqual([a, b]);
+      expect(selection.outputs).toHaveLength(1);
+      expect(selection).toMatchObject({ fee: 1800, change: 0 });
+    });
+
+    it('should reject insufficient funds and dust outputs', () => {
+      expect(() => selectCoins(options(500000))).toThrow(
+        'Insufficient funds: 331800 sat available, 503130 sat needed',
+      );
+      expect(() => selectCoins(options(500))).toThrow(
+        'Output of 500 sat is below the dust threshold of 546 sat',
+      );
+      expect(() => selectCoins(options(100000, { feeRate: 0 }))).toThrow(
+        'Fee rate must be positive, got 0',
+      );
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import * as crypto from 'crypto';
+
+import { MESSAGE_TYPES } from '../../nodes/KeepKey/constants/events';
+import { signCosmosTransaction } from '../../nodes/KeepKey/signing/cosmosSigner';
+import {
+  buildCosmosSendMsg,
+  buildCosmosSignDoc,
+  buildOsmosisSwapMsg,
+  buildThorchainDepositMsg,
+  serializeCosmosSignDoc,
+  type CosmosSignDoc,
+} from '../../nodes/KeepKey/utils/transactionUtils';
+import { connectReplay, exchange } from '../helpers';
+
+const addressN = [2147483692, 2147483766, 2147483648, 0, 0];
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+const compressedKey = crypto.ECDH.convertKey(
+  publicKey.export({ format: 'der', type: 'spki' }).subarray(-65),
+  'secp256k1',
+  undefined,
+  undefined,
+  'compressed',
+) as Buffer;
+
+function sign(signDoc: CosmosSignDoc): string {
+  return crypto
+    .sign('sha256', serializeCosmosSignDoc(signDoc), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+    .toString('hex');
+}
+
+describe('signCosmosTransaction', () => {
+  it('should sign a Cosmos send and assemble the StdTx', async () => {
+    const signDoc = buildCosmosSignDoc(
+      [buildCosmosSendMsg('cosmos1from', 'cosmos1to', '1000', 'uatom')],
+      {
+        chainId: 'cosmoshub-4',
+        accountNumber: 12,
+        sequence: 3,
+        denom: 'uatom',
+        fee: '5000',
+        gas: 200000,
+        memo: 'rent',
+      },
+    );
+    const signature = sign(signDoc);
+    const { client, transport } = await connectReplay([
+      exchange(
+        MESSAGE_TYPES.CosmosSignTx,
+        {
+          address_n: addressN,
+          account_number: '12',
+          chain_id: 'cosmoshub-4',
+          fee_amount: '5000',
+          gas: '200000',
+          memo: 'rent',
+          sequence: '3',
+          msg_count: 1,
+        },
+        MESSAGE_TYPES.CosmosMsgRequest,
+      ),
+      exchange(
+        MESSAGE_TYPES.CosmosMsgAck,
+        { send: { from_address: 'cosmos1from', to_address: 'cosmos1to', amount: '1000' } },
+        MESSAGE_TYPES.CosmosSignedTx,
+        { public_key: compressedKey.toString('hex'), signature },
+      ),
+    ]);
+
+    const signed = await signCosmosTransaction(client, 'ATOM', addressN, signDoc);
+
+    expect(signed.publicKey).toBe(compressedKey.toString('hex'));
+    expect(signed.stdTx).toEqual({
+      msg: signDoc.msgs,
+      fee: signDoc.fee,
+      signatures: [
+        {
+          pub_key: {
+            type: 'tendermint/PubKeySecp256k1',
+            value: compressedKey.toString('base64'),
+          },
+          signature: Buffer.from(signature, 'hex').toString('base64'),
+        },
+      ],
+      memo: 'rent',
+    });
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should send THORChain swaps as deposits', async () => {
+    const memo = 'SWAP:BTC.BTC:bc1qdest:';
+    const signDoc = buildCosmosSignDoc(
+      [buildThorchainDepositMsg('thor1signer', '100000000', memo)],
+      {
+        chainId: 'thorchain-mainnet-v1',
+        accountNumber: 5,
+        sequence: 0,
+        denom: 'rune',
+        fee: '0',
+        gas: 500000000,
+        memo,
+      },
+    );
+    const { client, transport } = await connectReplay([
+      exchange(
+        MESSAGE_TYPES.ThorchainSignTx,
+        {
+          address_n: addressN,
+          account_number: '5',
+          chain_id: 'thorchain-mainnet-v1',
+          fee_amount: '0',
+          gas: '500000000',
+          memo,
+          sequence: '0',
+          msg_count: 1,
+        },
+        MESSAGE_TYPES.ThorchainMsgRequest,
+      ),
+      exchange(
+        MESSAGE_TYPES.ThorchainMsgAck,
+        { deposit: { asset: 'THOR.RUNE', amount: '100000000', memo, signer: 'thor1signer' } },
+        MESSAGE_TYPES.ThorchainSignedTx,
+        { public_key: compressedKey.toString('hex'), signature: sign(signDoc) },
+      ),
+    ]);
+
+    const signed = await signCosmosTransaction(client, 'RUNE', addressN, signDoc);
+
+    expect(signed.stdTx.msg[0].type).toBe('thorchain/MsgDeposit');
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should reject a signature over a different sign doc', async () => {
+    const params = {
+      chainId: 'osmosis-1',
+      accountNumber: 7,
+      sequence: 1,
+      denom: 'uosmo',
+      fee: '5000',
+      gas: 300000,
+    };
+    const swap = buildOsmosisSwapMsg(
+      'osmo1sender',
+      '1',
+      { denom: 'uosmo', amount: '1000000' },
+      'uion',
+      '10',
+    );
+    const signDoc = buildCosmosSignDoc([swap], params);
+    const { client } = await connectReplay([
+      exchange(
+        MESSAGE_TYPES.OsmosisSignTx,
+        {
+          address_n: addressN,
+          account_number: '7',
+          chain_id: 'osmosis-1',
+          fee_amount: '5000',
+          gas: '300000',
+          memo: '',
+          sequence: '1',
+          msg_count: 1,
+        },
+        MESSAGE_TYPES.OsmosisMsgRequest,
+      ),
+      exchange(
+        MESSAGE_TYPES.OsmosisMsgAck,
+        {
+          swap: {
+            sender: 'osmo1sender',
+            pool_id: '1',
+            token_out_denom: 'uion',
+            token_in_denom: 'uosmo',
+            token_in_amount: '1000000',
+            token_out_min_amount: '10',
+          },
+        },
+        MESSAGE_TYPES.OsmosisSignedTx,
+        {
+          public_key: compressedKey.toString('hex'),
+          signature: sign({ ...signDoc, sequence: '2' }),
+        },
+      ),
+    ]);
+
+    await expect(signCosmosTransaction(client, 'OSMO', addressN, signDoc)).rejects.toThrow(
+      'Device signature does not match the locally built sign doc',
+    );
+  });
+
+  it('should refuse messages the chain cannot sign before contacting the device', async () => {
+    const signDoc = buildCosmosSignDoc([buildCosmosSendMsg('thor1from', 'thor1to', '1', 'rune')], {
+      chainId: 'thorchain-mainnet-v1',
+      accountNumber: 1,
+      sequence: 0,
+      denom: 'rune',
+      fee: '0',
+      gas: 1,
+    });
+    const { client, transport } = await connectReplay([]);
+
+    await expect(signCosmosTransaction(client, 'RUNE', addressN, signDoc)).rejects.toThrow(
+      'THORChain cannot sign cosmos-sdk/MsgSend messages',
+    );
+    expect(transport.isComplete()).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  descriptorChecksum,
+  formatDescriptor,
+  getAccountDescriptors,
+  parseDescriptor,
+  toDescriptorXpub,
+} from '../../nodes/KeepKey/utils/descriptorUtils';
+import { base58CheckDecode, base58CheckEncode } from '../../nodes/KeepKey/utils/encodingUtils';
+
+const H = 0x80000000;
+
+// BIP-380 test vector
+const bip380Xpub =
+  'xpub6ERApfZwUNrhLCkDtcHTcxd75RbzS1ed54G1LkBUHQVHQKqhMkhgbmJbZRkrgZw4koxb5JaHWkY4ALHY2grBGRjaDMzQLcgJvLJuZZvRcEL';
+const bip380Descriptor = `pkh([d34db33f/44'/0'/0']${bip380Xpub}/1/*)#ml40v0wf`;
+
+// BIP32 test vector 1, master key
+const masterXpub =
+  'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8';
+
+function withVersion(xpub: string, version: number): string {
+  const data = Buffer.from(base58CheckDecode(xpub));
+  data.writeUInt32BE(version, 0);
+  return base58CheckEncode(data);
+}
+
+describe('descriptorUtils', () => {
+  describe('descriptorChecksum', () => {
+    it('should compute the BIP-380 test vector checksums', () => {
+      expect(descriptorChecksum('raw(deadbeef)')).toBe('89f8spxm');
+      expect(descriptorChecksum(bip380Descriptor.split('#')[0])).toBe('ml40v0wf');
+    });
+
+    it('should reject characters outside the descriptor charset', () => {
+      expect(() => descriptorChecksum('pkh(é)')).toThrow('Invalid descriptor character "é"');
+    });
+  });
+
+  describe('parseDescriptor', () => {
+    it('should parse key origins, child steps and wildcards', () => {
+      expect(parseDescriptor(bip380Descriptor)).toEqual({
+        script: 'pkh',
+        keys: [
+          {
+            fingerprint: 'd34db33f',
+            originPath: [44 + H, H, H],
+            key: bip380Xpub,
+            childPath: [1],
+            wildcard: true,
+          },
+        ],
+      });
+    });
+
+    it('should reject a wrong checksum', () => {
+      expect(() => parseDescriptor(`${bip380Descriptor.slice(0, -1)}q`)).toThrow(
+        'Invalid descriptor checksum ml40v0wq',
+      );
+    });
+
+    it('should parse nested and multisig scripts', () => {
+      expect(parseDescriptor(`sh(wpkh(${masterXpub}/0/*))`).script).toBe('sh-wpkh');
+
+      const multisig = parseDescriptor(
+        `sh(wsh(sortedmulti(2,[d34db33f/48h/0h/0h/1h]${bip380Xpub}/0/*,${masterXpub}/0/*)))`,
+      );
+      expect(multisig.script).toBe('sh-wsh-multi');
+      expect(multisig.threshold).toBe(2);
+      expect(multisig.sorted).toBe(true);
+      expect(multisig.keys.map(({ fingerprint }) => fingerprint)).toEqual(['d34db33f', undefined]);
+    });
+
+    it('should reject what cannot be derived from xpubs', () => {
+      expect(() => parseDescriptor(`wpkh(${masterXpub}/0/*h)`)).toThrow(
+        'Hardened wildcards cannot be derived from an extended public key',
+      );
+      expect(() => parseDescriptor(`tr(${masterXpub},pk(${masterXpub}))`)).toThrow(
+        'Taproot script trees are not supported',
+      );
+      expect(() => parseDescriptor(`wsh(multi(3,${masterXpub},${bip380Xpub}))`)).toThrow(
+        'Invalid multisig threshold 3 for 2 keys',
+      );
+      expect(() => parseDescriptor('combo(00)')).toThrow('Unsupported descriptor combo(00)');
+    });
+  });
+
+  describe('formatDescriptor', () => {
+    it('should write h markers and a checksum that parses back', () => {
+      const formatted = formatDescriptor(parseDescriptor(bip380Descriptor));
+
+      expect(formatted).toMatch(/^pkh\(\[d34db33f\/44h\/0h\/0h\]xpub6ERA.*\/1\/\*\)#[a-z0-9]{8}$/);
+      expect(parseDescriptor(formatted)).toEqual(parseDescriptor(bip380Descriptor));
+    });
+
+    it('should round-trip multisig descriptors', () => {
+      const descriptor = `wsh(multi(1,[d34db33f/48h/0h/0h/2h]${bip380Xpub}/0/*,${masterXpub}/0/*))`;
+      expect(formatDescriptor(parseDescriptor(descriptor))).toBe(
+        `${descriptor}#${descriptorChecksum(descriptor)}`,
+      );
+    });
+  });
+
+  describe('toDescriptorXpub', () => {
+    it('should spell SLIP-132 keys as xpub', () => {
+      expect(toDescriptorXpub(withVersion(masterXpub, 0x04b24746))).toBe(masterXpub);
+      expect(toDescriptorXpub(masterXpub)).toBe(masterXpub);
+    });
+  });
+
+  describe('getAccountDescriptors', () => {
+    it('should describe the receive and change chains of an account', () => {
+      const zpub = withVersion(masterXpub, 0x04b24746);
+      const { receive, change } = getAccountDescriptors(
+        'nativeSegwit',
+        '73c5da0a',
+        [84 + H, H, H],
+        zpub,
+      );
+
+      expect(receive.split('#')[0]).toBe(`wpkh([73c5da0a/84h/0h/0h]${masterXpub}/0/*)`);
+      expect(change.split('#')[0]).toBe(`wpkh([73c5da0a/84h/0h/0h]${masterXpub}/1/*)`);
+      expect(parseDescriptor(receive).keys[0].childPath).toEqual([0]);
+    });
+  });
+});
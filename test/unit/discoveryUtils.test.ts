@@ -0,0 +1,117 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { BITCOIN_LIKE_COINS } from '../../nodes/KeepKey/constants/coins';
+import type { AddressType } from '../../nodes/KeepKey/constants/derivationPaths';
+import { publicKeyToAddress } from '../../nodes/KeepKey/utils/addressUtils';
+import { decodeExtendedPublicKey, derivePublicKeyPath } from '../../nodes/KeepKey/utils/bip32Utils';
+import { AddressUsage, discoverAccounts } from '../../nodes/KeepKey/utils/discoveryUtils';
+
+// BIP84 test mnemonic, account 0, and an unrelated key standing in for account 1
+const account0 =
+  'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs';
+const account1 =
+  'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8';
+
+function address(change: number, index: number): string {
+  const { publicKey } = derivePublicKeyPath(decodeExtendedPublicKey(account0), [change, index]);
+  return publicKeyToAddress(publicKey, 'nativeSegwit', BITCOIN_LIKE_COINS.BTC);
+}
+
+const used: Record<string, AddressUsage> = {
+  bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu: { txCount: 2, balance: 0, unconfirmedBalance: 0 },
+  [address(0, 19)]: { txCount: 1, balance: 50000, unconfirmedBalance: 0 },
+  bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el: {
+    txCount: 1,
+    balance: 12000,
+    unconfirmedBalance: 3000,
+  },
+};
+
+function createBackend() {
+  const lookups: string[] = [];
+  const xpubRequests: Array<[AddressType, number]> = [];
+  return {
+    lookups,
+    xpubRequests,
+    getAccountXpub: (addressType: AddressType, accountIndex: number) => {
+      xpubRequests.push([addressType, accountIndex]);
+      return Promise.resolve(accountIndex === 0 ? account0 : account1);
+    },
+    getAddressUsage: (lookup: string) => {
+      lookups.push(lookup);
+      return Promise.resolve(used[lookup] ?? { txCount: 0, balance: 0, unconfirmedBalance: 0 });
+    },
+  };
+}
+
+describe('discoveryUtils', () => {
+  describe('discoverAccounts', () => {
+    it('should scan each chain until the gap limit and stop at an unused account', async () => {
+      const backend = createBackend();
+
+      const accounts = await discoverAccounts({
+        coin: BITCOIN_LIKE_COINS.BTC,
+        addressTypes: ['nativeSegwit'],
+        getAccountXpub: backend.getAccountXpub,
+        getAddressUsage: backend.getAddressUsage,
+      });
+
+      expect(accounts).toEqual([
+        {
+          addressType: 'nativeSegwit',
+          accountIndex: 0,
+          path: "m/84'/0'/0'",
+          xpub: account0,
+          balance: 62000,
+          unconfirmedBalance: 3000,
+          txCount: 4,
+          usedAddresses: 3,
+          nextReceiveIndex: 20,
+          nextChangeIndex: 1,
+        },
+      ]);
+      expect(backend.xpubRequests).toEqual([
+        ['nativeSegwit', 0],
+        ['nativeSegwit', 1],
+      ]);
+      // 40 receive and 21 change lookups for account 0, then an empty receive chain
+      expect(backend.lookups).toHaveLength(40 + 21 + 20);
+      expect(backend.lookups[40]).toBe('bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el');
+    });
+
+    it('should miss addresses beyond a smaller gap limit', async () => {
+      const backend = createBackend();
+
+      const accounts = await discoverAccounts({
+        coin: BITCOIN_LIKE_COINS.BTC,
+        addressTypes: ['nativeSegwit'],
+        gapLimit: 5,
+        maxAccounts: 1,
+        getAccountXpub: backend.getAccountXpub,
+        getAddressUsage: backend.getAddressUsage,
+      });
+
+      expect(accounts[0].nextReceiveIndex).toBe(1);
+      expect(accounts[0].balance).toBe(12000);
+      expect(backend.xpubRequests).toHaveLength(1);
+    });
+
+    it('should reject an invalid gap limit', async () => {
+      const backend = createBackend();
+      await expect(
+        discoverAccounts({
+          coin: BITCOIN_LIKE_COINS.BTC,
+          addressTypes: ['nativeSegwit'],
+          gapLimit: 0,
+          getAccountXpub: backend.getAccountXpub,
+          getAddressUsage: backend.getAddressUsage,
+        }),
+      ).rejects.toThrow('Gap limit must be a positive integer, got 0');
+    });
+  });
+});
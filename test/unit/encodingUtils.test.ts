@@ -0,0 +1,134 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  base58CheckDecode,
+  base58CheckEncode,
+  base58Decode,
+  base58Encode,
+  bech32Decode,
+  bech32Encode,
+  cashAddrDecode,
+  cashAddrEncode,
+  decodeSegwitAddress,
+  encodeSegwitAddress,
+} from '../../nodes/KeepKey/utils/encodingUtils';
+
+const genesisPayload = Buffer.from('0062e907b15cbf27d5425399ebf6f0fb50ebb88f18', 'hex');
+const genesisAddress = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+const p2wpkhAddress = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+const p2wpkhProgram = 'e8df018c7e326cc253faac7e46cdc51e68542c42';
+const p2trAddress = 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0';
+const p2trProgram = '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+// CashAddr specification test vectors
+const cashAddrHash = Buffer.from('76a04053bda0a88bda5177b86a15c3b29f559873', 'hex');
+const cashAddrP2pkh = 'bitcoincash:qpm2qsznhks23z7629mms6s4cwef74vcwvy22gdx6a';
+const cashAddrP2sh = 'bitcoincash:ppm2qsznhks23z7629mms6s4cwef74vcwvn0h829pq';
+
+describe('encodingUtils', () => {
+  describe('base58', () => {
+    it('should keep leading zero bytes as leading 1s', () => {
+      const data = Buffer.from('0000ff', 'hex');
+      expect(base58Encode(data)).toBe('115Q');
+      expect(base58Decode('115Q').equals(data)).toBe(true);
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base58Decode('10OI')).toThrow('Invalid Base58 character "0"');
+    });
+  });
+
+  describe('base58Check', () => {
+    it('should encode and decode the genesis address', () => {
+      expect(base58CheckEncode(genesisPayload)).toBe(genesisAddress);
+      expect(base58CheckDecode(genesisAddress).equals(genesisPayload)).toBe(true);
+    });
+
+    it('should reject a corrupted checksum', () => {
+      expect(() => base58CheckDecode(`${genesisAddress.slice(0, -1)}b`)).toThrow(
+        'Invalid Base58Check checksum',
+      );
+    });
+  });
+
+  describe('bech32', () => {
+    it('should detect the variant from the checksum', () => {
+      expect(bech32Decode(p2wpkhAddress).variant).toBe('bech32');
+      expect(bech32Decode(p2trAddress).variant).toBe('bech32m');
+    });
+
+    it('should round trip words under either variant', () => {
+      const words = [0, 1, 2, 31, 30];
+      const encoded = bech32Encode('test', words, 'bech32m');
+      expect(bech32Decode(encoded)).toEqual({ hrp: 'test', words, variant: 'bech32m' });
+    });
+
+    it('should accept upper case but not mixed case', () => {
+      expect(bech32Decode(p2wpkhAddress.toUpperCase()).hrp).toBe('bc');
+      expect(() => bech32Decode(`B${p2wpkhAddress.slice(1)}`)).toThrow('mix upper and lower case');
+    });
+
+    it('should reject a corrupted checksum', () => {
+      expect(() => bech32Decode(`${p2wpkhAddress.slice(0, -1)}p`)).toThrow(
+        'Invalid Bech32 checksum',
+      );
+    });
+  });
+
+  describe('segwit addresses', () => {
+    it('should decode v0 and v1 programs', () => {
+      const v0 = decodeSegwitAddress('bc', p2wpkhAddress);
+      expect(v0.version).toBe(0);
+      expect(v0.program.toString('hex')).toBe(p2wpkhProgram);
+
+      const v1 = decodeSegwitAddress('bc', p2trAddress);
+      expect(v1.version).toBe(1);
+      expect(v1.program.toString('hex')).toBe(p2trProgram);
+    });
+
+    it('should encode v0 as bech32 and v1 as bech32m', () => {
+      expect(encodeSegwitAddress('bc', 0, Buffer.from(p2wpkhProgram, 'hex'))).toBe(p2wpkhAddress);
+      expect(encodeSegwitAddress('bc', 1, Buffer.from(p2trProgram, 'hex'))).toBe(p2trAddress);
+    });
+
+    it('should reject the wrong prefix', () => {
+      expect(() => decodeSegwitAddress('ltc', p2wpkhAddress)).toThrow(
+        'Expected a ltc address, got prefix bc',
+      );
+    });
+
+    it('should reject a v1 program encoded as bech32', () => {
+      const words = [1, ...bech32Decode(p2trAddress).words.slice(1)];
+      expect(() => decodeSegwitAddress('bc', bech32Encode('bc', words, 'bech32'))).toThrow(
+        'Witness version 1 addresses must use Bech32m',
+      );
+    });
+  });
+
+  describe('cashAddr', () => {
+    it('should encode key and script hashes', () => {
+      expect(cashAddrEncode('bitcoincash', 0, cashAddrHash)).toBe(cashAddrP2pkh);
+      expect(cashAddrEncode('bitcoincash', 1, cashAddrHash)).toBe(cashAddrP2sh);
+    });
+
+    it('should decode with or without the prefix and in upper case', () => {
+      const expected = { prefix: 'bitcoincash', type: 1, hash: cashAddrHash };
+      expect(cashAddrDecode(cashAddrP2sh, 'bitcoincash')).toEqual(expected);
+      expect(cashAddrDecode(cashAddrP2sh.split(':')[1], 'bitcoincash')).toEqual(expected);
+      expect(cashAddrDecode(cashAddrP2sh.toUpperCase(), 'bitcoincash')).toEqual(expected);
+    });
+
+    it('should reject a wrong checksum or prefix', () => {
+      expect(() => cashAddrDecode(`${cashAddrP2pkh.slice(0, -1)}q`, 'bitcoincash')).toThrow(
+        'Invalid CashAddr checksum',
+      );
+      expect(() => cashAddrDecode(cashAddrP2pkh.replace('bitcoincash', 'bchtest'), 'x')).toThrow(
+        'Invalid CashAddr checksum',
+      );
+    });
+  });
+});
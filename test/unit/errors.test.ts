@@ -0,0 +1,57 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { KeepKeyDeviceError } from '../../nodes/KeepKey/transport/errors';
+
+describe('KeepKeyDeviceError', () => {
+  describe('fromFailure', () => {
+    it('should resolve numeric and named failure codes', () => {
+      expect(KeepKeyDeviceError.fromFailure({ code: 4 }).code).toBe('ActionCancelled');
+      expect(KeepKeyDeviceError.fromFailure({ code: 'PinInvalid' }).code).toBe('PinInvalid');
+      expect(KeepKeyDeviceError.fromFailure({ code: 'Failure_NotEnoughFunds' }).code).toBe(
+        'NotEnoughFunds',
+      );
+      expect(KeepKeyDeviceError.fromFailure({ code: 'FailureType_Failure_DataError' }).code).toBe(
+        'DataError',
+      );
+    });
+
+    it('should keep the device message', () => {
+      const error = KeepKeyDeviceError.fromFailure({ code: 7, message: 'PIN invalid' });
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('KeepKeyDeviceError');
+      expect(error.message).toBe('PIN invalid');
+      expect(error.deviceMessage).toBe('PIN invalid');
+    });
+
+    it('should describe failures without a message or known code', () => {
+      expect(KeepKeyDeviceError.fromFailure({ code: 'NotInitialized' }).message).toBe(
+        'Device returned failure NotInitialized',
+      );
+
+      const unknown = KeepKeyDeviceError.fromFailure({ code: 42 });
+      expect(unknown.code).toBeUndefined();
+      expect(unknown.message).toBe('Device returned failure with unknown code');
+      expect(unknown.retryable).toBe(false);
+    });
+  });
+
+  describe('retryable', () => {
+    it('should flag failures the user can recover from', () => {
+      expect(new KeepKeyDeviceError('ActionCancelled').retryable).toBe(true);
+      expect(new KeepKeyDeviceError('PinInvalid').retryable).toBe(true);
+      expect(new KeepKeyDeviceError('InvalidSession').retryable).toBe(true);
+    });
+
+    it('should not retry failures that need a different request', () => {
+      expect(new KeepKeyDeviceError('NotEnoughFunds').retryable).toBe(false);
+      expect(new KeepKeyDeviceError('DataError').retryable).toBe(false);
+      expect(new KeepKeyDeviceError('NotInitialized').retryable).toBe(false);
+    });
+  });
+});
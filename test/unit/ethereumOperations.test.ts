@@ -0,0 +1,135 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+import { executeEthereumOperation } from '../../nodes/KeepKey/operations/ethereum';
+import { signEthereumTransaction } from '../../nodes/KeepKey/signing';
+import type { KeepKeyClient } from '../../nodes/KeepKey/transport';
+import type { EthereumTxParams } from '../../nodes/KeepKey/utils/transactionUtils';
+
+jest.mock('../../nodes/KeepKey/signing', () => ({
+  ...jest.requireActual('../../nodes/KeepKey/signing'),
+  signEthereumTransaction: jest.fn(),
+}));
+
+const mockSign = signEthereumTransaction as jest.Mock;
+
+const parameters: IDataObject = {
+  resource: 'ethereum',
+  manageNonce: true,
+  toAddress: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+  amount: '0.1',
+  gasLimit: 21000,
+  maxFee: '30',
+  maxPriorityFee: '1',
+};
+
+/**
+ * One execution of a workflow, with its own copy of the static data
+ */
+function createExecution(transactionCount: number): IExecuteFunctions {
+  const staticData: IDataObject = {};
+  return {
+    getNodeParameter: (name: string, _itemIndex: number, fallback?: unknown) =>
+      parameters[name] ?? fallback,
+    getNode: () => ({ name: 'KeepKey' }),
+    getCredentials: () => Promise.reject(new Error('No credentials')),
+    getWorkflowStaticData: () => staticData,
+    helpers: {
+      // Answers the eth_getTransactionCount batch for latest and pending
+      httpRequest: ({ body }: { body: Array<{ id: number }> }) =>
+        Promise.resolve(
+          body.map(({ id }) => ({
+            jsonrpc: '2.0',
+            id,
+            result: `0x${transactionCount.toString(16)}`,
+          })),
+        ),
+    },
+  } as unknown as IExecuteFunctions;
+}
+
+describe('executeEthereumOperation', () => {
+  describe('signTransaction with a managed nonce', () => {
+    let pendingSignatures: Array<() => void>;
+
+    beforeEach(() => {
+      pendingSignatures = [];
+      // Hold each signature until released, as a device waiting for confirmation does
+      mockSign.mockReset().mockImplementation(
+        (_client: unknown, _addressN: number[], tx: EthereumTxParams) =>
+          new Promise((resolve) => {
+            pendingSignatures.push(() =>
+              resolve({ v: 0, r: '0x', s: '0x', serializedTx: '0x', hash: `0x${tx.nonce}` }),
+            );
+          }),
+      );
+    });
+
+    // Reservations outlive an execution, so each test signs from its own account
+    const sign = (execution: IExecuteFunctions, address: string) =>
+      executeEthereumOperation.call(
+        execution,
+        {
+          getClient: () =>
+            Promise.resolve({
+              ethereumGetAddress: () => Promise.resolve(address),
+            } as unknown as KeepKeyClient),
+        },
+        'signTransaction',
+        0,
+      ) as Promise<IDataObject>;
+
+    const signedNonces = () =>
+      mockSign.mock.calls.map(([, , tx]: [unknown, unknown, EthereumTxParams]) => tx.nonce);
+
+    async function waitForSignatures(count: number): Promise<void> {
+      while (pendingSignatures.length < count) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    }
+
+    it('should give parallel executions of a workflow different nonces', async () => {
+      const address = '0x73d0385f4d8e00c5e6504c6030f47bf6212736a8';
+      const first = sign(createExecution(7), address);
+      const second = sign(createExecution(7), address);
+      await waitForSignatures(2);
+      pendingSignatures.forEach((release) => release());
+
+      const results = await Promise.all([first, second]);
+      expect(results.map((result) => result.nonce)).toEqual([7, 8]);
+      expect(signedNonces()).toEqual([7, 8]);
+    });
+
+    it('should keep reservations of a run whose static data is not saved', async () => {
+      const address = '0x3f5ce5fbfe3e9af3971dd833d26ba9b5c936f0be';
+      const manual = sign(createExecution(3), address);
+      await waitForSignatures(1);
+      pendingSignatures[0]();
+      await manual;
+
+      // The next execution starts from empty static data but the chain has not seen nonce 3
+      const next = sign(createExecution(3), address);
+      await waitForSignatures(2);
+      pendingSignatures[1]();
+      expect((await next).nonce).toBe(4);
+    });
+
+    it('should share nonces between workflows signing from the same account', async () => {
+      // Each workflow has its own static data, as separate executions do
+      const address = '0xdc76cd25977e0a5ae17155770273ad58648900d3';
+      const first = sign(createExecution(2), address);
+      const second = sign(createExecution(2), address);
+      await waitForSignatures(2);
+      pendingSignatures.forEach((release) => release());
+
+      expect(signedNonces()).toEqual([2, 3]);
+      await Promise.all([first, second]);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { MESSAGE_TYPES } from '../../nodes/KeepKey/constants/events';
+import { signEthereumTransaction } from '../../nodes/KeepKey/signing/ethereumSigner';
+import { keccak256 } from '../../nodes/KeepKey/utils/hashUtils';
+import { rlpDecode } from '../../nodes/KeepKey/utils/rlpUtils';
+import { connectReplay, exchange } from '../helpers';
+
+const addressN = [2147483692, 2147483708, 2147483648, 0, 0];
+const r = '28ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276';
+const s = '67cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83';
+
+describe('signEthereumTransaction', () => {
+  it('should sign a legacy transaction and serialize it with EIP-155 v', async () => {
+    const { client, transport } = await connectReplay([
+      exchange(
+        MESSAGE_TYPES.EthereumSignTx,
+        {
+          address_n: addressN,
+          nonce: '09',
+          gas_limit: '5208',
+          to: '3535353535353535353535353535353535353535',
+          value: '0de0b6b3a7640000',
+          data_initial_chunk: '',
+          data_length: 0,
+          chain_id: 1,
+          gas_price: '04a817c800',
+        },
+        MESSAGE_TYPES.ButtonRequest,
+        { code: 'SignTx' },
+      ),
+      exchange(MESSAGE_TYPES.ButtonAck, {}, MESSAGE_TYPES.EthereumTxRequest, {
+        signature_v: 37,
+        signature_r: r,
+        signature_s: s,
+      }),
+    ]);
+
+    const signed = await signEthereumTransaction(client, addressN, {
+      nonce: 9,
+      gasPrice: '20000000000',
+      gasLimit: 21000,
+      to: '0x3535353535353535353535353535353535353535',
+      value: '1000000000000000000',
+      chainId: 1,
+    });
+
+    // Signed transaction from EIP-155
+    const expected =
+      '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a7640000' +
+      '8025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f' +
+      '761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83';
+    expect(signed.v).toBe(37);
+    expect(signed.serializedTx).toBe(expected);
+    expect(signed.hash).toBe(
+      `0x${keccak256(Buffer.from(expected.slice(2), 'hex')).toString('hex')}`,
+    );
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should stream data beyond the first chunk and sign EIP-1559 transactions', async () => {
+    const data = Buffer.alloc(1500, 0xab);
+    const { client, transport } = await connectReplay([
+      exchange(
+        MESSAGE_TYPES.EthereumSignTx,
+        {
+          address_n: addressN,
+          nonce: '',
+          gas_limit: '030d40',
+          to: '3535353535353535353535353535353535353535',
+          value: '',
+          data_initial_chunk: data.subarray(0, 1024).toString('hex'),
+          data_length: 1500,
+          chain_id: 137,
+          tx_type: 2,
+          max_fee_per_gas: '06fc23ac00',
+          max_priority_fee_per_gas: '59682f00',
+        },
+        MESSAGE_TYPES.EthereumTxRequest,
+        { data_length: 476 },
+      ),
+      exchange(
+        MESSAGE_TYPES.EthereumTxAck,
+        { data_chunk: data.subarray(1024).toString('hex') },
+        MESSAGE_TYPES.EthereumTxRequest,
+        { signature_v: 1, signature_r: r, signature_s: s },
+      ),
+    ]);
+
+    const signed = await signEthereumTransaction(client, addressN, {
+      nonce: 0,
+      gasLimit: 200000,
+      to: '0x3535353535353535353535353535353535353535',
+      value: '0',
+      data: `0x${data.toString('hex')}`,
+      maxFeePerGas: '30000000000',
+      maxPriorityFeePerGas: '1500000000',
+      chainId: 137,
+      txType: 2,
+    });
+
+    expect(signed.v).toBe(1);
+    expect(signed.serializedTx.startsWith('0x02')).toBe(true);
+    const fields = rlpDecode(Buffer.from(signed.serializedTx.slice(4), 'hex')) as Buffer[];
+    expect(fields).toHaveLength(12);
+    expect(fields[7].equals(data)).toBe(true);
+    expect(fields[9].toString('hex')).toBe('01');
+    expect(fields[10].toString('hex')).toBe(r);
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should cancel when the device asks for more data than the transaction has', async () => {
+    const { client, transport } = await connectReplay([
+      exchange(
+        MESSAGE_TYPES.EthereumSignTx,
+        {
+          address_n: addressN,
+          nonce: '',
+          gas_limit: '5208',
+          to: '3535353535353535353535353535353535353535',
+          value: '',
+          data_initial_chunk: 'abcd',
+          data_length: 2,
+          chain_id: 1,
+          gas_price: '01',
+        },
+        MESSAGE_TYPES.EthereumTxRequest,
+        { data_length: 10 },
+      ),
+      exchange(MESSAGE_TYPES.Cancel, {}, MESSAGE_TYPES.Failure, { code: 'ActionCancelled' }),
+    ]);
+
+    await expect(
+      signEthereumTransaction(client, addressN, {
+        nonce: 0,
+        gasPrice: '1',
+        gasLimit: 21000,
+        to: '0x3535353535353535353535353535353535353535',
+        value: '0',
+        data: '0xabcd',
+        chainId: 1,
+      }),
+    ).rejects.toThrow('Device requested 10 bytes of data at offset 2, but only 0 remain');
+    expect(transport.isComplete()).toBe(true);
+  });
+});
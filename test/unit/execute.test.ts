@@ -0,0 +1,191 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+
+import { KeepKey } from '../../nodes/KeepKey/KeepKey.node';
+import { KeepKeyClient, KeepKeyDeviceError } from '../../nodes/KeepKey/transport';
+
+jest.mock('../../nodes/KeepKey/transport', () => ({
+  ...jest.requireActual('../../nodes/KeepKey/transport'),
+  KeepKeyClient: jest.fn(),
+}));
+
+const MockClient = KeepKeyClient as unknown as jest.Mock;
+
+const connection = { connectionType: 'bridge', bridgeUrl: 'http://localhost:1646' };
+
+function createExecuteFunctions(
+  items: IDataObject[],
+  options: { continueOnFail?: boolean; credentials?: IDataObject } = {},
+): IExecuteFunctions {
+  return {
+    getInputData: () => items.map(() => ({ json: {} })),
+    getNodeParameter: (name: string, itemIndex: number, fallback?: unknown) => {
+      const value = { ...connection, ...items[itemIndex] }[name];
+      if (value === undefined && fallback === undefined) {
+        throw new Error(`Could not get parameter ${name}`);
+      }
+      return value ?? fallback;
+    },
+    getNode: () => ({
+      id: 'keepkey',
+      name: 'KeepKey',
+      type: 'n8n-nodes-keepkey.keepKey',
+      typeVersion: 1,
+      position: [0, 0],
+      parameters: {},
+    }),
+    getCredentials: async () => {
+      if (!options.credentials) {
+        throw new Error('No credentials');
+      }
+      return options.credentials;
+    },
+    continueOnFail: () => options.continueOnFail ?? false,
+  } as unknown as IExecuteFunctions;
+}
+
+describe('KeepKey.execute', () => {
+  let client: { [method: string]: jest.Mock };
+
+  beforeEach(() => {
+    client = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      isConnected: jest.fn().mockReturnValue(true),
+      ping: jest.fn(async (message: string) => message),
+    };
+    MockClient.mockReset().mockImplementation(() => client);
+  });
+
+  const execute = (context: IExecuteFunctions) => new KeepKey().execute.call(context);
+
+  it('should route each item to its resource handler and pair the output', async () => {
+    const output = await execute(
+      createExecuteFunctions([
+        { resource: 'device', operation: 'ping', message: 'first' },
+        { resource: 'device', operation: 'ping', message: 'second' },
+      ]),
+    );
+
+    expect(output).toEqual([
+      [
+        { json: { message: 'first' }, pairedItem: { item: 0 } },
+        { json: { message: 'second' }, pairedItem: { item: 1 } },
+      ],
+    ]);
+    // One connection serves every item and is closed at the end
+    expect(MockClient).toHaveBeenCalledTimes(1);
+    expect(client.connect).toHaveBeenCalledTimes(1);
+    expect(client.disconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not connect for operations that do not use the device', async () => {
+    const [[item]] = await execute(
+      createExecuteFunctions([{ resource: 'pin', operation: 'getPinMatrix' }]),
+    );
+
+    expect(item.json.matrix).toBeDefined();
+    expect(MockClient).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown resources and disconnect after a failure', async () => {
+    const context = createExecuteFunctions([
+      { resource: 'device', operation: 'ping' },
+      { resource: 'nft', operation: 'list' },
+    ]);
+
+    await expect(execute(context)).rejects.toThrow(NodeOperationError);
+    expect(client.disconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let a failed disconnect replace the output or the error', async () => {
+    client.disconnect.mockRejectedValue(new Error('Failed to disconnect: device unplugged'));
+
+    const [[item]] = await execute(
+      createExecuteFunctions([{ resource: 'device', operation: 'ping', message: 'kept' }]),
+    );
+    expect(item.json).toEqual({ message: 'kept' });
+
+    await expect(
+      execute(
+        createExecuteFunctions([
+          { resource: 'device', operation: 'ping' },
+          { resource: 'nft', operation: 'list' },
+        ]),
+      ),
+    ).rejects.toThrow(/nft/);
+  });
+
+  it('should answer PIN and passphrase requests from the parameters and credentials', async () => {
+    await execute(
+      createExecuteFunctions(
+        [{ resource: 'device', operation: 'ping', pin: '1234', pinMatrix: '7,8,9,4,5,6,1,2,3' }],
+        { credentials: { pin: '9999', passphrase: 'hidden' } },
+      ),
+    );
+
+    const [[config]] = MockClient.mock.calls;
+    expect(config.keepSession).toBe(false);
+    await expect(config.providers.pin({ type: 'PinMatrixRequestType_Current' })).resolves.toBe(
+      '7894',
+    );
+    await expect(config.providers.pin({ type: 'PinMatrixRequestType_NewFirst' })).rejects.toThrow(
+      'The device asked for a new PIN',
+    );
+    await expect(config.providers.passphrase()).resolves.toBe('hidden');
+  });
+
+  it('should leave PIN requests unanswered without a PIN', async () => {
+    await execute(createExecuteFunctions([{ resource: 'device', operation: 'ping' }]));
+
+    expect(MockClient.mock.calls[0][0].providers).toEqual({});
+  });
+
+  it('should tell how to unlock a device that asks for a PIN', async () => {
+    client.ping.mockRejectedValueOnce(
+      new KeepKeyDeviceError(
+        'PinExpected',
+        'Device requested a PIN but no PIN provider is configured',
+      ),
+    );
+    const error = await execute(
+      createExecuteFunctions([{ resource: 'device', operation: 'ping' }]),
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NodeOperationError);
+    expect(error.message).toBe('The KeepKey is locked');
+    expect(error.description).toContain('Set the PIN node parameter');
+  });
+
+  it('should report failures per item when continuing on fail', async () => {
+    client.ping
+      .mockRejectedValueOnce(new KeepKeyDeviceError('ActionCancelled'))
+      .mockRejectedValueOnce(new Error('Bridge unreachable'));
+    const output = await execute(
+      createExecuteFunctions(
+        [
+          { resource: 'device', operation: 'ping' },
+          { resource: 'device', operation: 'ping' },
+          { resource: 'device', operation: 'ping', message: 'ok' },
+        ],
+        { continueOnFail: true },
+      ),
+    );
+
+    expect(output[0]).toEqual([
+      {
+        json: expect.objectContaining({ code: 'ActionCancelled', retryable: true }),
+        pairedItem: { item: 0 },
+      },
+      { json: { error: 'Bridge unreachable' }, pairedItem: { item: 1 } },
+      { json: { message: 'ok' }, pairedItem: { item: 2 } },
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { BITCOIN_LIKE_COINS } from '../../nodes/KeepKey/constants/coins';
+import {
+  buildCpfpTransaction,
+  bumpFee,
+  cancelTransaction,
+  RBF_SEQUENCE,
+  ReplacementOptions,
+} from '../../nodes/KeepKey/utils/feeBumpUtils';
+import type { BitcoinInput } from '../../nodes/KeepKey/utils/transactionUtils';
+
+const BTC = BITCOIN_LIKE_COINS.BTC;
+const payee = 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el';
+const account = [0x80000054, 0x80000000, 0x80000000];
+const changePath = [...account, 1, 3];
+
+function input(id: string, value: number): BitcoinInput {
+  return {
+    txid: id.repeat(64),
+    vout: 0,
+    value,
+    addressN: [...account, 0, 0],
+    scriptType: 'SPENDWITNESS',
+    sequence: 0xffffffff,
+  };
+}
+
+// One P2WPKH input paying a P2WPKH address and change: 141 vB, or 110 vB without change
+function original(payment: number, change: number, feeRate: number): ReplacementOptions {
+  return {
+    inputs: [input('a', 100000)],
+    outputs: [
+      { address: payee, value: payment },
+      { addressN: changePath, value: change },
+    ],
+    feeRate,
+    coin: BTC,
+  };
+}
+
+describe('feeBumpUtils', () => {
+  describe('bumpFee', () => {
+    it('should take the higher fee from the change and signal replaceability', () => {
+      const bumped = bumpFee(original(60000, 39000, 20));
+
+      expect(bumped.outputs).toEqual([
+        { address: payee, value: 60000 },
+        { addressN: changePath, value: 37180 },
+      ]);
+      expect(bumped.inputs[0].sequence).toBe(RBF_SEQUENCE);
+      expect(bumped).toMatchObject({
+        fee: 2820,
+        vsize: 141,
+        originalFee: 1000,
+        originalVsize: 141,
+      });
+    });
+
+    it('should drop change that would fall below dust', () => {
+      expect(bumpFee(original(97800, 1200, 10)).outputs[1].value).toBe(790);
+
+      const bumped = bumpFee(original(97800, 1200, 12));
+      expect(bumped.outputs).toEqual([{ address: payee, value: 97800 }]);
+      expect(bumped).toMatchObject({ fee: 2200, vsize: 110 });
+    });
+
+    it('should add UTXOs when the change cannot pay the fee', () => {
+      const bumped = bumpFee({ ...original(98500, 600, 30), utxos: [input('b', 50000)] });
+
+      expect(bumped.inputs.map((utxo) => utxo.sequence)).toEqual([RBF_SEQUENCE, RBF_SEQUENCE]);
+      expect(bumped.outputs[1]).toEqual({ addressN: changePath, value: 45230 });
+      expect(bumped).toMatchObject({ fee: 6270, vsize: 209 });
+
+      expect(() => bumpFee(original(98500, 600, 30))).toThrow(
+        'Insufficient funds: the replacement needs 1800 sat more',
+      );
+    });
+
+    it('should require a higher fee rate than the original', () => {
+      expect(() => bumpFee(original(60000, 39000, 5))).toThrow(
+        'Fee rate must exceed the original 7.09 sat/vB',
+      );
+    });
+  });
+
+  describe('cancelTransaction', () => {
+    it('should pay everything back to the change address', () => {
+      const cancelled = cancelTransaction(original(60000, 39000, 20));
+
+      expect(cancelled.inputs).toHaveLength(1);
+      expect(cancelled.outputs).toEqual([{ addressN: changePath, value: 97800 }]);
+      expect(cancelled).toMatchObject({ fee: 2200, vsize: 110 });
+    });
+
+    it('should need a change path when the original has no change', () => {
+      const options = original(60000, 39000, 20);
+      options.outputs = [{ address: payee, value: 99000 }];
+
+      expect(() => cancelTransaction(options)).toThrow(
+        'A cancellation needs a change path to pay back to',
+      );
+      expect(cancelTransaction({ ...options, changePath }).outputs[0].addressN).toEqual(changePath);
+    });
+  });
+
+  describe('buildCpfpTransaction', () => {
+    it('should pay for the parent and child together', () => {
+      const child = buildCpfpTransaction({
+        inputs: [input('c', 50000)],
+        parentFee: 200,
+        parentVsize: 200,
+        feeRate: 10,
+        changePath,
+        coin: BTC,
+      });
+
+      expect(child.outputs).toEqual([{ addressN: changePath, value: 47100 }]);
+      expect(child).toMatchObject({ fee: 2900, vsize: 110 });
+    });
+
+    it('should reject outputs too small to pay the child fee', () => {
+      expect(() =>
+        buildCpfpTransaction({
+          inputs: [input('c', 3000)],
+          parentFee: 200,
+          parentVsize: 200,
+          feeRate: 10,
+          changePath,
+          coin: BTC,
+        }),
+      ).toThrow('The outputs spent (3000 sat) cannot pay the 2900 sat child fee');
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { BITCOIN_LIKE_COINS } from '../../nodes/KeepKey/constants/coins';
+import {
+  btcPerKvbToSatPerVb,
+  calculateTransactionVsize,
+  calculateTransactionWeight,
+  getFeeRateForTarget,
+  parseEsploraFeeEstimates,
+  selectFeeRates,
+} from '../../nodes/KeepKey/utils/feeUtils';
+import type { BitcoinInput } from '../../nodes/KeepKey/utils/transactionUtils';
+
+const BTC = BITCOIN_LIKE_COINS.BTC;
+const p2pkh = '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2';
+const p2sh = '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy';
+const p2wpkh = 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el';
+const p2tr = 'bc1p5d7rjq7g6rdk2yhzks9smlaqtedr4dekq08ge8ztwac72sfr9rusxg3297';
+
+function input(scriptType: string): BitcoinInput {
+  return { txid: 'aa'.repeat(32), vout: 0, value: 100000, scriptType };
+}
+
+describe('feeUtils', () => {
+  describe('calculateTransactionVsize', () => {
+    it('should size single-key spends to each output type', () => {
+      const outputs = [
+        { address: p2pkh, value: 1000 },
+        { address: p2pkh, value: 1000 },
+      ];
+      expect(calculateTransactionVsize([input('SPENDADDRESS')], outputs, BTC)).toBe(226);
+      expect(
+        calculateTransactionVsize(
+          [input('SPENDWITNESS')],
+          [
+            { address: p2wpkh, value: 1000 },
+            { addressN: [0x80000054, 0x80000000, 0x80000000, 1, 0], value: 500 },
+          ],
+          BTC,
+        ),
+      ).toBe(141);
+      expect(
+        calculateTransactionVsize([input('SPENDTAPROOT')], [{ address: p2tr, value: 1000 }], BTC),
+      ).toBe(111);
+      expect(
+        calculateTransactionVsize([input('SPENDP2SHWITNESS')], [{ address: p2sh, value: 1 }], BTC),
+      ).toBe(134);
+    });
+
+    it('should count an empty witness for legacy inputs of a segwit transaction', () => {
+      const outputs = [{ address: p2wpkh, value: 1000 }];
+      const legacy = calculateTransactionWeight([input('SPENDADDRESS')], outputs, BTC);
+      const witness = calculateTransactionWeight([input('SPENDWITNESS')], outputs, BTC);
+      const mixed = calculateTransactionWeight(
+        [input('SPENDADDRESS'), input('SPENDWITNESS')],
+        outputs,
+        BTC,
+      );
+      // The marker, flag and one empty stack are new; the witness input adds its own stack
+      expect(mixed - legacy).toBe(witness - 10 * 4 - 31 * 4 + 1);
+    });
+
+    it('should size m-of-n multisig inputs by script type', () => {
+      const multisig = { m: 2, xpubs: ['a', 'b', 'c'], addressN: [0, 0] };
+      const outputs = [{ address: p2wpkh, value: 1000 }];
+      const sizes = ['SPENDMULTISIG', 'SPENDP2SHWITNESS', 'SPENDWITNESS'].map((scriptType) =>
+        calculateTransactionWeight([{ ...input(scriptType), multisig }], outputs, BTC),
+      );
+      expect(sizes).toEqual([1352, 724, 584]);
+    });
+
+    it('should size OP_RETURN outputs by their data', () => {
+      const sizes = [0, 40, 80].map((bytes) =>
+        calculateTransactionVsize(
+          [input('SPENDWITNESS')],
+          [{ value: 0, opReturnData: 'ab'.repeat(bytes) }],
+          BTC,
+        ),
+      );
+      expect(sizes).toEqual([90, 130, 171]);
+    });
+
+    it('should reject an address of another network or a missing output script', () => {
+      expect(() =>
+        calculateTransactionVsize(
+          [input('SPENDWITNESS')],
+          [{ address: p2wpkh, value: 1 }],
+          BTC,
+          'testnet',
+        ),
+      ).toThrow();
+      expect(() => calculateTransactionVsize([input('SPENDWITNESS')], [{ value: 1 }], BTC)).toThrow(
+        'Every output needs an address, a change path or OP_RETURN data',
+      );
+      expect(() => calculateTransactionVsize([], [{ address: p2wpkh, value: 1 }], BTC)).toThrow(
+        'A transaction needs at least one input and one output',
+      );
+    });
+  });
+
+  describe('fee rates', () => {
+    const estimates = parseEsploraFeeEstimates({ '1': 30.5, '2': 25, '6': 12, '144': 2.1 });
+
+    it('should read Esplora estimates keyed by target', () => {
+      expect(estimates).toEqual({ 1: 30.5, 2: 25, 6: 12, 144: 2.1 });
+      expect(() => parseEsploraFeeEstimates({ soon: 5 })).toThrow(
+        'Invalid fee estimate for target soon',
+      );
+      expect(() => parseEsploraFeeEstimates([])).toThrow();
+    });
+
+    it('should use the longest estimated target within the requested one', () => {
+      expect(getFeeRateForTarget(estimates, 6)).toBe(12);
+      expect(getFeeRateForTarget(estimates, 24)).toBe(12);
+      expect(getFeeRateForTarget(estimates, 1008)).toBe(2.1);
+      expect(getFeeRateForTarget({ 3: 8 }, 1)).toBe(8);
+      expect(() => getFeeRateForTarget({}, 6)).toThrow('The backend returned no fee estimates');
+    });
+
+    it('should report rates for each confirmation target', () => {
+      expect(selectFeeRates(estimates, [1, 3, 144])).toEqual({ 1: 30.5, 3: 25, 144: 2.1 });
+    });
+
+    it('should convert bitcoind BTC/kvB rates to sat/vB', () => {
+      expect(btcPerKvbToSatPerVb(0.00012345)).toBe(12.345);
+      expect(btcPerKvbToSatPerVb(0.00001)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { hash160, keccak256, sha256d } from '../../nodes/KeepKey/utils/hashUtils';
+
+describe('hashUtils', () => {
+  describe('keccak256', () => {
+    it('should match known digests', () => {
+      expect(keccak256('').toString('hex')).toBe(
+        'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470',
+      );
+      expect(keccak256('abc').toString('hex')).toBe(
+        '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45',
+      );
+    });
+
+    it('should hash the ERC-20 transfer signature to its selector', () => {
+      expect(keccak256('transfer(address,uint256)').subarray(0, 4).toString('hex')).toBe(
+        'a9059cbb',
+      );
+    });
+
+    it('should hash input spanning several blocks', () => {
+      const digest = keccak256(Buffer.alloc(300, 0x61));
+      expect(digest).toHaveLength(32);
+      expect(digest.equals(keccak256(Buffer.alloc(299, 0x61)))).toBe(false);
+    });
+  });
+
+  describe('sha256d', () => {
+    it('should hash twice with SHA-256', () => {
+      expect(sha256d(Buffer.alloc(0)).toString('hex')).toBe(
+        '5df6e0e2761359d30a8275058e299fcc0381534545f55cf43e41983f5d4c9456',
+      );
+    });
+  });
+
+  describe('hash160', () => {
+    it('should hash a public key to its P2PKH key hash', () => {
+      const pubkey = Buffer.from(
+        '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+        'hex',
+      );
+      expect(hash160(pubkey).toString('hex')).toBe('751e76e8199196d454941c45d1b3a323f1433bd6');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  JsonRpcClient,
+  JsonRpcError,
+  JsonRpcRequest,
+  JsonRpcSend,
+} from '../../nodes/KeepKey/utils/jsonRpcUtils';
+
+type Methods = {
+  eth_blockNumber: { params: []; result: string };
+  eth_getBalance: { params: [string, string]; result: string };
+};
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status },
+  });
+}
+
+function answer(request: JsonRpcRequest, result: unknown): unknown {
+  return { jsonrpc: '2.0', id: request.id, result };
+}
+
+describe('jsonRpcUtils', () => {
+  describe('JsonRpcClient', () => {
+    const delays: number[] = [];
+    const options = {
+      sleep: async (ms: number) => {
+        delays.push(ms);
+      },
+    };
+
+    beforeEach(() => {
+      delays.length = 0;
+    });
+
+    it('should call a method and return its result', async () => {
+      const send = jest.fn<Promise<unknown>, Parameters<JsonRpcSend>>(async (_url, body) =>
+        answer(body as JsonRpcRequest, '0x10'),
+      );
+      const client = new JsonRpcClient<Methods>(['https://rpc.example'], send, options);
+
+      await expect(client.call('eth_blockNumber', [])).resolves.toBe('0x10');
+      expect(send).toHaveBeenCalledWith('https://rpc.example', {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'eth_blockNumber',
+        params: [],
+      });
+    });
+
+    it('should match batch responses to calls by id', async () => {
+      const client = new JsonRpcClient<Methods>(
+        ['https://rpc.example'],
+        async (_url, body) => {
+          const [first, second] = body as JsonRpcRequest[];
+          return [answer(second, '0x2'), answer(first, '0x1')];
+        },
+        options,
+      );
+
+      await expect(
+        client.batch([
+          { method: 'eth_blockNumber', params: [] },
+          { method: 'eth_getBalance', params: ['0xabc', 'latest'] },
+        ]),
+      ).resolves.toEqual(['0x1', '0x2']);
+    });
+
+    it('should retry server errors with backoff, then fail over', async () => {
+      const send = jest.fn<Promise<unknown>, Parameters<JsonRpcSend>>(async (url, body) => {
+        if (url.startsWith('https://down.example')) {
+          throw httpError(503);
+        }
+        return answer(body as JsonRpcRequest, '0x1');
+      });
+      const client = new JsonRpcClient<Methods>(
+        ['https://down.example', 'https://up.example'],
+        send,
+        options,
+      );
+
+      await expect(client.call('eth_blockNumber', [])).resolves.toBe('0x1');
+      expect(send).toHaveBeenCalledTimes(4);
+      expect(delays).toEqual([500, 1000]);
+    });
+
+    it('should fail over at once on client errors and non JSON-RPC answers', async () => {
+      const send = jest.fn<Promise<unknown>, Parameters<JsonRpcSend>>(async (url, body) => {
+        if (url.includes('infura')) {
+          throw httpError(401);
+        }
+        if (url.includes('html')) {
+          return '<html>Bad gateway</html>';
+        }
+        return answer(body as JsonRpcRequest, '0x1');
+      });
+      const client = new JsonRpcClient<Methods>(
+        ['https://mainnet.infura.io/v3/secret', 'https://html.example', 'https://up.example'],
+        send,
+        options,
+      );
+
+      await expect(client.call('eth_blockNumber', [])).resolves.toBe('0x1');
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(delays).toEqual([]);
+    });
+
+    it('should report every endpoint without their API keys', async () => {
+      const client = new JsonRpcClient<Methods>(
+        ['https://mainnet.infura.io/v3/secret', 'https://eth-mainnet.g.alchemy.com/v2/secret'],
+        async () => {
+          throw httpError(403);
+        },
+        options,
+      );
+
+      const error = await client.call('eth_blockNumber', []).catch((e: Error) => e);
+      expect((error as Error).message).toBe(
+        'Every RPC endpoint failed (mainnet.infura.io: Request failed with status code 403; ' +
+          'eth-mainnet.g.alchemy.com: Request failed with status code 403)',
+      );
+    });
+
+    it('should return method errors without trying other endpoints', async () => {
+      const send = jest.fn<Promise<unknown>, Parameters<JsonRpcSend>>(async (_url, body) => ({
+        jsonrpc: '2.0',
+        id: (body as JsonRpcRequest).id,
+        error: { code: -32000, message: 'insufficient funds for gas', data: '0x' },
+      }));
+      const client = new JsonRpcClient<Methods>(
+        ['https://a.example', 'https://b.example'],
+        send,
+        options,
+      );
+
+      const error = await client.call('eth_getBalance', ['0xabc', 'latest']).catch((e) => e);
+      expect(error).toBeInstanceOf(JsonRpcError);
+      expect(error).toMatchObject({
+        code: -32000,
+        message: 'eth_getBalance failed: insufficient funds for gas',
+      });
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry rate limits and skip endpoints without the method', async () => {
+      let calls = 0;
+      const client = new JsonRpcClient<Methods>(
+        ['https://a.example', 'https://b.example'],
+        async (url, body) => {
+          const { id } = body as JsonRpcRequest;
+          calls++;
+          if (url === 'https://a.example') {
+            return calls === 1
+              ? { id, error: { code: -32005, message: 'limit exceeded' } }
+              : { id, error: { code: -32601, message: 'method not found' } };
+          }
+          return answer(body as JsonRpcRequest, '0x1');
+        },
+        options,
+      );
+
+      await expect(client.call('eth_blockNumber', [])).resolves.toBe('0x1');
+      expect(calls).toBe(3);
+      expect(delays).toEqual([500]);
+    });
+
+    it('should need an endpoint', () => {
+      expect(() => new JsonRpcClient<Methods>([], jest.fn())).toThrow(
+        'A JSON-RPC client needs at least one endpoint',
+      );
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { DEVICE_TIMEOUTS } from '../../nodes/KeepKey/constants/usbIds';
+import { DEVICE_EVENTS, MESSAGE_TYPES } from '../../nodes/KeepKey/constants/events';
+import { KeepKeyDeviceError } from '../../nodes/KeepKey/transport/errors';
+import { connectReplay, exchange } from '../helpers';
+
+const addressN = [2147483692, 2147483648, 2147483648, 0, 0];
+
+describe('KeepKeyClient', () => {
+  describe('callWithInteraction', () => {
+    it('should answer buttons, PIN and passphrase until the final payload', async () => {
+      const pin = jest.fn().mockResolvedValue('7415');
+      const passphrase = jest.fn().mockResolvedValue('correct horse');
+      const { client, transport } = await connectReplay(
+        [
+          exchange(
+            MESSAGE_TYPES.EthereumSignMessage,
+            { address_n: addressN, message: '68656c6c6f' },
+            MESSAGE_TYPES.ButtonRequest,
+            { code: 'ProtectCall' },
+          ),
+          exchange(MESSAGE_TYPES.ButtonAck, {}, MESSAGE_TYPES.PinMatrixRequest, {
+            type: 'PinMatrixRequestType_Current',
+          }),
+          exchange(MESSAGE_TYPES.PinMatrixAck, { pin: '7415' }, MESSAGE_TYPES.PassphraseRequest),
+          exchange(
+            MESSAGE_TYPES.PassphraseAck,
+            { passphrase: 'correct horse' },
+            MESSAGE_TYPES.ButtonRequest,
+            { code: 'SignTx' },
+          ),
+          exchange(MESSAGE_TYPES.ButtonAck, {}, MESSAGE_TYPES.EthereumMessageSignature, {
+            address: '0x73d0385f4d8e00c5e6504c6030f47bf6212736a8',
+            signature: 'abcd',
+          }),
+        ],
+        { providers: { pin, passphrase } },
+      );
+      const buttons: unknown[] = [];
+      client.on(DEVICE_EVENTS.BUTTON_REQUEST, (request) => buttons.push(request));
+
+      const signature = await client.ethereumSignMessage({
+        address_n: addressN,
+        message: '68656c6c6f',
+      });
+
+      expect(signature.signature).toBe('abcd');
+      expect(pin).toHaveBeenCalledWith({ type: 'PinMatrixRequestType_Current' });
+      expect(passphrase).toHaveBeenCalled();
+      expect(buttons).toEqual([{ code: 'ProtectCall' }, { code: 'SignTx' }]);
+      expect(transport.isComplete()).toBe(true);
+    });
+
+    it('should wait for button presses with the button timeout', async () => {
+      const { client, transport } = await connectReplay([
+        exchange(MESSAGE_TYPES.WipeDevice, {}, MESSAGE_TYPES.ButtonRequest, { code: 'WipeDevice' }),
+        exchange(MESSAGE_TYPES.ButtonAck, {}, MESSAGE_TYPES.Success),
+      ]);
+      const call = jest.spyOn(transport, 'call');
+
+      await client.wipeDevice();
+
+      expect(call).toHaveBeenNthCalledWith(
+        1,
+        MESSAGE_TYPES.WipeDevice,
+        {},
+        DEVICE_TIMEOUTS.OPERATION,
+      );
+      expect(call).toHaveBeenNthCalledWith(2, MESSAGE_TYPES.ButtonAck, {}, DEVICE_TIMEOUTS.BUTTON);
+    });
+
+    it('should cancel and fail when no PIN provider is configured', async () => {
+      const { client, transport } = await connectReplay([
+        exchange(
+          MESSAGE_TYPES.GetAddress,
+          { coin_name: 'Bitcoin', address_n: addressN },
+          MESSAGE_TYPES.PinMatrixRequest,
+          { type: 'PinMatrixRequestType_Current' },
+        ),
+        exchange(MESSAGE_TYPES.Cancel, {}, MESSAGE_TYPES.Failure, { code: 'ActionCancelled' }),
+      ]);
+
+      const error = await client.getAddress({ address_n: addressN }).catch((e) => e);
+      expect(error).toBeInstanceOf(KeepKeyDeviceError);
+      expect(error).toMatchObject({
+        code: 'PinExpected',
+        retryable: true,
+        message: 'Device requested a PIN but no PIN provider is configured',
+      });
+      expect(transport.isComplete()).toBe(true);
+    });
+
+    it('should cancel when a provider does not answer in time', async () => {
+      jest.useFakeTimers();
+      try {
+        const { client, transport } = await connectReplay(
+          [
+            exchange(
+              MESSAGE_TYPES.GetAddress,
+              { coin_name: 'Bitcoin', address_n: addressN },
+              MESSAGE_TYPES.PassphraseRequest,
+            ),
+            exchange(MESSAGE_TYPES.Cancel, {}, MESSAGE_TYPES.Failure, { code: 'ActionCancelled' }),
+          ],
+          { providers: { passphrase: () => new Promise<string>(() => undefined) } },
+        );
+
+        const result = client.getAddress({ address_n: addressN });
+        const assertion = expect(result).rejects.toThrow(
+          `Timed out after ${DEVICE_TIMEOUTS.PASSPHRASE_ENTRY}ms waiting for passphrase entry`,
+        );
+        await jest.advanceTimersByTimeAsync(DEVICE_TIMEOUTS.PASSPHRASE_ENTRY);
+        await assertion;
+        expect(transport.isComplete()).toBe(true);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should throw device failures', async () => {
+      const { client } = await connectReplay([
+        exchange(
+          MESSAGE_TYPES.GetAddress,
+          { coin_name: 'Bitcoin', address_n: addressN },
+          MESSAGE_TYPES.Failure,
+          { code: 'NotInitialized', message: 'Device not initialized' },
+        ),
+      ]);
+
+      await expect(client.getAddress({ address_n: addressN })).rejects.toThrow(
+        'Device not initialized',
+      );
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should lock the device unless the session is kept', async () => {
+      const locked = await connectReplay([
+        exchange(MESSAGE_TYPES.ClearSession, {}, MESSAGE_TYPES.Success),
+      ]);
+      await locked.client.disconnect();
+      expect(locked.transport.isComplete()).toBe(true);
+
+      const kept = await connectReplay([], { keepSession: true });
+      await kept.client.disconnect();
+      expect(kept.client.isConnected()).toBe(false);
+      expect(kept.transport.isComplete()).toBe(true);
+    });
+
+    it('should release the device when the session cannot be cleared', async () => {
+      // The recording ends before ClearSession, as when the device is unplugged
+      const { client, transport } = await connectReplay([]);
+      const release = jest.spyOn(transport, 'release');
+
+      await expect(client.disconnect()).rejects.toThrow('Failed to disconnect');
+      expect(release).toHaveBeenCalledTimes(1);
+      expect(client.isConnected()).toBe(false);
+    });
+  });
+
+  describe('verifyMessage', () => {
+    it('should report an invalid signature as false', async () => {
+      const params = { address: '1A1z', signature: 'abcd', message: '68656c6c6f' };
+      const { client } = await connectReplay([
+        exchange(
+          MESSAGE_TYPES.VerifyMessage,
+          { coin_name: 'Bitcoin', ...params },
+          MESSAGE_TYPES.Failure,
+          { code: 'InvalidSignature', message: 'Invalid signature' },
+        ),
+      ]);
+
+      await expect(client.verifyMessage(params)).resolves.toBe(false);
+    });
+  });
+
+  describe('recoverDevice', () => {
+    it('should hand word requests back to the caller without a word provider', async () => {
+      const recovery = {
+        word_count: 12,
+        passphrase_protection: false,
+        pin_protection: true,
+        label: '',
+        language: 'en-US',
+        enforce_wordlist: true,
+        type: 0,
+        dry_run: true,
+      };
+      const { client, transport } = await connectReplay([
+        exchange(MESSAGE_TYPES.RecoveryDevice, recovery, MESSAGE_TYPES.ButtonRequest, {
+          code: 'ProtectCall',
+        }),
+        exchange(MESSAGE_TYPES.ButtonAck, {}, MESSAGE_TYPES.WordRequest),
+        exchange(MESSAGE_TYPES.WordAck, { word: 'abandon' }, MESSAGE_TYPES.WordRequest),
+      ]);
+      const words = jest.fn();
+      client.on(DEVICE_EVENTS.WORD_REQUEST, words);
+
+      const pending = await client.recoverDevice({ word_count: 12, dry_run: true });
+      expect(pending.type).toBe(MESSAGE_TYPES.WordRequest);
+
+      const next = await client.sendWord('abandon');
+      expect(next.type).toBe(MESSAGE_TYPES.WordRequest);
+      expect(words).toHaveBeenCalledTimes(2);
+      expect(transport.isComplete()).toBe(true);
+    });
+  });
+});
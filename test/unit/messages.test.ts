@@ -0,0 +1,173 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { MESSAGE_TYPES } from '../../nodes/KeepKey/constants/events';
+import {
+  MESSAGE_SCHEMAS,
+  encodeMessage,
+  decodeMessage,
+  getMessageName,
+} from '../../nodes/KeepKey/transport/messages';
+import {
+  MessageSchema,
+  ProtobufObject,
+  decodeProtobuf,
+  encodeProtobuf,
+} from '../../nodes/KeepKey/transport/protobuf';
+
+/**
+ * Build a sample value for every field of a schema
+ */
+function sampleMessage(schema: MessageSchema, depth = 0): ProtobufObject {
+  const message: ProtobufObject = {};
+  for (const field of schema.fields) {
+    let value: unknown;
+    switch (field.type) {
+      case 'uint32':
+        value = field.id * 1000 + 7;
+        break;
+      case 'uint64':
+        value = 2 ** 40 + field.id;
+        break;
+      case 'bool':
+        value = true;
+        break;
+      case 'string':
+        value = `${field.name}-value`;
+        break;
+      case 'bytes':
+        value = 'deadbeef';
+        break;
+      case 'enum':
+        value = Object.keys(field.values ?? {})[1];
+        break;
+      case 'message':
+        if (depth > 2) {
+          // Repeated fields always decode to an array
+          if (field.repeated) {
+            message[field.name] = [];
+          }
+          continue;
+        }
+        value = sampleMessage(field.schema!, depth + 1);
+        break;
+    }
+    message[field.name] = field.repeated ? [value, value] : value;
+  }
+  return message;
+}
+
+describe('messages', () => {
+  describe('MESSAGE_SCHEMAS', () => {
+    it('should define a schema for every message type', () => {
+      for (const [name, type] of Object.entries(MESSAGE_TYPES)) {
+        expect(getMessageName(type)).toBe(name);
+      }
+    });
+
+    it.each(Object.entries(MESSAGE_TYPES))('should round-trip %s', (_name, type) => {
+      const message = sampleMessage(MESSAGE_SCHEMAS[type]);
+      expect(decodeMessage(type, encodeMessage(type, message))).toEqual(message);
+    });
+
+    it('should reject unknown message types', () => {
+      expect(() => encodeMessage(9999, {})).toThrow('Unknown message type: 9999');
+    });
+  });
+
+  describe('encodeMessage', () => {
+    it('should match the reference encoding of GetAddress', () => {
+      const payload = encodeMessage(MESSAGE_TYPES.GetAddress, {
+        address_n: [0x80000054, 0x80000000, 0x80000000, 0, 0],
+        coin_name: 'Bitcoin',
+        show_display: false,
+        script_type: 'SPENDWITNESS',
+      });
+      // address_n is unpacked (proto2), one tag per element
+      expect(payload.toString('hex')).toBe(
+        '08d48080800808808080800808808080800808000800' + '1207426974636f696e' + '18002803',
+      );
+    });
+
+    it('should encode an Initialize message as an empty payload', () => {
+      expect(encodeMessage(MESSAGE_TYPES.Initialize, {})).toHaveLength(0);
+    });
+
+    it('should accept 0x-prefixed hex and Buffers for bytes fields', () => {
+      const fromHex = encodeMessage(MESSAGE_TYPES.EthereumTxAck, { data_chunk: '0xa9059cbb' });
+      const fromBuffer = encodeMessage(MESSAGE_TYPES.EthereumTxAck, {
+        data_chunk: Buffer.from('a9059cbb', 'hex'),
+      });
+      expect(fromHex.toString('hex')).toBe('0a04a9059cbb');
+      expect(fromBuffer.equals(fromHex)).toBe(true);
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => encodeMessage(MESSAGE_TYPES.EthereumTxAck, { data_chunk: 'xyz' })).toThrow(
+        'Invalid EthereumTxAck.data_chunk',
+      );
+      expect(() => encodeMessage(MESSAGE_TYPES.GetAddress, { script_type: 'BOGUS' })).toThrow(
+        'Invalid GetAddress.script_type',
+      );
+      expect(() => encodeMessage(MESSAGE_TYPES.GetEntropy, { size: -1 })).toThrow(
+        'Invalid GetEntropy.size',
+      );
+    });
+
+    it('should preserve 64-bit integers beyond 2^53', () => {
+      const message = { account_number: '18446744073709551615', chain_id: 'cosmoshub-4' };
+      const decoded = decodeMessage(
+        MESSAGE_TYPES.CosmosSignTx,
+        encodeMessage(MESSAGE_TYPES.CosmosSignTx, message),
+      );
+      expect(decoded.account_number).toBe('18446744073709551615');
+    });
+  });
+
+  describe('decodeMessage', () => {
+    it('should decode a Failure with its code name', () => {
+      const payload = Buffer.from('0804120f416374696f6e2063616e63656c6564', 'hex');
+      expect(decodeMessage(MESSAGE_TYPES.Failure, payload)).toEqual({
+        code: 'ActionCancelled',
+        message: 'Action canceled',
+      });
+    });
+
+    it('should decode nested TxRequest details', () => {
+      const payload = encodeMessage(MESSAGE_TYPES.TxRequest, {
+        request_type: 'TXINPUT',
+        details: { request_index: 0 },
+      });
+      expect(decodeMessage(MESSAGE_TYPES.TxRequest, payload)).toEqual({
+        request_type: 'TXINPUT',
+        details: { request_index: 0 },
+      });
+    });
+
+    it('should skip unknown fields', () => {
+      // Address with an extra varint (field 7) and length-delimited field (field 8)
+      const payload = Buffer.from('3801' + '0a03313233' + '4202ffff', 'hex');
+      expect(decodeMessage(MESSAGE_TYPES.Address, payload)).toEqual({ address: '123' });
+    });
+
+    it('should accept packed repeated fields', () => {
+      const schema: MessageSchema = {
+        name: 'Packed',
+        fields: [{ id: 1, name: 'address_n', type: 'uint32', repeated: true }],
+      };
+      const payload = Buffer.from('0a0401028001', 'hex');
+      expect(decodeProtobuf(schema, payload)).toEqual({ address_n: [1, 2, 128] });
+      expect(encodeProtobuf(schema, { address_n: [] })).toHaveLength(0);
+    });
+
+    it('should reject truncated payloads', () => {
+      expect(() => decodeMessage(MESSAGE_TYPES.Address, Buffer.from('0a05313233', 'hex'))).toThrow(
+        'Truncated protobuf field',
+      );
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { MESSAGE_TYPES } from '../../nodes/KeepKey/constants/events';
+import { RecordedExchange } from '../../nodes/KeepKey/transport/replayTransport';
+import { signMultisigTransaction } from '../../nodes/KeepKey/signing/multisigSigner';
+import { base58CheckEncode } from '../../nodes/KeepKey/utils/encodingUtils';
+import {
+  parseBitcoinTransaction,
+  serializeBitcoinTransaction,
+} from '../../nodes/KeepKey/utils/transactionUtils';
+import { connectReplay, exchange } from '../helpers';
+
+const accountPath = [0x80000030, 0x80000000, 0x80000000, 0x80000002];
+const addressN = [...accountPath, 0, 3];
+const changeN = [...accountPath, 1, 0];
+const prevHash = 'cd'.repeat(32);
+
+/**
+ * A depth-4 account key with recognisable filler bytes
+ */
+function cosigner(fill: number): { xpub: string; node: Record<string, unknown> } {
+  const chainCode = Buffer.alloc(32, fill);
+  const publicKey = Buffer.concat([Buffer.from([0x02]), Buffer.alloc(32, fill)]);
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(0x0488b21e, 0);
+  header[4] = 4;
+  header.writeUInt32BE(0x11223344, 5);
+  header.writeUInt32BE(0x80000002, 9);
+  return {
+    xpub: base58CheckEncode(Buffer.concat([header, chainCode, publicKey])),
+    node: {
+      depth: 4,
+      fingerprint: 0x11223344,
+      child_num: 0x80000002,
+      chain_code: chainCode.toString('hex'),
+      public_key: publicKey.toString('hex'),
+    },
+  };
+}
+
+const cosigners = [cosigner(0xa1), cosigner(0xb2), cosigner(0xc3)];
+const xpubs = cosigners.map(({ xpub }) => xpub);
+const earlierSignature = `3044${'aa'.repeat(68)}`;
+const deviceSignature = `3044${'bb'.repeat(68)}`;
+
+const signedTx = serializeBitcoinTransaction({
+  version: 1,
+  inputs: [{ prevHash, prevIndex: 0, scriptSig: '', sequence: 0xffffffff }],
+  outputs: [
+    { amount: 40000, scriptPubKey: `0014${'11'.repeat(20)}` },
+    { amount: 50000, scriptPubKey: `0020${'22'.repeat(32)}` },
+  ],
+  lockTime: 0,
+});
+
+function getAccountKey(node: Record<string, unknown>): RecordedExchange {
+  return exchange(
+    MESSAGE_TYPES.GetPublicKey,
+    { address_n: accountPath, coin_name: 'Bitcoin' },
+    MESSAGE_TYPES.PublicKey,
+    { node, xpub: 'xpub' },
+  );
+}
+
+function deviceMultisig(path: number[], signatures: string[]): Record<string, unknown> {
+  return {
+    pubkeys: cosigners.map(({ node }) => ({ node, address_n: path })),
+    signatures,
+    m: 2,
+  };
+}
+
+const request = {
+  coinName: 'Bitcoin',
+  m: 2,
+  xpubs,
+  scriptType: 'SPENDWITNESS',
+  inputs: [
+    { txid: prevHash, vout: 0, value: 100000, addressN, signatures: [earlierSignature, '', ''] },
+  ],
+  outputs: [
+    { address: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq', value: 40000 },
+    { addressN: changeN, value: 50000 },
+  ],
+  prevTxs: {},
+};
+
+describe('signMultisigTransaction', () => {
+  it('should send the multisig scripts and add its signature to the earlier ones', async () => {
+    const { client, transport } = await connectReplay([
+      getAccountKey(cosigners[1].node),
+      exchange(
+        MESSAGE_TYPES.SignTx,
+        { outputs_count: 2, inputs_count: 1, coin_name: 'Bitcoin', version: 1, lock_time: 0 },
+        MESSAGE_TYPES.TxRequest,
+        { request_type: 'TXINPUT', details: { request_index: 0 } },
+      ),
+      exchange(
+        MESSAGE_TYPES.TxAck,
+        {
+          tx: {
+            inputs: [
+              {
+                address_n: addressN,
+                prev_hash: prevHash,
+                prev_index: 0,
+                amount: 100000,
+                script_type: 'SPENDWITNESS',
+                sequence: 0xffffffff,
+                multisig: deviceMultisig([0, 3], [earlierSignature, '', '']),
+              },
+            ],
+          },
+        },
+        MESSAGE_TYPES.TxRequest,
+        { request_type: 'TXOUTPUT', details: { request_index: 1 } },
+      ),
+      exchange(
+        MESSAGE_TYPES.TxAck,
+        {
+          tx: {
+            outputs: [
+              {
+                address_n: changeN,
+                amount: 50000,
+                script_type: 'PAYTOWITNESS',
+                address_type: 'CHANGE',
+                multisig: deviceMultisig([1, 0], ['', '', '']),
+              },
+            ],
+          },
+        },
+        MESSAGE_TYPES.TxRequest,
+        {
+          request_type: 'TXFINISHED',
+          serialized: { signature_index: 0, signature: deviceSignature, serialized_tx: signedTx },
+        },
+      ),
+    ]);
+
+    const signed = await signMultisigTransaction(client, request);
+
+    expect(signed.cosignerIndex).toBe(1);
+    expect(signed.multisigSignatures).toEqual([[earlierSignature, deviceSignature, '']]);
+    expect(signed.complete).toBe(true);
+    expect(signed.txid).toBe(parseBitcoinTransaction(signedTx).txid);
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should refuse to sign when the device is not a cosigner', async () => {
+    const { client, transport } = await connectReplay([getAccountKey(cosigner(0xd4).node)]);
+
+    await expect(signMultisigTransaction(client, request)).rejects.toThrow(
+      "This device's key at m/48'/0'/0'/2' is not one of the cosigners",
+    );
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should refuse change outside the multisig account', async () => {
+    const { client } = await connectReplay([getAccountKey(cosigners[1].node)]);
+    const outputs = [{ addressN: [0x80000054, 0x80000000, 0x80000000, 1, 0], value: 50000 }];
+
+    await expect(signMultisigTransaction(client, { ...request, outputs })).rejects.toThrow(
+      "Change output 0 is not below the multisig account m/48'/0'/0'/2'",
+    );
+  });
+
+  it('should validate the threshold and the signature slots', async () => {
+    const { client } = await connectReplay([]);
+
+    await expect(signMultisigTransaction(client, { ...request, m: 4 })).rejects.toThrow(
+      'Threshold must be between 1 and 3, got 4',
+    );
+    await expect(
+      signMultisigTransaction(client, {
+        ...request,
+        inputs: [{ ...request.inputs[0], signatures: [earlierSignature] }],
+      }),
+    ).rejects.toThrow(`Input ${prevHash}:0 must list one signature per cosigner`);
+  });
+});
@@ -0,0 +1,107 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  getNextNonce,
+  getNonceKey,
+  getReplacementFees,
+  getTransactionStatus,
+  NONCE_RESERVATION_TTL,
+  pruneTrackedNonces,
+  reserveNonce,
+  TrackedNonce,
+} from '../../nodes/KeepKey/utils/nonceUtils';
+
+const now = 1700000000000;
+const gwei = (value: number): string => (BigInt(value) * BigInt(1000000000)).toString();
+
+describe('nonceUtils', () => {
+  describe('nonce manager', () => {
+    const tracked: TrackedNonce[] = [
+      { nonce: 4, hash: '0x04', reservedAt: now - 60000 },
+      { nonce: 5, hash: '0x05', reservedAt: now - 60000 },
+      { nonce: 6, reservedAt: now - 1000 },
+    ];
+
+    it('should skip nonces taken by transactions the chain has not seen', () => {
+      expect(getNextNonce(tracked, { latest: 4, pending: 5 })).toBe(7);
+      expect(getNextNonce([], { latest: 4, pending: 5 })).toBe(5);
+    });
+
+    it('should hand out each nonce once', () => {
+      const first = reserveNonce(tracked, { latest: 4, pending: 5 }, now);
+      const second = reserveNonce(first.tracked, { latest: 4, pending: 5 }, now);
+
+      expect([first.nonce, second.nonce]).toEqual([7, 8]);
+      expect(second.tracked.map(({ nonce }) => nonce)).toEqual([4, 5, 6, 7, 8]);
+    });
+
+    it('should release mined nonces and reservations that never reached the chain', () => {
+      const later = now + NONCE_RESERVATION_TTL;
+      expect(pruneTrackedNonces(tracked, { latest: 5, pending: 6 }, now)).toEqual(tracked.slice(1));
+      // Nonce 5 has reached the mempool and stays; 6 has expired
+      expect(pruneTrackedNonces(tracked, { latest: 5, pending: 6 }, later)).toEqual([tracked[1]]);
+      expect(reserveNonce(tracked, { latest: 5, pending: 6 }, later).nonce).toBe(6);
+    });
+
+    it('should key accounts by chain and address', () => {
+      expect(getNonceKey(137, '0xAbC0000000000000000000000000000000000001')).toBe(
+        '137:0xabc0000000000000000000000000000000000001',
+      );
+    });
+  });
+
+  describe('getReplacementFees', () => {
+    const original = { maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(2) };
+
+    it('should keep requested fees above the minimum bump', () => {
+      expect(
+        getReplacementFees(original, { maxFeePerGas: gwei(50), maxPriorityFeePerGas: gwei(3) }),
+      ).toEqual({ maxFeePerGas: gwei(50), maxPriorityFeePerGas: gwei(3) });
+    });
+
+    it('should raise fees to 10% above the original', () => {
+      expect(
+        getReplacementFees(original, { maxFeePerGas: gwei(20), maxPriorityFeePerGas: gwei(1) }),
+      ).toEqual({ maxFeePerGas: gwei(33), maxPriorityFeePerGas: '2200000000' });
+      expect(getReplacementFees({ gasPrice: '101' }, { gasPrice: '1' })).toEqual({
+        gasPrice: '112',
+      });
+    });
+
+    it('should raise a legacy gas price above the original fee cap', () => {
+      expect(getReplacementFees(original, { gasPrice: gwei(25) })).toEqual({ gasPrice: gwei(33) });
+    });
+  });
+
+  describe('getTransactionStatus', () => {
+    const transaction = { nonce: 7, fees: { maxFeePerGas: gwei(20) } };
+
+    it('should report mined transactions from their receipt', () => {
+      expect(getTransactionStatus({ receiptStatus: 1 })).toEqual({ status: 'confirmed' });
+      expect(getTransactionStatus({ receiptStatus: 0 }).status).toBe('failed');
+      expect(getTransactionStatus({}).status).toBe('notFound');
+    });
+
+    it('should tell why a pending transaction is waiting', () => {
+      expect(
+        getTransactionStatus({ transaction, latestNonce: 7, baseFeePerGas: gwei(15) }),
+      ).toEqual({ status: 'pending' });
+      expect(
+        getTransactionStatus({ transaction, latestNonce: 7, baseFeePerGas: gwei(25) }),
+      ).toEqual({
+        status: 'stuck',
+        reason: 'The fee cap of 20000000000 wei is below the base fee of 25000000000 wei',
+      });
+      expect(getTransactionStatus({ transaction, latestNonce: 5 })).toEqual({
+        status: 'queued',
+        reason: 'Waiting for nonce 5 to be mined',
+      });
+      expect(getTransactionStatus({ transaction, latestNonce: 8 }).status).toBe('replaced');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  resolveCoin,
+  toAddressType,
+  toInputScriptType,
+  getDeviceCoinName,
+  getCoinAddressType,
+  replaceChange,
+  toAccountPath,
+} from '../../nodes/KeepKey/operations/common';
+
+describe('operations', () => {
+  describe('resolveCoin', () => {
+    it('should resolve node parameter values', () => {
+      expect(resolveCoin('bitcoin')).toEqual({ family: 'bitcoin', symbol: 'BTC' });
+      expect(resolveCoin('polygon')).toEqual({ family: 'ethereum', symbol: 'MATIC' });
+      expect(resolveCoin('thorchain')).toEqual({ family: 'cosmos', symbol: 'RUNE' });
+    });
+
+    it('should resolve coin symbols', () => {
+      expect(resolveCoin('LTC')).toEqual({ family: 'bitcoin', symbol: 'LTC' });
+      expect(resolveCoin('eth')).toEqual({ family: 'ethereum', symbol: 'ETH' });
+      expect(resolveCoin('OSMO')).toEqual({ family: 'cosmos', symbol: 'OSMO' });
+    });
+
+    it('should return null for unknown coins', () => {
+      expect(resolveCoin('unknown')).toBeNull();
+    });
+  });
+
+  describe('toAddressType', () => {
+    it('should map node address types', () => {
+      expect(toAddressType('segwit')).toBe('nativeSegwit');
+      expect(toAddressType('nested-segwit')).toBe('segwit');
+      expect(toAddressType('legacy')).toBe('legacy');
+      expect(toAddressType(undefined)).toBe('nativeSegwit');
+    });
+  });
+
+  describe('toInputScriptType', () => {
+    it('should map address types to script types', () => {
+      expect(toInputScriptType('legacy')).toBe('SPENDADDRESS');
+      expect(toInputScriptType('segwit')).toBe('SPENDP2SHWITNESS');
+      expect(toInputScriptType('nativeSegwit')).toBe('SPENDWITNESS');
+    });
+  });
+
+  describe('getDeviceCoinName', () => {
+    it('should return the device coin name', () => {
+      expect(getDeviceCoinName('BTC')).toBe('Bitcoin');
+      expect(getDeviceCoinName('BCH')).toBe('BitcoinCash');
+    });
+  });
+
+  describe('getCoinAddressType', () => {
+    it('should fall back to legacy for non-SegWit coins', () => {
+      expect(getCoinAddressType('DOGE', 'nativeSegwit')).toBe('legacy');
+      expect(getCoinAddressType('BTC', 'nativeSegwit')).toBe('nativeSegwit');
+    });
+  });
+
+  describe('path helpers', () => {
+    it('should replace the change level', () => {
+      expect(replaceChange("m/84'/0'/0'/0/5", 1)).toBe("m/84'/0'/0'/1/5");
+    });
+
+    it('should strip to the account path', () => {
+      expect(toAccountPath("m/84'/0'/0'/0/5")).toBe("m/84'/0'/0'");
+    });
+  });
+});
@@ -0,0 +1,355 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import * as crypto from 'crypto';
+
+import { BITCOIN_LIKE_COINS } from '../../nodes/KeepKey/constants/coins';
+import { MESSAGE_TYPES } from '../../nodes/KeepKey/constants/events';
+import { RecordedExchange } from '../../nodes/KeepKey/transport/replayTransport';
+import { signPsbt } from '../../nodes/KeepKey/signing/psbtSigner';
+import {
+  decodePsbt,
+  encodePsbt,
+  getPsbtEntries,
+  PSBT_GLOBAL,
+  PSBT_IN,
+  type PsbtMap,
+} from '../../nodes/KeepKey/utils/psbtUtils';
+import {
+  encodeVarInt,
+  parseBitcoinTransaction,
+  serializeBitcoinTransaction,
+} from '../../nodes/KeepKey/utils/transactionUtils';
+import { connectReplay, exchange } from '../helpers';
+
+const addressN = [0x80000054, 0x80000000, 0x80000000, 0, 0];
+const fingerprint = 0x73c5da0a;
+
+const pubkey = Buffer.from(
+  '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+  'hex',
+);
+const spentScript = '0014751e76e8199196d454941c45d1b3a323f1433bd6';
+const prevHash = 'ab'.repeat(32);
+const destination = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+const signature = `30440220${'11'.repeat(32)}0220${'22'.repeat(32)}`;
+
+const unsignedTx = {
+  version: 2,
+  inputs: [{ prevHash, prevIndex: 1, scriptSig: '', sequence: 0xfffffffd }],
+  outputs: [{ amount: 90000, scriptPubKey: '0014e8df018c7e326cc253faac7e46cdc51e68542c42' }],
+  lockTime: 0,
+};
+const signedTx = serializeBitcoinTransaction(unsignedTx, [
+  [`${signature}01`, pubkey.toString('hex')],
+]);
+
+function buildPsbt(): string {
+  const utxoScript = Buffer.from(spentScript, 'hex');
+  const utxo = Buffer.concat([
+    Buffer.from('a086010000000000', 'hex'),
+    encodeVarInt(utxoScript.length),
+    utxoScript,
+  ]);
+  const keyOrigin = Buffer.alloc(24);
+  keyOrigin.writeUInt32BE(fingerprint, 0);
+  addressN.forEach((step, i) => keyOrigin.writeUInt32LE(step, 4 + i * 4));
+
+  return encodePsbt({
+    global: [
+      {
+        key: Buffer.from([PSBT_GLOBAL.UNSIGNED_TX]),
+        value: Buffer.from(serializeBitcoinTransaction(unsignedTx), 'hex'),
+      },
+    ],
+    inputs: [
+      [
+        { key: Buffer.from([PSBT_IN.WITNESS_UTXO]), value: utxo },
+        {
+          key: Buffer.concat([Buffer.from([PSBT_IN.BIP32_DERIVATION]), pubkey]),
+          value: keyOrigin,
+        },
+      ],
+    ],
+    outputs: [[]],
+    tx: parseBitcoinTransaction(serializeBitcoinTransaction(unsignedTx)),
+  }).toString('base64');
+}
+
+// 2-of-2 P2WSH with a cosigner (2G) ahead of this device's key in the script
+const cosignerPubkey = Buffer.from(
+  '02c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5',
+  'hex',
+);
+const cosignerSignature = `30440220${'33'.repeat(32)}0220${'44'.repeat(32)}`;
+const witnessScript = Buffer.concat([
+  Buffer.from([0x52, 0x21]),
+  cosignerPubkey,
+  Buffer.from([0x21]),
+  pubkey,
+  Buffer.from([0x52, 0xae]),
+]);
+const multisigScript = `0020${crypto.createHash('sha256').update(witnessScript).digest('hex')}`;
+const multisigWitness = [
+  '',
+  `${cosignerSignature}01`,
+  `${signature}01`,
+  witnessScript.toString('hex'),
+];
+
+function keyOrigin(value: number, path: number[]): Buffer {
+  const origin = Buffer.alloc(4 + path.length * 4);
+  origin.writeUInt32BE(value, 0);
+  path.forEach((step, i) => origin.writeUInt32LE(step, 4 + i * 4));
+  return origin;
+}
+
+function buildMultisigPsbt(input: PsbtMap = []): string {
+  const utxoScript = Buffer.from(multisigScript, 'hex');
+  const utxo = Buffer.concat([
+    Buffer.from('a086010000000000', 'hex'),
+    encodeVarInt(utxoScript.length),
+    utxoScript,
+  ]);
+  return encodePsbt({
+    global: [
+      {
+        key: Buffer.from([PSBT_GLOBAL.UNSIGNED_TX]),
+        value: Buffer.from(serializeBitcoinTransaction(unsignedTx), 'hex'),
+      },
+    ],
+    inputs: [
+      [
+        { key: Buffer.from([PSBT_IN.WITNESS_UTXO]), value: utxo },
+        { key: Buffer.from([PSBT_IN.WITNESS_SCRIPT]), value: witnessScript },
+        {
+          key: Buffer.concat([Buffer.from([PSBT_IN.BIP32_DERIVATION]), cosignerPubkey]),
+          value: keyOrigin(0xdeadbeef, [0x80000030, 0x80000000, 0x80000000, 0x80000002, 0, 0]),
+        },
+        {
+          key: Buffer.concat([Buffer.from([PSBT_IN.BIP32_DERIVATION]), pubkey]),
+          value: keyOrigin(fingerprint, addressN),
+        },
+        ...input,
+      ],
+    ],
+    outputs: [[]],
+    tx: parseBitcoinTransaction(serializeBitcoinTransaction(unsignedTx)),
+  }).toString('base64');
+}
+
+function getFingerprint(value: number): RecordedExchange {
+  return exchange(
+    MESSAGE_TYPES.GetPublicKey,
+    { address_n: [0x80000054], coin_name: 'Bitcoin' },
+    MESSAGE_TYPES.PublicKey,
+    { node: { depth: 1, fingerprint: value, child_num: 0x80000054 }, xpub: 'xpub' },
+  );
+}
+
+const signingFlow = [
+  getFingerprint(fingerprint),
+  exchange(
+    MESSAGE_TYPES.SignTx,
+    { outputs_count: 1, inputs_count: 1, coin_name: 'Bitcoin', version: 2, lock_time: 0 },
+    MESSAGE_TYPES.TxRequest,
+    { request_type: 'TXINPUT', details: { request_index: 0 } },
+  ),
+  exchange(
+    MESSAGE_TYPES.TxAck,
+    {
+      tx: {
+        inputs: [
+          {
+            address_n: addressN,
+            prev_hash: prevHash,
+            prev_index: 1,
+            amount: 100000,
+            script_type: 'SPENDWITNESS',
+            sequence: 0xfffffffd,
+          },
+        ],
+      },
+    },
+    MESSAGE_TYPES.TxRequest,
+    { request_type: 'TXOUTPUT', details: { request_index: 0 } },
+  ),
+  exchange(
+    MESSAGE_TYPES.TxAck,
+    {
+      tx: {
+        outputs: [
+          {
+            address: destination,
+            amount: 90000,
+            script_type: 'PAYTOADDRESS',
+            address_type: 'SPEND',
+          },
+        ],
+      },
+    },
+    MESSAGE_TYPES.TxRequest,
+    {
+      request_type: 'TXFINISHED',
+      serialized: { signature_index: 0, signature, serialized_tx: signedTx },
+    },
+  ),
+];
+
+function bareKey(key: Buffer): Record<string, unknown> {
+  return {
+    node: {
+      depth: 0,
+      fingerprint: 0,
+      child_num: 0,
+      chain_code: '00'.repeat(32),
+      public_key: key.toString('hex'),
+    },
+    address_n: [],
+  };
+}
+
+// Signing flow in which the device is handed the cosigner signature collected so far
+function multisigFlow(collected: string): RecordedExchange[] {
+  return [
+    exchange(
+      MESSAGE_TYPES.GetPublicKey,
+      { address_n: [0x80000030], coin_name: 'Bitcoin' },
+      MESSAGE_TYPES.PublicKey,
+      { node: { depth: 1, fingerprint, child_num: 0x80000030 }, xpub: 'xpub' },
+    ),
+    signingFlow[1],
+    exchange(
+      MESSAGE_TYPES.TxAck,
+      {
+        tx: {
+          inputs: [
+            {
+              address_n: addressN,
+              prev_hash: prevHash,
+              prev_index: 1,
+              amount: 100000,
+              script_type: 'SPENDWITNESS',
+              sequence: 0xfffffffd,
+              multisig: {
+                pubkeys: [bareKey(cosignerPubkey), bareKey(pubkey)],
+                signatures: [collected, ''],
+                m: 2,
+              },
+            },
+          ],
+        },
+      },
+      MESSAGE_TYPES.TxRequest,
+      { request_type: 'TXOUTPUT', details: { request_index: 0 } },
+    ),
+    exchange(signingFlow[3].request.type, signingFlow[3].request.message, MESSAGE_TYPES.TxRequest, {
+      request_type: 'TXFINISHED',
+      serialized: {
+        signature_index: 0,
+        signature,
+        serialized_tx: serializeBitcoinTransaction(unsignedTx, [multisigWitness]),
+      },
+    }),
+  ];
+}
+
+describe('signPsbt', () => {
+  it('should sign, finalize and extract a P2WPKH spend', async () => {
+    const { client, transport } = await connectReplay(signingFlow);
+
+    const signed = await signPsbt(client, {
+      coin: BITCOIN_LIKE_COINS.BTC,
+      coinName: 'Bitcoin',
+      psbt: decodePsbt(buildPsbt()),
+      finalize: true,
+    });
+
+    expect(signed.signedTx).toBe(signedTx);
+    expect(signed.txid).toBe(parseBitcoinTransaction(signedTx).txid);
+    expect(getPsbtEntries(decodePsbt(signed.psbt).inputs[0], PSBT_IN.PARTIAL_SIG)).toHaveLength(0);
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should merge the partial signature when not finalizing', async () => {
+    const { client } = await connectReplay(signingFlow);
+
+    const signed = await signPsbt(client, {
+      coin: BITCOIN_LIKE_COINS.BTC,
+      coinName: 'Bitcoin',
+      psbt: decodePsbt(buildPsbt()),
+    });
+
+    const [partialSig] = getPsbtEntries(decodePsbt(signed.psbt).inputs[0], PSBT_IN.PARTIAL_SIG);
+    expect(partialSig.key.subarray(1).equals(pubkey)).toBe(true);
+    expect(partialSig.value.toString('hex')).toBe(`${signature}01`);
+    expect(signed.signedTx).toBeUndefined();
+  });
+
+  it('should refuse inputs whose keys belong to another device', async () => {
+    const { client, transport } = await connectReplay([getFingerprint(0xdeadbeef)]);
+
+    await expect(
+      signPsbt(client, {
+        coin: BITCOIN_LIKE_COINS.BTC,
+        coinName: 'Bitcoin',
+        psbt: decodePsbt(buildPsbt()),
+      }),
+    ).rejects.toThrow('PSBT input 0 has no key from this device (deadbeef)');
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  describe('multisig', () => {
+    const cosignerPartialSig = {
+      key: Buffer.concat([Buffer.from([PSBT_IN.PARTIAL_SIG]), cosignerPubkey]),
+      value: Buffer.from(`${cosignerSignature}01`, 'hex'),
+    };
+
+    it('should add its signature next to the cosigner signatures', async () => {
+      const { client, transport } = await connectReplay(multisigFlow(cosignerSignature));
+
+      const signed = await signPsbt(client, {
+        coin: BITCOIN_LIKE_COINS.BTC,
+        coinName: 'Bitcoin',
+        psbt: decodePsbt(buildMultisigPsbt([cosignerPartialSig])),
+      });
+
+      const partialSigs = getPsbtEntries(decodePsbt(signed.psbt).inputs[0], PSBT_IN.PARTIAL_SIG);
+      expect(partialSigs.map((entry) => entry.value.toString('hex'))).toEqual([
+        `${cosignerSignature}01`,
+        `${signature}01`,
+      ]);
+      expect(transport.isComplete()).toBe(true);
+    });
+
+    it('should finalize once the threshold is met', async () => {
+      const { client } = await connectReplay(multisigFlow(cosignerSignature));
+
+      const signed = await signPsbt(client, {
+        coin: BITCOIN_LIKE_COINS.BTC,
+        coinName: 'Bitcoin',
+        psbt: decodePsbt(buildMultisigPsbt([cosignerPartialSig])),
+        finalize: true,
+      });
+
+      expect(signed.signedTx).toBe(serializeBitcoinTransaction(unsignedTx, [multisigWitness]));
+    });
+
+    it('should not finalize without the other signatures', async () => {
+      const { client } = await connectReplay(multisigFlow(''));
+
+      await expect(
+        signPsbt(client, {
+          coin: BITCOIN_LIKE_COINS.BTC,
+          coinName: 'Bitcoin',
+          psbt: decodePsbt(buildMultisigPsbt()),
+          finalize: true,
+        }),
+      ).rejects.toThrow('PSBT input 0 needs 2 signatures to finalize, has 1');
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  decodePsbt,
+  encodePsbt,
+  extractPsbtTransaction,
+  finalizePsbtInput,
+  getBip32Derivations,
+  getPsbtField,
+  getPsbtInputUtxo,
+  parseMultisigScript,
+  PSBT_GLOBAL,
+  PSBT_IN,
+  setPsbtEntry,
+  type Psbt,
+} from '../../nodes/KeepKey/utils/psbtUtils';
+import { hash160 } from '../../nodes/KeepKey/utils/hashUtils';
+import {
+  encodeVarInt,
+  parseBitcoinTransaction,
+  serializeBitcoinTransaction,
+} from '../../nodes/KeepKey/utils/transactionUtils';
+
+// Generator point as a compressed public key, with its P2WPKH script
+const pubkey = Buffer.from(
+  '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+  'hex',
+);
+const spentScript = '0014751e76e8199196d454941c45d1b3a323f1433bd6';
+const prevHash = 'ab'.repeat(32);
+const path = [0x80000054, 0x80000000, 0x80000000, 0, 0];
+
+const unsignedTx = {
+  version: 2,
+  inputs: [{ prevHash, prevIndex: 1, scriptSig: '', sequence: 0xfffffffd }],
+  outputs: [{ amount: 90000, scriptPubKey: '0014e8df018c7e326cc253faac7e46cdc51e68542c42' }],
+  lockTime: 0,
+};
+
+function witnessUtxo(amount: number, script: string): Buffer {
+  const value = Buffer.alloc(8);
+  value.writeUInt32LE(amount);
+  const scriptBytes = Buffer.from(script, 'hex');
+  return Buffer.concat([value, encodeVarInt(scriptBytes.length), scriptBytes]);
+}
+
+function derivation(fingerprint: string, steps: number[]): Buffer {
+  const value = Buffer.alloc(4 + steps.length * 4);
+  value.write(fingerprint, 'hex');
+  steps.forEach((step, i) => value.writeUInt32LE(step, 4 + i * 4));
+  return value;
+}
+
+function buildPsbt(): Buffer {
+  return encodePsbt({
+    global: [
+      {
+        key: Buffer.from([PSBT_GLOBAL.UNSIGNED_TX]),
+        value: Buffer.from(serializeBitcoinTransaction(unsignedTx), 'hex'),
+      },
+    ],
+    inputs: [
+      [
+        { key: Buffer.from([PSBT_IN.WITNESS_UTXO]), value: witnessUtxo(100000, spentScript) },
+        {
+          key: Buffer.concat([Buffer.from([PSBT_IN.BIP32_DERIVATION]), pubkey]),
+          value: derivation('73c5da0a', path),
+        },
+      ],
+    ],
+    outputs: [[]],
+    tx: parseBitcoinTransaction(serializeBitcoinTransaction(unsignedTx)),
+  });
+}
+
+describe('psbtUtils', () => {
+  describe('decodePsbt', () => {
+    it('should decode base64 and hex to the same PSBT and encode it back', () => {
+      const encoded = buildPsbt();
+      const fromBase64 = decodePsbt(encoded.toString('base64'));
+      const fromHex = decodePsbt(encoded.toString('hex'));
+
+      expect(fromBase64.tx.inputs[0]).toEqual(unsignedTx.inputs[0]);
+      expect(fromBase64.tx.outputs).toEqual(unsignedTx.outputs);
+      expect(encodePsbt(fromBase64).equals(encoded)).toBe(true);
+      expect(encodePsbt(fromHex).equals(encoded)).toBe(true);
+    });
+
+    it('should reject data without the magic bytes', () => {
+      expect(() => decodePsbt('00112233')).toThrow('Not a PSBT: missing magic bytes');
+    });
+
+    it('should reject a truncated PSBT', () => {
+      const encoded = buildPsbt();
+      expect(() => decodePsbt(encoded.subarray(0, -3).toString('hex'))).toThrow(
+        'PSBT is truncated',
+      );
+    });
+
+    it('should reject trailing data', () => {
+      const encoded = Buffer.concat([buildPsbt(), Buffer.from([0x00])]);
+      expect(() => decodePsbt(encoded.toString('hex'))).toThrow('PSBT has trailing data');
+    });
+
+    it('should reject a previous transaction that does not match the outpoint', () => {
+      const psbt = decodePsbt(buildPsbt().toString('hex'));
+      setPsbtEntry(
+        psbt.inputs[0],
+        Buffer.from([PSBT_IN.NON_WITNESS_UTXO]),
+        Buffer.from(serializeBitcoinTransaction(unsignedTx), 'hex'),
+      );
+      expect(() => decodePsbt(encodePsbt(psbt).toString('hex'))).toThrow(
+        'PSBT input 0 previous transaction does not match its outpoint',
+      );
+    });
+  });
+
+  describe('fields', () => {
+    it('should read BIP32 derivations and the spent output', () => {
+      const psbt = decodePsbt(buildPsbt().toString('base64'));
+      const [entry] = getBip32Derivations(psbt.inputs[0], PSBT_IN.BIP32_DERIVATION);
+
+      expect(entry.pubkey.equals(pubkey)).toBe(true);
+      expect(entry.fingerprint.toString('hex')).toBe('73c5da0a');
+      expect(entry.path).toEqual(path);
+      expect(getPsbtInputUtxo(psbt, 0)).toEqual({ amount: 100000, scriptPubKey: spentScript });
+    });
+  });
+
+  describe('finalizePsbtInput', () => {
+    const signature = Buffer.from(`3006020101020101${'01'}`, 'hex');
+
+    function signedPsbt(): Psbt {
+      const psbt = decodePsbt(buildPsbt().toString('base64'));
+      setPsbtEntry(
+        psbt.inputs[0],
+        Buffer.concat([Buffer.from([PSBT_IN.PARTIAL_SIG]), pubkey]),
+        signature,
+      );
+      return psbt;
+    }
+
+    it('should build the P2WPKH witness and drop the signing fields', () => {
+      const psbt = signedPsbt();
+
+      expect(finalizePsbtInput(psbt, 0)).toBe(true);
+      expect(getPsbtField(psbt.inputs[0], PSBT_IN.WITNESS_UTXO)).toBeDefined();
+      expect(getBip32Derivations(psbt.inputs[0], PSBT_IN.BIP32_DERIVATION)).toHaveLength(0);
+      expect(getPsbtField(psbt.inputs[0], PSBT_IN.FINAL_SCRIPTWITNESS)?.toString('hex')).toBe(
+        `02${'09'}${signature.toString('hex')}21${pubkey.toString('hex')}`,
+      );
+      expect(finalizePsbtInput(psbt, 0)).toBe(false);
+    });
+
+    it('should extract a transaction with the unsigned txid', () => {
+      const psbt = signedPsbt();
+      finalizePsbtInput(psbt, 0);
+
+      const extracted = extractPsbtTransaction(psbt);
+      expect(extracted).toBe(
+        serializeBitcoinTransaction(unsignedTx, [
+          [signature.toString('hex'), pubkey.toString('hex')],
+        ]),
+      );
+      expect(parseBitcoinTransaction(extracted).txid).toBe(psbt.tx.txid);
+    });
+
+    it('should refuse to finalize without a signature', () => {
+      const psbt = decodePsbt(buildPsbt().toString('base64'));
+      expect(() => finalizePsbtInput(psbt, 0)).toThrow(
+        'PSBT input 0 needs its UTXO and exactly one signature to finalize',
+      );
+      expect(() => extractPsbtTransaction(psbt)).toThrow('PSBT input 0 is not finalized');
+    });
+
+    it('should put P2SH multisig signatures in key order ahead of the redeem script', () => {
+      const otherKey = Buffer.from(`03${'5c'.repeat(32)}`, 'hex');
+      const unsignedKey = Buffer.from(`02${'7d'.repeat(32)}`, 'hex');
+      const redeemScript = Buffer.from(
+        `5221${otherKey.toString('hex')}21${pubkey.toString('hex')}21${unsignedKey.toString('hex')}53ae`,
+        'hex',
+      );
+      expect(parseMultisigScript(redeemScript)).toEqual({
+        m: 2,
+        pubkeys: [otherKey, pubkey, unsignedKey],
+      });
+
+      const psbt = decodePsbt(buildPsbt().toString('base64'));
+      const p2sh = `a914${hash160(redeemScript).toString('hex')}87`;
+      setPsbtEntry(psbt.inputs[0], Buffer.from([PSBT_IN.WITNESS_UTXO]), witnessUtxo(100000, p2sh));
+      setPsbtEntry(psbt.inputs[0], Buffer.from([PSBT_IN.REDEEM_SCRIPT]), redeemScript);
+      // Each signature ends in the first byte of its key, so the order shows in the scriptSig
+      for (const key of [pubkey, otherKey]) {
+        setPsbtEntry(
+          psbt.inputs[0],
+          Buffer.concat([Buffer.from([PSBT_IN.PARTIAL_SIG]), key]),
+          Buffer.concat([signature, key.subarray(1, 2)]),
+        );
+      }
+
+      expect(finalizePsbtInput(psbt, 0)).toBe(true);
+      expect(getPsbtField(psbt.inputs[0], PSBT_IN.FINAL_SCRIPTSIG)?.toString('hex')).toBe(
+        `00` +
+          `0a${signature.toString('hex')}5c` +
+          `0a${signature.toString('hex')}79` +
+          `4c69${redeemScript.toString('hex')}`,
+      );
+      expect(getPsbtField(psbt.inputs[0], PSBT_IN.FINAL_SCRIPTWITNESS)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import * as zlib from 'zlib';
+
+import {
+  encodeQrCode,
+  renderQrPng,
+  renderQrSvg,
+  renderQrText,
+  type QrCode,
+} from '../../nodes/KeepKey/utils/qrCodeUtils';
+
+const uri = 'bitcoin:1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2?amount=0.001';
+
+// Both copies of the 15 format bits, unmasked, as [level bits, mask]
+function readFormat(qr: QrCode): Array<[number, number]> {
+  const { modules, size } = qr;
+  const first = [
+    ...[0, 1, 2, 3, 4, 5, 7].map((row) => modules[row][8]),
+    modules[8][8],
+    ...[7, 5, 4, 3, 2, 1, 0].map((col) => modules[8][col]),
+  ];
+  const second = [
+    ...[0, 1, 2, 3, 4, 5, 6, 7].map((i) => modules[8][size - 1 - i]),
+    ...[7, 6, 5, 4, 3, 2, 1].map((i) => modules[size - i][8]),
+  ];
+  return [first, second].map((bits) => {
+    const value = bits.reduce((acc, bit, i) => acc | (Number(bit) << i), 0) ^ 0x5412;
+    return [value >>> 13, (value >>> 10) & 7];
+  });
+}
+
+describe('qrCodeUtils', () => {
+  describe('encodeQrCode', () => {
+    it('should pick the smallest version that holds the content', () => {
+      expect(encodeQrCode('a'.repeat(14), 'M')).toMatchObject({ version: 1, size: 21 });
+      expect(encodeQrCode('a'.repeat(15), 'M')).toMatchObject({ version: 2, size: 25 });
+      expect(encodeQrCode('a'.repeat(17), 'L').version).toBe(1);
+      expect(encodeQrCode(uri, 'H').version).toBe(6);
+    });
+
+    it('should draw finder patterns in three corners', () => {
+      const { modules, size } = encodeQrCode(uri);
+      for (const [top, left] of [
+        [0, 0],
+        [0, size - 7],
+        [size - 7, 0],
+      ]) {
+        const rings = [0, 1, 2, 3].map((ring) => modules[top + ring][left + ring]);
+        expect(rings).toEqual([true, false, true, true]);
+      }
+    });
+
+    it('should write matching format information for the error correction level', () => {
+      for (const [level, bits] of [
+        ['L', 1],
+        ['M', 0],
+        ['Q', 3],
+        ['H', 2],
+      ] as const) {
+        const [first, second] = readFormat(encodeQrCode(uri, level));
+        expect(first).toEqual(second);
+        expect(first[0]).toBe(bits);
+      }
+    });
+
+    it('should reject content beyond version 40', () => {
+      expect(() => encodeQrCode('a'.repeat(1274), 'H')).toThrow(
+        '1274 bytes do not fit in a QR code at error correction level H',
+      );
+      expect(encodeQrCode('a'.repeat(1273), 'H').version).toBe(40);
+    });
+  });
+
+  describe('renderers', () => {
+    const qr = encodeQrCode(uri);
+
+    it('should render a greyscale PNG with a quiet zone', () => {
+      const png = renderQrPng(qr, { scale: 2 });
+      const width = (qr.size + 8) * 2;
+
+      expect(png.subarray(0, 8).toString('hex')).toBe('89504e470d0a1a0a');
+      expect(png.readUInt32BE(16)).toBe(width);
+      expect(png.readUInt32BE(20)).toBe(width);
+
+      const idatLength = png.readUInt32BE(33);
+      const pixels = zlib.inflateSync(png.subarray(41, 41 + idatLength));
+      expect(pixels).toHaveLength((width + 1) * width);
+      // Quiet zone, then the top-left corner of the finder pattern
+      expect(pixels[1]).toBe(0xff);
+      expect(pixels[8 * (width + 1) + 1 + 8]).toBe(0);
+    });
+
+    it('should render an SVG sized by scale and margin', () => {
+      const svg = renderQrSvg(qr, { scale: 4, margin: 2 });
+      const side = qr.size + 4;
+
+      expect(svg).toContain(`width="${side * 4}" height="${side * 4}"`);
+      expect(svg).toContain(`viewBox="0 0 ${side} ${side}"`);
+      expect(svg).toContain('M2,2h1v1h-1z');
+    });
+
+    it('should render two module rows per line of text', () => {
+      const lines = renderQrText(qr, { margin: 1 }).split('\n');
+
+      expect(lines).toHaveLength(Math.ceil((qr.size + 2) / 2));
+      expect(lines.every((line) => [...line].length === qr.size + 2)).toBe(true);
+      expect(lines[0].startsWith(' ▄▄▄▄▄▄▄ ')).toBe(true);
+    });
+
+    it('should reject a zero scale', () => {
+      expect(() => renderQrPng(qr, { scale: 0 })).toThrow(
+        'QR scale must be a positive integer and margin a non-negative integer',
+      );
+    });
+  });
+});
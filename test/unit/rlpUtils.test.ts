@@ -0,0 +1,60 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { rlpDecode, rlpEncode, toRlpInteger } from '../../nodes/KeepKey/utils/rlpUtils';
+
+const bytes = (text: string): Buffer => Buffer.from(text, 'utf8');
+
+describe('rlpUtils', () => {
+  describe('rlpEncode', () => {
+    it('should encode strings', () => {
+      expect(rlpEncode(bytes('dog')).toString('hex')).toBe('83646f67');
+      expect(rlpEncode(Buffer.alloc(0)).toString('hex')).toBe('80');
+      expect(rlpEncode(Buffer.from([0x0f])).toString('hex')).toBe('0f');
+      expect(rlpEncode(Buffer.from([0x80])).toString('hex')).toBe('8180');
+    });
+
+    it('should encode long strings with a length prefix', () => {
+      const text = 'Lorem ipsum dolor sit amet, consectetur adipisicing elit';
+      expect(rlpEncode(bytes(text)).toString('hex')).toBe(`b838${bytes(text).toString('hex')}`);
+    });
+
+    it('should encode lists', () => {
+      expect(rlpEncode([bytes('cat'), bytes('dog')]).toString('hex')).toBe('c88363617483646f67');
+      expect(rlpEncode([]).toString('hex')).toBe('c0');
+      // The set theoretical representation of three
+      expect(rlpEncode([[], [[]], [[], [[]]]]).toString('hex')).toBe('c7c0c1c0c3c0c1c0');
+    });
+  });
+
+  describe('rlpDecode', () => {
+    it('should round-trip nested items', () => {
+      const item = [bytes('cat'), [bytes('dog'), Buffer.alloc(0)], Buffer.alloc(60, 1)];
+      expect(rlpDecode(rlpEncode(item))).toEqual(item);
+    });
+
+    it('should reject malformed data', () => {
+      expect(() => rlpDecode(Buffer.from('83646f', 'hex'))).toThrow('RLP data is truncated');
+      expect(() => rlpDecode(Buffer.from('83646f6700', 'hex'))).toThrow(
+        'RLP data has trailing bytes',
+      );
+    });
+  });
+
+  describe('toRlpInteger', () => {
+    it('should produce minimal big-endian bytes', () => {
+      expect(toRlpInteger(0)).toEqual(Buffer.alloc(0));
+      expect(toRlpInteger(1024).toString('hex')).toBe('0400');
+      expect(toRlpInteger('1000000000000000000').toString('hex')).toBe('0de0b6b3a7640000');
+      expect(toRlpInteger('0x04a817c800').toString('hex')).toBe('04a817c800');
+    });
+
+    it('should reject negative integers', () => {
+      expect(() => toRlpInteger(-1)).toThrow('Cannot RLP-encode negative integer -1');
+    });
+  });
+});
@@ -18,7 +18,18 @@ import {
   calculateBitcoinFee,
   estimateBitcoinTxSize,
   calculateFeeRate,
+  parseBitcoinTransaction,
+  serializeEthereumTransaction,
+  buildErc20TransferData,
+  toBaseUnits,
+  fromBaseUnits,
+  buildCosmosSendMsg,
+  buildCosmosSignDoc,
+  buildCosmosStdTx,
+  buildThorchainDepositMsg,
+  serializeCosmosSignDoc,
 } from '../../nodes/KeepKey/utils/transactionUtils';
+import { keccak256 } from '../../nodes/KeepKey/utils/hashUtils';
 
 describe('transactionUtils', () => {
   describe('Bitcoin conversions', () => {
@@ -211,6 +222,16 @@ describe('transactionUtils', () => {
       const size = estimateBitcoinTxSize(1, 1, 'legacy');
       expect(size).toBeGreaterThan(0);
     });
+
+    it('should size 2-of-3 multisig inputs by script type', () => {
+      const multisig = { m: 2, n: 3 };
+      // P2WSH: 41 + (2 + 146 + 1 + 105) / 4 = 104.5 vbytes per input, 43 per output
+      expect(estimateBitcoinTxSize(1, 2, 'nativeSegwit', multisig)).toBe(10 + 105 + 86);
+      // P2SH-P2WSH adds the 35-byte scriptSig
+      expect(estimateBitcoinTxSize(1, 2, 'segwit', multisig)).toBe(10 + 140 + 64);
+      // P2SH: 254-byte scriptSig behind a 3-byte length
+      expect(estimateBitcoinTxSize(1, 2, 'legacy', multisig)).toBe(10 + 297 + 64);
+    });
   });
 
   describe('calculateFeeRate', () => {
@@ -231,4 +252,184 @@ describe('transactionUtils', () => {
       expect(Number.isInteger(rate)).toBe(true);
     });
   });
+
+  describe('parseBitcoinTransaction', () => {
+    // Genesis block coinbase
+    const genesisTx =
+      '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04' +
+      'ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e' +
+      '206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73ffffffff0100f205' +
+      '2a01000000434104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6' +
+      'bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000';
+    const genesisTxid = '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b';
+
+    it('should parse a legacy transaction', () => {
+      const tx = parseBitcoinTransaction(genesisTx);
+      expect(tx.txid).toBe(genesisTxid);
+      expect(tx.version).toBe(1);
+      expect(tx.lockTime).toBe(0);
+      expect(tx.inputs).toHaveLength(1);
+      expect(tx.inputs[0].prevHash).toBe('0'.repeat(64));
+      expect(tx.inputs[0].prevIndex).toBe(0xffffffff);
+      expect(tx.inputs[0].sequence).toBe(0xffffffff);
+      expect(tx.outputs).toEqual([
+        { amount: 5000000000, scriptPubKey: expect.stringMatching(/^4104678a.*ac$/) },
+      ]);
+    });
+
+    it('should leave witness data out of the txid', () => {
+      const body = genesisTx.slice(8, -8);
+      const witness = '0102abcd';
+      const segwitTx = '01000000' + '0001' + body + witness + '00000000';
+
+      expect(parseBitcoinTransaction(segwitTx).txid).toBe(genesisTxid);
+    });
+
+    it('should reject malformed transactions', () => {
+      expect(() => parseBitcoinTransaction('xyz')).toThrow('Transaction must be a hex string');
+      expect(() => parseBitcoinTransaction(genesisTx.slice(0, -2))).toThrow(
+        'Transaction is truncated',
+      );
+      expect(() => parseBitcoinTransaction(`${genesisTx}00`)).toThrow(
+        'Transaction has trailing data',
+      );
+    });
+  });
+
+  describe('toBaseUnits', () => {
+    it('should convert decimal amounts exactly', () => {
+      expect(toBaseUnits('1', 18)).toBe('1000000000000000000');
+      expect(toBaseUnits('0.1', 18)).toBe('100000000000000000');
+      expect(toBaseUnits('1.23456789', 8)).toBe('123456789');
+      expect(toBaseUnits('20', 9)).toBe('20000000000');
+      expect(toBaseUnits('.5', 6)).toBe('500000');
+    });
+
+    it('should reject invalid or over-precise amounts', () => {
+      expect(() => toBaseUnits('abc', 18)).toThrow('Invalid amount: abc');
+      expect(() => toBaseUnits('0.0000001', 6)).toThrow('has more than 6 decimal places');
+    });
+  });
+
+  describe('fromBaseUnits', () => {
+    it('should write base units as a trimmed decimal', () => {
+      expect(fromBaseUnits('1500000000000000000', 18)).toBe('1.5');
+      expect(fromBaseUnits('100000', 8)).toBe('0.001');
+      expect(fromBaseUnits('2000000', 6)).toBe('2');
+      expect(fromBaseUnits('0', 8)).toBe('0');
+      expect(fromBaseUnits('42', 0)).toBe('42');
+    });
+
+    it('should reject non-integer base units', () => {
+      expect(() => fromBaseUnits('1.5', 8)).toThrow('Invalid base unit amount: 1.5');
+    });
+  });
+
+  describe('buildErc20TransferData', () => {
+    it('should encode transfer(address,uint256)', () => {
+      expect(buildErc20TransferData('0x3535353535353535353535353535353535353535', '1000000')).toBe(
+        '0xa9059cbb' +
+          '0000000000000000000000003535353535353535353535353535353535353535' +
+          '00000000000000000000000000000000000000000000000000000000000f4240',
+      );
+    });
+  });
+
+  describe('serializeEthereumTransaction', () => {
+    // Example from EIP-155
+    const tx = {
+      nonce: 9,
+      gasPrice: '20000000000',
+      gasLimit: 21000,
+      to: '0x3535353535353535353535353535353535353535',
+      value: '1000000000000000000',
+      chainId: 1,
+    };
+
+    it('should serialize the EIP-155 signing payload', () => {
+      expect(serializeEthereumTransaction(tx)).toBe(
+        '0xec098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a7640000' +
+          '80018080',
+      );
+      const payload = Buffer.from(serializeEthereumTransaction(tx).slice(2), 'hex');
+      expect(keccak256(payload).toString('hex')).toBe(
+        'daf5a779ae972f972197303d7b574746c7ef83eadac0f2791ad23db92e4c8e53',
+      );
+    });
+
+    it('should serialize a signed legacy transaction', () => {
+      const signature = {
+        v: 37,
+        r: '28ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276',
+        s: '67cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83',
+      };
+      expect(serializeEthereumTransaction(tx, signature)).toBe(
+        '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a7640000' +
+          '8025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f' +
+          '761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83',
+      );
+    });
+
+    it('should serialize EIP-1559 transactions with the type prefix', () => {
+      const serialized = serializeEthereumTransaction({
+        ...tx,
+        gasPrice: undefined,
+        maxFeePerGas: '30000000000',
+        maxPriorityFeePerGas: '1500000000',
+        txType: 2,
+      });
+      expect(serialized).toBe(
+        '0x02f001098459682f008506fc23ac00825208943535353535353535353535353535353535353535880de0' +
+          'b6b3a764000080c0',
+      );
+    });
+  });
+
+  describe('serializeCosmosSignDoc', () => {
+    const params = {
+      chainId: 'cosmoshub-4',
+      accountNumber: 12,
+      sequence: 3,
+      denom: 'uatom',
+      fee: '5000',
+      gas: 200000,
+    };
+
+    it('should sort keys and drop whitespace', () => {
+      const msg = buildCosmosSendMsg('cosmos1from', 'cosmos1to', '1000', 'uatom');
+      const signDoc = buildCosmosSignDoc([msg], { ...params, memo: 'hi' });
+      expect(serializeCosmosSignDoc(signDoc).toString()).toBe(
+        '{"account_number":"12","chain_id":"cosmoshub-4",' +
+          '"fee":{"amount":[{"amount":"5000","denom":"uatom"}],"gas":"200000"},"memo":"hi",' +
+          '"msgs":[{"type":"cosmos-sdk/MsgSend",' +
+          '"value":{"amount":[{"amount":"1000","denom":"uatom"}],' +
+          '"from_address":"cosmos1from","to_address":"cosmos1to"}}],"sequence":"3"}',
+      );
+    });
+
+    it('should escape HTML characters like Go', () => {
+      const msg = buildThorchainDepositMsg('thor1signer', '100', 'SWAP:BTC.BTC:bc1q:<1&2>');
+      const json = serializeCosmosSignDoc(buildCosmosSignDoc([msg], params)).toString();
+      expect(json).toContain('"memo":"SWAP:BTC.BTC:bc1q:\\u003c1\\u00262\\u003e"');
+    });
+  });
+
+  describe('buildCosmosStdTx', () => {
+    it('should carry the sign doc fields and a base64 signature', () => {
+      const signDoc = buildCosmosSignDoc([], {
+        chainId: 'osmosis-1',
+        accountNumber: 1,
+        sequence: 0,
+        denom: 'uosmo',
+        fee: '0',
+        gas: 1,
+        memo: 'm',
+      });
+      const stdTx = buildCosmosStdTx(signDoc, Buffer.alloc(33, 2), Buffer.alloc(64, 1));
+      expect(stdTx.memo).toBe('m');
+      expect(stdTx.fee).toEqual({ amount: [{ denom: 'uosmo', amount: '0' }], gas: '1' });
+      expect(stdTx.signatures[0].pub_key.type).toBe('tendermint/PubKeySecp256k1');
+      expect(stdTx.signatures[0].signature).toBe(Buffer.alloc(64, 1).toString('base64'));
+    });
+  });
 });
@@ -0,0 +1,136 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { CONNECTION_TYPES } from '../../nodes/KeepKey/constants/usbIds';
+import { MESSAGE_TYPES } from '../../nodes/KeepKey/constants/events';
+import { KeepKeyClient, createTransport } from '../../nodes/KeepKey/transport/keepkeyClient';
+import {
+  ReplayTransport,
+  RecordingTransport,
+  RecordedSession,
+} from '../../nodes/KeepKey/transport/replayTransport';
+import { pollDevices, TransportDevice } from '../../nodes/KeepKey/transport/transport';
+import { UsbTransport } from '../../nodes/KeepKey/transport/usbTransport';
+import { BridgeTransport } from '../../nodes/KeepKey/transport/bridgeTransport';
+import { DesktopTransport } from '../../nodes/KeepKey/transport/desktopTransport';
+
+const device: TransportDevice = { path: 'replay-1', vendorId: 0x2b24, productId: 0x0001 };
+
+const session: RecordedSession = {
+  device,
+  exchanges: [
+    {
+      request: { type: MESSAGE_TYPES.Initialize, message: {} },
+      response: { type: MESSAGE_TYPES.Features, message: { vendor: 'keepkey.com', label: 'CI' } },
+    },
+    {
+      request: {
+        type: MESSAGE_TYPES.GetAddress,
+        message: { coin_name: 'Bitcoin', address_n: [2147483732, 2147483648, 2147483648, 0, 0] },
+      },
+      response: {
+        type: MESSAGE_TYPES.Address,
+        message: { address: 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu' },
+      },
+    },
+    {
+      request: { type: MESSAGE_TYPES.ClearSession, message: {} },
+      response: { type: MESSAGE_TYPES.Success, message: {} },
+    },
+  ],
+};
+
+describe('transport', () => {
+  describe('createTransport', () => {
+    it('should select the transport for each connection type', () => {
+      expect(createTransport({ connectionType: CONNECTION_TYPES.USB_HID })).toBeInstanceOf(
+        UsbTransport,
+      );
+      expect(createTransport({ connectionType: CONNECTION_TYPES.KEEPKEY_BRIDGE })).toBeInstanceOf(
+        BridgeTransport,
+      );
+      expect(createTransport({ connectionType: CONNECTION_TYPES.KEEPKEY_DESKTOP })).toBeInstanceOf(
+        DesktopTransport,
+      );
+    });
+  });
+
+  describe('KeepKeyClient with ReplayTransport', () => {
+    it('should run a recorded session', async () => {
+      const transport = new ReplayTransport(session);
+      const client = new KeepKeyClient({ connectionType: CONNECTION_TYPES.USB_HID, transport });
+
+      const connected = await client.connect();
+      expect(connected.path).toBe('replay-1');
+      expect(connected.label).toBe('CI');
+
+      const address = await client.getAddress({
+        address_n: [2147483732, 2147483648, 2147483648, 0, 0],
+      });
+      expect(address).toBe('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu');
+
+      await client.disconnect();
+      expect(transport.isComplete()).toBe(true);
+    });
+
+    it('should fail when the client diverges from the recording', async () => {
+      const transport = new ReplayTransport(session);
+      const client = new KeepKeyClient({ connectionType: CONNECTION_TYPES.USB_HID, transport });
+      await client.connect();
+
+      await expect(
+        client.getAddress({ address_n: [2147483692, 2147483648, 2147483648, 0, 0] }),
+      ).rejects.toThrow('Replay mismatch at exchange 1: GetAddress (29) sent');
+      await expect(client.ping()).rejects.toThrow('expected GetAddress (29), got Ping (1)');
+    });
+
+    it('should release the device when connecting fails', async () => {
+      const transport = new ReplayTransport({ device, exchanges: [] });
+      const release = jest.spyOn(transport, 'release');
+      const client = new KeepKeyClient({ connectionType: CONNECTION_TYPES.USB_HID, transport });
+
+      await expect(client.connect()).rejects.toThrow('Recording exhausted: unexpected Initialize');
+      expect(release).toHaveBeenCalled();
+      expect(client.isConnected()).toBe(false);
+    });
+  });
+
+  describe('RecordingTransport', () => {
+    it('should capture a session that replays identically', async () => {
+      const recorder = new RecordingTransport(new ReplayTransport(session));
+      const client = new KeepKeyClient({
+        connectionType: CONNECTION_TYPES.USB_HID,
+        transport: recorder,
+      });
+
+      await client.connect();
+      await client.getAddress({ address_n: [2147483732, 2147483648, 2147483648, 0, 0] });
+      await client.disconnect();
+
+      expect(recorder.getSession()).toEqual(session);
+    });
+  });
+
+  describe('pollDevices', () => {
+    it('should report devices being added and removed', async () => {
+      const second: TransportDevice = { ...device, path: 'replay-2' };
+      const lists = [[device], [device, second], [second]];
+      let call = 0;
+      const events: string[] = [];
+
+      const stop = pollDevices(
+        () => Promise.resolve(lists[Math.min(call++, lists.length - 1)]),
+        (event, d) => events.push(`${event}:${d.path}`),
+        5,
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      stop();
+
+      expect(events).toEqual(['connect:replay-2', 'disconnect:replay-1']);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { MESSAGE_TYPES } from '../../nodes/KeepKey/constants/events';
+import { signTypedData } from '../../nodes/KeepKey/signing/typedDataSigner';
+import { parseTypedData } from '../../nodes/KeepKey/utils/typedDataUtils';
+import { connectReplay, exchange } from '../helpers';
+
+const addressN = [2147483692, 2147483708, 2147483648, 0, 0];
+
+const typedData = parseTypedData({
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+    ],
+    Group: [
+      { name: 'members', type: 'address[]' },
+      { name: 'threshold', type: 'uint8' },
+    ],
+  },
+  primaryType: 'Group',
+  domain: { name: 'Vault', chainId: 1 },
+  message: {
+    members: [
+      '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826',
+      '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB',
+    ],
+    threshold: 2,
+  },
+});
+
+// Signed over the digest of typedData by a throwaway key
+const signer = '0xedfcd93ad5c8706ed293459c9979f32dda53289d';
+const signature =
+  '17f53289eac961e5adc858d3ca50dab056ddca7a1a906c0815a0369312d1aa49' +
+  '5e95acae899b8910b0e98edc8001c944bae70047446fa8b0837a8769e949b9ed1c';
+
+const structRequest = MESSAGE_TYPES.EthereumTypedDataStructRequest;
+const valueRequest = MESSAGE_TYPES.EthereumTypedDataValueRequest;
+
+describe('signTypedData', () => {
+  it('should answer struct and value requests by member path', async () => {
+    const { client, transport } = await connectReplay([
+      exchange(
+        MESSAGE_TYPES.EthereumSignTypedData,
+        { address_n: addressN, primary_type: 'Group', metamask_v4_compat: true },
+        structRequest,
+        { name: 'EIP712Domain' },
+      ),
+      exchange(
+        MESSAGE_TYPES.EthereumTypedDataStructAck,
+        {
+          members: [
+            { name: 'name', type: { data_type: 'STRING' } },
+            { name: 'chainId', type: { data_type: 'UINT', size: 32 } },
+          ],
+        },
+        structRequest,
+        { name: 'Group' },
+      ),
+      exchange(
+        MESSAGE_TYPES.EthereumTypedDataStructAck,
+        {
+          members: [
+            {
+              name: 'members',
+              type: { data_type: 'ARRAY', entry_type: { data_type: 'ADDRESS' } },
+            },
+            { name: 'threshold', type: { data_type: 'UINT', size: 1 } },
+          ],
+        },
+        valueRequest,
+        { member_path: [0, 0] },
+      ),
+      exchange(
+        MESSAGE_TYPES.EthereumTypedDataValueAck,
+        { value: Buffer.from('Vault').toString('hex') },
+        valueRequest,
+        { member_path: [0, 1] },
+      ),
+      exchange(
+        MESSAGE_TYPES.EthereumTypedDataValueAck,
+        { value: `${'00'.repeat(31)}01` },
+        valueRequest,
+        { member_path: [1, 0] },
+      ),
+      exchange(MESSAGE_TYPES.EthereumTypedDataValueAck, { value: '0002' }, valueRequest, {
+        member_path: [1, 0, 1],
+      }),
+      exchange(
+        MESSAGE_TYPES.EthereumTypedDataValueAck,
+        { value: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb' },
+        valueRequest,
+        { member_path: [1, 1] },
+      ),
+      exchange(
+        MESSAGE_TYPES.EthereumTypedDataValueAck,
+        { value: '02' },
+        MESSAGE_TYPES.EthereumTypedDataSignature,
+        { address: signer, signature },
+      ),
+    ]);
+
+    const signed = await signTypedData(client, addressN, typedData);
+
+    expect(signed.address).toBe(signer);
+    expect(signed.signature).toBe(`0x${signature}`);
+    expect(signed.digest).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should cancel when the device asks for a path outside the document', async () => {
+    const { client, transport } = await connectReplay([
+      exchange(
+        MESSAGE_TYPES.EthereumSignTypedData,
+        { address_n: addressN, primary_type: 'Group', metamask_v4_compat: true },
+        valueRequest,
+        { member_path: [1, 0, 5] },
+      ),
+      exchange(MESSAGE_TYPES.Cancel, {}, MESSAGE_TYPES.Failure, { code: 'ActionCancelled' }),
+    ]);
+
+    await expect(signTypedData(client, addressN, typedData)).rejects.toThrow(
+      'Invalid member path 1.0.5',
+    );
+    expect(transport.isComplete()).toBe(true);
+  });
+
+  it('should reject a signature that does not recover the device address', async () => {
+    const { client } = await connectReplay([
+      exchange(
+        MESSAGE_TYPES.EthereumSignTypedData,
+        { address_n: addressN, primary_type: 'Group', metamask_v4_compat: true },
+        MESSAGE_TYPES.EthereumTypedDataSignature,
+        { address: '0x73d0385f4d8e00c5e6504c6030f47bf6212736a8', signature },
+      ),
+    ]);
+
+    await expect(signTypedData(client, addressN, typedData)).rejects.toThrow(
+      'Device signature does not match the locally computed digest',
+    );
+  });
+});
@@ -0,0 +1,113 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  encodeTypedDataType,
+  hashTypedData,
+  parseTypedData,
+  parseTypedDataType,
+} from '../../nodes/KeepKey/utils/typedDataUtils';
+
+// Example from EIP-712
+const mail = {
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+    ],
+    Person: [
+      { name: 'name', type: 'string' },
+      { name: 'wallet', type: 'address' },
+    ],
+    Mail: [
+      { name: 'from', type: 'Person' },
+      { name: 'to', type: 'Person' },
+      { name: 'contents', type: 'string' },
+    ],
+  },
+  primaryType: 'Mail',
+  domain: {
+    name: 'Ether Mail',
+    version: '1',
+    chainId: 1,
+    verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC',
+  },
+  message: {
+    from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+    to: { name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' },
+    contents: 'Hello, Bob!',
+  },
+};
+
+describe('typedDataUtils', () => {
+  describe('hashTypedData', () => {
+    it('should match the EIP-712 example', () => {
+      expect(hashTypedData(parseTypedData(mail))).toEqual({
+        domainHash: '0xf2cee375fa42b42143804025fc449deafd50cc031ca257e0b194a650a912090f',
+        messageHash: '0xc52c0ee5d84264471806290a3f2c4cecfc5490626bf912d01f240d7a274b371e',
+        digest: '0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2',
+      });
+    });
+
+    it('should infer the domain type when it is omitted', () => {
+      const { EIP712Domain: _domain, ...types } = mail.types;
+      expect(hashTypedData(parseTypedData({ ...mail, types })).digest).toBe(
+        '0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2',
+      );
+    });
+
+    it('should reject values that do not fit their type', () => {
+      const typedData = parseTypedData({
+        ...mail,
+        types: { ...mail.types, Mail: [{ name: 'count', type: 'uint8' }] },
+        message: { count: 256 },
+      });
+      expect(() => hashTypedData(typedData)).toThrow('Value 256 does not fit in uint8');
+    });
+  });
+
+  describe('encodeTypedDataType', () => {
+    it('should list dependencies after the primary type', () => {
+      expect(encodeTypedDataType(mail.types, 'Mail')).toBe(
+        'Mail(Person from,Person to,string contents)Person(string name,address wallet)',
+      );
+    });
+  });
+
+  describe('parseTypedDataType', () => {
+    it('should classify types', () => {
+      expect(parseTypedDataType(mail.types, 'uint256')).toEqual({ kind: 'uint', bits: 256 });
+      expect(parseTypedDataType(mail.types, 'int8')).toEqual({ kind: 'int', bits: 8 });
+      expect(parseTypedDataType(mail.types, 'bytes32')).toEqual({ kind: 'bytes', size: 32 });
+      expect(parseTypedDataType(mail.types, 'Person[2]')).toEqual({
+        kind: 'array',
+        entryType: 'Person',
+        length: 2,
+      });
+      expect(parseTypedDataType(mail.types, 'Person')).toEqual({ kind: 'struct', name: 'Person' });
+    });
+
+    it('should reject unknown types', () => {
+      expect(() => parseTypedDataType(mail.types, 'Animal')).toThrow(
+        'Unknown typed data type Animal',
+      );
+      expect(() => parseTypedDataType(mail.types, 'uint7')).toThrow(
+        'Invalid typed data type uint7',
+      );
+    });
+  });
+
+  describe('parseTypedData', () => {
+    it('should require the primary type to be defined', () => {
+      expect(() => parseTypedData({ ...mail, primaryType: 'Letter' })).toThrow(
+        'Typed data primaryType Letter is not defined in types',
+      );
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  UsbTransport,
+  HidDevice,
+  encodeHidPackets,
+  decodeHidPackets,
+  decodeHidHeader,
+} from '../../nodes/KeepKey/transport/usbTransport';
+
+/**
+ * In-memory hidraw device that answers every message with a canned reply
+ */
+class FakeHidDevice implements HidDevice {
+  written: Buffer[] = [];
+  closed = false;
+  private pending: Buffer[] = [];
+  private incoming: Buffer[] = [];
+
+  constructor(
+    private reply: (type: number, payload: Buffer) => { type: number; payload: Buffer },
+  ) {}
+
+  async write(report: Buffer): Promise<void> {
+    this.written.push(report);
+    // hidraw strips the leading report ID
+    this.incoming.push(report.subarray(1));
+
+    const { length } = decodeHidHeader(this.incoming[0]);
+    const received = this.incoming.reduce((sum, p, i) => sum + p.length - (i === 0 ? 9 : 1), 0);
+    if (received >= length) {
+      const request = decodeHidPackets(this.incoming);
+      this.incoming = [];
+      const response = this.reply(request.type, request.payload);
+      this.pending.push(...encodeHidPackets(response.type, response.payload));
+    }
+  }
+
+  async read(timeout: number): Promise<Buffer> {
+    const packet = this.pending.shift();
+    if (!packet) {
+      throw new Error(`Timed out after ${timeout}ms waiting for device`);
+    }
+    return packet;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+function createSysfs(
+  devices: Array<{ name: string; hidId: string; usbInterface: number }>,
+): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'hidraw-'));
+  const classDir = path.join(root, 'class', 'hidraw');
+  fs.mkdirSync(classDir, { recursive: true });
+
+  for (const device of devices) {
+    const hidDir = path.join(
+      root,
+      'devices',
+      `1-1:1.${device.usbInterface}`,
+      `0003:${device.name}`,
+    );
+    fs.mkdirSync(hidDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(hidDir, 'uevent'),
+      `HID_ID=${device.hidId}\nHID_NAME=KeepKey LLC KeepKey\nHID_UNIQ=SN${device.name}\n`,
+    );
+    fs.mkdirSync(path.join(classDir, device.name));
+    fs.symlinkSync(hidDir, path.join(classDir, device.name, 'device'));
+  }
+  return root;
+}
+
+describe('usbTransport', () => {
+  describe('encodeHidPackets', () => {
+    it('should frame a short message in one report', () => {
+      const packets = encodeHidPackets(1, Buffer.from('0a0470696e67', 'hex'));
+      expect(packets).toHaveLength(1);
+      expect(packets[0]).toHaveLength(64);
+      expect(packets[0].subarray(0, 15).toString('hex')).toBe('3f23230001000000060a0470696e67');
+    });
+
+    it('should split long messages into continuation reports', () => {
+      const payload = Buffer.alloc(200, 0xab);
+      const packets = encodeHidPackets(22, payload);
+      expect(packets).toHaveLength(4);
+      expect(packets.every((p) => p[0] === 0x3f && p.length === 64)).toBe(true);
+    });
+  });
+
+  describe('decodeHidPackets', () => {
+    it('should round-trip a message', () => {
+      const payload = Buffer.alloc(300, 7);
+      const decoded = decodeHidPackets(encodeHidPackets(17, payload));
+      expect(decoded.type).toBe(17);
+      expect(decoded.payload.equals(payload)).toBe(true);
+    });
+
+    it('should reject a malformed header', () => {
+      expect(() => decodeHidPackets([Buffer.alloc(64)])).toThrow('Malformed message header');
+    });
+
+    it('should reject incomplete messages', () => {
+      const packets = encodeHidPackets(17, Buffer.alloc(300));
+      expect(() => decodeHidPackets(packets.slice(0, 2))).toThrow('Incomplete message');
+    });
+  });
+
+  describe('enumerate', () => {
+    it('should list KeepKey wallet interfaces only', async () => {
+      const sysfsRoot = createSysfs([
+        { name: 'hidraw0', hidId: '0003:0000046D:0000C52B', usbInterface: 0 },
+        { name: 'hidraw1', hidId: '0003:00002B24:00000001', usbInterface: 0 },
+        { name: 'hidraw2', hidId: '0003:00002B24:00000001', usbInterface: 1 },
+      ]);
+
+      const transport = new UsbTransport({ sysfsRoot, devRoot: '/dev' });
+      const devices = await transport.enumerate();
+
+      expect(devices).toEqual([
+        {
+          vendorId: 0x2b24,
+          productId: 0x0001,
+          path: '/dev/hidraw1',
+          serialNumber: 'SNhidraw1',
+          product: 'KeepKey LLC KeepKey',
+          interface: 0,
+        },
+      ]);
+      fs.rmSync(sysfsRoot, { recursive: true, force: true });
+    });
+
+    it('should return no devices without hidraw support', async () => {
+      const transport = new UsbTransport({ sysfsRoot: path.join(os.tmpdir(), 'no-such-sysfs') });
+      await expect(transport.enumerate()).resolves.toEqual([]);
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should exchange messages with the device', async () => {
+      const device = new FakeHidDevice((type, payload) => ({
+        type: 2,
+        payload: Buffer.concat([Buffer.from([type]), payload, Buffer.alloc(100, 1)]),
+      }));
+      const transport = new UsbTransport({
+        devicePath: '/dev/hidraw1',
+        openDevice: async () => device,
+      });
+
+      await transport.connect();
+      const response = await transport.sendMessage(1, Buffer.from('ping'));
+
+      expect(device.written[0]).toHaveLength(65);
+      expect(device.written[0][0]).toBe(0x00);
+      expect(response.type).toBe(2);
+      expect(response.payload).toHaveLength(105);
+      expect(response.payload.subarray(0, 5).toString('hex')).toBe('0170696e67');
+
+      await transport.disconnect();
+      expect(device.closed).toBe(true);
+      expect(transport.isConnected()).toBe(false);
+    });
+
+    it('should fail when no device is found', async () => {
+      const transport = new UsbTransport({ sysfsRoot: path.join(os.tmpdir(), 'no-such-sysfs') });
+      await expect(transport.connect()).rejects.toThrow('No KeepKey device found');
+    });
+  });
+});